@@ -4,13 +4,18 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/lib/auth-context";
+import type { Permission } from "@shared/permissions";
 import { ThemeProvider } from "@/lib/theme-context";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { ImpersonationBanner } from "@/components/impersonation-banner";
 import { Skeleton } from "@/components/ui/skeleton";
 
 import LoginPage from "@/pages/login";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
+import ChangePasswordPage from "@/pages/change-password";
 import DashboardPage from "@/pages/dashboard";
 import UserDashboardPage from "@/pages/user";
 import FilesPage from "@/pages/files";
@@ -19,13 +24,20 @@ import ConvertPage from "@/pages/convert";
 import SharedPage from "@/pages/shared";
 import AnalyticsPage from "@/pages/analytics";
 import SearchPage from "@/pages/search";
+import SecurityPage from "@/pages/security";
+import TrashPage from "@/pages/trash";
 import AdminDashboard from "@/pages/admin/index";
 import UserManagementPage from "@/pages/admin/users";
 import AuditLogsPage from "@/pages/admin/audit";
 import ActivityTrackingPage from "@/pages/admin/activity";
 import EmployeeManagementPage from "@/pages/admin/employees";
+import SettingsPage from "@/pages/admin/settings";
+import OrganizationsPage from "@/pages/admin/organizations";
+import TagsPage from "@/pages/admin/tags";
+import RetentionPage from "@/pages/admin/retention";
 import NotFound from "@/pages/not-found";
 import LandingPage from "@/pages/landing";
+import PublicSharePage from "@/pages/public-share";
 
 function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
   const { isAuthenticated, isLoading } = useAuth();
@@ -110,6 +122,65 @@ function AdminRoute({ component: Component }: { component: React.ComponentType }
   return <Component />;
 }
 
+// Super Admins and Org Admins; the server scopes Org Admins to their own organization.
+function OrgAdminRoute({ component: Component }: { component: React.ComponentType }) {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [location, setLocation] = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="space-y-4 w-full max-w-md p-8">
+          <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+          <Skeleton className="h-4 w-3/4 mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    const encoded = encodeURIComponent(location);
+    setLocation(`/login?next=${encoded}`);
+    return null;
+  }
+
+  if (user?.role !== "SUPER_ADMIN" && user?.role !== "ORG_ADMIN") {
+    setLocation("/admin");
+    return null;
+  }
+
+  return <Component />;
+}
+
+function PermissionRoute({ component: Component, permission }: { component: React.ComponentType; permission: Permission }) {
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const [location, setLocation] = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="space-y-4 w-full max-w-md p-8">
+          <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+          <Skeleton className="h-4 w-3/4 mx-auto" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    const encoded = encodeURIComponent(location);
+    setLocation(`/login?next=${encoded}`);
+    return null;
+  }
+
+  if (!can(permission)) {
+    setLocation("/user");
+    return null;
+  }
+
+  return <Component />;
+}
+
 function MainLayout({ children }: { children: React.ReactNode }) {
   const style = {
     "--sidebar-width": "16rem",
@@ -121,6 +192,7 @@ function MainLayout({ children }: { children: React.ReactNode }) {
       <div className="flex h-screen w-full">
         <AppSidebar />
         <div className="flex flex-col flex-1 overflow-hidden">
+          <ImpersonationBanner />
           <header className="flex items-center justify-between gap-4 px-4 py-3 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <ThemeToggle />
@@ -145,31 +217,37 @@ function AuthenticatedRoutes() {
           <ProtectedRoute component={UserDashboardPage} />
         </Route>
         <Route path="/files">
-          <ProtectedRoute component={FilesPage} />
+          <PermissionRoute component={FilesPage} permission="documents:read" />
         </Route>
         <Route path="/documents">
-          <ProtectedRoute component={DocumentsPage} />
+          <PermissionRoute component={DocumentsPage} permission="documents:read" />
         </Route>
         <Route path="/convert">
-          <ProtectedRoute component={ConvertPage} />
+          <PermissionRoute component={ConvertPage} permission="files:convert" />
         </Route>
         <Route path="/shared">
           <ProtectedRoute component={SharedPage} />
         </Route>
+        <Route path="/security">
+          <ProtectedRoute component={SecurityPage} />
+        </Route>
         <Route path="/analytics">
-          <AdminRoute component={AnalyticsPage} />
+          <PermissionRoute component={AnalyticsPage} permission="analytics:read" />
         </Route>
         <Route path="/search">
-          <AdminRoute component={SearchPage} />
+          <PermissionRoute component={SearchPage} permission="documents:read" />
+        </Route>
+        <Route path="/trash">
+          <PermissionRoute component={TrashPage} permission="documents:read" />
         </Route>
         <Route path="/admin/employees">
-          <SuperAdminRoute component={EmployeeManagementPage} />
+          <PermissionRoute component={EmployeeManagementPage} permission="users:manage" />
         </Route>
         <Route path="/admin/admin/users">
-          <SuperAdminRoute component={UserManagementPage} />
+          <PermissionRoute component={UserManagementPage} permission="users:manage" />
         </Route>
         <Route path="/admin/user-management">
-          <SuperAdminRoute component={UserManagementPage} />
+          <PermissionRoute component={UserManagementPage} permission="users:manage" />
         </Route>
         <Route path="/admin" nest>
           <Switch>
@@ -177,7 +255,7 @@ function AuthenticatedRoutes() {
               <AdminRoute component={AdminDashboard} />
             </Route>
             <Route path="/users">
-              <SuperAdminRoute component={UserManagementPage} />
+              <PermissionRoute component={UserManagementPage} permission="users:manage" />
             </Route>
             <Route path="/audit">
               <SuperAdminRoute component={AuditLogsPage} />
@@ -186,7 +264,16 @@ function AuthenticatedRoutes() {
               <AdminRoute component={ActivityTrackingPage} />
             </Route>
             <Route path="/settings">
-              <AdminRoute component={AdminDashboard} />
+              <OrgAdminRoute component={SettingsPage} />
+            </Route>
+            <Route path="/organizations">
+              <SuperAdminRoute component={OrganizationsPage} />
+            </Route>
+            <Route path="/tags">
+              <OrgAdminRoute component={TagsPage} />
+            </Route>
+            <Route path="/retention">
+              <OrgAdminRoute component={RetentionPage} />
             </Route>
             <Route>
               <NotFound />
@@ -202,7 +289,7 @@ function AuthenticatedRoutes() {
 }
 
 function Router() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, impersonation } = useAuth();
   const [location] = useLocation();
 
   if (isLoading) {
@@ -216,6 +303,18 @@ function Router() {
     );
   }
 
+  // Accounts on a temporary password cannot use the app until they set their own.
+  // An impersonating admin cannot change the user's password, so skip this.
+  if (
+    isAuthenticated &&
+    user?.mustChangePassword &&
+    !impersonation &&
+    location !== "/change-password" &&
+    !location.startsWith("/s/")
+  ) {
+    return <Redirect to="/change-password" />;
+  }
+
   if (location === "/") {
     if (isAuthenticated) {
       if (user?.role === "SUPER_ADMIN") {
@@ -234,6 +333,18 @@ function Router() {
       <Route path="/login">
         {isAuthenticated ? <Redirect to="/" /> : <LoginPage />}
       </Route>
+      <Route path="/forgot-password">
+        {isAuthenticated ? <Redirect to="/" /> : <ForgotPasswordPage />}
+      </Route>
+      <Route path="/reset-password">
+        <ResetPasswordPage />
+      </Route>
+      <Route path="/s/:code">
+        <PublicSharePage />
+      </Route>
+      <Route path="/change-password">
+        {isAuthenticated ? <ChangePasswordPage /> : <Redirect to="/login" />}
+      </Route>
       <Route path="/:rest*">
         <AuthenticatedRoutes />
       </Route>
@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { ApiTokenScope } from "@shared/schema";
+
+interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  status: "active" | "expired" | "revoked";
+}
+
+const scopeOptions: { value: ApiTokenScope; label: string; description: string; adminOnly?: boolean }[] = [
+  { value: "documents:read", label: "documents:read", description: "List, search and download documents and folders" },
+  { value: "documents:write", label: "documents:write", description: "Upload, edit and delete documents and folders" },
+  { value: "file-ops", label: "file-ops", description: "Merge, split, convert and other file operations" },
+  { value: "admin", label: "admin", description: "Everything your role allows, including admin endpoints", adminOnly: true },
+];
+
+const expiryOptions = [7, 30, 90, 365];
+
+function CreateTokenDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["documents:read"]);
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "SUPER_ADMIN" || user?.role === "ORG_ADMIN";
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tokens", { name, scopes, expiresInDays: Number(expiresInDays) });
+      return res.json() as Promise<ApiTokenSummary & { token: string }>;
+    },
+    onSuccess: (data) => {
+      setCreatedToken(data.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: (error) => {
+      toast({ title: "Could not create token", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const close = () => {
+    onOpenChange(false);
+    setName("");
+    setScopes(["documents:read"]);
+    setExpiresInDays("30");
+    setCreatedToken(null);
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{createdToken ? "Token created" : "New personal access token"}</DialogTitle>
+          <DialogDescription>
+            {createdToken
+              ? "Copy this token now. It will not be shown again."
+              : "Tokens act as you, limited to the scopes you choose."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdToken ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" data-testid="input-created-token" />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={async () => {
+                  await navigator.clipboard.writeText(createdToken);
+                  toast({ title: "Token copied" });
+                }}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Send it as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span>.
+            </p>
+            <DialogFooter>
+              <Button className="gradient-bg text-white" onClick={close}>
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="token-name">Name</Label>
+              <Input
+                id="token-name"
+                placeholder="Nightly export script"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-token-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {scopeOptions
+                .filter((option) => !option.adminOnly || isAdmin)
+                .map((option) => (
+                  <label key={option.value} className="flex items-start gap-3 rounded-md border p-3 cursor-pointer">
+                    <Checkbox
+                      checked={scopes.includes(option.value)}
+                      onCheckedChange={(checked) => toggleScope(option.value, checked === true)}
+                      data-testid={`checkbox-scope-${option.value}`}
+                    />
+                    <div>
+                      <p className="text-sm font-mono">{option.label}</p>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                  </label>
+                ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Expires after</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger data-testid="select-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {expiryOptions.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={close}>
+                Cancel
+              </Button>
+              <Button
+                className="gradient-bg text-white"
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                onClick={() => createMutation.mutate()}
+                data-testid="button-create-token"
+              >
+                {createMutation.isPending ? "Creating..." : "Create token"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ApiTokensCard() {
+  const [showCreate, setShowCreate] = useState(false);
+  const { toast } = useToast();
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({ title: "Token revoked" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not revoke token", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              Personal Access Tokens
+            </CardTitle>
+            <CardDescription className="mt-1">Tokens for scripts and integrations that call the API as you.</CardDescription>
+          </div>
+          <Button variant="outline" onClick={() => setShowCreate(true)} data-testid="button-new-token">
+            <Plus className="h-4 w-4 mr-2" />
+            New token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-14 w-full" />
+        ) : !tokens?.length ? (
+          <p className="text-sm text-muted-foreground">You have no personal access tokens.</p>
+        ) : (
+          <div className="divide-y rounded-md border" data-testid="list-api-tokens">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-center gap-4 p-3" data-testid={`api-token-${token.id}`}>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">{token.name}</span>
+                    <span className="text-xs font-mono text-muted-foreground">{token.tokenPrefix}…</span>
+                    {token.status !== "active" && (
+                      <Badge variant={token.status === "revoked" ? "destructive" : "secondary"} className="text-xs">
+                        {token.status === "revoked" ? "Revoked" : "Expired"}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="outline" className="text-xs font-mono">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Last used{" "}
+                    {token.lastUsedAt
+                      ? `${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}`
+                      : "never"}{" "}
+                    · Expires {new Date(token.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                {token.status === "active" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    data-testid={`button-revoke-token-${token.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CreateTokenDialog open={showCreate} onOpenChange={setShowCreate} />
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import {
   Sidebar,
   SidebarContent,
@@ -20,43 +21,72 @@ import {
   Activity,
   Share2,
   Settings,
+  Tags,
+  ScrollText,
   LogOut,
   Shield,
   BarChart3,
   Search,
+  ShieldCheck,
+  Building,
+  Trash2,
+  type LucideIcon,
 } from "lucide-react";
+import type { Permission } from "@shared/permissions";
+import type { Organization } from "@shared/schema";
 import { useAuth } from "@/lib/auth-context";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import logoUrl from "@assets/udaan-logo.svg";
 
-const userMenuItems = [
+// Items are shown when the user has the listed permission or, for items not
+// tied to one, when their role is listed.
+interface MenuItem {
+  title: string;
+  url: string;
+  icon: LucideIcon;
+  roles?: string[];
+  permission?: Permission;
+}
+
+const userMenuItems: MenuItem[] = [
   { title: "My Dashboard", url: "/user", icon: LayoutDashboard, roles: ["SUPER_ADMIN", "ORG_ADMIN", "MANAGER", "STAFF", "VIEWER"] },
-  { title: "My Files", url: "/files", icon: FolderOpen, roles: ["SUPER_ADMIN"] },
-  { title: "Documents", url: "/documents", icon: FileText, roles: ["SUPER_ADMIN"] },
-  { title: "Search", url: "/search", icon: Search, roles: ["SUPER_ADMIN"] },
-  { title: "Convert Files", url: "/convert", icon: RefreshCw, roles: ["SUPER_ADMIN"] },
-  { title: "Analytics", url: "/analytics", icon: BarChart3, roles: ["SUPER_ADMIN"] },
+  { title: "My Files", url: "/files", icon: FolderOpen, permission: "documents:read" },
+  { title: "Documents", url: "/documents", icon: FileText, permission: "documents:read" },
+  { title: "Search", url: "/search", icon: Search, permission: "documents:read" },
+  { title: "Convert Files", url: "/convert", icon: RefreshCw, permission: "files:convert" },
+  { title: "Analytics", url: "/analytics", icon: BarChart3, permission: "analytics:read" },
   { title: "Shared with Me", url: "/shared", icon: Share2, roles: ["SUPER_ADMIN", "ORG_ADMIN", "MANAGER", "STAFF", "VIEWER"] },
+  { title: "Recycle Bin", url: "/trash", icon: Trash2, permission: "documents:read" },
+  { title: "Security", url: "/security", icon: ShieldCheck, roles: ["SUPER_ADMIN", "ORG_ADMIN", "MANAGER", "STAFF", "VIEWER"] },
 ];
 
-const adminMenuItems = [
+const adminMenuItems: MenuItem[] = [
   { title: "Dashboard", url: "/admin", icon: LayoutDashboard, roles: ["SUPER_ADMIN", "ORG_ADMIN", "MANAGER"] },
-  { title: "User Management", url: "/admin/user-management", icon: Users, roles: ["SUPER_ADMIN"] },
-  { title: "Employee Management System", url: "/admin/employees", icon: Users, roles: ["SUPER_ADMIN"] },
+  { title: "Organizations", url: "/admin/organizations", icon: Building, roles: ["SUPER_ADMIN"] },
+  { title: "User Management", url: "/admin/user-management", icon: Users, permission: "users:manage" },
+  { title: "Employee Management System", url: "/admin/employees", icon: Users, permission: "users:manage" },
   { title: "Audit Logs", url: "/admin/audit", icon: Activity, roles: ["SUPER_ADMIN"] },
   { title: "Activity Tracking", url: "/admin/activity", icon: Shield, roles: ["SUPER_ADMIN", "ORG_ADMIN", "MANAGER"] },
-  { title: "Settings", url: "/admin/settings", icon: Settings, roles: ["SUPER_ADMIN"] },
+  { title: "Tags", url: "/admin/tags", icon: Tags, roles: ["SUPER_ADMIN", "ORG_ADMIN"] },
+  { title: "Retention", url: "/admin/retention", icon: ScrollText, roles: ["SUPER_ADMIN", "ORG_ADMIN"] },
+  { title: "Settings", url: "/admin/settings", icon: Settings, roles: ["SUPER_ADMIN", "ORG_ADMIN"] },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
+  const { data: organization } = useQuery<Organization | null>({
+    queryKey: ["/api/organizations/current"],
+    enabled: user?.role === "ORG_ADMIN",
+  });
   
   const isAdmin = user?.role === "SUPER_ADMIN" || user?.role === "ORG_ADMIN" || user?.role === "MANAGER";
+  const isVisible = (item: MenuItem) =>
+    item.permission ? can(item.permission) : !!item.roles?.includes(user?.role || "");
   const menuItems = location.startsWith("/admin") 
-    ? adminMenuItems.filter(item => item.roles.includes(user?.role || ""))
-    : userMenuItems.filter(item => item.roles.includes(user?.role || ""));
+    ? adminMenuItems.filter(isVisible)
+    : userMenuItems.filter(isVisible);
 
   const getInitials = (firstName: string, lastName: string) => {
     return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
@@ -165,6 +195,7 @@ export function AppSidebar() {
             </p>
             <p className="text-xs text-muted-foreground truncate">
               {user?.role?.replace("_", " ")}
+              {organization ? ` · ${organization.name}` : ""}
             </p>
           </div>
           <Button
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Check, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+
+export interface PasswordPolicyRules {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  blockCommonPasswords: boolean;
+  historyCount: number;
+}
+
+const changePasswordFormSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: z.string().min(1, "New password is required"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ChangePasswordFormData = z.infer<typeof changePasswordFormSchema>;
+
+function policyRequirements(policy: PasswordPolicyRules, password: string) {
+  const requirements = [
+    { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+  ];
+  if (policy.requireUppercase) requirements.push({ label: "An uppercase letter", met: /[A-Z]/.test(password) });
+  if (policy.requireLowercase) requirements.push({ label: "A lowercase letter", met: /[a-z]/.test(password) });
+  if (policy.requireNumber) requirements.push({ label: "A number", met: /\d/.test(password) });
+  if (policy.requireSymbol) requirements.push({ label: "A symbol", met: /[^A-Za-z0-9]/.test(password) });
+  return requirements;
+}
+
+export function ChangePasswordForm({ onSuccess }: { onSuccess?: () => void }) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { refreshUser } = useAuth();
+  const { toast } = useToast();
+
+  const { data: policy } = useQuery<PasswordPolicyRules>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordFormSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const newPassword = form.watch("newPassword");
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setIsSubmitting(true);
+    try {
+      await apiRequest("POST", "/api/auth/change-password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      await refreshUser();
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      form.reset();
+      toast({ title: "Password changed", description: "Other devices have been signed out." });
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Could not change password",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const passwordField = (name: keyof ChangePasswordFormData, label: string, testId: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input type="password" className="pl-10" data-testid={testId} {...field} />
+            </div>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {passwordField("currentPassword", "Current password", "input-current-password")}
+        {passwordField("newPassword", "New password", "input-new-password")}
+        {policy && (
+          <ul className="grid gap-1 text-xs sm:grid-cols-2" data-testid="list-password-requirements">
+            {policyRequirements(policy, newPassword).map((requirement) => (
+              <li
+                key={requirement.label}
+                className={`flex items-center gap-1.5 ${requirement.met ? "text-green-600 dark:text-green-400" : "text-muted-foreground"}`}
+              >
+                <Check className={`h-3 w-3 ${requirement.met ? "opacity-100" : "opacity-30"}`} />
+                {requirement.label}
+              </li>
+            ))}
+            {policy.historyCount > 0 && (
+              <li className="text-muted-foreground sm:col-span-2">
+                Can't match any of your last {policy.historyCount} passwords
+              </li>
+            )}
+          </ul>
+        )}
+        {passwordField("confirmPassword", "Confirm new password", "input-confirm-password")}
+        <Button
+          type="submit"
+          className="w-full gradient-bg text-white font-medium"
+          disabled={isSubmitting}
+          data-testid="button-change-password"
+        >
+          {isSubmitting ? "Updating..." : "Change password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
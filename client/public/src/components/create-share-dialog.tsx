@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Copy, Download, Edit2, Eye, type LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { sharePermissionLevels, type SharePermission } from "@shared/permissions";
+import type { ShareCodeSummary } from "@shared/schema";
+
+export const sharePermissionDetails: Record<SharePermission, { label: string; icon: LucideIcon }> = {
+  VIEW: { label: "View only", icon: Eye },
+  DOWNLOAD: { label: "View and download", icon: Download },
+  EDIT: { label: "Download and upload new versions", icon: Edit2 },
+};
+
+// Public page where people without an account can open a share.
+export function shareLinkFor(code: string): string {
+  return `${window.location.origin}/s/${code}`;
+}
+
+export interface ShareTarget {
+  folderId?: string;
+  documentId?: string;
+  name: string;
+}
+
+export function CreateShareDialog({
+  target,
+  onOpenChange,
+}: {
+  target: ShareTarget | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [permission, setPermission] = useState<SharePermission>("VIEW");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [maxUsages, setMaxUsages] = useState("");
+  const [password, setPassword] = useState("");
+  const [recipients, setRecipients] = useState("");
+  const [created, setCreated] = useState<ShareCodeSummary | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (target) {
+      setPermission("VIEW");
+      setExpiresAt("");
+      setMaxUsages("");
+      setPassword("");
+      setRecipients("");
+      setCreated(null);
+      setCopied(false);
+    }
+  }, [target]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/shares", {
+        folderId: target!.folderId ?? null,
+        documentId: target!.documentId ?? null,
+        permission,
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+        maxUsages: maxUsages ? Number(maxUsages) : null,
+        password: password || null,
+        recipients: recipients.split(/[\s,;]+/).filter(Boolean),
+      });
+      return (await res.json()) as ShareCodeSummary;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares/created"] });
+      setCreated(share);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create share", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(shareLinkFor(created.code));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share "{target?.name}"</DialogTitle>
+          <DialogDescription>
+            Anyone who redeems the code gets the access you choose here until it expires or you revoke it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {created ? (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-center gap-3 rounded-md border p-4">
+              <span className="font-mono text-2xl font-bold tracking-widest" data-testid="text-created-share-code">
+                {created.code}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={shareLinkFor(created.code)} className="font-mono text-sm" data-testid="input-created-share-link" />
+              <Button variant="outline" size="icon" onClick={copyLink} title="Copy link" data-testid="button-copy-created-link">
+                {copied ? <Check className="h-4 w-4 text-accent" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground text-center">
+              {sharePermissionDetails[created.permission].label}
+              {created.hasPassword && " · password protected"}
+            </p>
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)} data-testid="button-close-share">
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Permission Level</Label>
+              <Select value={permission} onValueChange={(v) => setPermission(v as SharePermission)}>
+                <SelectTrigger data-testid="select-share-permission">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sharePermissionLevels.map((level) => {
+                    const { label, icon: Icon } = sharePermissionDetails[level];
+                    return (
+                      <SelectItem key={level} value={level}>
+                        <div className="flex items-center gap-2">
+                          <Icon className="h-4 w-4" />
+                          {label}
+                        </div>
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="share-expires-at">Expires on</Label>
+                <Input
+                  id="share-expires-at"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  data-testid="input-share-expires-at"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-max-usages">Max recipients</Label>
+                <Input
+                  id="share-max-usages"
+                  type="number"
+                  min={1}
+                  value={maxUsages}
+                  onChange={(e) => setMaxUsages(e.target.value)}
+                  placeholder="Unlimited"
+                  data-testid="input-share-max-usages"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="No password"
+                data-testid="input-share-password"
+              />
+              <p className="text-xs text-muted-foreground">Recipients must enter it along with the code or link.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-recipients">Only these people (optional)</Label>
+              <Input
+                id="share-recipients"
+                value={recipients}
+                onChange={(e) => setRecipients(e.target.value)}
+                placeholder="Anyone with the code"
+                data-testid="input-share-recipients"
+              />
+              <p className="text-xs text-muted-foreground">
+                Email addresses, separated by commas. Colleagues redeem with their account; anyone else confirms their
+                address with a one-time code we email them.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="gradient-bg text-white"
+                disabled={createMutation.isPending}
+                data-testid="button-confirm-share"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Code"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
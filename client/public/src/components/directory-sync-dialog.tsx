@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowRight, Eye, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+interface DirectorySyncChange {
+  action: "create" | "update" | "deactivate";
+  userId?: string;
+  username: string;
+  email: string;
+  fields: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface DirectorySyncReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  summary: {
+    directoryEntries: number;
+    created: number;
+    updated: number;
+    deactivated: number;
+    unchanged: number;
+    departmentsCreated: number;
+    errors: number;
+  };
+  departments: { name: string; code: string }[];
+  changes: DirectorySyncChange[];
+  errors: string[];
+}
+
+export interface DirectorySyncStatus {
+  configured: boolean;
+  intervalMinutes: number;
+  departmentSource: "ou" | "group" | null;
+  running: boolean;
+  lastReport: DirectorySyncReport | null;
+}
+
+const actionVariants = {
+  create: "default",
+  update: "secondary",
+  deactivate: "destructive",
+} as const;
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+}
+
+function SyncReport({ report }: { report: DirectorySyncReport }) {
+  const { summary } = report;
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+        {[
+          { label: "Create", value: summary.created },
+          { label: "Update", value: summary.updated },
+          { label: "Deactivate", value: summary.deactivated },
+          { label: "Unchanged", value: summary.unchanged },
+        ].map((item) => (
+          <div key={item.label} className="rounded-md border p-3">
+            <p className="text-2xl font-bold">{item.value}</p>
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.departments.length > 0 && (
+        <p className="text-sm">
+          New departments:{" "}
+          {report.departments.map((d) => (
+            <Badge key={d.code} variant="outline" className="mr-1">
+              {d.name} ({d.code})
+            </Badge>
+          ))}
+        </p>
+      )}
+
+      {report.changes.length > 0 ? (
+        <div className="max-h-72 overflow-y-auto divide-y rounded-md border" data-testid="list-sync-changes">
+          {report.changes.map((change) => (
+            <div key={`${change.action}-${change.email}`} className="p-3 space-y-1">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant={actionVariants[change.action]} className="text-xs capitalize">
+                  {change.action}
+                </Badge>
+                <span className="font-medium">{change.username}</span>
+                <span className="text-muted-foreground">{change.email}</span>
+              </div>
+              {Object.entries(change.fields).map(([field, { from, to }]) => (
+                <p key={field} className="text-xs text-muted-foreground flex items-center gap-1">
+                  <span className="font-mono">{field}</span>: {formatValue(from)}
+                  <ArrowRight className="h-3 w-3" />
+                  <span className="text-foreground">{formatValue(to)}</span>
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Everything is already in sync with the directory.</p>
+      )}
+
+      {report.errors.length > 0 && (
+        <div className="rounded-md border border-destructive/50 p-3 space-y-1">
+          <p className="text-sm font-medium text-destructive">{report.errors.length} entries could not be synced</p>
+          {report.errors.slice(0, 20).map((error) => (
+            <p key={error} className="text-xs text-muted-foreground break-all">
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DirectorySyncDialog({
+  open,
+  onOpenChange,
+  status,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  status: DirectorySyncStatus;
+}) {
+  const [report, setReport] = useState<DirectorySyncReport | null>(null);
+  const { toast } = useToast();
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await apiRequest("POST", "/api/directory-sync/run", { dryRun });
+      return res.json() as Promise<DirectorySyncReport>;
+    },
+    onSuccess: (data) => {
+      setReport(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/directory-sync"] });
+      if (!data.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/departments"] });
+        toast({ title: "Directory sync complete" });
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Directory sync failed", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const shown = report ?? status.lastReport;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setReport(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Directory Sync</DialogTitle>
+          <DialogDescription>
+            Employees and departments are synced from LDAP
+            {status.departmentSource === "group" ? " groups" : " organizational units"}.
+            {status.intervalMinutes > 0
+              ? ` Runs automatically every ${status.intervalMinutes} minutes.`
+              : " Scheduled sync is off."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {shown ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {shown.dryRun ? "Preview" : "Last sync"} from{" "}
+              {formatDistanceToNow(new Date(shown.finishedAt), { addSuffix: true })} ·{" "}
+              {shown.summary.directoryEntries} directory entries
+            </p>
+            <SyncReport report={shown} />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Preview the changes first. Nothing is written until you apply them.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={runMutation.isPending || status.running}
+            onClick={() => runMutation.mutate(true)}
+            data-testid="button-preview-sync"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            Preview changes
+          </Button>
+          <Button
+            className="gradient-bg text-white"
+            disabled={runMutation.isPending || status.running || !report?.dryRun}
+            onClick={() => runMutation.mutate(false)}
+            data-testid="button-apply-sync"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${runMutation.isPending ? "animate-spin" : ""}`} />
+            Apply sync
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { TagChips } from "@/components/document-tags";
+import {
+  MetadataInputs,
+  formatMetadataValue,
+  toFormValues,
+  type MetadataFormValues,
+} from "@/components/metadata-inputs";
+import type { DocumentWithTags, FolderMetadataField } from "@shared/schema";
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="col-span-2 break-words">{children}</dd>
+    </div>
+  );
+}
+
+export function DocumentDetailsPanel({
+  document: doc,
+  canEdit,
+  onOpenChange,
+}: {
+  document: DocumentWithTags | null;
+  canEdit: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [values, setValues] = useState<MetadataFormValues>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setEditing(false);
+    setValues(toFormValues(doc?.metadata));
+    // Only when another document is opened, not when this one is refetched.
+  }, [doc?.id]);
+
+  const { data: fields = [], isLoading: fieldsLoading } = useQuery<FolderMetadataField[]>({
+    queryKey: ["/api/folders", doc?.folderId, "metadata-fields"],
+    enabled: !!doc?.folderId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PATCH", `/api/documents/${doc!.id}`, { metadata: values }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      setEditing(false);
+      toast({ title: "Details saved" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save details", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Sheet open={!!doc} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            {doc?.title}
+          </SheetTitle>
+          {doc?.description && <SheetDescription>{doc.description}</SheetDescription>}
+        </SheetHeader>
+
+        {doc && (
+          <div className="mt-6 space-y-6">
+            <dl className="space-y-2">
+              <DetailRow label="File name">{doc.originalName}</DetailRow>
+              <DetailRow label="Type">{doc.mimeType}</DetailRow>
+              <DetailRow label="Size">{formatSize(doc.sizeBytes)}</DetailRow>
+              <DetailRow label="Status">
+                <Badge variant="secondary">{doc.status}</Badge>
+              </DetailRow>
+              {doc.legalHold && (
+                <DetailRow label="Legal hold">
+                  <Badge variant="destructive">Held</Badge>
+                  {doc.legalHoldReason && <p className="mt-1 text-muted-foreground">{doc.legalHoldReason}</p>}
+                </DetailRow>
+              )}
+              {doc.checksum && (
+                <DetailRow label="SHA-256">
+                  <span className="font-mono text-xs break-all" data-testid="text-document-checksum">{doc.checksum}</span>
+                </DetailRow>
+              )}
+              <DetailRow label="Uploaded">{new Date(doc.uploadedAt).toLocaleString()}</DetailRow>
+              <DetailRow label="Updated">{new Date(doc.updatedAt).toLocaleString()}</DetailRow>
+              {doc.tags.length > 0 && (
+                <DetailRow label="Tags">
+                  <TagChips tags={doc.tags} />
+                </DetailRow>
+              )}
+            </dl>
+
+            {doc.folderId && (
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium">Metadata</h3>
+                  {canEdit && fields.length > 0 && !editing && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setValues(toFormValues(doc.metadata));
+                        setEditing(true);
+                      }}
+                      data-testid="button-edit-metadata"
+                    >
+                      Edit
+                    </Button>
+                  )}
+                </div>
+                {fieldsLoading ? (
+                  <Skeleton className="h-16 w-full" />
+                ) : fields.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This folder has no metadata fields.</p>
+                ) : editing ? (
+                  <form
+                    className="space-y-4"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      saveMutation.mutate();
+                    }}
+                  >
+                    <MetadataInputs fields={fields} values={values} onChange={setValues} />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => {
+                          setValues(toFormValues(doc.metadata));
+                          setEditing(false);
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        className="gradient-bg text-white"
+                        disabled={saveMutation.isPending}
+                        data-testid="button-save-metadata"
+                      >
+                        {saveMutation.isPending ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </form>
+                ) : (
+                  <dl className="space-y-2">
+                    {fields.map((field) => (
+                      <DetailRow key={field.id} label={field.label}>
+                        {formatMetadataValue(field, doc.metadata[field.key])}
+                      </DetailRow>
+                    ))}
+                  </dl>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, Tag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { DocumentWithTags, TagCount } from "@shared/schema";
+
+export function TagChips({
+  tags,
+  onRemove,
+  className = "",
+}: {
+  tags: string[];
+  onRemove?: (tag: string) => void;
+  className?: string;
+}) {
+  if (tags.length === 0) return null;
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {tags.map((tag) => (
+        <Badge key={tag} variant="outline" className="text-xs font-normal" data-testid={`chip-tag-${tag}`}>
+          <Tag className="h-3 w-3 mr-1" />
+          {tag}
+          {onRemove && (
+            <button
+              type="button"
+              className="ml-1 rounded-sm opacity-60 hover:opacity-100"
+              onClick={() => onRemove(tag)}
+              aria-label={`Remove ${tag}`}
+              data-testid={`button-remove-tag-${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function invalidateTagQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+}
+
+export function DocumentTagsDialog({
+  document: doc,
+  onOpenChange,
+}: {
+  document: DocumentWithTags | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [newTag, setNewTag] = useState("");
+  const { toast } = useToast();
+
+  const { data: tags = doc?.tags ?? [] } = useQuery<string[]>({
+    queryKey: ["/api/documents", doc?.id, "tags"],
+    enabled: !!doc,
+    staleTime: 0,
+  });
+
+  const { data: knownTags } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+    enabled: !!doc,
+  });
+  const suggestions = (knownTags ?? []).filter((t) => !tags.includes(t.tag)).slice(0, 12);
+
+  const addMutation = useMutation({
+    mutationFn: async (tag: string) => {
+      const res = await apiRequest("POST", `/api/documents/${doc!.id}/tags`, { tag });
+      return (await res.json()) as string[];
+    },
+    onSuccess: () => {
+      setNewTag("");
+      invalidateTagQueries();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add tag", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (tag: string) => apiRequest("DELETE", `/api/documents/${doc!.id}/tags/${encodeURIComponent(tag)}`),
+    onSuccess: invalidateTagQueries,
+    onError: (error) => {
+      toast({ title: "Failed to remove tag", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!doc} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tags for "{doc?.title}"</DialogTitle>
+          <DialogDescription>Tags are shared across your organization and are not case-sensitive.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {tags.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No tags yet.</p>
+          ) : (
+            <TagChips tags={tags} onRemove={(tag) => removeMutation.mutate(tag)} />
+          )}
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newTag.trim()) addMutation.mutate(newTag);
+            }}
+          >
+            <Input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              placeholder="Add a tag"
+              maxLength={50}
+              data-testid="input-new-tag"
+            />
+            <Button
+              type="submit"
+              className="gradient-bg text-white"
+              disabled={!newTag.trim() || addMutation.isPending}
+              data-testid="button-add-tag"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+
+          {suggestions.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Used elsewhere</p>
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map((t) => (
+                  <Badge
+                    key={t.tag}
+                    variant="secondary"
+                    className="cursor-pointer text-xs font-normal"
+                    onClick={() => addMutation.mutate(t.tag)}
+                    data-testid={`button-suggest-tag-${t.tag}`}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    {t.tag}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
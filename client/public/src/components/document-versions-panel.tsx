@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download, History, RotateCcw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, authorizedFetch, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import type { Document, DocumentVersionEntry } from "@shared/schema";
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function DocumentVersionsPanel({
+  document: doc,
+  canEdit,
+  onOpenChange,
+}: {
+  document: Document | null;
+  canEdit: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [changesSummary, setChangesSummary] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setFile(null);
+    setChangesSummary("");
+  }, [doc]);
+
+  const { data: versions, isLoading } = useQuery<DocumentVersionEntry[]>({
+    queryKey: ["/api/documents", doc?.id, "versions"],
+    enabled: !!doc,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/documents", doc?.id, "versions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("changesSummary", changesSummary);
+      const response = await authorizedFetch(`/api/documents/${doc!.id}/versions`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setFile(null);
+      setChangesSummary("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      toast({ title: "New version uploaded" });
+    },
+    onError: (error) => {
+      toast({ title: "Upload failed", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: DocumentVersionEntry) => {
+      const res = await apiRequest("POST", `/api/documents/${doc!.id}/versions/${version.id}/restore`);
+      return res.json();
+    },
+    onSuccess: (_data, version) => {
+      refresh();
+      toast({ title: `Version ${version.versionNumber} restored` });
+    },
+    onError: (error) => {
+      toast({ title: "Restore failed", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const downloadVersion = async (version: DocumentVersionEntry) => {
+    const response = await authorizedFetch(`/api/documents/${doc!.id}/versions/${version.id}/download`);
+    if (!response.ok) {
+      const text = await response.text();
+      toast({
+        title: "Download failed",
+        description: getApiErrorMessage(new Error(`${response.status}: ${text}`)),
+        variant: "destructive",
+      });
+      return;
+    }
+    const url = window.URL.createObjectURL(await response.blob());
+    const a = window.document.createElement("a");
+    a.href = url;
+    a.download = version.originalName ?? doc!.originalName;
+    window.document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    window.document.body.removeChild(a);
+  };
+
+  return (
+    <Sheet open={!!doc} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>{doc?.title}</SheetDescription>
+        </SheetHeader>
+
+        {canEdit && (
+          <form
+            className="mt-6 space-y-3 rounded-md border p-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              uploadMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="version-file">New version</Label>
+              <input
+                id="version-file"
+                ref={fileInputRef}
+                type="file"
+                className="block w-full text-sm"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                data-testid="input-version-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="version-summary">What changed</Label>
+              <Textarea
+                id="version-summary"
+                value={changesSummary}
+                onChange={(e) => setChangesSummary(e.target.value)}
+                placeholder="Optional summary of the changes"
+                rows={2}
+                data-testid="input-version-summary"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="gradient-bg text-white w-full"
+              disabled={!file || uploadMutation.isPending}
+              data-testid="button-upload-version"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload Version"}
+            </Button>
+          </form>
+        )}
+
+        <div className="mt-6 space-y-3">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-16 w-full" />
+            </>
+          ) : !versions || versions.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              This document has not been revised since it was uploaded.
+            </p>
+          ) : (
+            versions.map((version, index) => (
+              <div
+                key={version.id}
+                className="flex items-start justify-between gap-3 rounded-md border p-3"
+                data-testid={`row-version-${version.versionNumber}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">Version {version.versionNumber}</span>
+                    {index === 0 && <Badge>Current</Badge>}
+                  </div>
+                  {version.changesSummary && <p className="text-sm">{version.changesSummary}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {version.author ? `${version.author.firstName} ${version.author.lastName}` : "Unknown"} ·{" "}
+                    {new Date(version.createdAt).toLocaleString()} · {formatSize(version.sizeBytes)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Download this version"
+                    onClick={() => downloadVersion(version)}
+                    data-testid={`button-download-version-${version.versionNumber}`}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  {canEdit && index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Restore this version"
+                      disabled={restoreMutation.isPending}
+                      onClick={() => restoreMutation.mutate(version)}
+                      data-testid={`button-restore-version-${version.versionNumber}`}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { metadataFieldTypes, type Folder, type FolderMetadataField, type MetadataFieldType } from "@shared/schema";
+
+export const metadataTypeLabels: Record<MetadataFieldType, string> = {
+  TEXT: "Text",
+  DATE: "Date",
+  NUMBER: "Number",
+  SELECT: "Select",
+};
+
+// "Passport number" -> "passport_number"
+function keyFromLabel(label: string) {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 40);
+}
+
+export function FolderMetadataDialog({
+  folder,
+  onOpenChange,
+}: {
+  folder: Folder | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<MetadataFieldType>("TEXT");
+  const [required, setRequired] = useState(false);
+  const [options, setOptions] = useState("");
+
+  useEffect(() => {
+    setLabel("");
+    setType("TEXT");
+    setRequired(false);
+    setOptions("");
+  }, [folder]);
+
+  const { data: fields, isLoading } = useQuery<FolderMetadataField[]>({
+    queryKey: ["/api/folders", folder?.id, "metadata-fields"],
+    enabled: !!folder,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/metadata-fields"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/folders/${folder!.id}/metadata-fields`, {
+        key: keyFromLabel(label),
+        label,
+        type,
+        required,
+        options: type === "SELECT" ? options.split(",").map((o) => o.trim()).filter(Boolean) : [],
+      }),
+    onSuccess: () => {
+      refresh();
+      setLabel("");
+      setRequired(false);
+      setOptions("");
+      toast({ title: "Field added" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to add field", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const requiredMutation = useMutation({
+    mutationFn: (field: FolderMetadataField) =>
+      apiRequest("PATCH", `/api/folders/${folder!.id}/metadata-fields/${field.id}`, { required: !field.required }),
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Failed to update field", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (field: FolderMetadataField) =>
+      apiRequest("DELETE", `/api/folders/${folder!.id}/metadata-fields/${field.id}`),
+    onSuccess: refresh,
+    onError: (error) => {
+      toast({ title: "Failed to remove field", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!folder} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Metadata fields for "{folder?.name}"</DialogTitle>
+          <DialogDescription>
+            Documents in this folder and every folder below it carry these fields. Required fields must be filled in on
+            upload.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {isLoading ? (
+            <Skeleton className="h-12 w-full" />
+          ) : fields && fields.length > 0 ? (
+            fields.map((field) => {
+              const inherited = field.folderId !== folder?.id;
+              return (
+                <div key={field.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{field.label}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {field.key}
+                      {field.type === "SELECT" && ` · ${field.options.join(", ")}`}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className="text-xs">
+                    {metadataTypeLabels[field.type]}
+                  </Badge>
+                  {inherited ? (
+                    <Badge variant="outline" className="text-xs">
+                      Inherited{field.required && " · required"}
+                    </Badge>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`required-${field.id}`}
+                          checked={field.required}
+                          disabled={requiredMutation.isPending}
+                          onCheckedChange={() => requiredMutation.mutate(field)}
+                          data-testid={`switch-field-required-${field.key}`}
+                        />
+                        <Label htmlFor={`required-${field.id}`} className="text-xs">
+                          Required
+                        </Label>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={removeMutation.isPending}
+                        onClick={() => removeMutation.mutate(field)}
+                        data-testid={`button-remove-field-${field.key}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-sm text-muted-foreground">No fields yet. Documents here only have a title and description.</p>
+          )}
+        </div>
+
+        <form
+          className="space-y-3 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addMutation.mutate();
+          }}
+        >
+          <div className="grid gap-3 sm:grid-cols-3">
+            <Input
+              className="sm:col-span-2"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Field label, e.g. Passport number"
+              data-testid="input-field-label"
+            />
+            <Select value={type} onValueChange={(value) => setType(value as MetadataFieldType)}>
+              <SelectTrigger data-testid="select-field-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {metadataFieldTypes.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {metadataTypeLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {type === "SELECT" && (
+            <Input
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+              placeholder="Options, separated by commas"
+              data-testid="input-field-options"
+            />
+          )}
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="field-required" checked={required} onCheckedChange={setRequired} data-testid="switch-field-required" />
+              <Label htmlFor="field-required">Required</Label>
+            </div>
+            <Button
+              type="submit"
+              className="gradient-bg text-white ml-auto"
+              disabled={!keyFromLabel(label) || addMutation.isPending}
+              data-testid="button-add-field"
+            >
+              Add field
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Ban, Building2, Shield, Trash2, User as UserIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { folderAccessLevels, type FolderAccessLevel } from "@shared/permissions";
+import type { Folder, FolderPermission } from "@shared/schema";
+
+type PrincipalType = FolderPermission["principalType"];
+
+interface AccessPrincipals {
+  users: { id: string; username: string; firstName: string; lastName: string }[];
+  departments: { id: string; name: string; code: string }[];
+  roles: string[];
+}
+
+const principalIcons = {
+  USER: UserIcon,
+  DEPARTMENT: Building2,
+  ROLE: Shield,
+} as const;
+
+const levelLabels: Record<FolderAccessLevel, string> = {
+  READ: "Read",
+  WRITE: "Write",
+  MANAGE: "Manage",
+};
+
+function formatRole(role: string) {
+  return role.replace("_", " ").toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export function FolderPermissionsDialog({
+  folder,
+  onOpenChange,
+}: {
+  folder: Folder | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [principalType, setPrincipalType] = useState<PrincipalType>("DEPARTMENT");
+  const [principalId, setPrincipalId] = useState("");
+  const [level, setLevel] = useState<FolderAccessLevel>("READ");
+  const [deny, setDeny] = useState(false);
+
+  const permissionsKey = ["/api/folders", folder?.id, "permissions"];
+  const { data: entries, isLoading } = useQuery<FolderPermission[]>({
+    queryKey: permissionsKey,
+    enabled: !!folder,
+  });
+  const { data: principals } = useQuery<AccessPrincipals>({
+    queryKey: ["/api/access-principals"],
+    enabled: !!folder,
+  });
+
+  const options =
+    principalType === "USER"
+      ? (principals?.users ?? []).map((u) => ({ id: u.id, label: `${u.firstName} ${u.lastName} (${u.username})` }))
+      : principalType === "DEPARTMENT"
+        ? (principals?.departments ?? []).map((d) => ({ id: d.id, label: `${d.name} (${d.code})` }))
+        : (principals?.roles ?? []).map((role) => ({ id: role, label: formatRole(role) }));
+
+  const describePrincipal = (entry: FolderPermission) => {
+    if (entry.principalType === "ROLE") return `Everyone with role ${formatRole(entry.principalId)}`;
+    if (entry.principalType === "DEPARTMENT") {
+      const department = principals?.departments.find((d) => d.id === entry.principalId);
+      return department ? `${department.name} department` : "Unknown department";
+    }
+    const user = principals?.users.find((u) => u.id === entry.principalId);
+    return user ? `${user.firstName} ${user.lastName}` : "Inactive or unknown user";
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/folders/${folder!.id}/permissions`, { principalType, principalId, level, deny }),
+    onSuccess: () => {
+      invalidate();
+      setPrincipalId("");
+      setDeny(false);
+      toast({ title: "Folder access updated" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update access", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (entryId: string) => apiRequest("DELETE", `/api/folders/${folder!.id}/permissions/${entryId}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Access entry removed" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to remove access", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!folder} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Access to "{folder?.name}"</DialogTitle>
+          <DialogDescription>
+            Entries apply to this folder and everything inside it. Grants add to what each role already allows;
+            to keep people out, deny them. Deny entries always win.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2" data-testid="list-folder-permissions">
+          {isLoading ? (
+            <Skeleton className="h-12 w-full" />
+          ) : entries && entries.length > 0 ? (
+            entries.map((entry) => {
+              const Icon = principalIcons[entry.principalType];
+              return (
+                <div key={entry.id} className="flex items-center gap-3 rounded-md border p-3">
+                  <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="flex-1 text-sm truncate">{describePrincipal(entry)}</span>
+                  {entry.deny ? (
+                    <Badge variant="destructive" className="text-xs">
+                      <Ban className="h-3 w-3 mr-1" />
+                      Deny {levelLabels[entry.level].toLowerCase()}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary" className="text-xs">
+                      {levelLabels[entry.level]}
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate(entry.id)}
+                    data-testid={`button-remove-permission-${entry.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No entries yet. Everyone keeps the access their role gives them, unless a parent folder says otherwise.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <Select
+              value={principalType}
+              onValueChange={(value) => {
+                setPrincipalType(value as PrincipalType);
+                setPrincipalId("");
+              }}
+            >
+              <SelectTrigger data-testid="select-principal-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="USER">User</SelectItem>
+                <SelectItem value="DEPARTMENT">Department</SelectItem>
+                <SelectItem value="ROLE">Role</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={principalId} onValueChange={setPrincipalId}>
+              <SelectTrigger className="sm:col-span-2" data-testid="select-principal">
+                <SelectValue placeholder="Choose..." />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={level} onValueChange={(value) => setLevel(value as FolderAccessLevel)}>
+              <SelectTrigger className="w-36" data-testid="select-permission-level">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {folderAccessLevels.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {levelLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="permission-deny" checked={deny} onCheckedChange={setDeny} data-testid="switch-permission-deny" />
+              <Label htmlFor="permission-deny">Deny</Label>
+            </div>
+            <Button
+              className="gradient-bg text-white ml-auto"
+              disabled={!principalId || saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+              data-testid="button-save-permission"
+            >
+              {deny ? "Add deny" : "Grant access"}
+            </Button>
+          </div>
+          {deny && (
+            <p className="text-xs text-muted-foreground">
+              Denying {levelLabels[level].toLowerCase()} also removes every level above it
+              {level === "READ" ? ", so the folder is hidden entirely." : "."}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Eye, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/lib/auth-context";
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Shown on every page while a SUPER_ADMIN is acting as another user.
+export function ImpersonationBanner() {
+  const { user, impersonation, stopImpersonation } = useAuth();
+  const [, setLocation] = useLocation();
+  const [now, setNow] = useState(() => Date.now());
+  const [isStopping, setIsStopping] = useState(false);
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [impersonation]);
+
+  const remaining = impersonation ? new Date(impersonation.expiresAt).getTime() - now : 0;
+
+  const stop = async () => {
+    setIsStopping(true);
+    try {
+      await stopImpersonation();
+      setLocation("/admin/user-management");
+    } finally {
+      setIsStopping(false);
+    }
+  };
+
+  useEffect(() => {
+    if (impersonation && remaining <= 0 && !isStopping) {
+      stop();
+    }
+  }, [impersonation, remaining <= 0]);
+
+  if (!impersonation || !user) return null;
+
+  return (
+    <div
+      className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 bg-amber-500 text-black text-sm"
+      role="alert"
+      data-testid="banner-impersonation"
+    >
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as <strong>{user.firstName} {user.lastName}</strong> ({user.username}). Signed in as{" "}
+          {impersonation.impersonator.firstName} {impersonation.impersonator.lastName}. Everything you do is logged.
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        <span className="font-mono" data-testid="text-impersonation-remaining">
+          {formatRemaining(remaining)}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 border-black/30 bg-transparent text-black hover:bg-black/10"
+          disabled={isStopping}
+          onClick={stop}
+          data-testid="button-stop-impersonation"
+        >
+          <LogOut className="h-3 w-3 mr-1" />
+          Stop impersonating
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+
+export interface LegalHoldTarget {
+  kind: "documents" | "folders";
+  id: string;
+  name: string;
+  held: boolean;
+  reason: string | null;
+}
+
+export function legalHoldTarget(
+  kind: LegalHoldTarget["kind"],
+  item: { id: string; legalHold: boolean; legalHoldReason: string | null },
+  name: string,
+): LegalHoldTarget {
+  return { kind, id: item.id, name, held: item.legalHold, reason: item.legalHoldReason };
+}
+
+// Places a hold (asking for the reason) or releases the one in place.
+export function LegalHoldDialog({
+  target,
+  onOpenChange,
+}: {
+  target: LegalHoldTarget | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (target) setReason("");
+  }, [target]);
+
+  const holdMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/${target!.kind}/${target!.id}/legal-hold`, {
+        hold: !target!.held,
+        reason: target!.held ? undefined : reason,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: target!.held ? "Legal hold released" : "Legal hold placed" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update legal hold", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const covers = target?.kind === "folders" ? "everything in it" : "it";
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{target?.held ? "Release Legal Hold" : "Place Legal Hold"}</DialogTitle>
+          <DialogDescription>
+            {target?.held
+              ? `"${target.name}" was held: ${target.reason ?? "no reason given"}. Once released, ${covers} can be deleted again and retention policies apply.`
+              : `While "${target?.name}" is held, ${covers} cannot be deleted, purged or disposed of by a retention policy.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            holdMutation.mutate();
+          }}
+        >
+          {!target?.held && (
+            <div className="space-y-2">
+              <Label htmlFor="legal-hold-reason">Reason</Label>
+              <Textarea
+                id="legal-hold-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Case or matter this hold is for"
+                maxLength={500}
+                data-testid="input-legal-hold-reason"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className={target?.held ? undefined : "gradient-bg text-white"}
+              variant={target?.held ? "destructive" : "default"}
+              disabled={holdMutation.isPending || (!target?.held && reason.trim().length < 3)}
+              data-testid="button-save-legal-hold"
+            >
+              {holdMutation.isPending ? "Saving..." : target?.held ? "Release Hold" : "Place Hold"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { DocumentMetadata, FolderMetadataField } from "@shared/schema";
+
+// Form state keeps every value as a string; the server converts numbers.
+export type MetadataFormValues = Record<string, string>;
+
+export function toFormValues(metadata: DocumentMetadata | null | undefined): MetadataFormValues {
+  return Object.fromEntries(Object.entries(metadata ?? {}).map(([key, value]) => [key, String(value)]));
+}
+
+export function formatMetadataValue(field: FolderMetadataField, value: string | number | undefined): string {
+  if (value === undefined || value === "") return "—";
+  if (field.type === "DATE") return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+}
+
+export function MetadataInputs({
+  fields,
+  values,
+  onChange,
+}: {
+  fields: FolderMetadataField[];
+  values: MetadataFormValues;
+  onChange: (values: MetadataFormValues) => void;
+}) {
+  const set = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`metadata-${field.key}`}>
+            {field.label}
+            {field.required && <span className="text-destructive"> *</span>}
+          </Label>
+          {field.type === "SELECT" ? (
+            <Select value={values[field.key] ?? ""} onValueChange={(value) => set(field.key, value)}>
+              <SelectTrigger id={`metadata-${field.key}`} data-testid={`select-metadata-${field.key}`}>
+                <SelectValue placeholder="Choose..." />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              id={`metadata-${field.key}`}
+              type={field.type === "DATE" ? "date" : field.type === "NUMBER" ? "number" : "text"}
+              step={field.type === "NUMBER" ? "any" : undefined}
+              value={values[field.key] ?? ""}
+              onChange={(e) => set(field.key, e.target.value)}
+              required={field.required}
+              data-testid={`input-metadata-${field.key}`}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ChevronLeft, Download, ExternalLink, FileText, FolderOpen, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, authorizedFetch, getApiErrorMessage, queryClient } from "@/lib/queryClient";
+import { canPreviewInline, sharePermissionAllows } from "@shared/permissions";
+import type { Document, Folder, ReceivedShare } from "@shared/schema";
+
+interface ShareContents {
+  folder: Folder | null;
+  folders: Folder[];
+  documents: Document[];
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function ReceivedShareDialog({
+  share,
+  onOpenChange,
+}: {
+  share: ReceivedShare | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  // Folders opened below the shared folder, innermost last.
+  const [path, setPath] = useState<Folder[]>([]);
+  const { toast } = useToast();
+  const currentFolderId = path[path.length - 1]?.id;
+  const canDownload = !!share && sharePermissionAllows(share.permission, "DOWNLOAD");
+  const canEdit = !!share && sharePermissionAllows(share.permission, "EDIT");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [versionTarget, setVersionTarget] = useState<Document | null>(null);
+
+  const { data: contents, isLoading, error } = useQuery<ShareContents>({
+    queryKey: ["/api/shares/received", share?.id, "contents", currentFolderId ?? "root"],
+    enabled: !!share,
+    staleTime: 0,
+    queryFn: async () => {
+      const params = currentFolderId ? `?folderId=${encodeURIComponent(currentFolderId)}` : "";
+      const res = await apiRequest("GET", `/api/shares/received/${share!.id}/contents${params}`);
+      return res.json();
+    },
+  });
+
+  const versionMutation = useMutation({
+    mutationFn: async ({ doc, file }: { doc: Document; file: File }) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await authorizedFetch(`/api/shares/received/${share!.id}/documents/${doc.id}/versions`, {
+        method: "POST",
+        body: formData,
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares/received", share?.id, "contents"] });
+      toast({ title: "New version uploaded" });
+    },
+    onError: (error) => {
+      toast({ title: "Upload failed", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const chooseVersionFile = (doc: Document) => {
+    setVersionTarget(doc);
+    fileInputRef.current?.click();
+  };
+
+  const fetchFile = async (doc: Document, mode: "preview" | "download") => {
+    const response = await authorizedFetch(`/api/shares/received/${share!.id}/documents/${doc.id}/${mode}`);
+    if (!response.ok) {
+      const text = await response.text();
+      toast({
+        title: mode === "preview" ? "Could not open file" : "Download failed",
+        description: getApiErrorMessage(new Error(`${response.status}: ${text}`)),
+        variant: "destructive",
+      });
+      return;
+    }
+    const url = window.URL.createObjectURL(await response.blob());
+    // Types the browser must not render in place come back as attachments.
+    if (mode === "preview" && canPreviewInline(doc.mimeType)) {
+      window.open(url, "_blank", "noopener");
+      setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+      return;
+    }
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = doc.originalName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  const close = (open: boolean) => {
+    if (!open) setPath([]);
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={!!share} onOpenChange={close}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{share?.title ?? "Shared item"}</DialogTitle>
+          <DialogDescription>
+            Shared by {share?.owner.firstName} {share?.owner.lastName}.{" "}
+            {canEdit
+              ? "You can open, download and upload new versions of these files."
+              : canDownload
+                ? "You can open and download these files."
+                : "You can open these files but not download them."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {path.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-fit"
+            onClick={() => setPath(path.slice(0, -1))}
+            data-testid="button-shared-folder-up"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            {path.length > 1 ? path[path.length - 2].name : share?.title ?? "Back"}
+          </Button>
+        )}
+
+        <div className="max-h-96 overflow-y-auto divide-y rounded-md border" data-testid="list-shared-contents">
+          {isLoading ? (
+            <div className="p-3 space-y-2">
+              <Skeleton className="h-8 w-full" />
+              <Skeleton className="h-8 w-full" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              {getApiErrorMessage(error, "This share is no longer available.")}
+            </p>
+          ) : !contents || (contents.folders.length === 0 && contents.documents.length === 0) ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">This folder is empty.</p>
+          ) : (
+            <>
+              {contents.folders.map((folder) => (
+                <button
+                  key={folder.id}
+                  type="button"
+                  className="flex w-full items-center gap-3 p-3 text-left hover:bg-muted/50"
+                  onClick={() => setPath([...path, folder])}
+                  data-testid={`shared-folder-${folder.id}`}
+                >
+                  <FolderOpen className="h-4 w-4 text-chart-3 shrink-0" />
+                  <span className="flex-1 truncate text-sm font-medium">{folder.name}</span>
+                </button>
+              ))}
+              {contents.documents.map((doc) => (
+                <div key={doc.id} className="flex items-center gap-3 p-3" data-testid={`shared-document-${doc.id}`}>
+                  <FileText className="h-4 w-4 text-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-sm font-medium">{doc.title}</p>
+                    <p className="text-xs text-muted-foreground">{formatSize(doc.sizeBytes)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Open"
+                    onClick={() => fetchFile(doc, "preview")}
+                    data-testid={`button-open-shared-${doc.id}`}
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                  {canDownload && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Download"
+                      onClick={() => fetchFile(doc, "download")}
+                      data-testid={`button-download-shared-${doc.id}`}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Upload new version"
+                      disabled={versionMutation.isPending}
+                      onClick={() => chooseVersionFile(doc)}
+                      data-testid={`button-upload-version-shared-${doc.id}`}
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file && versionTarget) versionMutation.mutate({ doc: versionTarget, file });
+            e.target.value = "";
+          }}
+          data-testid="input-shared-version-file"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import { Monitor, Smartphone, Tablet, HelpCircle, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export interface ActiveSession {
+  id: string;
+  browser: string;
+  os: string;
+  deviceType: "desktop" | "mobile" | "tablet" | "unknown";
+  ipAddress: string | null;
+  signedInAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+const deviceIcons = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+  unknown: HelpCircle,
+};
+
+export function SessionList({
+  sessions,
+  isLoading,
+  onRevoke,
+  revokingId,
+}: {
+  sessions: ActiveSession[] | undefined;
+  isLoading?: boolean;
+  onRevoke: (session: ActiveSession) => void;
+  revokingId?: string | null;
+}) {
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <Skeleton key={i} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!sessions?.length) {
+    return <p className="text-sm text-muted-foreground">No active sessions.</p>;
+  }
+
+  return (
+    <div className="divide-y rounded-md border" data-testid="list-sessions">
+      {sessions.map((session) => {
+        const DeviceIcon = deviceIcons[session.deviceType];
+        return (
+          <div key={session.id} className="flex items-center gap-4 p-3" data-testid={`session-${session.id}`}>
+            <DeviceIcon className="h-5 w-5 shrink-0 text-muted-foreground" />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {session.browser} on {session.os}
+                {session.current && (
+                  <Badge variant="secondary" className="text-xs">
+                    This device
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {session.ipAddress ?? "Unknown IP"} · Signed in {new Date(session.signedInAt).toLocaleString()} · Last
+                active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+              </p>
+            </div>
+            {!session.current && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                disabled={revokingId === session.id}
+                onClick={() => onRevoke(session)}
+                data-testid={`button-revoke-session-${session.id}`}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
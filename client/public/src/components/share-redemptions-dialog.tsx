@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { Mail, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CreatedShare, ShareRedemptionDetail } from "@shared/schema";
+
+export function ShareRedemptionsDialog({
+  share,
+  onOpenChange,
+}: {
+  share: CreatedShare | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { data: redemptions, isLoading } = useQuery<ShareRedemptionDetail[]>({
+    queryKey: ["/api/shares", share?.id, "redemptions"],
+    enabled: !!share,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={!!share} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Who opened {share?.code}</DialogTitle>
+          <DialogDescription>
+            {share && share.recipients.length > 0
+              ? "Only the people below can redeem this code."
+              : "Anyone with the code can redeem it. Visitors using the public link without an account are not listed."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {share && share.recipients.length > 0 && (
+          <div className="flex flex-wrap gap-2" data-testid="list-share-recipients">
+            {share.recipients.map((recipient) => (
+              <Badge key={recipient.id} variant="secondary">
+                {recipient.user ? (
+                  <User className="h-3 w-3 mr-1" />
+                ) : (
+                  <Mail className="h-3 w-3 mr-1" />
+                )}
+                {recipient.user ? `${recipient.user.firstName} ${recipient.user.lastName}` : recipient.email}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : !redemptions || redemptions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nobody has redeemed this code yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Redeemed</TableHead>
+                <TableHead>Last opened</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {redemptions.map((redemption) => (
+                <TableRow key={redemption.id} data-testid={`row-redemption-${redemption.id}`}>
+                  <TableCell>
+                    {redemption.user ? (
+                      <div>
+                        <p className="font-medium text-sm">
+                          {redemption.user.firstName} {redemption.user.lastName}
+                        </p>
+                        <p className="text-xs text-muted-foreground">{redemption.user.email}</p>
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="font-medium text-sm">{redemption.email}</p>
+                        <p className="text-xs text-muted-foreground">External, verified by email</p>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{new Date(redemption.redeemedAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(redemption.lastAccessedAt).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
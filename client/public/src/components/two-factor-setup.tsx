@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Copy, KeyRound, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { AuthSession } from "@/lib/auth-context";
+
+interface SetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+interface EnableResponse extends Partial<AuthSession> {
+  recoveryCodes: string[];
+}
+
+export function TwoFactorCodeInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} data-testid="input-otp-code">
+      <InputOTPGroup>
+        {Array.from({ length: 6 }).map((_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export function RecoveryCodesList({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 rounded-md border p-3 text-sm">
+        <KeyRound className="h-4 w-4 mt-0.5 text-primary" />
+        <p className="text-muted-foreground">
+          Store these recovery codes somewhere safe. Each code can be used once to sign in if you lose access to your
+          authenticator app. They will not be shown again.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <div key={code} className="rounded bg-muted px-3 py-1.5 text-center">
+            {code}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={copyCodes}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" className="gradient-bg text-white" onClick={onDone} data-testid="button-recovery-codes-done">
+          I have saved these codes
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function TwoFactorSetup({
+  challengeToken,
+  onComplete,
+}: {
+  challengeToken?: string;
+  onComplete: (result: EnableResponse) => void;
+}) {
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<EnableResponse | null>(null);
+  const { toast } = useToast();
+
+  const setupMutation = useMutation({
+    mutationFn: async (): Promise<SetupResponse> => {
+      const res = await apiRequest("POST", "/api/auth/2fa/setup", challengeToken ? { challengeToken } : {});
+      return res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not start two-factor setup",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (): Promise<EnableResponse> => {
+      const res = await apiRequest("POST", "/api/auth/2fa/enable", { code, ...(challengeToken ? { challengeToken } : {}) });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      toast({ title: "Two-factor authentication enabled" });
+    },
+    onError: (error) => {
+      setCode("");
+      toast({
+        title: "Verification failed",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    setupMutation.mutate();
+  }, []);
+
+  if (result) {
+    return <RecoveryCodesList codes={result.recoveryCodes} onDone={() => onComplete(result)} />;
+  }
+
+  const setup = setupMutation.data;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+        then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        {setup ? (
+          <img src={setup.qrCode} alt="Two-factor QR code" className="h-48 w-48 rounded-md border bg-white p-2" />
+        ) : (
+          <Skeleton className="h-48 w-48" />
+        )}
+      </div>
+      {setup && (
+        <p className="text-center text-xs text-muted-foreground">
+          Can't scan? Enter this key manually:
+          <span className="block font-mono text-sm text-foreground mt-1 break-all" data-testid="text-totp-secret">
+            {setup.secret}
+          </span>
+        </p>
+      )}
+      <div className="flex justify-center">
+        <TwoFactorCodeInput value={code} onChange={setCode} disabled={!setup || enableMutation.isPending} />
+      </div>
+      <Button
+        type="button"
+        className="w-full gradient-bg text-white"
+        disabled={code.length !== 6 || enableMutation.isPending}
+        onClick={() => enableMutation.mutate()}
+        data-testid="button-enable-2fa"
+      >
+        <ShieldCheck className="h-4 w-4 mr-2" />
+        {enableMutation.isPending ? "Verifying..." : "Verify and enable"}
+      </Button>
+    </div>
+  );
+}
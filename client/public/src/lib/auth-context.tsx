@@ -1,14 +1,50 @@
 import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
 import type { User } from "@shared/schema";
+import { can as roleCan, type Permission } from "@shared/permissions";
+import {
+  AUTH_EXPIRED_EVENT,
+  IMPERSONATION_ENDED_EVENT,
+  authorizedFetch,
+  clearStoredTokens,
+  isImpersonating,
+  queryClient,
+  restoreImpersonatorTokens,
+  startImpersonationTokens,
+} from "@/lib/queryClient";
+
+export interface AuthSession {
+  token: string;
+  refreshToken: string;
+  user: User;
+}
+
+export interface ImpersonationInfo {
+  id: string;
+  expiresAt: string;
+  reason: string;
+  impersonator: { id: string; username: string; firstName: string; lastName: string };
+}
+
+export type LoginResult =
+  | { status: "authenticated" }
+  | { status: "two-factor"; challengeToken: string }
+  | { status: "two-factor-setup"; challengeToken: string };
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  impersonation: ImpersonationInfo | null;
+  login: (username: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: string, useRecoveryCode?: boolean) => Promise<void>;
+  completeLogin: (session: AuthSession) => void;
+  completeSsoLogin: (handoffToken: string) => Promise<LoginResult>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  impersonate: (userId: string, reason: string, durationMinutes?: number) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,6 +53,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(() => localStorage.getItem("token"));
   const [isLoading, setIsLoading] = useState(true);
+  const [impersonation, setImpersonation] = useState<ImpersonationInfo | null>(null);
 
   const refreshUser = useCallback(async () => {
     const storedToken = localStorage.getItem("token");
@@ -28,26 +65,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
 
     try {
-      const response = await fetch("/api/auth/me", {
-        headers: {
-          Authorization: `Bearer ${storedToken}`,
-        },
-      });
+      const response = await authorizedFetch("/api/auth/me");
 
       if (response.ok) {
-        const userData = await response.json();
+        const { impersonation: activeImpersonation, ...userData } = await response.json();
         setUser(userData);
-        setToken(storedToken);
+        setImpersonation(activeImpersonation ?? null);
+        setToken(localStorage.getItem("token"));
       } else {
-        localStorage.removeItem("token");
-        localStorage.removeItem("refreshToken");
+        clearStoredTokens();
         setUser(null);
+        setImpersonation(null);
         setToken(null);
       }
     } catch (error) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("refreshToken");
+      clearStoredTokens();
       setUser(null);
+      setImpersonation(null);
       setToken(null);
     } finally {
       setIsLoading(false);
@@ -58,7 +92,32 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     refreshUser();
   }, [refreshUser]);
 
-  const login = async (username: string, password: string) => {
+  useEffect(() => {
+    const handleExpired = () => {
+      setUser(null);
+      setToken(null);
+    };
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  useEffect(() => {
+    const handleImpersonationEnded = () => {
+      queryClient.clear();
+      refreshUser();
+    };
+    window.addEventListener(IMPERSONATION_ENDED_EVENT, handleImpersonationEnded);
+    return () => window.removeEventListener(IMPERSONATION_ENDED_EVENT, handleImpersonationEnded);
+  }, [refreshUser]);
+
+  const completeLogin = (session: AuthSession) => {
+    localStorage.setItem("token", session.token);
+    localStorage.setItem("refreshToken", session.refreshToken);
+    setToken(session.token);
+    setUser(session.user);
+  };
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
     const response = await fetch("/api/auth/login", {
       method: "POST",
       headers: {
@@ -72,32 +131,109 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error(error.message || "Login failed");
     }
 
-    const data = await response.json();
-    localStorage.setItem("token", data.token);
-    localStorage.setItem("refreshToken", data.refreshToken);
-    setToken(data.token);
-    setUser(data.user);
+    return toLoginResult(await response.json());
+  };
+
+  // Password and SSO sign-ins both either finish here or continue with the
+  // second factor.
+  const toLoginResult = (data: any): LoginResult => {
+    if (data.twoFactorRequired) {
+      return { status: "two-factor", challengeToken: data.challengeToken };
+    }
+    if (data.twoFactorSetupRequired) {
+      return { status: "two-factor-setup", challengeToken: data.challengeToken };
+    }
+
+    completeLogin(data);
+    return { status: "authenticated" };
+  };
+
+  const verifyTwoFactor = async (challengeToken: string, code: string, useRecoveryCode = false) => {
+    const response = await fetch("/api/auth/2fa/verify", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(
+        useRecoveryCode ? { challengeToken, recoveryCode: code } : { challengeToken, code },
+      ),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Verification failed");
+    }
+
+    completeLogin(await response.json());
+  };
+
+  const completeSsoLogin = async (handoffToken: string) => {
+    const response = await fetch("/api/auth/oidc/complete", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ handoffToken }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Single sign-on failed");
+    }
+
+    return toLoginResult(await response.json());
+  };
+
+  const impersonate = async (userId: string, reason: string, durationMinutes?: number) => {
+    const response = await authorizedFetch(`/api/users/${userId}/impersonate`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ reason, durationMinutes }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || "Could not start impersonation");
+    }
+
+    const { token: impersonationToken } = await response.json();
+    startImpersonationTokens(impersonationToken);
+    queryClient.clear();
+    await refreshUser();
+  };
+
+  const stopImpersonation = async () => {
+    try {
+      await authorizedFetch("/api/auth/impersonation/end", { method: "POST" });
+    } catch (error) {
+      console.error("End impersonation error:", error);
+    } finally {
+      restoreImpersonatorTokens();
+      queryClient.clear();
+      await refreshUser();
+    }
   };
 
   const logout = async () => {
-    const storedToken = localStorage.getItem("token");
+    // Signing out while impersonating returns to the admin's own session.
+    if (isImpersonating()) {
+      return stopImpersonation();
+    }
     try {
-      await fetch("/api/auth/logout", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${storedToken}`,
-        },
-      });
+      await authorizedFetch("/api/auth/logout", { method: "POST" });
     } catch (error) {
       console.error("Logout error:", error);
     } finally {
-      localStorage.removeItem("token");
-      localStorage.removeItem("refreshToken");
+      clearStoredTokens();
       setUser(null);
       setToken(null);
     }
   };
 
+  const can = useCallback((permission: Permission) => roleCan(user?.role, permission), [user?.role]);
+
   return (
     <AuthContext.Provider
       value={{
@@ -105,9 +241,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         token,
         isLoading,
         isAuthenticated: !!user,
+        impersonation,
         login,
+        verifyTwoFactor,
+        completeLogin,
+        completeSsoLogin,
         logout,
         refreshUser,
+        impersonate,
+        stopImpersonation,
+        can,
       }}
     >
       {children}
@@ -1,10 +1,123 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export const AUTH_EXPIRED_EVENT = "auth:expired";
+export const IMPERSONATION_ENDED_EVENT = "auth:impersonation-ended";
+
+// While impersonating, the admin's own tokens are parked under these keys and
+// the impersonation token (which has no refresh token) is used instead.
+const IMPERSONATOR_TOKEN_KEY = "impersonatorToken";
+const IMPERSONATOR_REFRESH_TOKEN_KEY = "impersonatorRefreshToken";
+
 function getAuthHeaders(): Record<string, string> {
   const token = localStorage.getItem("token");
   return token ? { Authorization: `Bearer ${token}` } : {};
 }
 
+export function clearStoredTokens() {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+  localStorage.removeItem(IMPERSONATOR_TOKEN_KEY);
+  localStorage.removeItem(IMPERSONATOR_REFRESH_TOKEN_KEY);
+}
+
+export function isImpersonating(): boolean {
+  return localStorage.getItem(IMPERSONATOR_TOKEN_KEY) !== null;
+}
+
+export function startImpersonationTokens(impersonationToken: string) {
+  localStorage.setItem(IMPERSONATOR_TOKEN_KEY, localStorage.getItem("token") ?? "");
+  localStorage.setItem(IMPERSONATOR_REFRESH_TOKEN_KEY, localStorage.getItem("refreshToken") ?? "");
+  localStorage.setItem("token", impersonationToken);
+  localStorage.removeItem("refreshToken");
+}
+
+export function restoreImpersonatorTokens() {
+  const token = localStorage.getItem(IMPERSONATOR_TOKEN_KEY);
+  const refreshToken = localStorage.getItem(IMPERSONATOR_REFRESH_TOKEN_KEY);
+  localStorage.removeItem(IMPERSONATOR_TOKEN_KEY);
+  localStorage.removeItem(IMPERSONATOR_REFRESH_TOKEN_KEY);
+  if (token) localStorage.setItem("token", token);
+  if (refreshToken) localStorage.setItem("refreshToken", refreshToken);
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Exchanges the stored refresh token for a new token pair. Concurrent callers
+// share one request so a burst of 401s only rotates the refresh token once.
+export function refreshAccessToken(): Promise<boolean> {
+  if (refreshInFlight) return refreshInFlight;
+
+  refreshInFlight = (async () => {
+    const refreshToken = localStorage.getItem("refreshToken");
+    if (!refreshToken) return false;
+
+    try {
+      const res = await fetch("/api/auth/refresh", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        clearStoredTokens();
+        window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+        return false;
+      }
+
+      const data = await res.json();
+      localStorage.setItem("token", data.token);
+      localStorage.setItem("refreshToken", data.refreshToken);
+      return true;
+    } catch {
+      return false;
+    }
+  })().finally(() => {
+    refreshInFlight = null;
+  });
+
+  return refreshInFlight;
+}
+
+// fetch() with the stored bearer token that retries once after a silent
+// refresh when the access token has expired.
+export async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () =>
+    fetch(url, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string> | undefined), ...getAuthHeaders() },
+      credentials: "include",
+    });
+
+  const res = await send();
+  // An expired or ended impersonation drops back to the admin's own session.
+  if (res.status === 401 && isImpersonating()) {
+    restoreImpersonatorTokens();
+    window.dispatchEvent(new Event(IMPERSONATION_ENDED_EVENT));
+    return res;
+  }
+  if (res.status !== 401 || !localStorage.getItem("refreshToken")) {
+    return res;
+  }
+
+  const refreshed = await refreshAccessToken();
+  return refreshed ? send() : res;
+}
+
+// apiRequest errors look like "400: {\"message\":\"...\"}"; pull out the
+// server's message for toasts.
+export function getApiErrorMessage(error: unknown, fallback = "Something went wrong"): string {
+  if (!(error instanceof Error)) return fallback;
+  const match = error.message.match(/^\d+:\s*([\s\S]*)$/);
+  if (!match) return error.message || fallback;
+  try {
+    const parsed = JSON.parse(match[1]);
+    return typeof parsed?.message === "string" ? parsed.message : fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -17,16 +130,10 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const headers: Record<string, string> = {
-    ...getAuthHeaders(),
-    ...(data ? { "Content-Type": "application/json" } : {}),
-  };
-
-  const res = await fetch(url, {
+  const res = await authorizedFetch(url, {
     method,
-    headers,
+    headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -39,10 +146,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
-      headers: getAuthHeaders(),
-      credentials: "include",
-    });
+    const res = await authorizedFetch(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -17,6 +17,12 @@ import {
   LogIn,
   LogOut,
   RefreshCw,
+  ShieldCheck,
+  ShieldAlert,
+  KeyRound,
+  Lock,
+  LockOpen,
+  Eye,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -50,6 +56,23 @@ const actionIcons: Record<string, typeof Activity> = {
   UPDATE_METADATA: FileText,
   RESTORE: RefreshCw,
   PERMISSION_CHANGE: Shield,
+  TWO_FACTOR_ENROLL: ShieldCheck,
+  TWO_FACTOR_VERIFY: ShieldCheck,
+  TWO_FACTOR_FAILED: ShieldAlert,
+  TWO_FACTOR_DISABLE: Shield,
+  PASSWORD_RESET_REQUEST: KeyRound,
+  PASSWORD_RESET: KeyRound,
+  LOGIN_FAILED: Lock,
+  ACCOUNT_UNLOCK: LockOpen,
+  PASSWORD_CHANGE: KeyRound,
+  UPDATE_PASSWORD_POLICY: Shield,
+  SESSION_REVOKE: LogOut,
+  API_TOKEN_CREATE: KeyRound,
+  API_TOKEN_REVOKE: KeyRound,
+  DIRECTORY_SYNC: RefreshCw,
+  IMPERSONATION_START: Eye,
+  IMPERSONATION_END: Eye,
+  IMPERSONATED_REQUEST: Eye,
 };
 
 const actionColors: Record<string, string> = {
@@ -67,6 +90,23 @@ const actionColors: Record<string, string> = {
   UPDATE_METADATA: "text-primary bg-primary/10",
   RESTORE: "text-accent bg-accent/10",
   PERMISSION_CHANGE: "text-chart-3 bg-chart-3/10",
+  TWO_FACTOR_ENROLL: "text-accent bg-accent/10",
+  TWO_FACTOR_VERIFY: "text-accent bg-accent/10",
+  TWO_FACTOR_FAILED: "text-destructive bg-destructive/10",
+  TWO_FACTOR_DISABLE: "text-chart-3 bg-chart-3/10",
+  PASSWORD_RESET_REQUEST: "text-chart-4 bg-chart-4/10",
+  PASSWORD_RESET: "text-chart-3 bg-chart-3/10",
+  LOGIN_FAILED: "text-destructive bg-destructive/10",
+  ACCOUNT_UNLOCK: "text-accent bg-accent/10",
+  PASSWORD_CHANGE: "text-chart-3 bg-chart-3/10",
+  UPDATE_PASSWORD_POLICY: "text-primary bg-primary/10",
+  SESSION_REVOKE: "text-muted-foreground bg-muted",
+  API_TOKEN_CREATE: "text-accent bg-accent/10",
+  API_TOKEN_REVOKE: "text-destructive bg-destructive/10",
+  DIRECTORY_SYNC: "text-chart-2 bg-chart-2/10",
+  IMPERSONATION_START: "text-chart-4 bg-chart-4/10",
+  IMPERSONATION_END: "text-muted-foreground bg-muted",
+  IMPERSONATED_REQUEST: "text-chart-4 bg-chart-4/10",
 };
 
 interface AuditLogWithUser extends AuditLog {
@@ -87,7 +127,7 @@ export default function AuditLogsPage() {
       const params = new URLSearchParams();
       if (userId) params.set("userId", userId);
       const queryString = params.toString();
-      const url = queryString ? `/api/audit/logs?${queryString}` : "/api/audit/logs";
+      const url = queryString ? `/api/audit-logs?${queryString}` : "/api/audit-logs";
       const res = await apiRequest("GET", url);
       return res.json();
     },
@@ -252,6 +292,28 @@ export default function AuditLogsPage() {
                                   #{log.entityId.slice(0, 8)}
                                 </span>
                               )}
+                              {log.apiTokenId && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs"
+                                  title={`API token ${log.apiTokenId}`}
+                                  data-testid={`badge-api-token-${log.id}`}
+                                >
+                                  <KeyRound className="h-3 w-3 mr-1" />
+                                  API token #{log.apiTokenId.slice(0, 8)}
+                                </Badge>
+                              )}
+                              {log.impersonatorId && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs border-amber-500 text-amber-600"
+                                  title={`Impersonated by user ${log.impersonatorId}`}
+                                  data-testid={`badge-impersonator-${log.id}`}
+                                >
+                                  <Eye className="h-3 w-3 mr-1" />
+                                  Impersonated by #{log.impersonatorId.slice(0, 8)}
+                                </Badge>
+                              )}
                             </div>
 
                             <p className="text-sm">
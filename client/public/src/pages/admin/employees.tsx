@@ -4,7 +4,7 @@ import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { motion } from "framer-motion";
-import { Plus, Users, Mail, Phone, MapPin, UserCircle2 } from "lucide-react";
+import { Plus, Users, Mail, Phone, MapPin, UserCircle2, RefreshCw } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -45,6 +45,8 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth-context";
+import { DirectorySyncDialog, type DirectorySyncStatus } from "@/components/directory-sync-dialog";
 
 const employmentStatusOptions = ["ACTIVE", "INACTIVE", "TERMINATED"] as const;
 const roleOptions = ["ORG_ADMIN", "MANAGER", "STAFF", "VIEWER"] as const;
@@ -101,7 +103,9 @@ type EmployeeRow = {
 
 export default function EmployeeManagementPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showSyncDialog, setShowSyncDialog] = useState(false);
   const [createdCredentials, setCreatedCredentials] = useState<{
     username: string;
     password: string;
@@ -115,6 +119,12 @@ export default function EmployeeManagementPage() {
     queryKey: ["/api/departments"],
   });
 
+  // Directory sync is platform-wide, so only Super Admins run it.
+  const { data: syncStatus } = useQuery<DirectorySyncStatus>({
+    queryKey: ["/api/directory-sync"],
+    enabled: user?.role === "SUPER_ADMIN",
+  });
+
   const createForm = useForm<CreateEmployeeFormData>({
     resolver: zodResolver(createEmployeeSchema),
     defaultValues: {
@@ -263,14 +273,22 @@ export default function EmployeeManagementPage() {
             </span>
           </div>
         </div>
-        <Button
-          className="gradient-bg text-white"
-          onClick={() => setShowCreateDialog(true)}
-          data-testid="button-create-employee"
-        >
-          <Plus className="h-4 w-4 mr-2" />
-          Add Employee
-        </Button>
+        <div className="flex gap-2">
+          {syncStatus?.configured && (
+            <Button variant="outline" onClick={() => setShowSyncDialog(true)} data-testid="button-directory-sync">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Directory Sync
+            </Button>
+          )}
+          <Button
+            className="gradient-bg text-white"
+            onClick={() => setShowCreateDialog(true)}
+            data-testid="button-create-employee"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Employee
+          </Button>
+        </div>
       </div>
 
       <motion.div
@@ -682,6 +700,10 @@ export default function EmployeeManagementPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      {syncStatus?.configured && (
+        <DirectorySyncDialog open={showSyncDialog} onOpenChange={setShowSyncDialog} status={syncStatus} />
+      )}
     </div>
   );
 }
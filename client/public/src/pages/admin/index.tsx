@@ -17,6 +17,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useAuth } from "@/lib/auth-context";
 import type { User, AuditLog } from "@shared/schema";
 
 interface AdminStats {
@@ -149,16 +150,22 @@ function ActivityRow({ log }: { log: AuditLog }) {
 }
 
 export default function AdminDashboard() {
+  const { user, can } = useAuth();
+  const canManageUsers = can("users:manage");
+  const isSuperAdmin = user?.role === "SUPER_ADMIN";
+  const canEditSettings = isSuperAdmin || user?.role === "ORG_ADMIN";
+
   const { data: stats, isLoading: statsLoading } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
   });
 
   const { data: recentUsers, isLoading: usersLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
+    enabled: canManageUsers,
   });
 
   const { data: recentActivity, isLoading: activityLoading } = useQuery<AuditLog[]>({
-    queryKey: ["/api/audit/logs"],
+    queryKey: [can("audit:read") ? "/api/audit-logs" : "/api/auth/activity"],
   });
 
   return (
@@ -175,12 +182,14 @@ export default function AdminDashboard() {
             Monitor system activity and manage users
           </p>
         </div>
-        <Link href="/admin/users">
-          <Button className="gradient-bg text-white" data-testid="button-manage-users">
-            <Users className="h-4 w-4 mr-2" />
-            Manage Users
-          </Button>
-        </Link>
+        {canManageUsers && (
+          <Link href="/admin/users">
+            <Button className="gradient-bg text-white" data-testid="button-manage-users">
+              <Users className="h-4 w-4 mr-2" />
+              Manage Users
+            </Button>
+          </Link>
+        )}
       </motion.div>
 
       <motion.div variants={itemVariants} className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -225,44 +234,46 @@ export default function AdminDashboard() {
       </motion.div>
 
       <motion.div variants={itemVariants} className="grid gap-6 lg:grid-cols-2">
-        <Card>
-          <CardHeader className="pb-3">
-            <div className="flex items-center justify-between gap-4 flex-wrap">
-              <div>
-                <CardTitle className="text-lg">Recent Users</CardTitle>
-                <CardDescription>Latest user accounts</CardDescription>
+        {canManageUsers && (
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between gap-4 flex-wrap">
+                <div>
+                  <CardTitle className="text-lg">Recent Users</CardTitle>
+                  <CardDescription>Latest user accounts</CardDescription>
+                </div>
+                <Link href="/admin/users">
+                  <Button variant="ghost" size="sm" data-testid="link-all-users">
+                    View All
+                    <ArrowUpRight className="ml-1 h-4 w-4" />
+                  </Button>
+                </Link>
               </div>
-              <Link href="/admin/users">
-                <Button variant="ghost" size="sm" data-testid="link-all-users">
-                  View All
-                  <ArrowUpRight className="ml-1 h-4 w-4" />
-                </Button>
-              </Link>
-            </div>
-          </CardHeader>
-          <CardContent className="space-y-1">
-            {usersLoading ? (
-              Array.from({ length: 5 }).map((_, i) => (
-                <div key={i} className="flex items-center gap-4 p-3">
-                  <Skeleton className="h-10 w-10 rounded-full" />
-                  <div className="flex-1">
-                    <Skeleton className="h-4 w-32 mb-1" />
-                    <Skeleton className="h-3 w-48" />
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {usersLoading ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <div key={i} className="flex items-center gap-4 p-3">
+                    <Skeleton className="h-10 w-10 rounded-full" />
+                    <div className="flex-1">
+                      <Skeleton className="h-4 w-32 mb-1" />
+                      <Skeleton className="h-3 w-48" />
+                    </div>
                   </div>
+                ))
+              ) : recentUsers?.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Users className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                  <p>No users yet</p>
                 </div>
-              ))
-            ) : recentUsers?.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                <Users className="h-12 w-12 mx-auto mb-3 opacity-50" />
-                <p>No users yet</p>
-              </div>
-            ) : (
-              recentUsers?.map((user) => (
-                <UserRow key={user.id} user={user} />
-              ))
-            )}
-          </CardContent>
-        </Card>
+              ) : (
+                recentUsers?.map((user) => (
+                  <UserRow key={user.id} user={user} />
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <Card>
           <CardHeader className="pb-3">
@@ -271,7 +282,7 @@ export default function AdminDashboard() {
                 <CardTitle className="text-lg">Recent Activity</CardTitle>
                 <CardDescription>System audit logs</CardDescription>
               </div>
-              <Link href="/admin/audit">
+              <Link href={isSuperAdmin ? "/admin/audit" : "/admin/activity"}>
                 <Button variant="ghost" size="sm" data-testid="link-all-activity">
                   View All
                   <ArrowUpRight className="ml-1 h-4 w-4" />
@@ -311,22 +322,26 @@ export default function AdminDashboard() {
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-4">
-              <Link href="/admin/users">
-                <Card className="hover-elevate cursor-pointer">
-                  <CardContent className="p-4 text-center">
-                    <Users className="h-8 w-8 mx-auto mb-2 text-primary" />
-                    <p className="font-medium text-sm">User Management</p>
-                  </CardContent>
-                </Card>
-              </Link>
-              <Link href="/admin/audit">
-                <Card className="hover-elevate cursor-pointer">
-                  <CardContent className="p-4 text-center">
-                    <Activity className="h-8 w-8 mx-auto mb-2 text-accent" />
-                    <p className="font-medium text-sm">Audit Logs</p>
-                  </CardContent>
-                </Card>
-              </Link>
+              {canManageUsers && (
+                <Link href="/admin/users">
+                  <Card className="hover-elevate cursor-pointer">
+                    <CardContent className="p-4 text-center">
+                      <Users className="h-8 w-8 mx-auto mb-2 text-primary" />
+                      <p className="font-medium text-sm">User Management</p>
+                    </CardContent>
+                  </Card>
+                </Link>
+              )}
+              {isSuperAdmin && (
+                <Link href="/admin/audit">
+                  <Card className="hover-elevate cursor-pointer">
+                    <CardContent className="p-4 text-center">
+                      <Activity className="h-8 w-8 mx-auto mb-2 text-accent" />
+                      <p className="font-medium text-sm">Audit Logs</p>
+                    </CardContent>
+                  </Card>
+                </Link>
+              )}
               <Link href="/admin/activity">
                 <Card className="hover-elevate cursor-pointer">
                   <CardContent className="p-4 text-center">
@@ -335,14 +350,16 @@ export default function AdminDashboard() {
                   </CardContent>
                 </Card>
               </Link>
-              <Link href="/admin/settings">
-                <Card className="hover-elevate cursor-pointer">
-                  <CardContent className="p-4 text-center">
-                    <Shield className="h-8 w-8 mx-auto mb-2 text-destructive" />
-                    <p className="font-medium text-sm">Security Settings</p>
-                  </CardContent>
-                </Card>
-              </Link>
+              {canEditSettings && (
+                <Link href="/admin/settings">
+                  <Card className="hover-elevate cursor-pointer">
+                    <CardContent className="p-4 text-center">
+                      <Shield className="h-8 w-8 mx-auto mb-2 text-destructive" />
+                      <p className="font-medium text-sm">Security Settings</p>
+                    </CardContent>
+                  </Card>
+                </Link>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Building, Edit2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { OrganizationWithCounts } from "@shared/schema";
+
+function OrganizationDialog({
+  open,
+  organization,
+  onOpenChange,
+}: {
+  open: boolean;
+  organization: OrganizationWithCounts | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setName(organization?.name ?? "");
+      setCode(organization?.code ?? "");
+    }
+  }, [open, organization]);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      organization
+        ? apiRequest("PATCH", `/api/organizations/${organization.id}`, { name, code })
+        : apiRequest("POST", "/api/organizations", { name, code }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      toast({ title: organization ? "Organization updated" : "Organization created" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save organization", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{organization ? "Edit Organization" : "New Organization"}</DialogTitle>
+          <DialogDescription>
+            Users, departments, folders and documents belong to exactly one organization. Org Admins only see their own.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Acme Corporation"
+              data-testid="input-organization-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="organization-code">Code</Label>
+            <Input
+              id="organization-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="ACME"
+              className="font-mono"
+              data-testid="input-organization-code"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="gradient-bg text-white"
+              disabled={!name.trim() || !code.trim() || saveMutation.isPending}
+              data-testid="button-save-organization"
+            >
+              {saveMutation.isPending ? "Saving..." : organization ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function OrganizationsPage() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<OrganizationWithCounts | null>(null);
+  const { toast } = useToast();
+
+  const { data: organizations, isLoading } = useQuery<OrganizationWithCounts[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/organizations/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      toast({ title: "Organization deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete organization", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openDialog = (organization: OrganizationWithCounts | null) => {
+    setEditing(organization);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold">Organizations</h1>
+          <p className="text-muted-foreground mt-1">Tenants on this platform and what each one holds</p>
+        </div>
+        <Button className="gradient-bg text-white" onClick={() => openDialog(null)} data-testid="button-create-organization">
+          <Plus className="h-4 w-4 mr-2" />
+          New Organization
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Organizations</CardTitle>
+          <CardDescription>An organization can only be deleted once it has no users or content left.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !organizations || organizations.length === 0 ? (
+            <div className="text-center py-12">
+              <Building className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <h3 className="font-medium mb-2">No organizations yet</h3>
+              <p className="text-muted-foreground text-sm">Create one, then assign users to it.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead className="text-right">Users</TableHead>
+                  <TableHead className="text-right">Departments</TableHead>
+                  <TableHead className="text-right">Documents</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {organizations.map((org) => {
+                  const isEmpty = org.userCount + org.departmentCount + org.folderCount + org.documentCount === 0;
+                  return (
+                    <TableRow key={org.id} data-testid={`row-organization-${org.id}`}>
+                      <TableCell className="font-medium">{org.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{org.code}</TableCell>
+                      <TableCell className="text-right">{org.userCount}</TableCell>
+                      <TableCell className="text-right">{org.departmentCount}</TableCell>
+                      <TableCell className="text-right">{org.documentCount}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {new Date(org.createdAt).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDialog(org)}
+                            data-testid={`button-edit-organization-${org.id}`}
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            disabled={!isEmpty || deleteMutation.isPending}
+                            title={isEmpty ? "Delete" : "Move or remove its users and content first"}
+                            onClick={() => deleteMutation.mutate(org.id)}
+                            data-testid={`button-delete-organization-${org.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <OrganizationDialog open={dialogOpen} organization={editing} onOpenChange={setDialogOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,531 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Archive, ChevronRight, FolderOpen, Home, Play, Plus, ScrollText, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type {
+  Folder,
+  FolderMetadataField,
+  RetentionAction,
+  RetentionPolicyWithFolder,
+  RetentionRunEntry,
+  RetentionRunReport,
+  TagCount,
+} from "@shared/schema";
+
+type TargetType = RetentionPolicyWithFolder["targetType"];
+
+function formatPeriod(months: number) {
+  if (months % 12 === 0) return months === 12 ? "1 year" : `${months / 12} years`;
+  return months === 1 ? "1 month" : `${months} months`;
+}
+
+function describeTarget(policy: RetentionPolicyWithFolder) {
+  switch (policy.targetType) {
+    case "FOLDER":
+      return `Folder "${policy.folderName ?? "deleted folder"}" and below`;
+    case "TAG":
+      return `Tagged "${policy.tag}"`;
+    case "METADATA":
+      return `${policy.metadataKey} is "${policy.metadataValue}"`;
+  }
+}
+
+// One folder level at a time; the folder being shown is the one picked.
+function FolderPicker({ path, onChange }: { path: Folder[]; onChange: (path: Folder[]) => void }) {
+  const current = path[path.length - 1];
+  const { data, isLoading } = useQuery<{ children: Folder[] }>({
+    queryKey: ["/api/folders", current?.id ?? "root"],
+  });
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex items-center gap-1 flex-wrap border-b px-3 py-2 text-sm">
+        <button type="button" className="text-muted-foreground hover:text-foreground" onClick={() => onChange([])}>
+          <Home className="h-4 w-4" />
+        </button>
+        {path.map((folder, i) => (
+          <span key={folder.id} className="flex items-center gap-1">
+            <ChevronRight className="h-3 w-3 text-muted-foreground" />
+            <button type="button" className="hover:underline" onClick={() => onChange(path.slice(0, i + 1))}>
+              {folder.name}
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="max-h-40 overflow-y-auto p-1">
+        {isLoading ? (
+          <Skeleton className="h-8 w-full" />
+        ) : !data?.children.length ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No subfolders</p>
+        ) : (
+          data.children.map((folder) => (
+            <button
+              key={folder.id}
+              type="button"
+              className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-muted"
+              onClick={() => onChange([...path, folder])}
+              data-testid={`button-pick-folder-${folder.id}`}
+            >
+              <FolderOpen className="h-4 w-4 text-muted-foreground" />
+              {folder.name}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PolicyDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [name, setName] = useState("");
+  const [targetType, setTargetType] = useState<TargetType>("FOLDER");
+  const [folderPath, setFolderPath] = useState<Folder[]>([]);
+  const [tag, setTag] = useState("");
+  const [metadataKey, setMetadataKey] = useState("");
+  const [metadataValue, setMetadataValue] = useState("");
+  const [startField, setStartField] = useState("");
+  const [period, setPeriod] = useState("");
+  const [unit, setUnit] = useState<"months" | "years">("years");
+  const [action, setAction] = useState<RetentionAction>("DISPOSE");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setTargetType("FOLDER");
+      setFolderPath([]);
+      setTag("");
+      setMetadataKey("");
+      setMetadataValue("");
+      setStartField("");
+      setPeriod("");
+      setUnit("years");
+      setAction("DISPOSE");
+    }
+  }, [open]);
+
+  const { data: tagCounts = [] } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+  const { data: metadataFields = [] } = useQuery<FolderMetadataField[]>({
+    queryKey: ["/api/metadata-fields"],
+    enabled: open,
+  });
+  const metadataKeys = Array.from(new Set(metadataFields.map((field) => field.key)));
+  const dateKeys = Array.from(new Set(metadataFields.filter((field) => field.type === "DATE").map((field) => field.key)));
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/retention-policies", {
+        name,
+        targetType,
+        folderId: targetType === "FOLDER" ? folderPath[folderPath.length - 1]?.id : null,
+        tag: targetType === "TAG" ? tag : null,
+        metadataKey: targetType === "METADATA" ? metadataKey : null,
+        metadataValue: targetType === "METADATA" ? metadataValue : null,
+        startFrom: startField ? "METADATA_DATE" : "UPLOADED",
+        startField: startField || null,
+        retentionMonths: Number(period) * (unit === "years" ? 12 : 1),
+        action,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention-policies"] });
+      toast({ title: "Retention policy created" });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create policy", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Retention Policy</DialogTitle>
+          <DialogDescription>
+            When a document is covered by several disposal policies, the longest one decides when it goes.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="policy-name">Name</Label>
+            <Input
+              id="policy-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Payroll files"
+              maxLength={100}
+              data-testid="input-policy-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Applies to</Label>
+            <Select value={targetType} onValueChange={(value) => setTargetType(value as TargetType)}>
+              <SelectTrigger data-testid="select-policy-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="FOLDER">Documents in a folder</SelectItem>
+                <SelectItem value="TAG">Documents with a tag</SelectItem>
+                <SelectItem value="METADATA">Documents with a metadata value</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {targetType === "FOLDER" && <FolderPicker path={folderPath} onChange={setFolderPath} />}
+          {targetType === "TAG" && (
+            <Select value={tag} onValueChange={setTag}>
+              <SelectTrigger data-testid="select-policy-tag">
+                <SelectValue placeholder="Choose a tag" />
+              </SelectTrigger>
+              <SelectContent>
+                {tagCounts.map((t) => (
+                  <SelectItem key={t.tag} value={t.tag}>
+                    {t.tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {targetType === "METADATA" && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={metadataKey} onValueChange={setMetadataKey}>
+                <SelectTrigger data-testid="select-policy-metadata-key">
+                  <SelectValue placeholder="Field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {metadataKeys.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {key}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={metadataValue}
+                onChange={(e) => setMetadataValue(e.target.value)}
+                placeholder="Value"
+                data-testid="input-policy-metadata-value"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="policy-period">Keep for</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="policy-period"
+                  type="number"
+                  min={1}
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  data-testid="input-policy-period"
+                />
+                <Select value={unit} onValueChange={(value) => setUnit(value as "months" | "years")}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="months">Months</SelectItem>
+                    <SelectItem value="years">Years</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Counted from</Label>
+              <Select value={startField || "UPLOADED"} onValueChange={(value) => setStartField(value === "UPLOADED" ? "" : value)}>
+                <SelectTrigger data-testid="select-policy-start">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="UPLOADED">Upload date</SelectItem>
+                  {dateKeys.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      Date field "{key}"
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {startField && (
+            <p className="text-xs text-muted-foreground">
+              Documents without a "{startField}" date are kept until one is filled in.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Then</Label>
+            <Select value={action} onValueChange={(value) => setAction(value as RetentionAction)}>
+              <SelectTrigger data-testid="select-policy-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ARCHIVE">Archive the document</SelectItem>
+                <SelectItem value="DISPOSE">Dispose of the document permanently</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="gradient-bg text-white"
+              disabled={!name.trim() || !period || createMutation.isPending}
+              data-testid="button-save-policy"
+            >
+              {createMutation.isPending ? "Saving..." : "Create Policy"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReportSection({ title, entries }: { title: string; entries: RetentionRunEntry[] }) {
+  if (entries.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium">
+        {title} ({entries.length})
+      </h3>
+      <ul className="space-y-1 text-sm">
+        {entries.map((entry) => (
+          <li key={entry.documentId} className="flex justify-between gap-4">
+            <span className="truncate">{entry.title}</span>
+            <span className="text-muted-foreground shrink-0">
+              {entry.policyName}, due {new Date(entry.dueAt).toLocaleDateString()}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function RetentionPage() {
+  const [showCreate, setShowCreate] = useState(false);
+  const [report, setReport] = useState<RetentionRunReport | null>(null);
+  const { toast } = useToast();
+
+  const { data: policies, isLoading } = useQuery<RetentionPolicyWithFolder[]>({
+    queryKey: ["/api/retention-policies"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      apiRequest("PATCH", `/api/retention-policies/${id}`, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/retention-policies"] }),
+    onError: (error) => {
+      toast({ title: "Failed to update policy", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/retention-policies/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/retention-policies"] });
+      toast({ title: "Retention policy deleted" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete policy", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const res = await apiRequest("POST", "/api/retention-policies/run", { dryRun });
+      return (await res.json()) as RetentionRunReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      }
+    },
+    onError: (error) => {
+      toast({ title: "Retention run failed", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold">Retention</h1>
+          <p className="text-muted-foreground mt-1">Archive or dispose of documents once they have been kept long enough</p>
+        </div>
+        <Button className="gradient-bg text-white" onClick={() => setShowCreate(true)} data-testid="button-new-policy">
+          <Plus className="h-4 w-4 mr-2" />
+          New Policy
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Policies</CardTitle>
+          <CardDescription>
+            Policies are applied daily. Documents under legal hold are never disposed of; every disposal writes a
+            certificate to the audit log.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !policies || policies.length === 0 ? (
+            <div className="text-center py-12">
+              <ScrollText className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <h3 className="font-medium mb-2">No retention policies yet</h3>
+              <p className="text-muted-foreground text-sm">Documents are kept until someone deletes them.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Keep for</TableHead>
+                  <TableHead>Then</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map((policy) => (
+                  <TableRow key={policy.id} data-testid={`row-policy-${policy.id}`}>
+                    <TableCell className="font-medium">{policy.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{describeTarget(policy)}</TableCell>
+                    <TableCell>
+                      {formatPeriod(policy.retentionMonths)}
+                      <div className="text-xs text-muted-foreground">
+                        from {policy.startFrom === "UPLOADED" ? "upload" : `"${policy.startField}"`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={policy.action === "DISPOSE" ? "destructive" : "secondary"}>
+                        {policy.action === "DISPOSE" ? "Dispose" : "Archive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.isActive}
+                        onCheckedChange={(isActive) => updateMutation.mutate({ id: policy.id, isActive })}
+                        data-testid={`switch-policy-active-${policy.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(policy.id)}
+                          data-testid={`button-delete-policy-${policy.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Apply Policies</CardTitle>
+          <CardDescription>Preview what is due now, or apply the policies without waiting for the daily run.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={runMutation.isPending}
+              onClick={() => runMutation.mutate(true)}
+              data-testid="button-preview-retention"
+            >
+              <Archive className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={runMutation.isPending}
+              onClick={() => runMutation.mutate(false)}
+              data-testid="button-run-retention"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Run Now
+            </Button>
+          </div>
+          {report && (
+            <div className="space-y-4 border-t pt-4" data-testid="retention-report">
+              <p className="text-sm text-muted-foreground">
+                {report.dryRun ? "Preview" : "Run"} at {new Date(report.ranAt).toLocaleString()}
+                {report.archived.length + report.disposed.length + report.held.length === 0 && ": nothing is due."}
+              </p>
+              <ReportSection title={report.dryRun ? "Would be archived" : "Archived"} entries={report.archived} />
+              <ReportSection title={report.dryRun ? "Would be disposed of" : "Disposed of"} entries={report.disposed} />
+              <ReportSection title="Kept under legal hold" entries={report.held} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PolicyDialog open={showCreate} onOpenChange={setShowCreate} />
+    </div>
+  );
+}
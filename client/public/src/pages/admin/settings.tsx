@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FileCheck, KeyRound, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { PasswordPolicyRules } from "@/components/change-password-form";
+import type { IntegrityIssue, IntegrityReport } from "@shared/schema";
+
+type PolicyToggleKey = Exclude<keyof PasswordPolicyRules, "minLength" | "historyCount">;
+
+const policyToggles: { key: PolicyToggleKey; label: string; description: string }[] = [
+  { key: "requireUppercase", label: "Uppercase letter", description: "At least one A-Z character" },
+  { key: "requireLowercase", label: "Lowercase letter", description: "At least one a-z character" },
+  { key: "requireNumber", label: "Number", description: "At least one digit" },
+  { key: "requireSymbol", label: "Symbol", description: "At least one non-alphanumeric character" },
+  {
+    key: "blockCommonPasswords",
+    label: "Block common passwords",
+    description: "Reject passwords found in the built-in breached password list",
+  },
+];
+
+function PasswordPolicyCard() {
+  const [draft, setDraft] = useState<PasswordPolicyRules | null>(null);
+  const { toast } = useToast();
+
+  const { data: policy, isLoading } = useQuery<PasswordPolicyRules>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) setDraft(policy);
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PasswordPolicyRules) => apiRequest("PUT", "/api/password-policy", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/password-policy"] });
+      toast({ title: "Password policy saved", description: "New rules apply the next time a password is set." });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save policy", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const update = <K extends keyof PasswordPolicyRules>(key: K, value: PasswordPolicyRules[K]) => {
+    setDraft((current) => (current ? { ...current, [key]: value } : current));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Password Policy
+        </CardTitle>
+        <CardDescription>Rules every new password in your organization must satisfy.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !draft ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="policy-min-length">Minimum length</Label>
+                <Input
+                  id="policy-min-length"
+                  type="number"
+                  min={6}
+                  max={128}
+                  value={draft.minLength}
+                  onChange={(e) => update("minLength", Number(e.target.value))}
+                  data-testid="input-policy-min-length"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-history">Remembered passwords</Label>
+                <Input
+                  id="policy-history"
+                  type="number"
+                  min={0}
+                  max={24}
+                  value={draft.historyCount}
+                  onChange={(e) => update("historyCount", Number(e.target.value))}
+                  data-testid="input-policy-history"
+                />
+                <p className="text-xs text-muted-foreground">Users cannot reuse this many previous passwords. 0 disables.</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {policyToggles.map((toggle) => (
+                <div key={toggle.key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`policy-${toggle.key}`}>{toggle.label}</Label>
+                    <p className="text-xs text-muted-foreground">{toggle.description}</p>
+                  </div>
+                  <Switch
+                    id={`policy-${toggle.key}`}
+                    checked={draft[toggle.key]}
+                    onCheckedChange={(checked) => update(toggle.key, checked)}
+                    data-testid={`switch-policy-${toggle.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                className="gradient-bg text-white"
+                disabled={saveMutation.isPending}
+                onClick={() => saveMutation.mutate(draft)}
+                data-testid="button-save-password-policy"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save policy"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function IssueList({ title, issues }: { title: string; issues: IntegrityIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium text-destructive">
+        {title} ({issues.length})
+      </h3>
+      <ul className="space-y-1 text-sm">
+        {issues.map((issue) => (
+          <li key={`${issue.filePath}-${issue.documentId}`} className="flex justify-between gap-4">
+            <span className="truncate">
+              {issue.title}
+              {issue.versionNumber !== null && ` (version ${issue.versionNumber})`}
+            </span>
+            <span className="font-mono text-xs text-muted-foreground truncate">{issue.filePath}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Platform-wide, so only Super Admins see it.
+function FileIntegrityCard() {
+  const { toast } = useToast();
+
+  const { data: status } = useQuery<{ running: boolean; lastReport: IntegrityReport | null }>({
+    queryKey: ["/api/integrity"],
+    refetchInterval: (query) => (query.state.data?.running ? 2000 : false),
+  });
+  const report = status?.lastReport;
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/integrity/verify"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/integrity"] }),
+    onError: (error) => {
+      toast({ title: "Failed to start the check", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCheck className="h-5 w-5 text-primary" />
+          File Integrity
+        </CardTitle>
+        <CardDescription>
+          Rehashes every stored file and compares it with the SHA-256 checksum recorded at upload.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button
+          className="gradient-bg text-white"
+          disabled={status?.running || verifyMutation.isPending}
+          onClick={() => verifyMutation.mutate()}
+          data-testid="button-verify-integrity"
+        >
+          <FileCheck className="h-4 w-4 mr-2" />
+          {status?.running ? "Verifying..." : "Verify Now"}
+        </Button>
+        {report && (
+          <div className="space-y-4 border-t pt-4" data-testid="integrity-report">
+            <p className="text-sm text-muted-foreground">
+              Last check {new Date(report.finishedAt).toLocaleString()}: {report.checked} files checked
+              {report.baselined > 0 && `, ${report.baselined} checksums recorded for the first time`}
+              {report.missing.length + report.corrupted.length === 0 && ", no problems found"}.
+            </p>
+            <IssueList title="Missing files" issues={report.missing} />
+            <IssueList title="Corrupted files" issues={report.corrupted} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <p className="text-muted-foreground mt-1">Organization-wide security configuration</p>
+      </div>
+
+      <PasswordPolicyCard />
+      {user?.role === "SUPER_ADMIN" && <FileIntegrityCard />}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Edit2, GitMerge, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { TagCount } from "@shared/schema";
+
+// Renames one tag (sources has a single entry) or merges several into one.
+function RetagDialog({
+  sources,
+  onOpenChange,
+  onDone,
+}: {
+  sources: string[] | null;
+  onOpenChange: (open: boolean) => void;
+  onDone: () => void;
+}) {
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+  const isMerge = !!sources && sources.length > 1;
+
+  useEffect(() => {
+    if (sources) setName(sources[0] ?? "");
+  }, [sources]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = isMerge
+        ? await apiRequest("POST", "/api/tags/merge", { sources, target: name })
+        : await apiRequest("PATCH", `/api/tags/${encodeURIComponent(sources![0])}`, { name });
+      return (await res.json()) as { tag: string; affected: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: isMerge ? `Merged into "${result.tag}"` : `Renamed to "${result.tag}"` });
+      onDone();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: isMerge ? "Failed to merge tags" : "Failed to rename tag",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!sources} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isMerge ? "Merge Tags" : "Rename Tag"}</DialogTitle>
+          <DialogDescription>
+            {isMerge
+              ? `Every document tagged ${sources!.map((s) => `"${s}"`).join(", ")} gets the tag below instead.`
+              : "Renaming to a tag that already exists merges the two."}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">{isMerge ? "Merge into" : "New name"}</Label>
+            <Input
+              id="tag-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              data-testid="input-tag-name"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="gradient-bg text-white"
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-save-tag"
+            >
+              {saveMutation.isPending ? "Saving..." : isMerge ? "Merge" : "Rename"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function TagsPage() {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [retagSources, setRetagSources] = useState<string[] | null>(null);
+
+  const { data: tags, isLoading } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const toggle = (tag: string, checked: boolean) => {
+    setSelected((current) => (checked ? [...current, tag] : current.filter((t) => t !== tag)));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold">Tags</h1>
+          <p className="text-muted-foreground mt-1">Tidy up the tags people put on documents</p>
+        </div>
+        <Button
+          className="gradient-bg text-white"
+          disabled={selected.length < 2}
+          onClick={() => setRetagSources(selected)}
+          data-testid="button-merge-tags"
+        >
+          <GitMerge className="h-4 w-4 mr-2" />
+          Merge Selected
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Tags</CardTitle>
+          <CardDescription>Select two or more tags to merge them into one.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !tags || tags.length === 0 ? (
+            <div className="text-center py-12">
+              <Tag className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <h3 className="font-medium mb-2">No tags yet</h3>
+              <p className="text-muted-foreground text-sm">Tags added to documents show up here.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Tag</TableHead>
+                  <TableHead className="text-right">Documents</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tags.map((t) => (
+                  <TableRow key={t.tag} data-testid={`row-tag-${t.tag}`}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.includes(t.tag)}
+                        onCheckedChange={(checked) => toggle(t.tag, checked === true)}
+                        data-testid={`checkbox-tag-${t.tag}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{t.tag}</TableCell>
+                    <TableCell className="text-right">{t.count}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRetagSources([t.tag])}
+                          data-testid={`button-rename-tag-${t.tag}`}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RetagDialog
+        sources={retagSources}
+        onOpenChange={(open) => !open && setRetagSources(null)}
+        onDone={() => setSelected([])}
+      />
+    </div>
+  );
+}
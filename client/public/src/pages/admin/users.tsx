@@ -22,6 +22,13 @@ import {
   Download,
   Info,
   LogOut,
+  ShieldCheck,
+  ShieldOff,
+  Lock,
+  LockOpen,
+  KeyRound,
+  MonitorSmartphone,
+  Eye,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -68,9 +75,20 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { User } from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { SessionList, type ActiveSession } from "@/components/session-list";
+import { useAuth } from "@/lib/auth-context";
+import type { Organization, User as BaseUser } from "@shared/schema";
+
+type User = BaseUser & {
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean;
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
+};
 
 const createUserSchema = z.object({
   email: z.string().email("Invalid email address"),
@@ -82,14 +100,151 @@ const createUserSchema = z.object({
   // to the user dashboard but not the admin area.
   role: z.enum(["STAFF", "VIEWER"]),
   isActive: z.boolean().default(true),
+  // Only Super Admins choose; everyone else creates users in their own organization.
+  organizationId: z.string().optional(),
 });
 
+const NO_ORGANIZATION = "NONE";
+
 type CreateUserFormData = z.infer<typeof createUserSchema>;
 
+function UserSessionsDialog({ user, onClose }: { user: User | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const sessionsKey = [`/api/users/${user?.id}/sessions`];
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: sessionsKey,
+    enabled: Boolean(user),
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => apiRequest("DELETE", `/api/users/${user!.id}/sessions/${sessionId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sessionsKey });
+      toast({ title: "Session revoked" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to revoke session", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(user)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            {user ? `Devices currently signed in as ${user.firstName} ${user.lastName} (@${user.username}).` : null}
+          </DialogDescription>
+        </DialogHeader>
+        <SessionList
+          sessions={sessions}
+          isLoading={isLoading}
+          onRevoke={(session) => revokeMutation.mutate(session.id)}
+          revokingId={revokeMutation.isPending ? revokeMutation.variables : null}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const impersonationDurations = [15, 30, 60];
+
+function ImpersonateDialog({ user, onClose }: { user: User | null; onClose: () => void }) {
+  const [reason, setReason] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState("30");
+  const [isStarting, setIsStarting] = useState(false);
+  const { impersonate } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const close = () => {
+    setReason("");
+    setDurationMinutes("30");
+    onClose();
+  };
+
+  const start = async () => {
+    if (!user) return;
+    setIsStarting(true);
+    try {
+      await impersonate(user.id, reason.trim(), Number(durationMinutes));
+      close();
+      setLocation("/");
+    } catch (error) {
+      toast({
+        title: "Could not start impersonation",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(user)} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Act as {user ? `${user.firstName} ${user.lastName}` : "user"}</DialogTitle>
+          <DialogDescription>
+            You will see exactly what this user sees. Password, 2FA, session and token changes are blocked, and
+            every request is logged against both of you.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="impersonation-reason">Reason</Label>
+            <Textarea
+              id="impersonation-reason"
+              placeholder="Support ticket #1234: can't see the Finance folder"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-impersonation-reason"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={durationMinutes} onValueChange={setDurationMinutes}>
+              <SelectTrigger data-testid="select-impersonation-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {impersonationDurations.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            className="gradient-bg text-white"
+            disabled={reason.trim().length < 3 || isStarting}
+            onClick={start}
+            data-testid="button-start-impersonation"
+          >
+            <Eye className="h-4 w-4 mr-2" />
+            {isStarting ? "Starting..." : "Start impersonating"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function UserManagementPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [impersonatedUser, setImpersonatedUser] = useState<User | null>(null);
   const [passwordStrength, setPasswordStrength] = useState<"weak" | "medium" | "strong">("weak");
   const [usernameSuggestions, setUsernameSuggestions] = useState<string[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
@@ -99,16 +254,24 @@ export default function UserManagementPage() {
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const isSuperAdmin = currentUser?.role === "SUPER_ADMIN";
 
   const { data: users, isLoading, error } = useQuery<User[]>({
     queryKey: ["/api/users"],
   });
 
+  const { data: organizations } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+    enabled: isSuperAdmin,
+  });
+
   const forceLogoutMutation = useMutation({
     mutationFn: async (id: string) => {
       return apiRequest("POST", `/api/users/${id}/force-logout`);
     },
-    onSuccess: () => {
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${id}/sessions`] });
       toast({ title: "User sessions terminated" });
     },
     onError: (error) => {
@@ -120,6 +283,57 @@ export default function UserManagementPage() {
     },
   });
 
+  const requireTwoFactorMutation = useMutation({
+    mutationFn: async ({ id, required }: { id: string; required: boolean }) => {
+      return apiRequest("PUT", `/api/users/${id}/2fa`, { required });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Two-factor requirement updated" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update two-factor requirement",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Account unlocked" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to unlock account",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/users/${id}/2fa`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Two-factor authentication reset" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to reset two-factor",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   const form = useForm<CreateUserFormData>({
     resolver: zodResolver(createUserSchema),
     mode: "onChange",
@@ -315,7 +529,10 @@ export default function UserManagementPage() {
   };
 
   const onSubmit = (data: CreateUserFormData) => {
-    createUserMutation.mutate(data);
+    createUserMutation.mutate({
+      ...data,
+      organizationId: data.organizationId === NO_ORGANIZATION ? undefined : data.organizationId,
+    });
   };
 
   const activeUsersCount = users?.filter((u) => u.isActive).length ?? 0;
@@ -437,7 +654,7 @@ export default function UserManagementPage() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="ALL">All roles</SelectItem>
-                  <SelectItem value="SUPER_ADMIN">Super Admin</SelectItem>
+                  {isSuperAdmin && <SelectItem value="SUPER_ADMIN">Super Admin</SelectItem>}
                   <SelectItem value="ORG_ADMIN">Org Admin</SelectItem>
                   <SelectItem value="MANAGER">Manager</SelectItem>
                   <SelectItem value="STAFF">Staff</SelectItem>
@@ -562,19 +779,44 @@ export default function UserManagementPage() {
                       </Badge>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={user.isActive ? "default" : "secondary"}>
-                        {user.isActive ? (
-                          <>
-                            <UserCheck className="h-3 w-3 mr-1" />
-                            Active
-                          </>
-                        ) : (
-                          <>
-                            <UserX className="h-3 w-3 mr-1" />
-                            Inactive
-                          </>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={user.isActive ? "default" : "secondary"}>
+                          {user.isActive ? (
+                            <>
+                              <UserCheck className="h-3 w-3 mr-1" />
+                              Active
+                            </>
+                          ) : (
+                            <>
+                              <UserX className="h-3 w-3 mr-1" />
+                              Inactive
+                            </>
+                          )}
+                        </Badge>
+                        {user.twoFactorEnabled && (
+                          <Badge variant="outline" className="text-xs" title="Two-factor enabled">
+                            <ShieldCheck className="h-3 w-3 mr-1" />
+                            2FA
+                          </Badge>
                         )}
-                      </Badge>
+                        {user.mustChangePassword && (
+                          <Badge variant="outline" className="text-xs" title="Must set a new password at next sign-in">
+                            <KeyRound className="h-3 w-3 mr-1" />
+                            Temp password
+                          </Badge>
+                        )}
+                        {user.lockedUntil && (
+                          <Badge
+                            variant="destructive"
+                            className="text-xs"
+                            title={`Locked until ${new Date(user.lockedUntil).toLocaleString()} after ${user.failedLoginAttempts} failed sign-ins`}
+                            data-testid={`badge-locked-${user.id}`}
+                          >
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
                       {user.lastLoginAt
@@ -619,12 +861,54 @@ export default function UserManagementPage() {
                             <ActivityIcon className="h-4 w-4 mr-2" />
                             View Activity
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setSessionsUser(user)}
+                            data-testid={`button-view-sessions-${user.id}`}
+                          >
+                            <MonitorSmartphone className="h-4 w-4 mr-2" />
+                            View Sessions
+                          </DropdownMenuItem>
+                          {isSuperAdmin && user.role !== "SUPER_ADMIN" && user.isActive && (
+                            <DropdownMenuItem
+                              onClick={() => setImpersonatedUser(user)}
+                              data-testid={`button-impersonate-${user.id}`}
+                            >
+                              <Eye className="h-4 w-4 mr-2" />
+                              Act as User
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuItem
                             onClick={() => forceLogoutMutation.mutate(user.id)}
                           >
                             <LogOut className="h-4 w-4 mr-2" />
                             Force Logout Sessions
                           </DropdownMenuItem>
+                          {(user.lockedUntil || (user.failedLoginAttempts ?? 0) > 0) && (
+                            <DropdownMenuItem
+                              onClick={() => unlockUserMutation.mutate(user.id)}
+                              data-testid={`button-unlock-${user.id}`}
+                            >
+                              <LockOpen className="h-4 w-4 mr-2" />
+                              {user.lockedUntil ? "Unlock Account" : "Reset Failed Sign-ins"}
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuItem
+                            onClick={() =>
+                              requireTwoFactorMutation.mutate({
+                                id: user.id,
+                                required: !user.twoFactorRequired,
+                              })
+                            }
+                          >
+                            <ShieldCheck className="h-4 w-4 mr-2" />
+                            {user.twoFactorRequired ? "Don't Require 2FA" : "Require 2FA"}
+                          </DropdownMenuItem>
+                          {user.twoFactorEnabled && (
+                            <DropdownMenuItem onClick={() => resetTwoFactorMutation.mutate(user.id)}>
+                              <ShieldOff className="h-4 w-4 mr-2" />
+                              Reset 2FA
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuSeparator />
                           <DropdownMenuItem
                             className="text-destructive"
@@ -787,6 +1071,34 @@ export default function UserManagementPage() {
                 )}
               />
 
+              {isSuperAdmin && (
+                <FormField
+                  control={form.control}
+                  name="organizationId"
+                  render={({ field }: { field: any }) => (
+                    <FormItem>
+                      <FormLabel>Organization</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value ?? NO_ORGANIZATION}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-organization">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ORGANIZATION}>No organization</SelectItem>
+                          {organizations?.map((org) => (
+                            <SelectItem key={org.id} value={org.id}>
+                              {org.name} ({org.code})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="isActive"
@@ -892,6 +1204,9 @@ export default function UserManagementPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <UserSessionsDialog user={sessionsUser} onClose={() => setSessionsUser(null)} />
+      <ImpersonateDialog user={impersonatedUser} onClose={() => setImpersonatedUser(null)} />
     </div>
   );
 }
@@ -0,0 +1,47 @@
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ChangePasswordForm } from "@/components/change-password-form";
+import { useAuth } from "@/lib/auth-context";
+import logoUrl from "@assets/udaan-logo.svg";
+
+// Shown instead of the app while the account is flagged mustChangePassword.
+export default function ChangePasswordPage() {
+  const [, setLocation] = useLocation();
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-background">
+      <div className="absolute top-4 right-4 z-10">
+        <ThemeToggle />
+      </div>
+
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <img src={logoUrl} alt="UDAAN" className="w-20 h-20" />
+        </div>
+
+        <Card className="border-0 shadow-xl">
+          <CardHeader className="space-y-1 pb-6">
+            <CardTitle className="text-2xl font-bold text-center">Set Your Password</CardTitle>
+            <CardDescription className="text-center">
+              {user?.firstName ? `Welcome, ${user.firstName}. ` : ""}
+              Your account was created with a temporary password. Choose your own to continue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm onSuccess={() => setLocation("/")} />
+            <button
+              type="button"
+              className="mt-6 w-full text-center text-sm text-muted-foreground hover:text-foreground"
+              onClick={() => logout().then(() => setLocation("/login"))}
+              data-testid="button-change-password-logout"
+            >
+              Sign out
+            </button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
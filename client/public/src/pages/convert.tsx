@@ -33,6 +33,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { authorizedFetch } from "@/lib/queryClient";
 
 interface Tool {
   id: string;
@@ -476,11 +477,8 @@ export default function ConvertPage() {
         if (value) body.append(key, value);
       });
 
-      const response = await fetch(tool.endpoint, {
+      const response = await authorizedFetch(tool.endpoint, {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
         body,
       });
 
@@ -551,10 +549,7 @@ export default function ConvertPage() {
   };
 
   const handleDownload = async (downloadUrl: string, fileName: string) => {
-    const token = localStorage.getItem("token");
-    const response = await fetch(downloadUrl, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
+    const response = await authorizedFetch(downloadUrl);
     const blob = await response.blob();
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement("a");
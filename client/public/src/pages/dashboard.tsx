@@ -166,7 +166,7 @@ function ActivityRow({ log }: { log: AuditLog }) {
 }
 
 export default function DashboardPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   const { data: stats, isLoading: statsLoading } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
@@ -177,7 +177,7 @@ export default function DashboardPage() {
   });
 
   const { data: recentActivity, isLoading: activityLoading } = useQuery<AuditLog[]>({
-    queryKey: ["/api/audit/logs"],
+    queryKey: [can("audit:read") ? "/api/audit-logs" : "/api/auth/activity"],
   });
 
   return (
@@ -196,12 +196,14 @@ export default function DashboardPage() {
             Here's what's happening with your documents today.
           </p>
         </div>
-        <Link href="/files">
-          <Button className="gradient-bg text-white" data-testid="button-upload-new">
-            <Plus className="h-4 w-4 mr-2" />
-            Upload New
-          </Button>
-        </Link>
+        {can("documents:upload") && (
+          <Link href="/files">
+            <Button className="gradient-bg text-white" data-testid="button-upload-new">
+              <Plus className="h-4 w-4 mr-2" />
+              Upload New
+            </Button>
+          </Link>
+        )}
       </motion.div>
 
       <motion.div variants={itemVariants} className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -247,34 +249,42 @@ export default function DashboardPage() {
       </motion.div>
 
       <motion.div variants={itemVariants} className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <QuickAction
-          title="Upload Files"
-          description="Add new documents"
-          icon={Upload}
-          href="/files"
-          color="gradient-bg"
-        />
-        <QuickAction
-          title="Convert Files"
-          description="PDF, DOCX, JPG..."
-          icon={RefreshCw}
-          href="/convert"
-          color="bg-accent"
-        />
-        <QuickAction
-          title="Create Folder"
-          description="Organize your files"
-          icon={FolderOpen}
-          href="/files"
-          color="bg-chart-3"
-        />
-        <QuickAction
-          title="Share Files"
-          description="Generate share codes"
-          icon={Share2}
-          href="/shared"
-          color="bg-destructive"
-        />
+        {can("documents:upload") && (
+          <QuickAction
+            title="Upload Files"
+            description="Add new documents"
+            icon={Upload}
+            href="/files"
+            color="gradient-bg"
+          />
+        )}
+        {can("files:convert") && (
+          <QuickAction
+            title="Convert Files"
+            description="PDF, DOCX, JPG..."
+            icon={RefreshCw}
+            href="/convert"
+            color="bg-accent"
+          />
+        )}
+        {can("folders:manage") && (
+          <QuickAction
+            title="Create Folder"
+            description="Organize your files"
+            icon={FolderOpen}
+            href="/files"
+            color="bg-chart-3"
+          />
+        )}
+        {can("documents:share") && (
+          <QuickAction
+            title="Share Files"
+            description="Generate share codes"
+            icon={Share2}
+            href="/shared"
+            color="bg-destructive"
+          />
+        )}
       </motion.div>
 
       <motion.div variants={itemVariants} className="grid gap-6 lg:grid-cols-3">
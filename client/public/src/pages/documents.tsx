@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import {
   FileText,
@@ -15,6 +15,9 @@ import {
   Calendar,
   User,
   Tag,
+  History,
+  Info,
+  Gavel,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -43,18 +46,52 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import type { Document } from "@shared/schema";
+import type { DocumentWithTags, TagCount } from "@shared/schema";
+import { useAuth } from "@/lib/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { CreateShareDialog, type ShareTarget } from "@/components/create-share-dialog";
+import { DocumentVersionsPanel } from "@/components/document-versions-panel";
+import { DocumentTagsDialog, TagChips } from "@/components/document-tags";
+import { DocumentDetailsPanel } from "@/components/document-details-panel";
+import { LegalHoldDialog, legalHoldTarget, type LegalHoldTarget } from "@/components/legal-hold-dialog";
 
 export default function DocumentsPage() {
   const [viewMode, setViewMode] = useState<"grid" | "list">("list");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [versionsDocument, setVersionsDocument] = useState<DocumentWithTags | null>(null);
+  const [tagFilter, setTagFilter] = useState<string>("all");
+  const [tagsDocument, setTagsDocument] = useState<DocumentWithTags | null>(null);
+  const [detailsDocumentId, setDetailsDocumentId] = useState<string | null>(null);
+  const [holdTarget, setHoldTarget] = useState<LegalHoldTarget | null>(null);
+  const { user, can } = useAuth();
+  const isAdmin = user?.role === "SUPER_ADMIN" || user?.role === "ORG_ADMIN";
+  const { toast } = useToast();
 
-  const { data: documents, isLoading } = useQuery<Document[]>({
+  const { data: documents, isLoading } = useQuery<DocumentWithTags[]>({
     queryKey: ["/api/documents"],
   });
 
+  const { data: tagCounts } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/documents/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Moved to the recycle bin" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete document", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
   const getFileIcon = (mimeType: string) => {
     if (mimeType.includes("pdf")) return "bg-destructive";
     if (mimeType.includes("image")) return "bg-accent";
@@ -80,7 +117,8 @@ export default function DocumentsPage() {
       doc.description?.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesStatus = statusFilter === "all" || doc.status === statusFilter;
     const matchesType = typeFilter === "all" || doc.mimeType.includes(typeFilter);
-    return matchesSearch && matchesStatus && matchesType;
+    const matchesTag = tagFilter === "all" || doc.tags.includes(tagFilter);
+    return matchesSearch && matchesStatus && matchesType && matchesTag;
   });
 
   return (
@@ -114,7 +152,6 @@ export default function DocumentsPage() {
             <SelectItem value="all">All Status</SelectItem>
             <SelectItem value="ACTIVE">Active</SelectItem>
             <SelectItem value="ARCHIVED">Archived</SelectItem>
-            <SelectItem value="DELETED">Deleted</SelectItem>
           </SelectContent>
         </Select>
 
@@ -131,6 +168,20 @@ export default function DocumentsPage() {
           </SelectContent>
         </Select>
 
+        <Select value={tagFilter} onValueChange={setTagFilter}>
+          <SelectTrigger className="w-40" data-testid="select-tag-filter">
+            <SelectValue placeholder="Tag" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Tags</SelectItem>
+            {tagCounts?.map((t) => (
+              <SelectItem key={t.tag} value={t.tag}>
+                {t.tag} ({t.count})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         <div className="flex items-center gap-1 bg-muted rounded-lg p-1">
           <Button
             variant={viewMode === "grid" ? "secondary" : "ghost"}
@@ -193,7 +244,7 @@ export default function DocumentsPage() {
           </div>
           <h3 className="text-lg font-medium mb-2">No documents found</h3>
           <p className="text-muted-foreground">
-            {searchQuery || statusFilter !== "all" || typeFilter !== "all"
+            {searchQuery || statusFilter !== "all" || typeFilter !== "all" || tagFilter !== "all"
               ? "Try adjusting your filters"
               : "Upload your first document to get started"}
           </p>
@@ -227,6 +278,7 @@ export default function DocumentsPage() {
                               {doc.description}
                             </p>
                           )}
+                          <TagChips tags={doc.tags} className="mt-1" />
                         </div>
                       </div>
                     </TableCell>
@@ -267,19 +319,64 @@ export default function DocumentsPage() {
                             <Eye className="h-4 w-4 mr-2" />
                             Preview
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setDetailsDocumentId(doc.id)}
+                            data-testid={`button-details-document-${doc.id}`}
+                          >
+                            <Info className="h-4 w-4 mr-2" />
+                            Details
+                          </DropdownMenuItem>
                           <DropdownMenuItem>
                             <Download className="h-4 w-4 mr-2" />
                             Download
                           </DropdownMenuItem>
-                          <DropdownMenuItem>
-                            <Share2 className="h-4 w-4 mr-2" />
-                            Share
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem className="text-destructive">
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
+                          <DropdownMenuItem
+                            onClick={() => setVersionsDocument(doc)}
+                            data-testid={`button-versions-document-${doc.id}`}
+                          >
+                            <History className="h-4 w-4 mr-2" />
+                            Version history
                           </DropdownMenuItem>
+                          {can("documents:edit") && (
+                            <DropdownMenuItem
+                              onClick={() => setTagsDocument(doc)}
+                              data-testid={`button-tags-document-${doc.id}`}
+                            >
+                              <Tag className="h-4 w-4 mr-2" />
+                              Edit tags
+                            </DropdownMenuItem>
+                          )}
+                          {can("documents:share") && (
+                            <DropdownMenuItem
+                              onClick={() => setShareTarget({ documentId: doc.id, name: doc.title })}
+                              data-testid={`button-share-document-${doc.id}`}
+                            >
+                              <Share2 className="h-4 w-4 mr-2" />
+                              Share
+                            </DropdownMenuItem>
+                          )}
+                          {isAdmin && (
+                            <DropdownMenuItem
+                              onClick={() => setHoldTarget(legalHoldTarget("documents", doc, doc.title))}
+                              data-testid={`button-legal-hold-document-${doc.id}`}
+                            >
+                              <Gavel className="h-4 w-4 mr-2" />
+                              {doc.legalHold ? "Release legal hold" : "Legal hold"}
+                            </DropdownMenuItem>
+                          )}
+                          {can("documents:delete") && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => deleteMutation.mutate(doc.id)}
+                                data-testid={`button-delete-document-${doc.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -311,6 +408,7 @@ export default function DocumentsPage() {
                   <Badge variant="secondary" className="mt-2 text-xs">
                     {getFileExtension(doc.mimeType)}
                   </Badge>
+                  <TagChips tags={doc.tags} className="mt-2 justify-center" />
                 </CardContent>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -324,19 +422,76 @@ export default function DocumentsPage() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDetailsDocumentId(doc.id);
+                      }}
+                    >
+                      <Info className="h-4 w-4 mr-2" />
+                      Details
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <Download className="h-4 w-4 mr-2" />
                       Download
                     </DropdownMenuItem>
-                    <DropdownMenuItem>
-                      <Share2 className="h-4 w-4 mr-2" />
-                      Share
-                    </DropdownMenuItem>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem className="text-destructive">
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setVersionsDocument(doc);
+                      }}
+                    >
+                      <History className="h-4 w-4 mr-2" />
+                      Version history
                     </DropdownMenuItem>
+                    {can("documents:edit") && (
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setTagsDocument(doc);
+                        }}
+                      >
+                        <Tag className="h-4 w-4 mr-2" />
+                        Edit tags
+                      </DropdownMenuItem>
+                    )}
+                    {can("documents:share") && (
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShareTarget({ documentId: doc.id, name: doc.title });
+                        }}
+                      >
+                        <Share2 className="h-4 w-4 mr-2" />
+                        Share
+                      </DropdownMenuItem>
+                    )}
+                    {isAdmin && (
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHoldTarget(legalHoldTarget("documents", doc, doc.title));
+                        }}
+                      >
+                        <Gavel className="h-4 w-4 mr-2" />
+                        {doc.legalHold ? "Release legal hold" : "Legal hold"}
+                      </DropdownMenuItem>
+                    )}
+                    {can("documents:delete") && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteMutation.mutate(doc.id);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </Card>
@@ -344,6 +499,20 @@ export default function DocumentsPage() {
           ))}
         </motion.div>
       )}
+
+      <CreateShareDialog target={shareTarget} onOpenChange={(open) => !open && setShareTarget(null)} />
+      <DocumentVersionsPanel
+        document={versionsDocument}
+        canEdit={can("documents:edit")}
+        onOpenChange={(open) => !open && setVersionsDocument(null)}
+      />
+      <DocumentTagsDialog document={tagsDocument} onOpenChange={(open) => !open && setTagsDocument(null)} />
+      <LegalHoldDialog target={holdTarget} onOpenChange={(open) => !open && setHoldTarget(null)} />
+      <DocumentDetailsPanel
+        document={documents?.find((doc) => doc.id === detailsDocumentId) ?? null}
+        canEdit={can("documents:edit")}
+        onOpenChange={(open) => !open && setDetailsDocumentId(null)}
+      />
     </div>
   );
 }
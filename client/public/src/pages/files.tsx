@@ -15,8 +15,11 @@ import {
   Trash2,
   Share2,
   Edit2,
+  ListChecks,
   FolderPlus,
-  Home
+  Home,
+  Users,
+  Gavel
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -46,12 +49,21 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Folder, Document } from "@shared/schema";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient, apiRequest, authorizedFetch, getApiErrorMessage } from "@/lib/queryClient";
+import type { Folder, FolderWithAccess, Document, FolderMetadataField } from "@shared/schema";
+import { hasFolderAccess, type FolderAccessLevel } from "@shared/permissions";
+import { FolderPermissionsDialog } from "@/components/folder-permissions-dialog";
+import { FolderMetadataDialog } from "@/components/folder-metadata-dialog";
+import { MetadataInputs, type MetadataFormValues } from "@/components/metadata-inputs";
+import { CreateShareDialog, type ShareTarget } from "@/components/create-share-dialog";
+import { LegalHoldDialog, legalHoldTarget, type LegalHoldTarget } from "@/components/legal-hold-dialog";
 
-interface FolderWithContents extends Folder {
-  children?: Folder[];
-  documents?: Document[];
+interface FolderWithContents {
+  folder: Folder | null;
+  access: FolderAccessLevel | null;
+  children: FolderWithAccess[];
+  documents: Document[];
 }
 
 export default function FilesPage() {
@@ -64,11 +76,33 @@ export default function FilesPage() {
   const [newFolderName, setNewFolderName] = useState("");
   const [isDragging, setIsDragging] = useState(false);
   const { toast } = useToast();
+  const { user, can } = useAuth();
+  const isAdmin = user?.role === "SUPER_ADMIN" || user?.role === "ORG_ADMIN";
+  const [permissionsFolder, setPermissionsFolder] = useState<Folder | null>(null);
+  const [metadataFolder, setMetadataFolder] = useState<Folder | null>(null);
+  const [uploadMetadata, setUploadMetadata] = useState<MetadataFormValues>({});
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [holdTarget, setHoldTarget] = useState<LegalHoldTarget | null>(null);
 
   const { data: folderData, isLoading } = useQuery<FolderWithContents>({
     queryKey: ["/api/folders", currentFolderId ?? "root"],
   });
 
+  // Fields uploads into this folder carry; documents at the root have none.
+  const { data: metadataFields = [] } = useQuery<FolderMetadataField[]>({
+    queryKey: ["/api/folders", currentFolderId, "metadata-fields"],
+    enabled: !!currentFolderId,
+  });
+  const uploadFields = currentFolderId ? metadataFields : [];
+
+  // The role decides which actions exist at all; the folder's access list
+  // decides where they apply.
+  const canWriteHere = hasFolderAccess(folderData?.access, "WRITE");
+  const canUpload = can("documents:upload") && canWriteHere;
+  const canCreateFolder = can("folders:manage") && canWriteHere;
+  const canManageFolder = (folder: FolderWithAccess) => can("folders:manage") && hasFolderAccess(folder.access, "MANAGE");
+  const canShare = can("documents:share");
+
   const createFolderMutation = useMutation({
     mutationFn: async (name: string) => {
       return apiRequest("POST", "/api/folders", {
@@ -96,24 +130,40 @@ export default function FilesPage() {
       if (currentFolderId) {
         formData.append("folderId", currentFolderId);
       }
-      const response = await fetch("/api/documents/upload", {
+      if (uploadFields.length > 0) {
+        formData.append("metadata", JSON.stringify(uploadMetadata));
+      }
+      const response = await authorizedFetch("/api/documents/upload", {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${localStorage.getItem("token")}`,
-        },
         body: formData,
       });
-      if (!response.ok) throw new Error("Upload failed");
+      if (!response.ok) throw new Error(`${response.status}: ${await response.text()}`);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
       setShowUploadDialog(false);
+      setUploadMetadata({});
       toast({ title: "Files uploaded successfully" });
     },
-    onError: () => {
-      toast({ title: "Failed to upload files", variant: "destructive" });
+    onError: (error) => {
+      // Part of a batch may have been stored before the failure.
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: "Failed to upload files", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (item: { kind: "folders" | "documents"; id: string }) => apiRequest("DELETE", `/api/${item.kind}/${item.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Moved to the recycle bin" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete", description: getApiErrorMessage(error), variant: "destructive" });
     },
   });
 
@@ -145,10 +195,16 @@ export default function FilesPage() {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files.length > 0) {
+    if (canUpload && e.dataTransfer.files.length > 0) {
+      // Required fields have to be filled in through the upload dialog first.
+      if (uploadFields.some((field) => field.required)) {
+        setShowUploadDialog(true);
+        toast({ title: "Fill in the required fields, then choose the files again" });
+        return;
+      }
       uploadMutation.mutate(e.dataTransfer.files);
     }
-  }, [uploadMutation]);
+  }, [uploadMutation, canUpload, uploadFields, toast]);
 
   const getFileIcon = (mimeType: string) => {
     if (mimeType.includes("pdf")) return "bg-destructive";
@@ -209,22 +265,36 @@ export default function FilesPage() {
           </Breadcrumb>
         </div>
         <div className="flex items-center gap-2">
-          <Button
-            variant="outline"
-            onClick={() => setShowNewFolderDialog(true)}
-            data-testid="button-new-folder"
-          >
-            <FolderPlus className="h-4 w-4 mr-2" />
-            New Folder
-          </Button>
-          <Button 
-            className="gradient-bg text-white"
-            onClick={() => setShowUploadDialog(true)}
-            data-testid="button-upload"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Upload
-          </Button>
+          {currentFolderId && folderData?.folder && can("folders:manage") && hasFolderAccess(folderData.access, "MANAGE") && (
+            <Button
+              variant="outline"
+              onClick={() => setPermissionsFolder(folderData.folder)}
+              data-testid="button-folder-access"
+            >
+              <Users className="h-4 w-4 mr-2" />
+              Access
+            </Button>
+          )}
+          {canCreateFolder && (
+            <Button
+              variant="outline"
+              onClick={() => setShowNewFolderDialog(true)}
+              data-testid="button-new-folder"
+            >
+              <FolderPlus className="h-4 w-4 mr-2" />
+              New Folder
+            </Button>
+          )}
+          {canUpload && (
+            <Button 
+              className="gradient-bg text-white"
+              onClick={() => setShowUploadDialog(true)}
+              data-testid="button-upload"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload
+            </Button>
+          )}
         </div>
       </div>
 
@@ -289,7 +359,7 @@ export default function FilesPage() {
                 ? "No items match your search"
                 : "Drag and drop files here, or click upload to get started"}
             </p>
-            {!searchQuery && (
+            {!searchQuery && canUpload && (
               <Button onClick={() => setShowUploadDialog(true)} className="gradient-bg text-white">
                 <Upload className="h-4 w-4 mr-2" />
                 Upload Files
@@ -343,19 +413,76 @@ export default function FilesPage() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem>
-                            <Edit2 className="h-4 w-4 mr-2" />
-                            Rename
-                          </DropdownMenuItem>
-                          <DropdownMenuItem>
-                            <Share2 className="h-4 w-4 mr-2" />
-                            Share
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem className="text-destructive">
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
+                          {canManageFolder(folder) && (
+                            <DropdownMenuItem>
+                              <Edit2 className="h-4 w-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                          )}
+                          {canManageFolder(folder) && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setPermissionsFolder(folder);
+                              }}
+                              data-testid={`button-folder-access-${folder.id}`}
+                            >
+                              <Users className="h-4 w-4 mr-2" />
+                              Manage access
+                            </DropdownMenuItem>
+                          )}
+                          {canManageFolder(folder) && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setMetadataFolder(folder);
+                              }}
+                              data-testid={`button-folder-metadata-${folder.id}`}
+                            >
+                              <ListChecks className="h-4 w-4 mr-2" />
+                              Metadata fields
+                            </DropdownMenuItem>
+                          )}
+                          {canShare && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setShareTarget({ folderId: folder.id, name: folder.name });
+                              }}
+                              data-testid={`button-share-folder-${folder.id}`}
+                            >
+                              <Share2 className="h-4 w-4 mr-2" />
+                              Share
+                            </DropdownMenuItem>
+                          )}
+                          {isAdmin && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setHoldTarget(legalHoldTarget("folders", folder, folder.name));
+                              }}
+                              data-testid={`button-legal-hold-folder-${folder.id}`}
+                            >
+                              <Gavel className="h-4 w-4 mr-2" />
+                              {folder.legalHold ? "Release legal hold" : "Legal hold"}
+                            </DropdownMenuItem>
+                          )}
+                          {canManageFolder(folder) && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteMutation.mutate({ kind: "folders", id: folder.id });
+                                }}
+                                data-testid={`button-delete-folder-${folder.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </CardContent>
@@ -407,19 +534,52 @@ export default function FilesPage() {
                             <Download className="h-4 w-4 mr-2" />
                             Download
                           </DropdownMenuItem>
-                          <DropdownMenuItem>
-                            <Share2 className="h-4 w-4 mr-2" />
-                            Share
-                          </DropdownMenuItem>
-                          <DropdownMenuItem>
-                            <Edit2 className="h-4 w-4 mr-2" />
-                            Rename
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem className="text-destructive">
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
+                          {canShare && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setShareTarget({ documentId: doc.id, name: doc.title });
+                              }}
+                              data-testid={`button-share-document-${doc.id}`}
+                            >
+                              <Share2 className="h-4 w-4 mr-2" />
+                              Share
+                            </DropdownMenuItem>
+                          )}
+                          {can("documents:edit") && canWriteHere && (
+                            <DropdownMenuItem>
+                              <Edit2 className="h-4 w-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                          )}
+                          {isAdmin && (
+                            <DropdownMenuItem
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setHoldTarget(legalHoldTarget("documents", doc, doc.title));
+                              }}
+                              data-testid={`button-legal-hold-document-${doc.id}`}
+                            >
+                              <Gavel className="h-4 w-4 mr-2" />
+                              {doc.legalHold ? "Release legal hold" : "Legal hold"}
+                            </DropdownMenuItem>
+                          )}
+                          {can("documents:delete") && canWriteHere && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deleteMutation.mutate({ kind: "documents", id: doc.id });
+                                }}
+                                data-testid={`button-delete-document-${doc.id}`}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </CardContent>
@@ -467,8 +627,12 @@ export default function FilesPage() {
             <DialogTitle>Upload Files</DialogTitle>
             <DialogDescription>
               Select files to upload to {folderPath.length > 0 ? folderPath[folderPath.length - 1].name : "Root"}.
+              {uploadFields.length > 0 && " Fill in the fields first; they apply to every file you choose."}
             </DialogDescription>
           </DialogHeader>
+          {uploadFields.length > 0 && (
+            <MetadataInputs fields={uploadFields} values={uploadMetadata} onChange={setUploadMetadata} />
+          )}
           <div
             className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:border-primary transition-colors"
             onClick={() => document.getElementById("file-input")?.click()}
@@ -499,6 +663,11 @@ export default function FilesPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <FolderPermissionsDialog folder={permissionsFolder} onOpenChange={(open) => !open && setPermissionsFolder(null)} />
+      <FolderMetadataDialog folder={metadataFolder} onOpenChange={(open) => !open && setMetadataFolder(null)} />
+      <CreateShareDialog target={shareTarget} onOpenChange={(open) => !open && setShareTarget(null)} />
+      <LegalHoldDialog target={holdTarget} onOpenChange={(open) => !open && setHoldTarget(null)} />
     </div>
   );
 }
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Mail, ArrowLeft, MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { forgotPasswordSchema } from "@shared/schema";
+import type { z } from "zod";
+import logoUrl from "@assets/udaan-logo.svg";
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", "/api/auth/forgot-password", data);
+      setSubmitted(true);
+    } catch (error) {
+      toast({
+        title: "Request failed",
+        description: getApiErrorMessage(error, "Could not request a password reset"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-background">
+      <div className="absolute top-4 right-4 z-10">
+        <ThemeToggle />
+      </div>
+
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <img src={logoUrl} alt="UDAAN" className="w-20 h-20" />
+        </div>
+
+        <Card className="border-0 shadow-xl">
+          <CardHeader className="space-y-1 pb-6">
+            <CardTitle className="text-2xl font-bold text-center">Forgot Password</CardTitle>
+            <CardDescription className="text-center">
+              {submitted
+                ? "Check your inbox for a link to reset your password."
+                : "Enter the email address on your account and we'll send you a reset link."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {submitted ? (
+              <div className="space-y-4 text-center">
+                <MailCheck className="h-12 w-12 mx-auto text-primary" />
+                <p className="text-sm text-muted-foreground">
+                  If an account exists for <span className="text-foreground">{form.getValues("email")}</span>, you
+                  will receive an email shortly. The link expires in 30 minutes.
+                </p>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                              type="email"
+                              placeholder="you@company.com"
+                              className="pl-10"
+                              data-testid="input-forgot-email"
+                              {...field}
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="submit"
+                    className="w-full gradient-bg text-white font-medium"
+                    disabled={isLoading}
+                    data-testid="button-send-reset-link"
+                  >
+                    {isLoading ? "Sending..." : "Send reset link"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+
+            <div className="mt-6 text-center text-sm">
+              <Link href="/login" className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="h-4 w-4" />
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
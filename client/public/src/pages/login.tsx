@@ -1,10 +1,11 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { motion } from "framer-motion";
-import { Eye, EyeOff, Lock, User, ArrowRight } from "lucide-react";
+import { Eye, EyeOff, Lock, User, ArrowRight, ShieldCheck, KeyRound, Building2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -17,8 +18,9 @@ import {
   FormMessage,
 } from "@/components/ui/form";  
 import { useToast } from "@/hooks/use-toast";
-import { useAuth } from "@/lib/auth-context";
+import { useAuth, type AuthSession } from "@/lib/auth-context";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { TwoFactorCodeInput, TwoFactorSetup } from "@/components/two-factor-setup";
 import logoUrl from "@assets/udaan-logo.svg";
 
 const loginSchema = z.object({
@@ -28,12 +30,30 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+interface SsoConfig {
+  enabled: boolean;
+  providerName: string | null;
+}
+
+type LoginStep =
+  | { kind: "credentials" }
+  | { kind: "two-factor"; challengeToken: string }
+  | { kind: "two-factor-setup"; challengeToken: string };
+
 export default function LoginPage() {
   const [location, setLocation] = useLocation();
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<LoginStep>({ kind: "credentials" });
+  const [otpCode, setOtpCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const { toast } = useToast();
-  const { login } = useAuth();
+  const { login, verifyTwoFactor, completeLogin, completeSsoLogin } = useAuth();
+  const ssoHandled = useRef(false);
+
+  const { data: ssoConfig } = useQuery<SsoConfig>({
+    queryKey: ["/api/auth/oidc/config"],
+  });
 
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -43,19 +63,77 @@ export default function LoginPage() {
     },
   });
 
+  const finishLogin = () => {
+    toast({
+      title: "Welcome back!",
+      description: "You have successfully logged in.",
+    });
+    const queryString = location.split("?")[1] ?? "";
+    const params = new URLSearchParams(queryString);
+    const next = params.get("next");
+    const target = next && next.startsWith("/") ? next : "/";
+    setLocation(target);
+  };
+
+  // The SSO callback lands here with either a hand-off token or an error in
+  // the URL fragment.
+  useEffect(() => {
+    if (ssoHandled.current || !window.location.hash) return;
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const handoffToken = params.get("sso");
+    const ssoError = params.get("sso_error");
+    if (!handoffToken && !ssoError) return;
+
+    ssoHandled.current = true;
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+
+    if (ssoError) {
+      toast({ title: "Single sign-on failed", description: ssoError, variant: "destructive" });
+      return;
+    }
+
+    setIsLoading(true);
+    completeSsoLogin(handoffToken!)
+      .then((result) => {
+        if (result.status !== "authenticated") {
+          setStep({ kind: result.status, challengeToken: result.challengeToken });
+          return;
+        }
+        const next = params.get("next");
+        toast({ title: "Welcome back!", description: "You have successfully logged in." });
+        setLocation(next && next.startsWith("/") ? next : "/");
+      })
+      .catch((error) => {
+        toast({
+          title: "Single sign-on failed",
+          description: error instanceof Error ? error.message : "Please try again",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startSsoLogin = () => {
+    const next = new URLSearchParams(location.split("?")[1] ?? "").get("next");
+    window.location.href = `/api/auth/oidc/login${next ? `?next=${encodeURIComponent(next)}` : ""}`;
+  };
+
+  const resetToCredentials = () => {
+    setStep({ kind: "credentials" });
+    setOtpCode("");
+    setUseRecoveryCode(false);
+    form.resetField("password");
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
     try {
-      await login(data.username, data.password);
-      toast({
-        title: "Welcome back!",
-        description: "You have successfully logged in.",
-      });
-      const queryString = location.split("?")[1] ?? "";
-      const params = new URLSearchParams(queryString);
-      const next = params.get("next");
-      const target = next && next.startsWith("/") ? next : "/";
-      setLocation(target);
+      const result = await login(data.username, data.password);
+      if (result.status === "authenticated") {
+        finishLogin();
+      } else {
+        setStep({ kind: result.status, challengeToken: result.challengeToken });
+      }
     } catch (error) {
       toast({
         title: "Login failed",
@@ -67,6 +145,24 @@ export default function LoginPage() {
     }
   };
 
+  const onVerifyTwoFactor = async () => {
+    if (step.kind !== "two-factor") return;
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(step.challengeToken, otpCode.trim(), useRecoveryCode);
+      finishLogin();
+    } catch (error) {
+      setOtpCode("");
+      toast({
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Invalid verification code",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex">
       <div className="absolute top-4 right-4 z-10">
@@ -107,90 +203,208 @@ export default function LoginPage() {
 
           <Card className="border-0 shadow-xl">
             <CardHeader className="space-y-1 pb-6">
-              <CardTitle className="text-2xl font-bold text-center">Welcome Back</CardTitle>
+              <CardTitle className="text-2xl font-bold text-center">
+                {step.kind === "credentials"
+                  ? "Welcome Back"
+                  : step.kind === "two-factor"
+                  ? "Two-Factor Verification"
+                  : "Set Up Two-Factor Authentication"}
+              </CardTitle>
               <CardDescription className="text-center">
+                {step.kind === "two-factor" &&
+                  (useRecoveryCode
+                    ? "Enter one of your recovery codes."
+                    : "Enter the 6-digit code from your authenticator app.")}
+                {step.kind === "two-factor-setup" &&
+                  "Your account requires a second factor before you can continue."}
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              placeholder="Enter your username"
-                              className="pl-10"
-                              data-testid="input-username"
-                              {...field}
-                            />
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
+              {step.kind === "two-factor" && (
+                <div className="space-y-4">
+                  <div className="flex justify-center">
+                    {useRecoveryCode ? (
+                      <div className="relative w-full">
+                        <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          placeholder="XXXXX-XXXXX"
+                          className="pl-10 font-mono uppercase"
+                          value={otpCode}
+                          onChange={(e) => setOtpCode(e.target.value)}
+                          data-testid="input-recovery-code"
+                        />
+                      </div>
+                    ) : (
+                      <TwoFactorCodeInput value={otpCode} onChange={setOtpCode} disabled={isLoading} />
                     )}
+                  </div>
+                  <Button
+                    type="button"
+                    className="w-full gradient-bg text-white font-medium"
+                    disabled={isLoading || (useRecoveryCode ? !otpCode.trim() : otpCode.length !== 6)}
+                    onClick={onVerifyTwoFactor}
+                    data-testid="button-verify-2fa"
+                  >
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    {isLoading ? "Verifying..." : "Verify"}
+                  </Button>
+                  <div className="flex items-center justify-between text-sm">
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setOtpCode("");
+                      }}
+                      data-testid="button-toggle-recovery-code"
+                    >
+                      {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                    </button>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={resetToCredentials}
+                    >
+                      Back to sign in
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {step.kind === "two-factor-setup" && (
+                <div className="space-y-4">
+                  <TwoFactorSetup
+                    challengeToken={step.challengeToken}
+                    onComplete={(result) => {
+                      if (result.token && result.refreshToken && result.user) {
+                        completeLogin(result as AuthSession);
+                        finishLogin();
+                      } else {
+                        resetToCredentials();
+                      }
+                    }}
                   />
+                  <button
+                    type="button"
+                    className="w-full text-center text-sm text-muted-foreground hover:text-foreground"
+                    onClick={resetToCredentials}
+                  >
+                    Back to sign in
+                  </button>
+                </div>
+              )}
+
+              {step.kind === "credentials" && (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Username</FormLabel>
+                          <FormControl>
+                            <div className="relative">
+                              <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                              <Input
+                                placeholder="Enter your username"
+                                className="pl-10"
+                                data-testid="input-username"
+                                {...field}
+                              />
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <div className="relative">
-                            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                            <Input
-                              type={showPassword ? "text" : "password"}
-                              placeholder="Enter your password"
-                              className="pl-10 pr-10"
-                              data-testid="input-password"
-                              {...field}
-                            />
-                            <button
-                              type="button"
-                              onClick={() => setShowPassword(!showPassword)}
-                              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
-                              data-testid="button-toggle-password"
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex items-center justify-between">
+                            <FormLabel>Password</FormLabel>
+                            <Link
+                              href="/forgot-password"
+                              className="text-xs text-primary hover:underline"
+                              data-testid="link-forgot-password"
                             >
-                              {showPassword ? (
-                                <EyeOff className="h-4 w-4" />
-                              ) : (
-                                <Eye className="h-4 w-4" />
-                              )}
-                            </button>
+                              Forgot password?
+                            </Link>
                           </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                          <FormControl>
+                            <div className="relative">
+                              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                              <Input
+                                type={showPassword ? "text" : "password"}
+                                placeholder="Enter your password"
+                                className="pl-10 pr-10"
+                                data-testid="input-password"
+                                {...field}
+                              />
+                              <button
+                                type="button"
+                                onClick={() => setShowPassword(!showPassword)}
+                                className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
+                                data-testid="button-toggle-password"
+                              >
+                                {showPassword ? (
+                                  <EyeOff className="h-4 w-4" />
+                                ) : (
+                                  <Eye className="h-4 w-4" />
+                                )}
+                              </button>
+                            </div>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <Button
-                    type="submit"
-                    className="w-full gradient-bg text-white font-medium"
-                    disabled={isLoading}
-                    data-testid="button-login"
-                  >
-                    {isLoading ? (
-                      <div className="flex items-center gap-2">
-                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                        Signing in...
-                      </div>
-                    ) : (
+                    <Button
+                      type="submit"
+                      className="w-full gradient-bg text-white font-medium"
+                      disabled={isLoading}
+                      data-testid="button-login"
+                    >
+                      {isLoading ? (
+                        <div className="flex items-center gap-2">
+                          <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                          Signing in...
+                        </div>
+                      ) : (
+                        <>
+                          Sign In
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </>
+                      )}
+                    </Button>
+
+                    {ssoConfig?.enabled && (
                       <>
-                        Sign In
-                        <ArrowRight className="ml-2 h-4 w-4" />
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                          <div className="h-px flex-1 bg-border" />
+                          or
+                          <div className="h-px flex-1 bg-border" />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="w-full"
+                          disabled={isLoading}
+                          onClick={startSsoLogin}
+                          data-testid="button-sso-login"
+                        >
+                          <Building2 className="mr-2 h-4 w-4" />
+                          Sign in with {ssoConfig.providerName}
+                        </Button>
                       </>
                     )}
-                  </Button>
-                </form>
-              </Form>
+                  </form>
+                </Form>
+              )}
 
               <div className="mt-6 text-center text-sm text-muted-foreground">
               </div>
@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, Download, ExternalLink, FileText, FolderOpen, KeyRound, Lock, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { canPreviewInline, sharePermissionAllows } from "@shared/permissions";
+import type { Document, Folder, PublicShare } from "@shared/schema";
+import logoUrl from "@assets/udaan-logo.svg";
+
+interface ShareContents {
+  folder: Folder | null;
+  folders: Folder[];
+  documents: Document[];
+}
+
+type Phase = "opening" | "password" | "verify" | "open" | "unavailable";
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The token from opening the share is kept for the browser tab so reloading
+// the page does not count as another use of the code.
+const tokenKey = (code: string) => `share-token:${code}`;
+
+async function readError(res: Response) {
+  return getApiErrorMessage(new Error(`${res.status}: ${await res.text()}`));
+}
+
+export default function PublicSharePage() {
+  const { code } = useParams<{ code: string }>();
+  const [phase, setPhase] = useState<Phase>("opening");
+  const [share, setShare] = useState<PublicShare | null>(null);
+  const [token, setToken] = useState<string | null>(() => sessionStorage.getItem(tokenKey(code)));
+  const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
+  const [verificationCode, setVerificationCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Folders opened below the shared folder, innermost last.
+  const [path, setPath] = useState<Folder[]>([]);
+  const { toast } = useToast();
+  const currentFolderId = path[path.length - 1]?.id;
+  const canDownload = !!share && sharePermissionAllows(share.permission, "DOWNLOAD");
+
+  // Sends whatever the visitor has entered so far; the server says what else
+  // it needs (a password, then an email verification for restricted shares).
+  const open = async () => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/public/shares/${encodeURIComponent(code)}/open`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(token ? { "X-Share-Token": token } : {}) },
+        body: JSON.stringify({
+          password: password || undefined,
+          email: codeSent ? email : undefined,
+          verificationCode: codeSent ? verificationCode : undefined,
+        }),
+      });
+      if (res.ok) {
+        const data: { token: string; share: PublicShare } = await res.json();
+        sessionStorage.setItem(tokenKey(code), data.token);
+        setToken(data.token);
+        setShare(data.share);
+        setMessage(null);
+        setPhase("open");
+        return;
+      }
+
+      const text = await res.text();
+      const error = getApiErrorMessage(new Error(`${res.status}: ${text}`));
+      if (res.status === 403 && text.includes('"requiresPassword":true')) {
+        setPhase("password");
+        setMessage(password ? error : null);
+        return;
+      }
+      if (res.status === 403 && text.includes('"requiresVerification":true')) {
+        setPhase("verify");
+        setMessage(codeSent ? error : null);
+        return;
+      }
+      setMessage(error);
+      setPhase(password && res.status === 429 ? "password" : "unavailable");
+    } catch {
+      setMessage("Could not reach the server. Check your connection and try again.");
+      setPhase("unavailable");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const sendCode = async () => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/public/shares/${encodeURIComponent(code)}/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (!res.ok) {
+        setMessage(await readError(res));
+        return;
+      }
+      setCodeSent(true);
+      setMessage(null);
+      toast({ title: "Check your email", description: "We sent a verification code if this address can open the share." });
+    } catch {
+      setMessage("Could not reach the server. Check your connection and try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  useEffect(() => {
+    open();
+    // Only on first load; later attempts come from the password form.
+  }, [code]);
+
+  const { data: contents, isLoading, error } = useQuery<ShareContents>({
+    queryKey: ["/api/public/shares", code, "contents", currentFolderId ?? "root"],
+    enabled: phase === "open" && !!token,
+    queryFn: async () => {
+      const params = currentFolderId ? `?folderId=${encodeURIComponent(currentFolderId)}` : "";
+      const res = await fetch(`/api/public/shares/${encodeURIComponent(code)}/contents${params}`, {
+        headers: { "X-Share-Token": token! },
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      return res.json();
+    },
+  });
+
+  const fetchFile = async (doc: Document, mode: "preview" | "download") => {
+    const res = await fetch(`/api/public/shares/${encodeURIComponent(code)}/documents/${doc.id}/${mode}`, {
+      headers: { "X-Share-Token": token! },
+    });
+    if (!res.ok) {
+      toast({
+        title: mode === "preview" ? "Could not open file" : "Download failed",
+        description: await readError(res),
+        variant: "destructive",
+      });
+      return;
+    }
+    const url = window.URL.createObjectURL(await res.blob());
+    // Types the browser must not render in place come back as attachments.
+    if (mode === "preview" && canPreviewInline(doc.mimeType)) {
+      window.open(url, "_blank", "noopener");
+      setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+      return;
+    }
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = doc.originalName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  return (
+    <div className="min-h-screen flex items-start justify-center p-8 bg-background">
+      <div className="absolute top-4 right-4 z-10">
+        <ThemeToggle />
+      </div>
+
+      <div className="w-full max-w-2xl">
+        <div className="flex justify-center mb-8">
+          <img src={logoUrl} alt="UDAAN" className="w-16 h-16" />
+        </div>
+
+        <Card className="border-0 shadow-xl">
+          {phase === "opening" && (
+            <CardContent className="p-6 space-y-3">
+              <Skeleton className="h-6 w-1/2" />
+              <Skeleton className="h-4 w-1/3" />
+              <Skeleton className="h-32 w-full" />
+            </CardContent>
+          )}
+
+          {phase === "unavailable" && (
+            <CardHeader className="text-center">
+              <CardTitle>Share unavailable</CardTitle>
+              <CardDescription data-testid="text-share-unavailable">
+                {message ?? "This link is invalid or has expired."}
+              </CardDescription>
+            </CardHeader>
+          )}
+
+          {phase === "password" && (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle>Password required</CardTitle>
+                <CardDescription>Enter the password you were given with this link.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    open();
+                  }}
+                >
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      className="pl-10"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      autoFocus
+                      data-testid="input-public-share-password"
+                    />
+                  </div>
+                  {message && <p className="text-sm text-destructive">{message}</p>}
+                  <Button
+                    type="submit"
+                    className="w-full gradient-bg text-white font-medium"
+                    disabled={!password || submitting}
+                    data-testid="button-unlock-share"
+                  >
+                    {submitting ? "Checking..." : "Open"}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          )}
+
+          {phase === "verify" && (
+            <>
+              <CardHeader className="text-center">
+                <CardTitle>Verify your email</CardTitle>
+                <CardDescription>
+                  This share is only for specific people. Enter the address it was shared with and we will email you a
+                  one-time code.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (codeSent) open();
+                    else sendCode();
+                  }}
+                >
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      type="email"
+                      className="pl-10"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => {
+                        setEmail(e.target.value);
+                        setCodeSent(false);
+                        setVerificationCode("");
+                      }}
+                      autoFocus
+                      data-testid="input-public-share-email"
+                    />
+                  </div>
+                  {codeSent && (
+                    <div className="relative">
+                      <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        inputMode="numeric"
+                        className="pl-10 font-mono tracking-widest"
+                        placeholder="6-digit code"
+                        maxLength={6}
+                        value={verificationCode}
+                        onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ""))}
+                        data-testid="input-public-share-verification-code"
+                      />
+                    </div>
+                  )}
+                  {message && <p className="text-sm text-destructive">{message}</p>}
+                  <Button
+                    type="submit"
+                    className="w-full gradient-bg text-white font-medium"
+                    disabled={submitting || !email || (codeSent && verificationCode.length !== 6)}
+                    data-testid="button-verify-share"
+                  >
+                    {submitting ? "Please wait..." : codeSent ? "Open" : "Send code"}
+                  </Button>
+                  {codeSent && (
+                    <Button type="button" variant="ghost" className="w-full" disabled={submitting} onClick={sendCode}>
+                      Send a new code
+                    </Button>
+                  )}
+                </form>
+              </CardContent>
+            </>
+          )}
+
+          {phase === "open" && share && (
+            <>
+              <CardHeader>
+                <CardTitle data-testid="text-public-share-title">{share.title ?? "Shared item"}</CardTitle>
+                <CardDescription>
+                  Shared by {share.sharedBy}.{" "}
+                  {canDownload ? "You can open and download these files." : "You can open these files but not download them."}
+                  {share.expiresAt && ` Available until ${new Date(share.expiresAt).toLocaleDateString()}.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {path.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-fit"
+                    onClick={() => setPath(path.slice(0, -1))}
+                    data-testid="button-public-folder-up"
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    {path.length > 1 ? path[path.length - 2].name : share.title ?? "Back"}
+                  </Button>
+                )}
+
+                <div className="divide-y rounded-md border" data-testid="list-public-share-contents">
+                  {isLoading ? (
+                    <div className="p-3 space-y-2">
+                      <Skeleton className="h-8 w-full" />
+                      <Skeleton className="h-8 w-full" />
+                    </div>
+                  ) : error ? (
+                    <p className="p-6 text-center text-sm text-muted-foreground">
+                      {getApiErrorMessage(error, "This share is no longer available.")}
+                    </p>
+                  ) : !contents || (contents.folders.length === 0 && contents.documents.length === 0) ? (
+                    <p className="p-6 text-center text-sm text-muted-foreground">This folder is empty.</p>
+                  ) : (
+                    <>
+                      {contents.folders.map((folder) => (
+                        <button
+                          key={folder.id}
+                          type="button"
+                          className="flex w-full items-center gap-3 p-3 text-left hover:bg-muted/50"
+                          onClick={() => setPath([...path, folder])}
+                          data-testid={`public-folder-${folder.id}`}
+                        >
+                          <FolderOpen className="h-4 w-4 text-chart-3 shrink-0" />
+                          <span className="flex-1 truncate text-sm font-medium">{folder.name}</span>
+                        </button>
+                      ))}
+                      {contents.documents.map((doc) => (
+                        <div key={doc.id} className="flex items-center gap-3 p-3" data-testid={`public-document-${doc.id}`}>
+                          <FileText className="h-4 w-4 text-primary shrink-0" />
+                          <div className="flex-1 min-w-0">
+                            <p className="truncate text-sm font-medium">{doc.title}</p>
+                            <p className="text-xs text-muted-foreground">{formatSize(doc.sizeBytes)}</p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Open"
+                            onClick={() => fetchFile(doc, "preview")}
+                            data-testid={`button-open-public-${doc.id}`}
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </Button>
+                          {canDownload && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Download"
+                              onClick={() => fetchFile(doc, "download")}
+                              data-testid={`button-download-public-${doc.id}`}
+                            >
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
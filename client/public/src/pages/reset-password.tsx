@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Lock, ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import logoUrl from "@assets/udaan-logo.svg";
+
+const resetFormSchema = z
+  .object({
+    password: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ResetFormData = z.infer<typeof resetFormSchema>;
+
+export default function ResetPasswordPage() {
+  const [, setLocation] = useLocation();
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const onSubmit = async (data: ResetFormData) => {
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password: data.password });
+      toast({
+        title: "Password updated",
+        description: "Sign in with your new password.",
+      });
+      setLocation("/login");
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: getApiErrorMessage(error, "Could not reset your password"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8 bg-background">
+      <div className="absolute top-4 right-4 z-10">
+        <ThemeToggle />
+      </div>
+
+      <div className="w-full max-w-md">
+        <div className="flex justify-center mb-8">
+          <img src={logoUrl} alt="UDAAN" className="w-20 h-20" />
+        </div>
+
+        <Card className="border-0 shadow-xl">
+          <CardHeader className="space-y-1 pb-6">
+            <CardTitle className="text-2xl font-bold text-center">Choose a New Password</CardTitle>
+            <CardDescription className="text-center">
+              {token
+                ? "You will be signed out of all devices after resetting."
+                : "This reset link is missing its token. Request a new one."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {token ? (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New password</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input type="password" className="pl-10" data-testid="input-new-password" {...field} />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm password</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input type="password" className="pl-10" data-testid="input-confirm-password" {...field} />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="submit"
+                    className="w-full gradient-bg text-white font-medium"
+                    disabled={isLoading}
+                    data-testid="button-reset-password"
+                  >
+                    {isLoading ? "Updating..." : "Reset password"}
+                  </Button>
+                </form>
+              </Form>
+            ) : (
+              <Button asChild className="w-full gradient-bg text-white font-medium">
+                <Link href="/forgot-password">Request a new link</Link>
+              </Button>
+            )}
+
+            <div className="mt-6 text-center text-sm">
+              <Link href="/login" className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground">
+                <ArrowLeft className="h-4 w-4" />
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
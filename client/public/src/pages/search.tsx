@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, authorizedFetch } from "@/lib/queryClient";
 import { 
   Search, 
   FileText, 
@@ -12,7 +12,9 @@ import {
   Calendar,
   HardDrive,
   Loader2,
-  ChevronDown
+  ChevronDown,
+  Tag,
+  ListChecks,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -37,8 +39,8 @@ import {
 } from "@/components/ui/collapsible";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { format } from "date-fns";
-import type { Document } from "@shared/schema";
-import { useAuth } from "@/lib/auth-context";
+import { TagChips } from "@/components/document-tags";
+import type { DocumentWithTags, FolderMetadataField, TagCount } from "@shared/schema";
 
 const fileTypeOptions = [
   { value: "", label: "All Types" },
@@ -74,7 +76,6 @@ function formatFileSize(bytes: number): string {
 }
 
 export default function SearchPage() {
-  const { token } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [mimeType, setMimeType] = useState("");
   const [sizeFilter, setSizeFilter] = useState("");
@@ -82,6 +83,24 @@ export default function SearchPage() {
   const [endDate, setEndDate] = useState<Date | undefined>();
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [metadataKey, setMetadataKey] = useState("");
+  const [metadataValue, setMetadataValue] = useState("");
+
+  const { data: metadataFields } = useQuery<FolderMetadataField[]>({
+    queryKey: ["/api/metadata-fields"],
+  });
+  const metadataField = metadataFields?.find((field) => field.key === metadataKey);
+
+  const { data: tagCounts } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags((current) =>
+      current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag],
+    );
+  };
 
   const sizeRange = sizeOptions.find(s => s.value === sizeFilter);
 
@@ -93,11 +112,13 @@ export default function SearchPage() {
     if (sizeRange?.max) params.set("maxSize", sizeRange.max.toString());
     if (startDate) params.set("startDate", startDate.toISOString());
     if (endDate) params.set("endDate", endDate.toISOString());
+    if (selectedTags.length > 0) params.set("tags", selectedTags.join(","));
+    if (metadataKey && metadataValue.trim()) params.set(`metadata[${metadataKey}]`, metadataValue.trim());
     return params.toString();
   };
 
   const searchParams = buildSearchParams();
-  const { data: results, isLoading, refetch, error } = useQuery<Document[]>({
+  const { data: results, isLoading, refetch, error } = useQuery<DocumentWithTags[]>({
     queryKey: ["/api/search", searchParams],
     queryFn: async () => {
       const url = searchParams ? `/api/search?${searchParams}` : "/api/search";
@@ -118,16 +139,19 @@ export default function SearchPage() {
     setSizeFilter("");
     setStartDate(undefined);
     setEndDate(undefined);
+    setSelectedTags([]);
+    setMetadataKey("");
+    setMetadataValue("");
     setHasSearched(false);
   };
 
-  const activeFiltersCount = [mimeType, sizeFilter, startDate, endDate].filter(Boolean).length;
+  const activeFiltersCount =
+    [mimeType, sizeFilter, startDate, endDate, metadataKey && metadataValue.trim()].filter(Boolean).length +
+    selectedTags.length;
 
-  const handleDownload = async (doc: Document) => {
+  const handleDownload = async (doc: DocumentWithTags) => {
     try {
-      const response = await fetch(`/api/documents/${doc.id}/download`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await authorizedFetch(`/api/documents/${doc.id}/download`);
       if (response.ok) {
         const blob = await response.blob();
         const url = URL.createObjectURL(blob);
@@ -273,6 +297,84 @@ export default function SearchPage() {
                   </Popover>
                 </div>
               </div>
+
+              {metadataFields && metadataFields.length > 0 && (
+                <div className="space-y-2 pt-4">
+                  <label className="text-sm font-medium flex items-center gap-2">
+                    <ListChecks className="h-4 w-4" />
+                    Metadata
+                  </label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <Select
+                      value={metadataKey || "none"}
+                      onValueChange={(value) => {
+                        setMetadataKey(value === "none" ? "" : value);
+                        setMetadataValue("");
+                      }}
+                    >
+                      <SelectTrigger data-testid="select-metadata-field">
+                        <SelectValue placeholder="Any field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No metadata filter</SelectItem>
+                        {metadataFields.map((field) => (
+                          <SelectItem key={field.key} value={field.key}>
+                            {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {metadataField?.type === "SELECT" ? (
+                      <Select value={metadataValue} onValueChange={setMetadataValue}>
+                        <SelectTrigger data-testid="select-metadata-value">
+                          <SelectValue placeholder="Choose..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {metadataField.options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        type={metadataField?.type === "DATE" ? "date" : "text"}
+                        value={metadataValue}
+                        onChange={(e) => setMetadataValue(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                        placeholder={metadataField ? `${metadataField.label} contains...` : "Choose a field first"}
+                        disabled={!metadataField}
+                        data-testid="input-metadata-value"
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {tagCounts && tagCounts.length > 0 && (
+                <div className="space-y-2 pt-4">
+                  <label className="text-sm font-medium flex items-center gap-2">
+                    <Tag className="h-4 w-4" />
+                    Tags
+                    <span className="text-xs font-normal text-muted-foreground">documents must have all selected tags</span>
+                  </label>
+                  <div className="flex flex-wrap gap-1">
+                    {tagCounts.map((t) => (
+                      <Badge
+                        key={t.tag}
+                        variant={selectedTags.includes(t.tag) ? "default" : "outline"}
+                        className="cursor-pointer font-normal"
+                        onClick={() => toggleTag(t.tag)}
+                        data-testid={`button-filter-tag-${t.tag}`}
+                      >
+                        {t.tag}
+                        <span className="ml-1 opacity-60">{t.count}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
             </CollapsibleContent>
           </Collapsible>
         </CardContent>
@@ -319,6 +421,7 @@ export default function SearchPage() {
                           {doc.mimeType.split("/").pop()?.toUpperCase()}
                         </Badge>
                       </div>
+                      <TagChips tags={doc.tags} className="mt-1" />
                     </div>
                     <Button
                       variant="ghost"
@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ShieldCheck, ShieldOff, KeyRound, Lock, MonitorSmartphone, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { RecoveryCodesList, TwoFactorCodeInput, TwoFactorSetup } from "@/components/two-factor-setup";
+import { ChangePasswordForm } from "@/components/change-password-form";
+import { SessionList, type ActiveSession } from "@/components/session-list";
+import { ApiTokensCard } from "@/components/api-tokens-card";
+import { useAuth } from "@/lib/auth-context";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+  enabledAt: string | null;
+}
+
+function TwoFactorCard() {
+  const [showSetup, setShowSetup] = useState(false);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [showDisable, setShowDisable] = useState(false);
+  const [regenerateCode, setRegenerateCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [disablePassword, setDisablePassword] = useState("");
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa/status"],
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: regenerateCode });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setNewRecoveryCodes(data.recoveryCodes);
+      setRegenerateCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+    },
+    onError: (error) => {
+      setRegenerateCode("");
+      toast({ title: "Could not regenerate codes", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/auth/2fa/disable", { password: disablePassword }),
+    onSuccess: () => {
+      setShowDisable(false);
+      setDisablePassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not disable two-factor", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const closeRegenerate = () => {
+    setShowRegenerate(false);
+    setNewRecoveryCodes(null);
+    setRegenerateCode("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Require a code from your authenticator app in addition to your password.
+            </CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"} data-testid="badge-2fa-status">
+              {status.enabled ? "Enabled" : "Disabled"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <Skeleton className="h-10 w-full" />
+        ) : status.enabled ? (
+          <>
+            <div className="grid gap-2 text-sm sm:grid-cols-2">
+              <div className="text-muted-foreground">
+                Enabled on{" "}
+                <span className="text-foreground">
+                  {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "—"}
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                Recovery codes left: <span className="text-foreground">{status.recoveryCodesRemaining}</span>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setShowRegenerate(true)} data-testid="button-regenerate-codes">
+                <KeyRound className="h-4 w-4 mr-2" />
+                Regenerate recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-destructive" onClick={() => setShowDisable(true)} data-testid="button-disable-2fa">
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Disable
+                </Button>
+              )}
+            </div>
+            {status.required && (
+              <p className="text-xs text-muted-foreground">
+                Two-factor authentication is required for your account and cannot be turned off.
+              </p>
+            )}
+          </>
+        ) : (
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <p className="text-sm text-muted-foreground">
+              {status.required
+                ? "Your administrator requires two-factor authentication for your account."
+                : "Protect your account against stolen passwords."}
+            </p>
+            <Button className="gradient-bg text-white" onClick={() => setShowSetup(true)} data-testid="button-setup-2fa">
+              Enable two-factor
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showSetup} onOpenChange={setShowSetup}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Set up two-factor authentication</DialogTitle>
+          </DialogHeader>
+          {showSetup && (
+            <TwoFactorSetup
+              onComplete={() => {
+                setShowSetup(false);
+                queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa/status"] });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showRegenerate} onOpenChange={(open) => !open && closeRegenerate()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Regenerate recovery codes</DialogTitle>
+            {!newRecoveryCodes && (
+              <DialogDescription>
+                Your existing recovery codes will stop working. Enter a code from your authenticator app to continue.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {newRecoveryCodes ? (
+            <RecoveryCodesList codes={newRecoveryCodes} onDone={closeRegenerate} />
+          ) : (
+            <>
+              <div className="flex justify-center">
+                <TwoFactorCodeInput value={regenerateCode} onChange={setRegenerateCode} disabled={regenerateMutation.isPending} />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={closeRegenerate}>
+                  Cancel
+                </Button>
+                <Button
+                  className="gradient-bg text-white"
+                  disabled={regenerateCode.length !== 6 || regenerateMutation.isPending}
+                  onClick={() => regenerateMutation.mutate()}
+                >
+                  Regenerate
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showDisable} onOpenChange={setShowDisable}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Disable two-factor authentication</DialogTitle>
+            <DialogDescription>Confirm your password to turn off two-factor authentication.</DialogDescription>
+          </DialogHeader>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="password"
+              placeholder="Current password"
+              className="pl-10"
+              value={disablePassword}
+              onChange={(e) => setDisablePassword(e.target.value)}
+              data-testid="input-disable-2fa-password"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDisable(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!disablePassword || disableMutation.isPending}
+              onClick={() => disableMutation.mutate()}
+            >
+              Disable
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+function ChangePasswordCard() {
+  const { user } = useAuth();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-primary" />
+          Password
+        </CardTitle>
+        <CardDescription>
+          {user?.passwordChangedAt
+            ? `Last changed ${new Date(user.passwordChangedAt).toLocaleDateString()}. `
+            : ""}
+          Changing your password signs you out on all other devices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="max-w-md">
+        <ChangePasswordForm />
+      </CardContent>
+    </Card>
+  );
+}
+
+function SessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => apiRequest("DELETE", `/api/auth/sessions/${sessionId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not revoke session", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", "/api/auth/sessions"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out of all other sessions" });
+    },
+    onError: (error) => {
+      toast({ title: "Could not revoke sessions", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const hasOtherSessions = sessions?.some((session) => !session.current) ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5 text-primary" />
+              Active Sessions
+            </CardTitle>
+            <CardDescription className="mt-1">Devices where you are currently signed in.</CardDescription>
+          </div>
+          {hasOtherSessions && (
+            <Button
+              variant="outline"
+              disabled={revokeOthersMutation.isPending}
+              onClick={() => revokeOthersMutation.mutate()}
+              data-testid="button-revoke-other-sessions"
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out other sessions
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <SessionList
+          sessions={sessions}
+          isLoading={isLoading}
+          onRevoke={(session) => revokeMutation.mutate(session.id)}
+          revokingId={revokeMutation.isPending ? revokeMutation.variables : null}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function SecurityPage() {
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-bold">Security</h1>
+        <p className="text-muted-foreground mt-1">Manage how you sign in to UDAAN</p>
+      </div>
+
+      <ChangePasswordCard />
+      <TwoFactorCard />
+      <SessionsCard />
+      <ApiTokensCard />
+    </div>
+  );
+}
@@ -10,10 +10,9 @@ import {
   FolderOpen,
   Plus,
   Trash2,
-  Eye,
-  Edit2,
   Users,
   Link2,
+  Lock,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -37,35 +36,55 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { ShareCode } from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { ReceivedShareDialog } from "@/components/received-share-dialog";
+import { ShareRedemptionsDialog } from "@/components/share-redemptions-dialog";
+import { sharePermissionDetails, shareLinkFor } from "@/components/create-share-dialog";
+import { sharePermissionLevels, type SharePermission } from "@shared/permissions";
+import type { CreatedShare, ReceivedShare } from "@shared/schema";
+
+function PermissionIcon({ permission }: { permission: SharePermission }) {
+  const Icon = sharePermissionDetails[permission].icon;
+  return <Icon className="h-3 w-3 mr-1" />;
+}
 
 export default function SharedPage() {
   const [accessCode, setAccessCode] = useState("");
+  const [accessPassword, setAccessPassword] = useState("");
+  const [passwordRequired, setPasswordRequired] = useState(false);
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [newSharePermission, setNewSharePermission] = useState<"VIEW" | "EDIT">("VIEW");
+  const [newSharePermission, setNewSharePermission] = useState<SharePermission>("VIEW");
+  const [openShare, setOpenShare] = useState<ReceivedShare | null>(null);
+  const [redemptionsShare, setRedemptionsShare] = useState<CreatedShare | null>(null);
   const { toast } = useToast();
 
-  const { data: myShares, isLoading: mySharesLoading } = useQuery<ShareCode[]>({
+  const { data: myShares, isLoading: mySharesLoading } = useQuery<CreatedShare[]>({
     queryKey: ["/api/shares/created"],
   });
 
-  const { data: sharedWithMe, isLoading: sharedWithMeLoading } = useQuery<ShareCode[]>({
+  const { data: sharedWithMe, isLoading: sharedWithMeLoading } = useQuery<ReceivedShare[]>({
     queryKey: ["/api/shares/received"],
   });
 
   const accessMutation = useMutation({
     mutationFn: async (code: string) => {
-      return apiRequest("POST", "/api/shares/access", { code });
+      return apiRequest("POST", "/api/shares/access", { code, password: accessPassword || undefined });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/shares/received"] });
       toast({ title: "Access granted!", description: "You can now view the shared content." });
       setAccessCode("");
+      setAccessPassword("");
+      setPasswordRequired(false);
     },
-    onError: () => {
-      toast({ title: "Invalid code", description: "Please check the code and try again.", variant: "destructive" });
+    onError: (error) => {
+      if (error.message.includes('"requiresPassword":true')) setPasswordRequired(true);
+      toast({
+        title: "Invalid code",
+        description: getApiErrorMessage(error, "Please check the code and try again."),
+        variant: "destructive",
+      });
     },
   });
 
@@ -86,6 +105,11 @@ export default function SharedPage() {
     toast({ title: "Code copied to clipboard" });
   };
 
+  const copyLink = async (code: string) => {
+    await navigator.clipboard.writeText(shareLinkFor(code));
+    toast({ title: "Link copied to clipboard", description: "Anyone with the link can open it without an account." });
+  };
+
   const formatExpiry = (date: Date | null) => {
     if (!date) return "Never expires";
     const d = new Date(date);
@@ -124,22 +148,35 @@ export default function SharedPage() {
             Access Shared Content
           </CardTitle>
           <CardDescription>
-            Enter a 6-digit code to access shared files or folders
+            Enter the code you were given to access shared files or folders
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex gap-3 max-w-md">
             <Input
-              placeholder="Enter 6-digit code"
+              placeholder="Enter share code"
               value={accessCode}
-              onChange={(e) => setAccessCode(e.target.value.toUpperCase().slice(0, 6))}
+              onChange={(e) => {
+                setAccessCode(e.target.value.toUpperCase().replace(/\s/g, "").slice(0, 64));
+                setPasswordRequired(false);
+                setAccessPassword("");
+              }}
               className="font-mono text-lg tracking-widest text-center"
-              maxLength={6}
+              maxLength={64}
               data-testid="input-access-code"
             />
+            {passwordRequired && (
+              <Input
+                type="password"
+                placeholder="Share password"
+                value={accessPassword}
+                onChange={(e) => setAccessPassword(e.target.value)}
+                data-testid="input-access-password"
+              />
+            )}
             <Button
               onClick={() => accessMutation.mutate(accessCode)}
-              disabled={accessCode.length !== 6 || accessMutation.isPending}
+              disabled={accessCode.length < 6 || accessMutation.isPending}
               className="gradient-bg text-white"
               data-testid="button-access-share"
             >
@@ -222,25 +259,47 @@ export default function SharedPage() {
                                 <Copy className="h-4 w-4" />
                               )}
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Copy public link"
+                              onClick={() => copyLink(share.code)}
+                              data-testid={`button-copy-link-${share.id}`}
+                            >
+                              <Link2 className="h-4 w-4" />
+                            </Button>
                           </div>
                           <div className="flex items-center gap-2 flex-wrap">
                             <Badge variant={share.permission === "VIEW" ? "secondary" : "default"}>
-                              {share.permission === "VIEW" ? (
-                                <Eye className="h-3 w-3 mr-1" />
-                              ) : (
-                                <Edit2 className="h-3 w-3 mr-1" />
-                              )}
+                              <PermissionIcon permission={share.permission} />
                               {share.permission}
                             </Badge>
+                            {share.hasPassword && (
+                              <Badge variant="outline">
+                                <Lock className="h-3 w-3 mr-1" />
+                                Password
+                              </Badge>
+                            )}
+                            {share.recipients.length > 0 && (
+                              <Badge variant="outline">
+                                <Users className="h-3 w-3 mr-1" />
+                                {share.recipients.length} {share.recipients.length === 1 ? "person" : "people"}
+                              </Badge>
+                            )}
                             <span className="text-xs text-muted-foreground flex items-center gap-1">
                               <Clock className="h-3 w-3" />
                               {formatExpiry(share.expiresAt)}
                             </span>
                           </div>
-                          <p className="text-xs text-muted-foreground mt-2">
+                          <button
+                            type="button"
+                            className="text-xs text-muted-foreground mt-2 hover:text-foreground hover:underline"
+                            onClick={() => setRedemptionsShare(share)}
+                            data-testid={`button-redemptions-${share.id}`}
+                          >
                             Used {share.usageCount} times
                             {share.maxUsages && ` / ${share.maxUsages} max`}
-                          </p>
+                          </button>
                         </div>
                         <Button
                           variant="ghost"
@@ -290,7 +349,11 @@ export default function SharedPage() {
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                 >
-                  <Card className="hover-elevate cursor-pointer" data-testid={`received-share-${share.id}`}>
+                  <Card
+                    className="hover-elevate cursor-pointer"
+                    onClick={() => setOpenShare(share)}
+                    data-testid={`received-share-${share.id}`}
+                  >
                     <CardContent className="p-4">
                       <div className="flex items-center gap-4">
                         <div className={`p-3 rounded-lg ${share.folderId ? "bg-chart-3" : "bg-primary"}`}>
@@ -301,18 +364,21 @@ export default function SharedPage() {
                           )}
                         </div>
                         <div className="flex-1 min-w-0">
-                          <p className="font-medium">
-                            Shared {share.folderId ? "Folder" : "Document"}
+                          <p className="font-medium truncate">
+                            {share.title ?? `Shared ${share.folderId ? "Folder" : "Document"}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            From {share.owner.firstName} {share.owner.lastName}
                           </p>
-                          <div className="flex items-center gap-2 mt-1">
+                          <div className="flex items-center gap-2 mt-1 flex-wrap">
                             <Badge variant="secondary">
-                              {share.permission === "VIEW" ? (
-                                <Eye className="h-3 w-3 mr-1" />
-                              ) : (
-                                <Edit2 className="h-3 w-3 mr-1" />
-                              )}
+                              <PermissionIcon permission={share.permission} />
                               {share.permission}
                             </Badge>
+                            <span className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {share.isActive ? formatExpiry(share.expiresAt) : "Revoked"}
+                            </span>
                           </div>
                         </div>
                       </div>
@@ -325,34 +391,36 @@ export default function SharedPage() {
         </TabsContent>
       </Tabs>
 
+      <ReceivedShareDialog share={openShare} onOpenChange={(open) => !open && setOpenShare(null)} />
+      <ShareRedemptionsDialog share={redemptionsShare} onOpenChange={(open) => !open && setRedemptionsShare(null)} />
+
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Create Share Link</DialogTitle>
             <DialogDescription>
-              Generate a 6-digit code to share files or folders
+              Generate a code to share files or folders
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Permission Level</label>
-              <Select value={newSharePermission} onValueChange={(v) => setNewSharePermission(v as "VIEW" | "EDIT")}>
+              <Select value={newSharePermission} onValueChange={(v) => setNewSharePermission(v as SharePermission)}>
                 <SelectTrigger data-testid="select-permission">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="VIEW">
-                    <div className="flex items-center gap-2">
-                      <Eye className="h-4 w-4" />
-                      View Only
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="EDIT">
-                    <div className="flex items-center gap-2">
-                      <Edit2 className="h-4 w-4" />
-                      Can Edit
-                    </div>
-                  </SelectItem>
+                  {sharePermissionLevels.map((level) => {
+                    const { label, icon: Icon } = sharePermissionDetails[level];
+                    return (
+                      <SelectItem key={level} value={level}>
+                        <div className="flex items-center gap-2">
+                          <Icon className="h-4 w-4" />
+                          {label}
+                        </div>
+                      </SelectItem>
+                    );
+                  })}
                 </SelectContent>
               </Select>
             </div>
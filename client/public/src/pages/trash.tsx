@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FileText, FolderOpen, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { TrashItem } from "@shared/schema";
+
+function itemUrl(item: TrashItem) {
+  return `/api/trash/${item.type === "FOLDER" ? "folders" : "documents"}/${item.id}`;
+}
+
+function invalidateAfterChange() {
+  queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+}
+
+function PurgeDialog({ item, onOpenChange }: { item: TrashItem | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+
+  const purgeMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", itemUrl(item!)),
+    onSuccess: () => {
+      invalidateAfterChange();
+      toast({ title: `"${item!.name}" deleted permanently` });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Permanently</DialogTitle>
+          <DialogDescription>
+            {item?.type === "FOLDER"
+              ? `"${item.name}" and everything that was deleted with it will be removed for good, files included.`
+              : `"${item?.name}" and all its versions will be removed for good.`}{" "}
+            This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={purgeMutation.isPending}
+            onClick={() => purgeMutation.mutate()}
+            data-testid="button-confirm-purge"
+          >
+            {purgeMutation.isPending ? "Deleting..." : "Delete Permanently"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function TrashPage() {
+  const [scope, setScope] = useState<"mine" | "org">("mine");
+  const [purgeItem, setPurgeItem] = useState<TrashItem | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "SUPER_ADMIN" || user?.role === "ORG_ADMIN";
+
+  const { data: items, isLoading } = useQuery<TrashItem[]>({
+    queryKey: ["/api/trash", scope],
+    queryFn: async () => {
+      const res = await apiRequest("GET", scope === "org" ? "/api/trash?scope=org" : "/api/trash");
+      return res.json();
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest("POST", `${itemUrl(item)}/restore`),
+    onSuccess: (_data, item) => {
+      invalidateAfterChange();
+      toast({ title: `"${item.name}" restored` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore", description: getApiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold">Recycle Bin</h1>
+          <p className="text-muted-foreground mt-1">Restore deleted files and folders to where they were</p>
+        </div>
+        {isAdmin && (
+          <Tabs value={scope} onValueChange={(value) => setScope(value as "mine" | "org")}>
+            <TabsList>
+              <TabsTrigger value="mine" data-testid="tab-trash-mine">Deleted by me</TabsTrigger>
+              <TabsTrigger value="org" data-testid="tab-trash-org">Organization</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Items</CardTitle>
+          <CardDescription>
+            Items are deleted permanently once their purge date passes. Restoring an item whose folder is gone
+            recreates the folder.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : !items || items.length === 0 ? (
+            <div className="text-center py-12">
+              <Trash2 className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <h3 className="font-medium mb-2">The recycle bin is empty</h3>
+              <p className="text-muted-foreground text-sm">Deleted files and folders show up here.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Original location</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Purge on</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id} data-testid={`row-trash-${item.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 font-medium">
+                        {item.type === "FOLDER" ? (
+                          <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                        ) : (
+                          <FileText className="h-4 w-4 text-muted-foreground" />
+                        )}
+                        {item.name}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {item.location.length > 0 ? item.location.map((folder) => folder.name).join(" / ") : "My Files"}
+                    </TableCell>
+                    <TableCell>
+                      <div>{new Date(item.deletedAt).toLocaleString()}</div>
+                      {item.deletedBy && (
+                        <div className="text-xs text-muted-foreground">
+                          by {item.deletedBy.firstName} {item.deletedBy.lastName}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{item.purgeAt ? new Date(item.purgeAt).toLocaleDateString() : "Never"}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Restore"
+                          disabled={restoreMutation.isPending}
+                          onClick={() => restoreMutation.mutate(item)}
+                          data-testid={`button-restore-${item.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete permanently"
+                          onClick={() => setPurgeItem(item)}
+                          data-testid={`button-purge-${item.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PurgeDialog item={purgeItem} onOpenChange={(open) => !open && setPurgeItem(null)} />
+    </div>
+  );
+}
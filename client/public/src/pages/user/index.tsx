@@ -16,7 +16,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/lib/auth-context";
 import { apiRequest } from "@/lib/queryClient";
-import type { AuditLog, ShareCode } from "@shared/schema";
+import type { AuditLog, ShareCodeSummary } from "@shared/schema";
 
 const containerVariants = {
   hidden: { opacity: 0 },
@@ -116,7 +116,7 @@ function ActivityRow({ log }: { log: AuditLog }) {
 }
 
 export default function UserDashboardPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   const {
     data: logs,
@@ -125,10 +125,7 @@ export default function UserDashboardPage() {
     queryKey: ["user-audit-logs", user?.id],
     enabled: !!user?.id,
     queryFn: async () => {
-      const params = new URLSearchParams();
-      if (user?.id) params.set("userId", user.id);
-      params.set("limit", "100");
-      const res = await apiRequest("GET", `/api/audit/logs?${params.toString()}`);
+      const res = await apiRequest("GET", "/api/auth/activity?limit=100");
       return res.json();
     },
   });
@@ -136,7 +133,7 @@ export default function UserDashboardPage() {
   const {
     data: shares,
     isLoading: sharesLoading,
-  } = useQuery<ShareCode[]>({
+  } = useQuery<ShareCodeSummary[]>({
     queryKey: ["user-share-codes"],
     queryFn: async () => {
       const res = await apiRequest("GET", "/api/shares/created");
@@ -180,12 +177,14 @@ export default function UserDashboardPage() {
             Personal activity and file stats for {user?.firstName} {user?.lastName}.
           </p>
         </div>
-        <Link href="/files">
-          <Button className="gradient-bg text-white">
-            <Upload className="h-4 w-4 mr-2" />
-            Upload Files
-          </Button>
-        </Link>
+        {can("documents:upload") && (
+          <Link href="/files">
+            <Button className="gradient-bg text-white">
+              <Upload className="h-4 w-4 mr-2" />
+              Upload Files
+            </Button>
+          </Link>
+        )}
       </motion.div>
 
       <motion.div variants={itemVariants} className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
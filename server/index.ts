@@ -1,11 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { scheduleDirectorySync } from "./services/directory-sync";
+import { scheduleTrashPurge } from "./services/recycle-bin";
+import { scheduleRetention } from "./services/retention";
 import { createServer } from "http";
 
 const app = express();
 const httpServer = createServer(app);
 
+// Behind a reverse proxy, req.ip is the proxy's address unless this is set;
+// login throttling and audit logs depend on the real client address.
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -93,6 +103,9 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      scheduleDirectorySync();
+      scheduleTrashPurge();
+      scheduleRetention();
     },
   );
 })();
@@ -0,0 +1,22 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { RequestHandler } from "express";
+
+// Per-request values that cross-cutting code (audit logging) needs without
+// every route having to pass them along.
+export interface RequestContext {
+  apiTokenId?: string;
+  impersonatorId?: string;
+}
+
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Multer resumes the middleware chain from stream callbacks, which run outside
+// the request's async context. Re-entering the context before calling next
+// keeps it available to the route handler.
+export function preserveRequestContext(handler: RequestHandler): RequestHandler {
+  return (req, res, next) => {
+    const store = requestContext.getStore();
+    if (!store) return handler(req, res, next);
+    handler(req, res, (err?: unknown) => requestContext.run(store, () => next(err)));
+  };
+}
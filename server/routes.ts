@@ -7,19 +7,90 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import crypto from "crypto";
-import { insertUserSchema, insertFolderSchema, loginSchema, insertDepartmentSchema } from "@shared/schema";
+import {
+  insertUserSchema, updateUserSchema, insertFolderSchema, loginSchema, insertDepartmentSchema,
+  forgotPasswordSchema, resetPasswordSchema, changePasswordSchema, updatePasswordPolicySchema, createApiTokenSchema,
+  startImpersonationSchema, setFolderPermissionSchema, userRoleEnum, organizationFormSchema, createShareSchema,
+  addDocumentTagSchema, setDocumentTagsSchema, renameTagSchema, mergeTagsSchema,
+  updateFolderSchema, updateDocumentSchema, metadataFieldFormSchema, updateMetadataFieldSchema, retentionPolicyFormSchema, updateRetentionPolicySchema, legalHoldSchema,
+  type User, type InsertUser, type Session, type Document, type UpdateDocument, type ShareCode, type CreatedShare, type RetentionPolicyWithFolder,
+} from "@shared/schema";
 import { z } from "zod";
 import * as fileProcessor from "./services/fileProcessor";
+import * as totp from "./services/totp";
+import { sendMail } from "./services/mailer";
+import * as loginThrottle from "./services/login-throttle";
+import * as passwordPolicy from "./services/password-policy";
+import { describeUserAgent } from "./services/user-agent";
+import * as apiTokens from "./services/api-tokens";
+import * as oidc from "./services/oidc";
+import * as directorySync from "./services/directory-sync";
+import * as shareAccess from "./services/share-access";
+import * as documentVersions from "./services/document-versions";
+import * as documentTags from "./services/document-tags";
+import * as folderMetadata from "./services/folder-metadata";
+import * as recycleBin from "./services/recycle-bin";
+import * as legalHold from "./services/legal-hold";
+import * as retention from "./services/retention";
+import * as fileIntegrity from "./services/file-integrity";
+import * as shareRecipients from "./services/share-recipients";
+import * as shareCodes from "./services/share-codes";
+import * as shareCodeThrottle from "./services/share-code-throttle";
+import { createRateLimiter } from "./services/rate-limit";
+import { requestContext, preserveRequestContext } from "./request-context";
+import { tenantStorageFor, type TenantStorage } from "./tenant-storage";
+import {
+  can, canPreviewInline, hasFolderAccess, type AccessPrincipal, type FolderAccessLevel, type Permission, type SharePermission,
+} from "@shared/permissions";
 
 const JWT_SECRET = process.env.SESSION_SECRET || "udaan-secret-key-change-in-production";
 const SALT_ROUNDS = 10;
+const ACCESS_TOKEN_TTL = "24h";
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const CHALLENGE_TOKEN_TTL = "5m";
+const PUBLIC_SHARE_TOKEN_TTL = "1h";
+// Requests per minute one client address may make to the public share API.
+const PUBLIC_SHARE_RATE_LIMIT = Number(process.env.PUBLIC_SHARE_RATE_LIMIT) || 60;
+// Wrong share passwords one client address may try per share every 15 minutes.
+const SHARE_PASSWORD_MAX_ATTEMPTS = Number(process.env.SHARE_PASSWORD_MAX_ATTEMPTS) || 10;
+const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+// Reset requests one client address may make every 15 minutes.
+const PASSWORD_RESET_RATE_LIMIT = Number(process.env.PASSWORD_RESET_RATE_LIMIT) || 5;
+// Hosts the app may be reached on when APP_URL is not set; anything else in
+// the Host header is refused rather than put into links.
+const APP_ALLOWED_HOSTS = (process.env.APP_ALLOWED_HOSTS || `localhost:${process.env.PORT || "5000"}`)
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+const OIDC_STATE_COOKIE = "udaan_oidc";
+const OIDC_STATE_TTL_MS = 10 * 60 * 1000;
+// lastUsedAt is refreshed at most this often to avoid a write per request.
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Roles that may not sign in without a second factor. Individual users can
+// additionally be flagged by a SUPER_ADMIN via userTwoFactor.isRequired.
+const TWO_FACTOR_REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "SUPER_ADMIN,ORG_ADMIN")
+  .split(",")
+  .map((role) => role.trim())
+  .filter(Boolean);
+
+const IMPERSONATION_DEFAULT_MINUTES = 30;
+const IMPERSONATION_MAX_MINUTES = Number(process.env.IMPERSONATION_MAX_MINUTES) || 60;
+
+// Routes a user flagged with mustChangePassword can still reach.
+const PASSWORD_CHANGE_ALLOWED_PATHS = new Set([
+  "/api/auth/me",
+  "/api/auth/logout",
+  "/api/auth/change-password",
+  "/api/password-policy",
+]);
 
 const uploadDir = path.join(process.cwd(), "uploads");
 if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
 
-const upload = multer({
+const multerUpload = multer({
   storage: multer.diskStorage({
     destination: uploadDir,
     filename: (req, file, cb) => {
@@ -30,17 +101,43 @@ const upload = multer({
   limits: { fileSize: 50 * 1024 * 1024 },
 });
 
+const upload = {
+  single: (field: string) => preserveRequestContext(multerUpload.single(field)),
+  array: (field: string, maxCount?: number) => preserveRequestContext(multerUpload.array(field, maxCount)),
+};
+
 interface AuthRequest extends Request {
-  user?: { id: string; role: string; organizationId?: string };
+  user?: {
+    id: string;
+    role: string;
+    organizationId?: string;
+    sessionId?: string;
+    apiTokenId?: string;
+    impersonatorId?: string;
+    impersonationId?: string;
+  };
+}
+
+// Changes an impersonating admin must not make on the user's behalf: their
+// credentials, second factor, sessions, tokens and anything under user admin.
+function isBlockedDuringImpersonation(method: string, path: string): boolean {
+  if (method === "GET" || method === "HEAD") return false;
+  return /^\/api\/(auth\/(change-password|2fa|sessions|logout)|tokens|password-policy|users)(\/|$)/.test(path);
 }
 
-function generateShareCode(): string {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let code = "";
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
+// Base URL for emailed links and the OIDC callback. The Host header is
+// client-controlled, so it is only used when it is on the allow-list.
+function getAppUrl(req: Request): string {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, "");
+  const host = req.get("host")?.toLowerCase();
+  if (!host || !APP_ALLOWED_HOSTS.includes(host)) {
+    throw new Error(`Host "${host}" is not allowed; set APP_URL or APP_ALLOWED_HOSTS`);
   }
-  return code;
+  return `${req.protocol}://${host}`;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
 }
 
 const employeeRoleValues = ["ORG_ADMIN", "MANAGER", "STAFF", "VIEWER"] as const;
@@ -61,6 +158,16 @@ const createEmployeeSchema = z.object({
 
 const updateEmployeeSchema = createEmployeeSchema.partial();
 
+// An employee's department and monitor must come from the same organization.
+async function findForeignEmployeeReference(
+  tenant: TenantStorage,
+  data: { departmentId?: string; monitorId?: string },
+): Promise<string | null> {
+  if (data.departmentId && !(await tenant.getDepartment(data.departmentId))) return "Department not found";
+  if (data.monitorId && !(await tenant.getUser(data.monitorId))) return "Monitor not found";
+  return null;
+}
+
 function generateRandomPassword(length = 12): string {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_-+";
   const bytes = crypto.randomBytes(length);
@@ -71,6 +178,17 @@ function generateRandomPassword(length = 12): string {
   return password;
 }
 
+// A first password the organization's policy accepts, so the account does not
+// start out with credentials its own rules would reject.
+async function generatePolicyPassword(owner: { username: string; email: string; organizationId?: string | null }) {
+  const policy = await passwordPolicy.getPasswordPolicy(owner.organizationId);
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const password = generateRandomPassword(Math.max(12, policy.minLength));
+    if (passwordPolicy.checkPasswordStrength(password, policy, owner).length === 0) return password;
+  }
+  throw new Error("Could not generate a password that satisfies the password policy");
+}
+
 async function generateUniqueUsername(firstName: string, lastName: string): Promise<string> {
   const baseRaw = `${firstName}.${lastName}`
     .trim()
@@ -94,6 +212,45 @@ async function generateUniqueUsername(firstName: string, lastName: string): Prom
   }
 }
 
+async function authenticateApiToken(req: AuthRequest, res: Response, next: NextFunction, rawToken: string) {
+  const token = await storage.getApiTokenByHash(apiTokens.hashApiToken(rawToken));
+  if (!token || token.revokedAt || new Date(token.expiresAt) < new Date()) {
+    return res.status(401).json({ message: "Invalid or expired API token" });
+  }
+
+  const user = await storage.getUser(token.userId);
+  if (!user || !user.isActive) {
+    return res.status(401).json({ message: "User not found or inactive" });
+  }
+  if (user.mustChangePassword) {
+    return res.status(403).json({
+      message: "You must change your password before continuing",
+      code: "PASSWORD_CHANGE_REQUIRED",
+    });
+  }
+
+  const scope = apiTokens.requiredScope(req.method, req.path);
+  if (!scope) {
+    return res.status(403).json({ message: "This endpoint cannot be called with an API token" });
+  }
+  if (!apiTokens.hasScope(token, scope)) {
+    return res.status(403).json({ message: `API token is missing the "${scope}" scope` });
+  }
+
+  if (!token.lastUsedAt || Date.now() - new Date(token.lastUsedAt).getTime() > apiTokens.LAST_USED_TOUCH_INTERVAL_MS) {
+    await storage.updateApiToken(token.id, { lastUsedAt: new Date(), lastUsedIp: req.ip });
+  }
+
+  req.user = {
+    id: user.id,
+    role: user.role,
+    organizationId: user.organizationId ?? undefined,
+    apiTokenId: token.id,
+  };
+  // Audit entries written while handling this request record the token.
+  requestContext.run({ apiTokenId: token.id }, next);
+}
+
 async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -101,19 +258,417 @@ async function authMiddleware(req: AuthRequest, res: Response, next: NextFunctio
   }
 
   const token = authHeader.slice(7);
+  if (apiTokens.isApiToken(token)) {
+    try {
+      return await authenticateApiToken(req, res, next, token);
+    } catch (error) {
+      return res.status(500).json({ message: "Failed to authenticate API token" });
+    }
+  }
+
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as { userId: string; role: string };
+    const payload = jwt.verify(token, JWT_SECRET) as {
+      userId: string;
+      role: string;
+      sid?: string;
+      purpose?: string;
+      imp?: string;
+      impId?: string;
+    };
+    if (payload.purpose) {
+      return res.status(401).json({ message: "Invalid token" });
+    }
     const user = await storage.getUser(payload.userId);
     if (!user || !user.isActive) {
       return res.status(401).json({ message: "User not found or inactive" });
     }
-    req.user = { id: user.id, role: user.role, organizationId: user.organizationId ?? undefined };
+
+    // Impersonation tokens act as the target user but stay tied to the admin's
+    // own session and to an impersonation record that can be ended early.
+    let impersonatorId: string | undefined;
+    if (payload.impId) {
+      const impersonation = await storage.getImpersonationSession(payload.impId);
+      const impersonator = payload.imp ? await storage.getUser(payload.imp) : undefined;
+      if (
+        !impersonation ||
+        impersonation.endedAt ||
+        new Date(impersonation.expiresAt) <= new Date() ||
+        impersonation.impersonatorId !== payload.imp ||
+        impersonation.targetUserId !== user.id ||
+        !impersonator?.isActive ||
+        impersonator.role !== "SUPER_ADMIN"
+      ) {
+        return res.status(401).json({ message: "Impersonation session has ended", code: "IMPERSONATION_ENDED" });
+      }
+      impersonatorId = impersonator.id;
+
+      res.on("finish", () => {
+        storage
+          .createAuditLog({
+            userId: user.id,
+            organizationId: user.organizationId,
+            impersonatorId,
+            action: "IMPERSONATED_REQUEST",
+            entityType: "USER",
+            entityId: user.id,
+            metadata: { impersonationId: impersonation.id, method: req.method, path: req.originalUrl, status: res.statusCode },
+            ipAddress: req.ip,
+            userAgent: req.headers["user-agent"],
+          })
+          .catch((error) => console.error("[auth] Failed to log impersonated request:", error));
+      });
+
+      if (isBlockedDuringImpersonation(req.method, req.path)) {
+        return res.status(403).json({
+          message: "This action is not available while impersonating a user",
+          code: "IMPERSONATION_BLOCKED",
+        });
+      }
+    }
+
+    // Access tokens are bound to their session family so revoking a session
+    // takes effect immediately rather than when the token expires.
+    if (payload.sid) {
+      const session = await storage.getActiveSessionByFamily(payload.sid);
+      if (!session || session.userId !== (impersonatorId ?? user.id)) {
+        return res.status(401).json({ message: "Session has been revoked" });
+      }
+      if (Date.now() - new Date(session.lastUsedAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        await storage.updateSession(session.id, {
+          lastUsedAt: new Date(),
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        });
+      }
+    }
+    if (user.mustChangePassword && !impersonatorId && !PASSWORD_CHANGE_ALLOWED_PATHS.has(req.path)) {
+      return res.status(403).json({
+        message: "You must change your password before continuing",
+        code: "PASSWORD_CHANGE_REQUIRED",
+      });
+    }
+    req.user = {
+      id: user.id,
+      role: user.role,
+      organizationId: user.organizationId ?? undefined,
+      sessionId: payload.sid,
+      impersonatorId,
+      impersonationId: payload.impId,
+    };
+    if (impersonatorId) {
+      return requestContext.run({ impersonatorId }, next);
+    }
     next();
   } catch (error) {
     return res.status(401).json({ message: "Invalid token" });
   }
 }
 
+// Issues a fresh access token plus a refresh token. Passing the session being
+// rotated keeps the new refresh token in the same family so reuse of any older
+// token in the chain can revoke all of them at once.
+async function issueTokens(req: Request, user: { id: string; role: string }, previous?: Session) {
+  const familyId = previous?.familyId ?? crypto.randomUUID();
+  const token = jwt.sign({ userId: user.id, role: user.role, sid: familyId }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+  });
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshToken,
+    familyId,
+    userAgent: req.headers["user-agent"],
+    ipAddress: req.ip,
+    ...(previous ? { signedInAt: previous.signedInAt } : {}),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return { token, refreshToken, session };
+}
+
+async function revokeReusedSessionFamily(req: Request, session: Session) {
+  await storage.deleteSessionFamily(session.familyId);
+  await storage.createAuditLog({
+    userId: session.userId,
+    action: "LOGOUT",
+    entityType: "USER",
+    entityId: session.userId,
+    metadata: { reason: "refresh_token_reuse", familyId: session.familyId },
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+  console.warn(`[auth] Refresh token reuse detected for userId=${session.userId}, session family revoked`);
+}
+
+function serializeSession(session: Session, currentFamilyId?: string) {
+  return {
+    id: session.familyId,
+    ...describeUserAgent(session.userAgent),
+    ipAddress: session.ipAddress,
+    signedInAt: session.signedInAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.familyId === currentFamilyId,
+  };
+}
+
+// Final step of every successful sign-in: issues tokens, stamps lastLoginAt and
+// records the LOGIN audit entry.
+async function completeLogin(req: Request, user: User, metadata?: Record<string, unknown>) {
+  const { token, refreshToken } = await issueTokens(req, user);
+
+  await storage.updateUser(user.id, { lastLoginAt: new Date() } as any);
+  await loginThrottle.clearLoginFailures(user.username, req.ip);
+
+  await storage.createAuditLog({
+    userId: user.id,
+    action: "LOGIN",
+    entityType: "USER",
+    entityId: user.id,
+    metadata,
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+
+  const { password: _, ...safeUser } = user;
+  console.log(`[auth] Login success for username="${user.username}", role=${user.role}`);
+  return { token, refreshToken, user: safeUser };
+}
+
+// Hashes and stores a password the caller has already validated against the
+// policy, and remembers it so it cannot be reused.
+async function setUserPassword(user: User, plainPassword: string, mustChangePassword: boolean): Promise<User> {
+  const hashed = await bcrypt.hash(plainPassword, SALT_ROUNDS);
+  const updated = await storage.updateUser(user.id, {
+    password: hashed,
+    mustChangePassword,
+    passwordChangedAt: new Date(),
+  });
+  await passwordPolicy.recordPasswordHistory(user.id, hashed, user.organizationId);
+  return updated ?? user;
+}
+
+async function recordFailedLogin(
+  req: Request,
+  username: string,
+  user: User | undefined,
+  reason: string,
+) {
+  const { failedAttempts, lockout } = await loginThrottle.recordLoginFailure(username, req.ip);
+
+  await storage.createAuditLog({
+    userId: user?.id,
+    organizationId: user?.organizationId,
+    action: "LOGIN_FAILED",
+    entityType: "USER",
+    entityId: user?.id,
+    metadata: { username, reason, failedAttempts, lockedUntil: lockout?.lockedUntil ?? null },
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+
+  console.warn(`[auth] Failed login (${reason}) for username="${username}" from ip=${req.ip}, attempts=${failedAttempts}`);
+}
+
+function sendLockedOut(res: Response, lockout: loginThrottle.LoginLockout) {
+  res.setHeader("Retry-After", String(lockout.retryAfterSeconds));
+  return res.status(429).json({
+    message: `Too many failed sign-in attempts. Try again in ${loginThrottle.formatRetryAfter(lockout.retryAfterSeconds)}.`,
+    retryAfter: lockout.retryAfterSeconds,
+  });
+}
+
+type ChallengePurpose = "2fa-verify" | "2fa-setup" | "oidc-handoff";
+
+// Short-lived token proving the password step succeeded. It carries a purpose
+// claim so authMiddleware never accepts it as an access token, and a jti so it
+// can be spent.
+function signChallengeToken(userId: string, purpose: ChallengePurpose): string {
+  return jwt.sign({ userId, purpose }, JWT_SECRET, { expiresIn: CHALLENGE_TOKEN_TTL, jwtid: crypto.randomUUID() });
+}
+
+function verifyChallengeToken(token: unknown, purpose: ChallengePurpose): string | null {
+  if (typeof token !== "string") return null;
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { userId: string; purpose?: string; jti?: string };
+    return payload.purpose === purpose && payload.jti ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+// SSO hand-off tokens and two-factor challenges are good for one sign-in.
+// Spent ones are recorded by jti in the database, so a replay fails on every
+// instance and after a restart. Only call these on verified tokens.
+function challengeTokenClaims(token: string): { jti: string; expiresAt: Date } {
+  const { jti, exp } = jwt.decode(token) as { jti: string; exp: number };
+  return { jti, expiresAt: new Date(exp * 1000) };
+}
+
+async function isChallengeTokenSpent(token: string): Promise<boolean> {
+  return storage.isChallengeTokenSpent(challengeTokenClaims(token).jti);
+}
+
+async function consumeChallengeToken(token: string): Promise<boolean> {
+  const { jti, expiresAt } = challengeTokenClaims(token);
+  return storage.claimChallengeToken(jti, expiresAt);
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+function getOidcRedirectUri(req: Request, config: oidc.OidcConfig): string {
+  return config.redirectUri || `${getAppUrl(req)}/api/auth/oidc/callback`;
+}
+
+// Existing accounts with these roles are never linked to an OIDC identity by
+// email; they keep signing in with their password.
+const OIDC_UNLINKABLE_ROLES = ["SUPER_ADMIN", "ORG_ADMIN"];
+
+// Finds the local account for an OIDC identity, linking by verified email or
+// provisioning a new user on first sign-in. Role and organization follow the
+// provider's claims on every sign-in so upstream changes take effect.
+async function resolveOidcUser(req: Request, config: oidc.OidcConfig, claims: oidc.OidcClaims): Promise<User> {
+  const role = oidc.mapRole(claims);
+  const orgCode = oidc.mapOrganizationCode(claims);
+  let organizationId: string | null | undefined;
+  if (orgCode) {
+    const organization = await storage.getOrganizationByCode(orgCode);
+    if (!organization) {
+      throw new oidc.OidcLoginError(`Organization "${orgCode}" does not exist`, "unknown_organization");
+    }
+    organizationId = organization.id;
+  }
+
+  const email = claims.email?.trim().toLowerCase();
+  const identity = await storage.getUserIdentity(config.issuer, claims.sub);
+  let user = identity ? await storage.getUser(identity.userId) : undefined;
+
+  if (!user && email) {
+    const existing = await storage.getUserByEmail(email);
+    if (existing && claims.email_verified !== true) {
+      throw new oidc.OidcLoginError("An account with this email already exists", "unverified_email");
+    }
+    // An email match alone must not hand an administrator account to whoever
+    // controls that address at the provider.
+    if (existing && OIDC_UNLINKABLE_ROLES.includes(existing.role)) {
+      throw new oidc.OidcLoginError(
+        "This account cannot be linked to single sign-on automatically. Sign in with your password",
+        "privileged_account",
+      );
+    }
+    user = existing;
+  }
+
+  if (!user) {
+    if (!email) {
+      throw new oidc.OidcLoginError("Your identity provider did not share an email address", "missing_email");
+    }
+    const firstName = claims.given_name || claims.name?.split(" ")[0] || email.split("@")[0];
+    const lastName = claims.family_name || claims.name?.split(" ").slice(1).join(" ") || "";
+    // SSO users never see this password; they can set one through password reset.
+    const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), SALT_ROUNDS);
+    user = await storage.createUser({
+      organizationId: organizationId ?? null,
+      email,
+      username: await generateUniqueUsername(firstName, lastName),
+      password: unusablePassword,
+      firstName,
+      lastName,
+      role,
+      isActive: true,
+      mustChangePassword: false,
+    });
+    await storage.createAuditLog({
+      userId: user.id,
+      organizationId: user.organizationId,
+      action: "CREATE_USER",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { provisionedBy: "oidc", issuer: config.issuer, role },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    console.log(`[auth] Provisioned user "${user.username}" from OIDC subject ${claims.sub}`);
+  } else {
+    const changes: Partial<InsertUser> = {};
+    if (config.roleMap.size > 0 && user.role !== role) changes.role = role;
+    if (organizationId !== undefined && user.organizationId !== organizationId) changes.organizationId = organizationId;
+    if (Object.keys(changes).length > 0) {
+      await storage.createAuditLog({
+        userId: user.id,
+        organizationId: user.organizationId,
+        action: "UPDATE_USER",
+        entityType: "USER",
+        entityId: user.id,
+        metadata: { source: "oidc", before: { role: user.role, organizationId: user.organizationId }, after: changes },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+      user = (await storage.updateUser(user.id, changes)) ?? user;
+    }
+  }
+
+  if (identity) {
+    await storage.updateUserIdentity(identity.id, { email, lastLoginAt: new Date() });
+  } else {
+    await storage.createUserIdentity({
+      userId: user.id,
+      issuer: config.issuer,
+      subject: claims.sub,
+      email,
+      lastLoginAt: new Date(),
+    });
+  }
+
+  return user;
+}
+
+function isTwoFactorRequired(user: { role: string }, record?: { isRequired: boolean }): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(user.role) || Boolean(record?.isRequired);
+}
+
+// The response that sends a signing-in user to the second-factor step, or null
+// when they can be signed in straight away.
+async function getTwoFactorChallenge(user: User) {
+  const twoFactor = await storage.getUserTwoFactor(user.id);
+  if (twoFactor?.isEnabled) {
+    return { twoFactorRequired: true, challengeToken: signChallengeToken(user.id, "2fa-verify") };
+  }
+  if (isTwoFactorRequired(user, twoFactor)) {
+    return { twoFactorSetupRequired: true, challengeToken: signChallengeToken(user.id, "2fa-setup") };
+  }
+  return null;
+}
+
+// Enrollment can happen either from an authenticated session or straight from
+// the login screen when a required second factor has not been set up yet.
+async function twoFactorEnrollmentMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  const challengeToken = req.body?.challengeToken;
+  if (!challengeToken) {
+    return authMiddleware(req, res, next);
+  }
+
+  const userId = verifyChallengeToken(challengeToken, "2fa-setup");
+  if (!userId) {
+    return res.status(401).json({ message: "Setup session expired, please sign in again" });
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user || !user.isActive) {
+    return res.status(401).json({ message: "User not found or inactive" });
+  }
+
+  req.user = { id: user.id, role: user.role, organizationId: user.organizationId ?? undefined };
+  next();
+}
+
 function adminMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   if (!req.user) {
     return res.status(401).json({ message: "Unauthorized" });
@@ -135,6 +690,20 @@ function superAdminMiddleware(req: AuthRequest, res: Response, next: NextFunctio
   next();
 }
 
+// Checks the role permission matrix in shared/permissions.ts, which the client
+// reads as well so hidden buttons and rejected requests stay in step.
+function requirePermission(permission: Permission) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!can(req.user.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
 function superOrOrgAdminMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   if (!req.user) {
     return res.status(401).json({ message: "Unauthorized" });
@@ -145,6 +714,292 @@ function superOrOrgAdminMiddleware(req: AuthRequest, res: Response, next: NextFu
   next();
 }
 
+async function getAccessPrincipal(req: AuthRequest): Promise<AccessPrincipal> {
+  const profile = await storage.getEmployeeProfileByUserId(req.user!.id);
+  return { userId: req.user!.id, role: req.user!.role, departmentId: profile?.departmentId ?? null };
+}
+
+// Folders the caller cannot read answer 404 so their existence does not leak.
+async function requireFolderAccess(
+  req: AuthRequest,
+  res: Response,
+  folderId: string | null,
+  level: FolderAccessLevel,
+): Promise<boolean> {
+  const access = await tenantStorageFor(req.user!).getFolderAccess(folderId, await getAccessPrincipal(req));
+  if (!access) {
+    res.status(404).json({ message: "Folder not found" });
+    return false;
+  }
+  if (!hasFolderAccess(access, level)) {
+    res.status(403).json({ message: "You do not have access to this folder" });
+    return false;
+  }
+  return true;
+}
+
+async function requireDocumentAccess(
+  req: AuthRequest,
+  res: Response,
+  doc: Document,
+  level: FolderAccessLevel,
+): Promise<boolean> {
+  const tenant = tenantStorageFor(req.user!);
+  const access = tenant.owns(doc) ? await tenant.getFolderAccess(doc.folderId, await getAccessPrincipal(req)) : null;
+  if (!access) {
+    res.status(404).json({ message: "Document not found" });
+    return false;
+  }
+  if (!hasFolderAccess(access, level)) {
+    res.status(403).json({ message: "You do not have access to this document" });
+    return false;
+  }
+  return true;
+}
+
+function setChecksumHeader(res: Response, checksum: string | null): void {
+  if (checksum) res.setHeader(fileIntegrity.CHECKSUM_HEADER, checksum);
+}
+
+// Whether folderId is rootId or somewhere below it.
+async function isFolderWithin(folderId: string, rootId: string): Promise<boolean> {
+  const seen = new Set<string>();
+  let current: string | null = folderId;
+  while (current && !seen.has(current)) {
+    if (current === rootId) return true;
+    seen.add(current);
+    current = (await storage.getFolder(current))?.parentFolderId ?? null;
+  }
+  return false;
+}
+
+// Whoever deleted an item can restore or purge it, and so can admins.
+function canManageTrashItem(req: AuthRequest, item: { deletedBy: string | null }): boolean {
+  return item.deletedBy === req.user!.id || req.user!.role === "SUPER_ADMIN" || req.user!.role === "ORG_ADMIN";
+}
+
+// Org admins manage their own organization's users, but never a Super Admin.
+// Anyone else is reported as not found.
+async function findManagedUser(req: AuthRequest, id: string): Promise<User | undefined> {
+  const user = await tenantStorageFor(req.user!).getUser(id);
+  if (!user || (user.role === "SUPER_ADMIN" && req.user!.role !== "SUPER_ADMIN")) return undefined;
+  return user;
+}
+
+// A share from the caller's inbox that can still be used for the given level.
+// Shares the caller never redeemed, or created, answer 404 like unknown ones.
+async function findReceivedShare(
+  req: AuthRequest,
+  res: Response,
+  required: SharePermission,
+): Promise<ShareCode | undefined> {
+  const share = await storage.getShareCodeById(req.params.shareId);
+  if (!share || share.createdBy === req.user!.id || !(await storage.getShareRedemption(share.id, req.user!.id))) {
+    res.status(404).json({ message: "Share not found" });
+    return undefined;
+  }
+  const unavailable = shareAccess.checkShareUsable(share) ?? shareAccess.checkSharePermission(share, required);
+  if (unavailable) {
+    res.status(unavailable.status).json({ message: unavailable.message });
+    return undefined;
+  }
+  return share;
+}
+
+async function findSharedDocument(
+  req: Request,
+  res: Response,
+  share: ShareCode,
+  creatorLevel: FolderAccessLevel = "READ",
+): Promise<Document | undefined> {
+  const doc = await storage.getDocument(req.params.documentId);
+  if (!doc || !(await shareAccess.shareCoversDocument(share, doc, creatorLevel))) {
+    res.status(404).json({ message: "Document not found" });
+    return undefined;
+  }
+  return doc;
+}
+
+// Sends a shared file for viewing in the browser. Only PDFs and raster images
+// open inline; everything else goes out as an opaque attachment. The sandbox
+// policy and nosniff keep the response from running script either way.
+function sendSharedPreview(res: Response, doc: Document): void {
+  const inline = canPreviewInline(doc.mimeType);
+  res.setHeader("Content-Disposition", `${inline ? "inline" : "attachment"}; filename="${encodeURIComponent(doc.originalName)}"`);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Content-Security-Policy", "default-src 'none'; img-src 'self'; style-src 'unsafe-inline'; sandbox");
+  res.type(inline ? doc.mimeType : "application/octet-stream");
+  res.sendFile(path.resolve(doc.filePath));
+}
+
+const publicShareLimiter = createRateLimiter(PUBLIC_SHARE_RATE_LIMIT, 60 * 1000);
+const passwordResetIpLimiter = createRateLimiter(PASSWORD_RESET_RATE_LIMIT, 15 * 60 * 1000);
+// One client address can send at most this many reset emails an hour to the
+// same inbox. Keyed by both so a stranger cannot use up someone else's resets.
+const passwordResetEmailLimiter = createRateLimiter(3, 60 * 60 * 1000);
+const sharePasswordLimiter = createRateLimiter(SHARE_PASSWORD_MAX_ATTEMPTS, 15 * 60 * 1000);
+
+// The public share API needs no account, so each client address gets a budget.
+function publicShareRateLimit(req: Request, res: Response, next: NextFunction) {
+  const { allowed, retryAfterSeconds } = publicShareLimiter(req.ip ?? "unknown");
+  if (allowed) return next();
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({ message: "Too many requests. Try again shortly.", retryAfter: retryAfterSeconds });
+}
+
+// Checks a share password, counting every try against the caller's address.
+// Sends the error response and returns false when the password is missing,
+// wrong or the caller is out of attempts.
+async function checkSharePassword(req: Request, res: Response, share: ShareCode, userId?: string): Promise<boolean> {
+  if (!share.passwordHash) return true;
+  const password = typeof req.body?.password === "string" ? req.body.password : "";
+  if (!password) {
+    res.status(403).json({ message: "This share is password protected", requiresPassword: true });
+    return false;
+  }
+
+  const { allowed, retryAfterSeconds } = sharePasswordLimiter(`${req.ip}:${share.id}`);
+  if (!allowed) {
+    res.setHeader("Retry-After", String(retryAfterSeconds));
+    res.status(429).json({
+      message: `Too many incorrect passwords. Try again in ${loginThrottle.formatRetryAfter(retryAfterSeconds)}.`,
+      retryAfter: retryAfterSeconds,
+    });
+    return false;
+  }
+  if (await bcrypt.compare(password, share.passwordHash)) return true;
+
+  await storage.createAuditLog({
+    userId: userId ?? null,
+    organizationId: await shareOrganizationId(share),
+    action: "SHARE_PASSWORD_FAILED",
+    entityType: "SHARE",
+    entityId: share.id,
+    metadata: { code: share.code },
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+  res.status(403).json({ message: "Incorrect password", requiresPassword: true });
+  return false;
+}
+
+// Proves a visitor without an account opened the share (and gave its password
+// and verified their email address, if it needs them). The purpose claim keeps
+// authMiddleware from accepting it.
+function signPublicShareToken(shareId: string, email?: string): string {
+  return jwt.sign({ shareId, email, purpose: "public-share" }, JWT_SECRET, { expiresIn: PUBLIC_SHARE_TOKEN_TTL });
+}
+
+function verifyPublicShareToken(token: unknown, shareId: string): { email?: string } | null {
+  if (typeof token !== "string") return null;
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as { shareId?: string; email?: string; purpose?: string };
+    return payload.purpose === "public-share" && payload.shareId === shareId ? { email: payload.email } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Shares have no organization of their own; their audit entries go to the owner's.
+async function shareOrganizationId(share: ShareCode): Promise<string | null> {
+  return (await storage.getUser(share.createdBy))?.organizationId ?? null;
+}
+
+// Checks the share-code throttle before a code is looked up. Sends the 429
+// (and audits the attempt) and returns false while the caller must wait.
+async function checkShareCodeThrottle(req: Request, res: Response, code: string, userId?: string): Promise<boolean> {
+  const lockout = await shareCodeThrottle.getShareCodeLockout(req.ip, userId);
+  if (!lockout) return true;
+
+  await storage.createAuditLog({
+    userId: userId ?? null,
+    organizationId: userId ? undefined : null,
+    action: "SHARE_REDEEM_FAILED",
+    entityType: "SHARE",
+    metadata: { code, reason: "throttled", scope: lockout.scope, lockedUntil: lockout.lockedUntil },
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+  res.setHeader("Retry-After", String(lockout.retryAfterSeconds));
+  res.status(429).json({
+    message: `Too many invalid share codes. Try again in ${loginThrottle.formatRetryAfter(lockout.retryAfterSeconds)}.`,
+    retryAfter: lockout.retryAfterSeconds,
+  });
+  return false;
+}
+
+// Audits a redemption that failed and counts it towards the throttle, raising
+// an enumeration alert when a threshold is crossed. Callers reply with the
+// same 404 whatever the reason, so a guesser cannot tell an unknown code from
+// an expired, revoked, used-up or restricted one.
+async function recordFailedShareRedemption(
+  req: Request,
+  code: string,
+  reason: string,
+  options: { userId?: string; share?: ShareCode } = {},
+) {
+  const { userId, share } = options;
+  const { failedAttempts, lockout, alerts } = await shareCodeThrottle.recordShareCodeFailure(req.ip, userId);
+
+  await storage.createAuditLog({
+    userId: userId ?? null,
+    organizationId: share ? await shareOrganizationId(share) : userId ? undefined : null,
+    action: "SHARE_REDEEM_FAILED",
+    entityType: "SHARE",
+    entityId: share?.id ?? null,
+    metadata: { code, reason, failedAttempts, lockedUntil: lockout?.lockedUntil ?? null },
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  });
+
+  for (const alert of alerts) {
+    await storage.createAuditLog({
+      userId: null,
+      organizationId: null,
+      action: "SHARE_ENUMERATION_ALERT",
+      entityType: "SHARE",
+      metadata: { scope: alert.scope, key: alert.key, failedCount: alert.failedCount },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    await shareCodeThrottle.sendEnumerationAlert(alert).catch((error) => {
+      console.error("[share-codes] Failed to send enumeration alert:", error);
+    });
+  }
+}
+
+// Looks up a code someone is redeeming. Sends the reply and returns undefined
+// unless the share exists and is usable.
+async function findRedeemableShare(req: Request, res: Response, code: string, userId?: string): Promise<ShareCode | undefined> {
+  if (!(await checkShareCodeThrottle(req, res, code, userId))) return undefined;
+
+  const share = code ? await storage.getShareCode(code) : undefined;
+  const unavailable = share && shareAccess.checkShareUsable(share);
+  if (!share || unavailable) {
+    await recordFailedShareRedemption(req, code, unavailable ? unavailable.reason : "unknown_code", { userId, share });
+    res.status(404).json({ message: "Invalid or expired code" });
+    return undefined;
+  }
+  return share;
+}
+
+// Only callers holding a token from opening the share learn anything about it;
+// everyone else gets the same 401 whether or not the code exists.
+async function findPublicShare(req: Request, res: Response, required: SharePermission): Promise<ShareCode | undefined> {
+  const code = shareCodes.normalizeShareCode(req.params.code);
+  const share = code ? await storage.getShareCode(code) : undefined;
+  if (!share || !verifyPublicShareToken(req.headers["x-share-token"], share.id)) {
+    res.status(401).json({ message: "Open the share link again to continue" });
+    return undefined;
+  }
+  const unavailable = shareAccess.checkShareUsable(share) ?? shareAccess.checkSharePermission(share, required);
+  if (unavailable) {
+    res.status(unavailable.status).json({ message: unavailable.message });
+    return undefined;
+  }
+  return share;
+}
+
 export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
   const defaultUsername = "admin";
   const defaultPassword = "admin123";
@@ -181,13 +1036,20 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
       }
 
       const data = insertUserSchema.parse(req.body);
+      const passwordErrors = await passwordPolicy.validateNewPassword(data.password, data);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+      }
       const hashedPassword = await bcrypt.hash(data.password, SALT_ROUNDS);
 
       const user = await storage.createUser({
         ...data,
         password: hashedPassword,
         role: "SUPER_ADMIN",
+        mustChangePassword: false,
+        passwordChangedAt: new Date(),
       });
+      await passwordPolicy.recordPasswordHistory(user.id, hashedPassword, user.organizationId);
 
       await storage.createAuditLog({
         userId: user.id,
@@ -210,10 +1072,24 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
   app.post("/api/auth/login", async (req: Request, res: Response) => {
     try {
       const { username, password } = loginSchema.parse(req.body);
+
+      // Checked before the password so a locked account cannot be probed.
+      const lockout = await loginThrottle.getLoginLockout(username, req.ip);
+      if (lockout) {
+        await storage.createAuditLog({
+          action: "LOGIN_FAILED",
+          entityType: "USER",
+          metadata: { username, reason: "locked_out", scope: lockout.scope, lockedUntil: lockout.lockedUntil },
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        });
+        return sendLockedOut(res, lockout);
+      }
+
       const user = await storage.getUserByUsername(username);
 
       if (!user || !(await bcrypt.compare(password, user.password))) {
-        console.warn(`[auth] Invalid login attempt for username="${username}"`);
+        await recordFailedLogin(req, username, user, user ? "invalid_password" : "unknown_user");
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
@@ -222,625 +1098,2745 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         return res.status(401).json({ message: "Account is deactivated" });
       }
 
-      const token = jwt.sign({ userId: user.id, role: user.role }, JWT_SECRET, { expiresIn: "24h" });
-      const refreshToken = crypto.randomBytes(32).toString("hex");
+      const challenge = await getTwoFactorChallenge(user);
+      if (challenge) {
+        return res.json(challenge);
+      }
 
-      await storage.createSession({
-        userId: user.id,
-        refreshToken,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      });
+      res.json(await completeLogin(req, user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/2fa/verify", async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body ?? {};
+      const userId = verifyChallengeToken(challengeToken, "2fa-verify");
+      if (!userId || (await isChallengeTokenSpent(challengeToken))) {
+        return res.status(401).json({ message: "Verification session expired, please sign in again" });
+      }
+
+      const user = await storage.getUser(userId);
+      const twoFactor = await storage.getUserTwoFactor(userId);
+      if (!user || !user.isActive || !twoFactor?.isEnabled || !twoFactor.secret) {
+        return res.status(401).json({ message: "Two-factor authentication is not available for this account" });
+      }
 
-      await storage.updateUser(user.id, { lastLoginAt: new Date() } as any);
+      // Second-factor guesses share the password lockout budget.
+      const lockout = await loginThrottle.getLoginLockout(user.username, req.ip);
+      if (lockout) {
+        return sendLockedOut(res, lockout);
+      }
+
+      let method: "totp" | "recovery_code" | null = null;
+      if (typeof recoveryCode === "string" && recoveryCode.trim()) {
+        if (await storage.consumeRecoveryCode(userId, totp.hashRecoveryCode(recoveryCode))) {
+          method = "recovery_code";
+        }
+      } else if (typeof code === "string") {
+        const step = totp.verifyCode(twoFactor.secret, code);
+        if (step !== null && (await storage.claimTotpStep(userId, step))) {
+          method = "totp";
+        }
+      }
+
+      if (!method) {
+        await storage.createAuditLog({
+          userId,
+          action: "TWO_FACTOR_FAILED",
+          entityType: "USER",
+          entityId: userId,
+          metadata: { method: recoveryCode ? "recovery_code" : "totp" },
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        });
+        await loginThrottle.recordLoginFailure(user.username, req.ip);
+        console.warn(`[auth] Invalid two-factor code for username="${user.username}"`);
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+      if (!(await consumeChallengeToken(challengeToken))) {
+        return res.status(401).json({ message: "Verification session expired, please sign in again" });
+      }
 
       await storage.createAuditLog({
-        userId: user.id,
-        action: "LOGIN",
+        userId,
+        action: "TWO_FACTOR_VERIFY",
         entityType: "USER",
-        entityId: user.id,
+        entityId: userId,
+        metadata: { method },
         ipAddress: req.ip,
         userAgent: req.headers["user-agent"],
       });
 
-      const { password: _, ...safeUser } = user;
-      console.log(`[auth] Login success for username="${username}", role=${user.role}`);
-      res.json({ token, refreshToken, user: safeUser });
+      res.json(await completeLogin(req, user, { twoFactorMethod: method }));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: error.errors[0].message });
-      }
-      res.status(500).json({ message: "Login failed" });
+      res.status(500).json({ message: "Verification failed" });
     }
   });
 
-  app.get("/api/auth/me", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const user = await storage.getUser(req.user!.id);
-    if (!user) {
-      return res.status(404).json({ message: "User not found" });
-    }
-    const { password, ...safeUser } = user;
-    res.json(safeUser);
-  });
-
-  app.post("/api/auth/logout", authMiddleware, async (req: AuthRequest, res: Response) => {
-    await storage.deleteUserSessions(req.user!.id);
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "LOGOUT",
-      entityType: "USER",
-      entityId: req.user!.id,
+  app.get("/api/auth/2fa/status", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const twoFactor = await storage.getUserTwoFactor(req.user!.id);
+    res.json({
+      enabled: Boolean(twoFactor?.isEnabled),
+      required: isTwoFactorRequired(req.user!, twoFactor),
+      recoveryCodesRemaining: twoFactor?.isEnabled ? twoFactor.recoveryCodes.length : 0,
+      enabledAt: twoFactor?.enabledAt ?? null,
     });
-    res.json({ message: "Logged out" });
   });
 
-  app.get("/api/users", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const users = await storage.getAllUsers();
-    const safeUsers = users.map(({ password, ...u }) => u);
+  app.post("/api/auth/2fa/setup", twoFactorEnrollmentMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const existing = await storage.getUserTwoFactor(user.id);
+      if (existing?.isEnabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = totp.generateSecret();
+      await storage.upsertUserTwoFactor(user.id, { secret, isEnabled: false, lastUsedStep: null });
+
+      const otpauthUrl = totp.buildOtpauthUrl(secret, user.username);
+      const qrCode = await totp.buildQrCodeDataUrl(otpauthUrl);
+
+      res.json({ secret, otpauthUrl, qrCode });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/auth/2fa/enable", twoFactorEnrollmentMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { code, challengeToken } = req.body ?? {};
+      const user = await storage.getUser(req.user!.id);
+      const pending = await storage.getUserTwoFactor(req.user!.id);
+      if (!user || !pending?.secret || pending.isEnabled) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      const step = typeof code === "string" ? totp.verifyCode(pending.secret, code) : null;
+      if (step === null) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "TWO_FACTOR_FAILED",
+          entityType: "USER",
+          entityId: user.id,
+          metadata: { stage: "enrollment" },
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        });
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const recoveryCodes = totp.generateRecoveryCodes();
+      await storage.upsertUserTwoFactor(user.id, {
+        isEnabled: true,
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map(totp.hashRecoveryCode),
+        enabledAt: new Date(),
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "TWO_FACTOR_ENROLL",
+        entityType: "USER",
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      // Enrolling from the login screen finishes the sign-in as well.
+      if (challengeToken) {
+        const session = await completeLogin(req, user, { twoFactorMethod: "enrollment" });
+        return res.json({ recoveryCodes, ...session });
+      }
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { code } = req.body ?? {};
+    const twoFactor = await storage.getUserTwoFactor(req.user!.id);
+    if (!twoFactor?.isEnabled || !twoFactor.secret) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+
+    const step = typeof code === "string" ? totp.verifyCode(twoFactor.secret, code) : null;
+    if (step === null || !(await storage.claimTotpStep(req.user!.id, step))) {
+      return res.status(400).json({ message: "Invalid verification code" });
+    }
+
+    const recoveryCodes = totp.generateRecoveryCodes();
+    await storage.upsertUserTwoFactor(req.user!.id, { recoveryCodes: recoveryCodes.map(totp.hashRecoveryCode) });
+    res.json({ recoveryCodes });
+  });
+
+  app.post("/api/auth/2fa/disable", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { password } = req.body ?? {};
+    const user = await storage.getUser(req.user!.id);
+    const twoFactor = await storage.getUserTwoFactor(req.user!.id);
+    if (!user || !twoFactor?.isEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+    }
+
+    if (isTwoFactorRequired(user, twoFactor)) {
+      return res.status(403).json({ message: "Two-factor authentication is required for your account" });
+    }
+
+    if (typeof password !== "string" || !(await bcrypt.compare(password, user.password))) {
+      return res.status(401).json({ message: "Incorrect password" });
+    }
+
+    await storage.deleteUserTwoFactor(user.id);
+    await storage.createAuditLog({
+      userId: user.id,
+      action: "TWO_FACTOR_DISABLE",
+      entityType: "USER",
+      entityId: user.id,
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.json({ message: "Two-factor authentication disabled" });
+  });
+
+  app.get("/api/auth/oidc/config", (_req: Request, res: Response) => {
+    const config = oidc.getOidcConfig();
+    res.json({ enabled: Boolean(config), providerName: config?.providerName ?? null });
+  });
+
+  // Starts the authorization-code + PKCE flow. State, nonce and the code
+  // verifier ride in a signed, HTTP-only cookie scoped to the callback.
+  app.get("/api/auth/oidc/login", async (req: Request, res: Response) => {
+    const config = oidc.getOidcConfig();
+    if (!config) {
+      return res.status(404).json({ message: "Single sign-on is not configured" });
+    }
+
+    try {
+      const next = typeof req.query.next === "string" && req.query.next.startsWith("/") ? req.query.next : "/";
+      const authRequest = await oidc.createAuthorizationRequest(getOidcRedirectUri(req, config));
+      const statePayload = jwt.sign(
+        { purpose: "oidc-state", state: authRequest.state, nonce: authRequest.nonce, codeVerifier: authRequest.codeVerifier, next },
+        JWT_SECRET,
+        { expiresIn: OIDC_STATE_TTL_MS / 1000 },
+      );
+      res.cookie(OIDC_STATE_COOKIE, statePayload, {
+        httpOnly: true,
+        secure: req.secure,
+        sameSite: "lax",
+        path: "/api/auth/oidc",
+        maxAge: OIDC_STATE_TTL_MS,
+      });
+      res.redirect(authRequest.url);
+    } catch (error) {
+      console.error("[auth] OIDC login error:", error);
+      res.redirect(`/login#sso_error=${encodeURIComponent("Single sign-on is unavailable right now")}`);
+    }
+  });
+
+  // The provider redirects here. The browser is sent back to the login page
+  // with a one-time hand-off token in the URL fragment, which never reaches
+  // server logs; the page trades it for a session via /api/auth/oidc/complete.
+  app.get("/api/auth/oidc/callback", async (req: Request, res: Response) => {
+    const config = oidc.getOidcConfig();
+    if (!config) {
+      return res.status(404).json({ message: "Single sign-on is not configured" });
+    }
+
+    const cookie = readCookie(req, OIDC_STATE_COOKIE);
+    res.clearCookie(OIDC_STATE_COOKIE, { path: "/api/auth/oidc" });
+
+    let claims: oidc.OidcClaims | undefined;
+    try {
+      if (typeof req.query.error === "string") {
+        throw new oidc.OidcLoginError(
+          typeof req.query.error_description === "string" ? req.query.error_description : "Sign-in was cancelled",
+          `provider_${req.query.error}`,
+        );
+      }
+
+      let saved: { purpose?: string; state: string; nonce: string; codeVerifier: string; next: string };
+      try {
+        saved = jwt.verify(cookie ?? "", JWT_SECRET) as typeof saved;
+      } catch {
+        throw new oidc.OidcLoginError("Sign-in session expired, please try again", "state_expired");
+      }
+      if (saved.purpose !== "oidc-state" || typeof req.query.state !== "string" || req.query.state !== saved.state) {
+        throw new oidc.OidcLoginError("Sign-in session expired, please try again", "state_mismatch");
+      }
+      if (typeof req.query.code !== "string") {
+        throw new oidc.OidcLoginError("The identity provider did not return an authorization code", "missing_code");
+      }
+
+      claims = await oidc.exchangeCode(req.query.code, saved.codeVerifier, saved.nonce, getOidcRedirectUri(req, config));
+      const user = await resolveOidcUser(req, config, claims);
+      if (!user.isActive) {
+        throw new oidc.OidcLoginError("Account is deactivated", "inactive_user");
+      }
+
+      const fragment = new URLSearchParams({ sso: signChallengeToken(user.id, "oidc-handoff"), next: saved.next });
+      res.redirect(`/login#${fragment.toString()}`);
+    } catch (error) {
+      const isUserError = error instanceof oidc.OidcLoginError;
+      if (!isUserError) console.error("[auth] OIDC callback error:", error);
+
+      await storage.createAuditLog({
+        action: "LOGIN_FAILED",
+        entityType: "USER",
+        metadata: {
+          method: "oidc",
+          issuer: config.issuer,
+          subject: claims?.sub,
+          email: claims?.email,
+          reason: isUserError ? error.reason : "oidc_error",
+        },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      const message = isUserError ? error.message : "Single sign-on failed, please try again";
+      res.redirect(`/login#sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  // SSO replaces the password, not the local second factor: users who have it
+  // enabled, or whose role requires it, get the same challenge as at the
+  // password login.
+  app.post("/api/auth/oidc/complete", async (req: Request, res: Response) => {
+    const { handoffToken } = req.body ?? {};
+    const userId = verifyChallengeToken(handoffToken, "oidc-handoff");
+    if (!userId || !(await consumeChallengeToken(handoffToken))) {
+      return res.status(401).json({ message: "Sign-in link expired, please sign in again" });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({ message: "User not found or inactive" });
+    }
+
+    try {
+      const challenge = await getTwoFactorChallenge(user);
+      if (challenge) {
+        return res.json(challenge);
+      }
+      res.json(await completeLogin(req, user, { method: "oidc", issuer: oidc.getOidcConfig()?.issuer }));
+    } catch (error) {
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/refresh", async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body ?? {};
+      if (!refreshToken || typeof refreshToken !== "string") {
+        return res.status(400).json({ message: "Refresh token is required" });
+      }
+
+      const session = await storage.getSessionByToken(refreshToken);
+      if (!session) {
+        return res.status(401).json({ message: "Invalid refresh token" });
+      }
+
+      if (new Date(session.expiresAt) < new Date()) {
+        await storage.deleteSession(session.id);
+        return res.status(401).json({ message: "Refresh token expired" });
+      }
+
+      // A rotated token being presented again means it was copied somewhere;
+      // revoke every session descended from the same login.
+      if (session.rotatedAt) {
+        await revokeReusedSessionFamily(req, session);
+        return res.status(401).json({ message: "Refresh token has been revoked" });
+      }
+
+      const user = await storage.getUser(session.userId);
+      if (!user || !user.isActive) {
+        await storage.deleteSessionFamily(session.familyId);
+        return res.status(401).json({ message: "User not found or inactive" });
+      }
+
+      // Create the successor before retiring this row so concurrent requests
+      // never see the family without an active session. The claim is
+      // conditional: when another request rotated the same token first, this
+      // one counts as reuse and the family goes, both successors included.
+      const tokens = await issueTokens(req, user, session);
+      if (!(await storage.claimSessionRotation(session.id))) {
+        await revokeReusedSessionFamily(req, session);
+        return res.status(401).json({ message: "Refresh token has been revoked" });
+      }
+      await storage.deleteExpiredSessions();
+
+      res.json({ token: tokens.token, refreshToken: tokens.refreshToken });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  app.post("/api/auth/forgot-password", async (req: Request, res: Response) => {
+    const genericResponse = { message: "If an account exists for that email, a reset link has been sent." };
+    const { allowed, retryAfterSeconds } = passwordResetIpLimiter(req.ip ?? "unknown");
+    if (!allowed) {
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      return res.status(429).json({
+        message: `Too many reset requests. Try again in ${loginThrottle.formatRetryAfter(retryAfterSeconds)}.`,
+        retryAfter: retryAfterSeconds,
+      });
+    }
+
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      // Same response, sent before the account is even looked up, whether or
+      // not it exists, so neither the body nor the timing reveals registered
+      // emails. The reset itself continues after the response, so failures
+      // from here on are only logged. Logs leave out the address, which
+      // anyone can submit.
+      res.json(genericResponse);
+      const appUrl = getAppUrl(req);
+
+      if (!passwordResetEmailLimiter(`${req.ip ?? "unknown"}|${email.trim().toLowerCase()}`).allowed) {
+        console.warn(`[auth] Password reset rate limited for one address from ip=${req.ip}`);
+        return;
+      }
+      const user = await storage.getUserByEmail(email);
+      if (!user || !user.isActive) {
+        console.warn(`[auth] Password reset requested for an unknown or inactive email from ip=${req.ip}`);
+        return;
+      }
+
+      await storage.deleteUserPasswordResetTokens(user.id);
+
+      const token = crypto.randomBytes(32).toString("hex");
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+        requestedIp: req.ip,
+      });
+
+      const resetUrl = `${appUrl}/reset-password?token=${token}`;
+      await sendMail({
+        to: user.email,
+        subject: "Reset your UDAAN password",
+        text: [
+          `Hi ${user.firstName},`,
+          "",
+          "We received a request to reset the password for your UDAAN account.",
+          `Open the link below within ${PASSWORD_RESET_TTL_MS / 60000} minutes to choose a new password:`,
+          "",
+          resetUrl,
+          "",
+          "If you did not request this, you can ignore this email. Your password will not change.",
+        ].join("\n"),
+      });
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "PASSWORD_RESET_REQUEST",
+        entityType: "USER",
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Password reset request error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to request password reset" });
+      }
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req: Request, res: Response) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+
+      if (!resetToken || resetToken.usedAt || new Date(resetToken.expiresAt) < new Date()) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const user = await storage.getUser(resetToken.userId);
+      if (!user || !user.isActive) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const passwordErrors = await passwordPolicy.validateNewPassword(password, user);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+      }
+
+      if (!(await storage.consumePasswordResetToken(resetToken.id))) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await setUserPassword(user, password, false);
+      await storage.deleteUserPasswordResetTokens(user.id);
+      await storage.deleteUserSessions(user.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "PASSWORD_RESET",
+        entityType: "USER",
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json({ message: "Password has been reset. Please sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.post("/api/auth/change-password", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (!(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const passwordErrors = await passwordPolicy.validateNewPassword(newPassword, user);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+      }
+
+      const updated = await setUserPassword(user, newPassword, false);
+
+      // Sign out every other device but keep the one making the change.
+      await storage.deleteUserSessions(user.id, req.user!.sessionId);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "PASSWORD_CHANGE",
+        entityType: "USER",
+        entityId: user.id,
+        metadata: { wasRequired: user.mustChangePassword },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      const { password, ...safeUser } = updated;
+      res.json({ user: safeUser });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  app.get("/api/password-policy", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const policy = await passwordPolicy.getPasswordPolicy(req.user!.organizationId);
+    res.json(policy);
+  });
+
+  app.put("/api/password-policy", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const data = updatePasswordPolicySchema.parse(req.body);
+      const organizationId = req.user!.organizationId ?? null;
+      const policy = await storage.upsertPasswordPolicy(organizationId, { ...data, updatedBy: req.user!.id });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        organizationId,
+        action: "UPDATE_PASSWORD_POLICY",
+        entityType: "ORGANIZATION",
+        entityId: organizationId,
+        metadata: data,
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json(passwordPolicy.toPolicyRules(policy));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update password policy" });
+    }
+  });
+
+  app.get("/api/auth/me", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    const { password, ...safeUser } = user;
+
+    if (req.user!.impersonationId) {
+      const impersonation = await storage.getImpersonationSession(req.user!.impersonationId);
+      const impersonator = await storage.getUser(req.user!.impersonatorId!);
+      return res.json({
+        ...safeUser,
+        impersonation: impersonation && impersonator && {
+          id: impersonation.id,
+          expiresAt: impersonation.expiresAt,
+          reason: impersonation.reason,
+          impersonator: {
+            id: impersonator.id,
+            username: impersonator.username,
+            firstName: impersonator.firstName,
+            lastName: impersonator.lastName,
+          },
+        },
+      });
+    }
+    res.json(safeUser);
+  });
+
+  app.post("/api/auth/impersonation/end", authMiddleware, async (req: AuthRequest, res: Response) => {
+    if (!req.user!.impersonationId) {
+      return res.status(400).json({ message: "Not impersonating anyone" });
+    }
+
+    const ended = await storage.endImpersonationSession(req.user!.impersonationId);
+    if (ended) {
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        organizationId: req.user!.organizationId,
+        action: "IMPERSONATION_END",
+        entityType: "USER",
+        entityId: req.user!.id,
+        metadata: { impersonationId: ended.id, durationSeconds: Math.round((Date.now() - ended.createdAt.getTime()) / 1000) },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+    }
+    res.status(204).send();
+  });
+
+  app.post("/api/auth/logout", authMiddleware, async (req: AuthRequest, res: Response) => {
+    if (req.user!.sessionId) {
+      await storage.deleteSessionFamily(req.user!.sessionId);
+    } else {
+      // Tokens minted before sessions were tracked per device carry no sid.
+      await storage.deleteUserSessions(req.user!.id);
+    }
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "LOGOUT",
+      entityType: "USER",
+      entityId: req.user!.id,
+    });
+    res.json({ message: "Logged out" });
+  });
+
+  app.get("/api/auth/activity", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const { limit, action } = req.query;
+    const logs = await tenantStorageFor(req.user!).getAuditLogs({
+      userId: req.user!.id,
+      action: action as string | undefined,
+      limit: limit ? parseInt(limit as string) : 100,
+    });
+    res.json(logs);
+  });
+
+  app.get("/api/auth/sessions", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const sessions = await storage.getActiveUserSessions(req.user!.id);
+    res.json(sessions.map((session) => serializeSession(session, req.user!.sessionId)));
+  });
+
+  app.delete("/api/auth/sessions/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const session = await storage.getActiveSessionByFamily(req.params.id);
+    if (!session || session.userId !== req.user!.id) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    await storage.deleteSessionFamily(session.familyId);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "SESSION_REVOKE",
+      entityType: "USER",
+      entityId: req.user!.id,
+      metadata: { sessionId: session.familyId, current: session.familyId === req.user!.sessionId },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.json({ message: "Session revoked" });
+  });
+
+  app.delete("/api/auth/sessions", authMiddleware, async (req: AuthRequest, res: Response) => {
+    await storage.deleteUserSessions(req.user!.id, req.user!.sessionId);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "SESSION_REVOKE",
+      entityType: "USER",
+      entityId: req.user!.id,
+      metadata: { allExceptCurrent: true },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.json({ message: "Other sessions revoked" });
+  });
+
+  app.get("/api/tokens", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const tokens = await storage.getUserApiTokens(req.user!.id);
+    res.json(tokens.map(apiTokens.serializeApiToken));
+  });
+
+  app.post("/api/tokens", authMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const data = createApiTokenSchema.parse(req.body);
+      const isAdmin = req.user!.role === "SUPER_ADMIN" || req.user!.role === "ORG_ADMIN";
+      if (data.scopes.includes("admin") && !isAdmin) {
+        return res.status(403).json({ message: "Only administrators can create tokens with the admin scope" });
+      }
+
+      const { token, tokenPrefix, tokenHash } = apiTokens.generateApiToken();
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name: data.name,
+        scopes: Array.from(new Set(data.scopes)),
+        tokenPrefix,
+        tokenHash,
+        expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "API_TOKEN_CREATE",
+        entityType: "USER",
+        entityId: req.user!.id,
+        metadata: { tokenId: created.id, name: created.name, scopes: created.scopes, expiresAt: created.expiresAt },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      // The plaintext token is only ever returned here.
+      res.status(201).json({ ...apiTokens.serializeApiToken(created), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const token = await storage.getApiToken(req.params.id);
+    if (!token || token.userId !== req.user!.id) {
+      return res.status(404).json({ message: "API token not found" });
+    }
+    if (!token.revokedAt) {
+      await storage.updateApiToken(token.id, { revokedAt: new Date() });
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "API_TOKEN_REVOKE",
+        entityType: "USER",
+        entityId: req.user!.id,
+        metadata: { tokenId: token.id, name: token.name },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+    }
+    res.json({ message: "API token revoked" });
+  });
+
+  app.get("/api/users", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const isSuperAdmin = req.user!.role === "SUPER_ADMIN";
+    const users = (await tenantStorageFor(req.user!).getAllUsers()).filter(
+      (user) => isSuperAdmin || user.role !== "SUPER_ADMIN",
+    );
+    const twoFactorByUser = new Map((await storage.getAllUserTwoFactor()).map((t) => [t.userId, t]));
+    const attemptsByUsername = new Map((await storage.getLoginAttempts("USERNAME")).map((a) => [a.key, a]));
+    const now = new Date();
+    const safeUsers = users.map(({ password, ...u }) => {
+      const twoFactor = twoFactorByUser.get(u.id);
+      const attempt = attemptsByUsername.get(loginThrottle.normalizeUsername(u.username));
+      return {
+        ...u,
+        twoFactorEnabled: Boolean(twoFactor?.isEnabled),
+        twoFactorRequired: isTwoFactorRequired(u, twoFactor),
+        failedLoginAttempts: attempt?.failedCount ?? 0,
+        lockedUntil: attempt?.lockedUntil && attempt.lockedUntil > now ? attempt.lockedUntil : null,
+      };
+    });
     res.json(safeUsers);
   });
 
-  app.get("/api/analytics/dashboard", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.get("/api/analytics/dashboard", authMiddleware, requirePermission("analytics:read"), async (req: AuthRequest, res: Response) => {
+    try {
+      const analytics = await tenantStorageFor(req.user!).getAnalyticsDashboard();
+      res.json(analytics);
+    } catch (error) {
+      console.error("Analytics error:", error);
+      res.status(500).json({ message: "Failed to load analytics" });
+    }
+  });
+
+  app.get("/api/search", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    try {
+      const { q, mimeType, folderId, minSize, maxSize, startDate, endDate, tags, metadata, limit } = req.query;
+      const query = (q as string) || "";
+      
+      const results = await tenantStorageFor(req.user!).searchDocuments(query, { 
+        mimeType: mimeType as string | undefined,
+        folderId: folderId as string | undefined,
+        minSize: minSize ? parseInt(minSize as string) : undefined,
+        maxSize: maxSize ? parseInt(maxSize as string) : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+        tags: documentTags.parseTagFilter(tags),
+        metadata: folderMetadata.parseMetadataFilter(metadata),
+        limit: limit ? parseInt(limit as string) : 50,
+      }, await getAccessPrincipal(req));
+      res.json(await documentTags.withTags(results));
+    } catch (error) {
+      console.error("Search error:", error);
+      res.status(500).json({ message: "Search failed" });
+    }
+  });
+
+  // The organization's audit log. Everyone can see their own entries through
+  // /api/auth/activity.
+  app.get("/api/audit-logs", authMiddleware, requirePermission("audit:read"), async (req: AuthRequest, res: Response) => {
+    try {
+      const { userId, action, limit } = req.query;
+      const logs = await tenantStorageFor(req.user!).getAuditLogs({
+        userId: userId as string | undefined,
+        action: action as string | undefined,
+        limit: limit ? parseInt(limit as string) : 100,
+      });
+      res.json(logs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load audit logs" });
+    }
+  });
+
+  app.post("/api/users", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const data = insertUserSchema.parse(req.body);
+      const isSuperAdmin = req.user!.role === "SUPER_ADMIN";
+
+      if (data.role === "SUPER_ADMIN" && !isSuperAdmin) {
+        return res.status(403).json({ message: "Only Super Admin can grant the Super Admin role" });
+      }
+
+      // Super Admins may place the user in any organization; everyone else
+      // creates users in their own.
+      const organizationId = isSuperAdmin ? data.organizationId ?? null : req.user!.organizationId ?? null;
+      if (organizationId && !(await storage.getOrganization(organizationId))) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+
+      const existingEmail = await storage.getUserByEmail(data.email);
+      if (existingEmail) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      const existingUsername = await storage.getUserByUsername(data.username);
+      if (existingUsername) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const passwordErrors = await passwordPolicy.validateNewPassword(data.password, { ...data, organizationId });
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+      }
+
+      // The admin chose this password, so the user sets their own on first sign-in.
+      const hashedPassword = await bcrypt.hash(data.password, SALT_ROUNDS);
+      const user = await tenantStorageFor(req.user!).createUser({
+        ...data,
+        organizationId,
+        password: hashedPassword,
+        mustChangePassword: data.mustChangePassword ?? true,
+        passwordChangedAt: new Date(),
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "CREATE_USER",
+        entityType: "USER",
+        entityId: user.id,
+        metadata: { createdUserEmail: user.email },
+      });
+
+      const { password, ...safeUser } = user;
+      res.status(201).json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { password: newPassword, ...fields } = updateUserSchema.parse(req.body);
+      const data: Partial<InsertUser> = fields;
+      const isSuperAdmin = req.user!.role === "SUPER_ADMIN";
+
+      const existing = await findManagedUser(req, id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (data.role === "SUPER_ADMIN" && !isSuperAdmin) {
+        return res.status(403).json({ message: "Only Super Admin can grant the Super Admin role" });
+      }
+      // Only Super Admins move users between organizations.
+      if (!isSuperAdmin) {
+        delete data.organizationId;
+      } else if (data.organizationId && !(await storage.getOrganization(data.organizationId))) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+      if (data.email && data.email.toLowerCase() !== existing.email.toLowerCase() && (await storage.getUserByEmail(data.email))) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+      if (data.username && data.username !== existing.username && (await storage.getUserByUsername(data.username))) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      if (newPassword) {
+        const passwordErrors = await passwordPolicy.validateNewPassword(newPassword, existing);
+        if (passwordErrors.length > 0) {
+          return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+        }
+        // The admin chose this password, so the user sets their own on next sign-in.
+        data.password = await bcrypt.hash(newPassword, SALT_ROUNDS);
+        data.mustChangePassword = true;
+        data.passwordChangedAt = new Date();
+        await passwordPolicy.recordPasswordHistory(id, data.password, existing.organizationId);
+      }
+
+      const user = await tenantStorageFor(req.user!).updateUser(id, data);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_USER",
+        entityType: "USER",
+        entityId: id,
+        metadata: { fields: Object.keys(data).filter((field) => field !== "password"), passwordReset: Boolean(newPassword) },
+      });
+
+      const { password, ...safeUser } = user;
+      res.json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    if (!(await findManagedUser(req, id)) || !(await tenantStorageFor(req.user!).deleteUser(id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "DELETE",
+      entityType: "USER",
+      entityId: id,
+    });
+    res.status(204).send();
+  });
+
+  app.post("/api/users/:id/force-logout", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    if (!(await findManagedUser(req, id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    await storage.deleteUserSessions(id);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "LOGOUT",
+      entityType: "USER",
+      entityId: id,
+      metadata: { forced: true },
+    });
+
+    res.json({ message: "User sessions terminated" });
+  });
+
+  app.get("/api/users/:id/sessions", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    if (!(await findManagedUser(req, req.params.id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    const sessions = await storage.getActiveUserSessions(req.params.id);
+    res.json(sessions.map((session) => serializeSession(session, req.user!.sessionId)));
+  });
+
+  app.delete("/api/users/:id/sessions/:sessionId", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id, sessionId } = req.params;
+    const session = await storage.getActiveSessionByFamily(sessionId);
+    if (!session || session.userId !== id || !(await findManagedUser(req, id))) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    await storage.deleteSessionFamily(sessionId);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "SESSION_REVOKE",
+      entityType: "USER",
+      entityId: id,
+      metadata: { sessionId, forced: true },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.json({ message: "Session revoked" });
+  });
+
+  app.put("/api/users/:id/2fa", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const { required } = req.body ?? {};
+    if (typeof required !== "boolean") {
+      return res.status(400).json({ message: "required must be a boolean" });
+    }
+
+    const user = await findManagedUser(req, id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const twoFactor = await storage.upsertUserTwoFactor(id, { isRequired: required });
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "UPDATE_USER",
+      entityType: "USER",
+      entityId: id,
+      metadata: { twoFactorRequired: required },
+    });
+
+    res.json({ enabled: twoFactor.isEnabled, required: isTwoFactorRequired(user, twoFactor) });
+  });
+
+  app.delete("/api/users/:id/2fa", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    if (!(await findManagedUser(req, id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    const twoFactor = await storage.getUserTwoFactor(id);
+    if (!twoFactor?.isEnabled) {
+      return res.status(404).json({ message: "Two-factor authentication is not enabled for this user" });
+    }
+
+    // Keep the admin's enforcement flag so the user has to enroll again.
+    await storage.upsertUserTwoFactor(id, {
+      secret: null,
+      isEnabled: false,
+      recoveryCodes: [],
+      lastUsedStep: null,
+      enabledAt: null,
+    });
+    await storage.deleteUserSessions(id);
+
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "TWO_FACTOR_DISABLE",
+      entityType: "USER",
+      entityId: id,
+      metadata: { reset: true },
+    });
+
+    res.json({ message: "Two-factor authentication reset" });
+  });
+
+  // Starts a time-boxed "act as user" session. The returned access token acts
+  // as the target; the caller keeps its own tokens to return to afterwards.
+  app.post("/api/users/:id/impersonate", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { reason, durationMinutes } = startImpersonationSchema.parse(req.body);
+      if (!req.user!.sessionId) {
+        return res.status(403).json({ message: "Impersonation requires a signed-in session" });
+      }
+
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (target.id === req.user!.id || target.role === "SUPER_ADMIN") {
+        return res.status(403).json({ message: "Super Admin accounts cannot be impersonated" });
+      }
+      if (!target.isActive) {
+        return res.status(400).json({ message: "Cannot impersonate a deactivated user" });
+      }
+
+      const minutes = Math.min(durationMinutes ?? IMPERSONATION_DEFAULT_MINUTES, IMPERSONATION_MAX_MINUTES);
+      const impersonation = await storage.createImpersonationSession({
+        impersonatorId: req.user!.id,
+        targetUserId: target.id,
+        reason,
+        expiresAt: new Date(Date.now() + minutes * 60 * 1000),
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+      const token = jwt.sign(
+        { userId: target.id, role: target.role, sid: req.user!.sessionId, imp: req.user!.id, impId: impersonation.id },
+        JWT_SECRET,
+        { expiresIn: minutes * 60 },
+      );
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        organizationId: target.organizationId,
+        action: "IMPERSONATION_START",
+        entityType: "USER",
+        entityId: target.id,
+        metadata: { impersonationId: impersonation.id, reason, expiresAt: impersonation.expiresAt, username: target.username },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+      console.log(`[auth] ${req.user!.id} started impersonating username="${target.username}" for ${minutes} minutes`);
+
+      res.status(201).json({ token, expiresAt: impersonation.expiresAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to start impersonation" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const user = await findManagedUser(req, req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const unlockedIp = await loginThrottle.unlockAccount(user.username);
+
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "ACCOUNT_UNLOCK",
+      entityType: "USER",
+      entityId: user.id,
+      metadata: { username: user.username, unlockedIp },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.json({ message: "Account unlocked" });
+  });
+
+  // Organizations
+  app.get("/api/organizations", authMiddleware, superAdminMiddleware, async (_req: AuthRequest, res: Response) => {
+    res.json(await storage.getOrganizations());
+  });
+
+  // The caller's own organization, for the org admin area.
+  app.get("/api/organizations/current", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    const organization = req.user!.organizationId ? await storage.getOrganization(req.user!.organizationId) : undefined;
+    res.json(organization ?? null);
+  });
+
+  app.post("/api/organizations", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const data = organizationFormSchema.parse(req.body);
+      if (await storage.getOrganizationByCode(data.code)) {
+        return res.status(409).json({ message: "An organization with this code already exists" });
+      }
+
+      const organization = await storage.createOrganization(data);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        organizationId: organization.id,
+        action: "CREATE_ORGANIZATION",
+        entityType: "ORGANIZATION",
+        entityId: organization.id,
+        metadata: { code: organization.code, name: organization.name },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.status(201).json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  app.patch("/api/organizations/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const data = organizationFormSchema.partial().parse(req.body);
+      if (data.code) {
+        const existing = await storage.getOrganizationByCode(data.code);
+        if (existing && existing.id !== id) {
+          return res.status(409).json({ message: "An organization with this code already exists" });
+        }
+      }
+
+      const organization = await storage.updateOrganization(id, data);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        organizationId: id,
+        action: "UPDATE_ORGANIZATION",
+        entityType: "ORGANIZATION",
+        entityId: id,
+        metadata: data,
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  // Only empty organizations can be deleted; users and content have to be
+  // moved or removed first so nothing is orphaned.
+  app.delete("/api/organizations/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const organization = (await storage.getOrganizations()).find((org) => org.id === id);
+    if (!organization) {
+      return res.status(404).json({ message: "Organization not found" });
+    }
+    const { userCount, departmentCount, folderCount, documentCount } = organization;
+    if (userCount + departmentCount + folderCount + documentCount > 0) {
+      return res.status(409).json({
+        message: "Remove this organization's users, departments, folders and documents before deleting it",
+      });
+    }
+
+    await storage.deleteOrganization(id);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      organizationId: null,
+      action: "DELETE_ORGANIZATION",
+      entityType: "ORGANIZATION",
+      entityId: id,
+      metadata: { code: organization.code, name: organization.name },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    res.status(204).send();
+  });
+
+  // Departments (EMS)
+  app.get("/api/departments", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const departments = await tenantStorageFor(req.user!).getDepartments();
+    res.json(departments);
+  });
+
+  app.post("/api/departments", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const data = insertDepartmentSchema.parse(req.body);
+      const dept = await tenantStorageFor(req.user!).createDepartment({
+        ...data,
+        organizationId: req.user!.organizationId,
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "CREATE_DEPARTMENT",
+        entityType: "DEPARTMENT",
+        entityId: dept.id,
+        metadata: { code: dept.code, name: dept.name },
+      });
+
+      res.status(201).json(dept);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create department" });
+    }
+  });
+
+  app.patch("/api/departments/:id", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const changes = insertDepartmentSchema.partial().pick({ name: true, code: true, description: true }).parse(req.body);
+      const dept = await tenantStorageFor(req.user!).updateDepartment(id, changes);
+      if (!dept) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_DEPARTMENT",
+        entityType: "DEPARTMENT",
+        entityId: id,
+        metadata: { code: dept.code, name: dept.name, changes },
+      });
+
+      res.json(dept);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update department" });
+    }
+  });
+
+  app.delete("/api/departments/:id", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    if (!(await tenantStorageFor(req.user!).deleteDepartment(id))) {
+      return res.status(404).json({ message: "Department not found" });
+    }
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "DELETE_DEPARTMENT",
+      entityType: "DEPARTMENT",
+      entityId: id,
+    });
+    res.status(204).send();
+  });
+
+  app.get("/api/directory-sync", authMiddleware, superAdminMiddleware, async (_req: AuthRequest, res: Response) => {
+    res.json(directorySync.getDirectorySyncStatus());
+  });
+
+  // Dry runs are the default so an accidental click only previews the diff.
+  app.post("/api/directory-sync/run", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    const status = directorySync.getDirectorySyncStatus();
+    if (!status.configured) {
+      return res.status(400).json({ message: "Directory sync is not configured" });
+    }
+    if (status.running) {
+      return res.status(409).json({ message: "A directory sync is already running" });
+    }
+
+    try {
+      const report = await directorySync.runDirectorySync({
+        dryRun: req.body?.dryRun !== false,
+        triggeredBy: req.user!.id,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("[directory-sync] Sync failed:", error);
+      res.status(502).json({ message: error instanceof Error ? error.message : "Directory sync failed" });
+    }
+  });
+
+  app.get("/api/integrity", authMiddleware, superAdminMiddleware, async (_req: AuthRequest, res: Response) => {
+    res.json(fileIntegrity.getIntegrityStatus());
+  });
+
+  // Rehashing every upload can take a while, so the check runs in the
+  // background and its report is picked up from GET /api/integrity.
+  app.post("/api/integrity/verify", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    if (fileIntegrity.getIntegrityStatus().running) {
+      return res.status(409).json({ message: "An integrity check is already running" });
+    }
+    fileIntegrity.startIntegrityCheck(req.user!.id);
+    res.status(202).json(fileIntegrity.getIntegrityStatus());
+  });
+
+  // Employees (EMS)
+  app.get("/api/employees", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const users = await tenantStorageFor(req.user!).getAllUsers();
+    const nonSuperUsers = users.filter((u) => u.role !== "SUPER_ADMIN");
+
+    const result = await Promise.all(
+      nonSuperUsers.map(async (user) => {
+        const profile = await storage.getEmployeeProfileByUserId(user.id);
+        let departmentName: string | null = null;
+        if (profile?.departmentId) {
+          const dept = await storage.getDepartment(profile.departmentId);
+          departmentName = dept?.name ?? null;
+        }
+
+        return {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          username: user.username,
+          role: user.role,
+          isActive: user.isActive,
+          employmentStatus: profile?.employmentStatus ?? "ACTIVE",
+          phone: profile?.phone ?? null,
+          location: profile?.location ?? null,
+          departmentId: profile?.departmentId ?? null,
+          departmentName,
+          monitorId: profile?.monitorId ?? null,
+          appointedDate: profile?.appointedDate ?? null,
+          createdAt: profile?.createdAt ?? user.createdAt,
+          updatedAt: profile?.updatedAt ?? user.updatedAt,
+        };
+      }),
+    );
+
+    res.json(result);
+  });
+
+  app.post("/api/employees", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const data = createEmployeeSchema.parse(req.body);
+
+      const existingEmail = await storage.getUserByEmail(data.email);
+      if (existingEmail) {
+        return res.status(409).json({ message: "Email already exists" });
+      }
+
+      const referenceError = await findForeignEmployeeReference(tenantStorageFor(req.user!), data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const role = data.role ?? "STAFF";
+      const employmentStatus = data.employmentStatus ?? "ACTIVE";
+
+      const username = await generateUniqueUsername(data.firstName, data.lastName);
+      const plainPassword = await generatePolicyPassword({
+        username,
+        email: data.email,
+        organizationId: req.user!.organizationId,
+      });
+      const hashedPassword = await bcrypt.hash(plainPassword, SALT_ROUNDS);
+
+      const user = await tenantStorageFor(req.user!).createUser({
+        email: data.email,
+        username,
+        password: hashedPassword,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        role,
+        isActive: employmentStatus !== "TERMINATED",
+        mustChangePassword: true,
+        organizationId: req.user!.organizationId,
+      } as any);
+      await passwordPolicy.recordPasswordHistory(user.id, hashedPassword, user.organizationId);
+
+      const appointedDate = data.appointedDate ? new Date(data.appointedDate) : undefined;
+
+      const profile = await storage.createEmployeeProfile({
+        userId: user.id,
+        departmentId: data.departmentId,
+        monitorId: data.monitorId,
+        phone: data.phone,
+        location: data.location,
+        appointedDate: appointedDate,
+        employmentStatus,
+      } as any);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "CREATE_EMPLOYEE",
+        entityType: "EMPLOYEE",
+        entityId: user.id,
+        metadata: {
+          email: user.email,
+          role: user.role,
+          employmentStatus,
+          departmentId: profile.departmentId,
+        },
+      });
+
+      const { password: _pw, ...safeUser } = user as any;
+
+      res.status(201).json({
+        user: safeUser,
+        profile,
+        credentials: {
+          username,
+          password: plainPassword,
+        },
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create employee" });
+    }
+  });
+
+  app.patch("/api/employees/:id", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const data = updateEmployeeSchema.parse(req.body);
+      const tenant = tenantStorageFor(req.user!);
+
+      const user = await findManagedUser(req, id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const referenceError = await findForeignEmployeeReference(tenant, data);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const userUpdate: any = {};
+      if (data.firstName !== undefined) userUpdate.firstName = data.firstName;
+      if (data.lastName !== undefined) userUpdate.lastName = data.lastName;
+      if (data.role !== undefined) userUpdate.role = data.role;
+      if (data.employmentStatus !== undefined) {
+        userUpdate.isActive = data.employmentStatus !== "TERMINATED";
+      }
+
+      const employmentStatus = data.employmentStatus;
+
+      let profile = await storage.getEmployeeProfileByUserId(id);
+      if (!profile) {
+        profile = await storage.createEmployeeProfile({
+          userId: id,
+          departmentId: data.departmentId,
+          monitorId: data.monitorId,
+          phone: data.phone,
+          location: data.location,
+          appointedDate: data.appointedDate ? new Date(data.appointedDate) : undefined,
+          employmentStatus: employmentStatus ?? "ACTIVE",
+        } as any);
+      } else {
+        const profileUpdate: any = {};
+        if (data.departmentId !== undefined) profileUpdate.departmentId = data.departmentId;
+        if (data.monitorId !== undefined) profileUpdate.monitorId = data.monitorId;
+        if (data.phone !== undefined) profileUpdate.phone = data.phone;
+        if (data.location !== undefined) profileUpdate.location = data.location;
+        if (data.appointedDate !== undefined) {
+          profileUpdate.appointedDate = data.appointedDate ? new Date(data.appointedDate) : null;
+        }
+        if (employmentStatus !== undefined) profileUpdate.employmentStatus = employmentStatus;
+        profile = await storage.updateEmployeeProfile(profile.id, profileUpdate) ?? profile;
+      }
+
+      const updatedUser = Object.keys(userUpdate).length
+        ? await tenant.updateUser(id, userUpdate)
+        : user;
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_EMPLOYEE",
+        entityType: "EMPLOYEE",
+        entityId: id,
+      });
+
+      const { password: _pw, ...safeUser } = updatedUser as any;
+      res.json({ user: safeUser, profile });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update employee" });
+    }
+  });
+
+  app.delete("/api/employees/:id", authMiddleware, requirePermission("users:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const tenant = tenantStorageFor(req.user!);
+    if (!(await findManagedUser(req, id))) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    const profile = await storage.getEmployeeProfileByUserId(id);
+    if (profile) {
+      await storage.deleteEmployeeProfile(profile.id);
+    }
+
+    await tenant.deleteUser(id);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "DELETE_EMPLOYEE",
+      entityType: "EMPLOYEE",
+      entityId: id,
+    });
+
+    res.status(204).send();
+  });
+
+  app.get("/api/folders/:id?", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const folderId = req.params.id === "root" ? null : req.params.id || null;
+    const result = await tenantStorageFor(req.user!).getFolderWithContents(folderId, await getAccessPrincipal(req));
+    if (!result.access) {
+      return res.status(404).json({ message: "Folder not found" });
+    }
+    res.json(result);
+  });
+
+  app.get("/api/folders/:id/permissions", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    if (!(await requireFolderAccess(req, res, req.params.id, "MANAGE"))) return;
+    const entries = await storage.getFolderPermissions(req.params.id);
+    res.json(entries);
+  });
+
+  app.put("/api/folders/:id/permissions", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const data = setFolderPermissionSchema.parse(req.body);
+      if (!(await requireFolderAccess(req, res, req.params.id, "MANAGE"))) return;
+
+      // Principals must belong to the same organization as the folder.
+      const tenant = tenantStorageFor(req.user!);
+      const principalExists =
+        data.principalType === "USER"
+          ? !!(await tenant.getUser(data.principalId))
+          : data.principalType === "DEPARTMENT"
+            ? !!(await tenant.getDepartment(data.principalId))
+            : (userRoleEnum.enumValues as readonly string[]).includes(data.principalId);
+      if (!principalExists) {
+        return res.status(400).json({ message: "Unknown user, department or role" });
+      }
+
+      const entry = await storage.setFolderPermission({ ...data, folderId: req.params.id, createdBy: req.user!.id });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "PERMISSION_CHANGE",
+        entityType: "FOLDER",
+        entityId: req.params.id,
+        metadata: { principalType: data.principalType, principalId: data.principalId, level: data.level, deny: data.deny },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update folder permissions" });
+    }
+  });
+
+  app.delete("/api/folders/:id/permissions/:entryId", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    if (!(await requireFolderAccess(req, res, req.params.id, "MANAGE"))) return;
+    const entries = await storage.getFolderPermissions(req.params.id);
+    if (!entries.some((entry) => entry.id === req.params.entryId)) {
+      return res.status(404).json({ message: "Permission entry not found" });
+    }
+
+    const removed = await storage.deleteFolderPermission(req.params.entryId);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "PERMISSION_CHANGE",
+      entityType: "FOLDER",
+      entityId: req.params.id,
+      metadata: { removed: true, principalType: removed?.principalType, principalId: removed?.principalId, level: removed?.level, deny: removed?.deny },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    res.status(204).send();
+  });
+
+  app.get("/api/folders/:id/metadata-fields", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    if (!(await requireFolderAccess(req, res, req.params.id, "READ"))) return;
+    res.json(await folderMetadata.getEffectiveFields(req.params.id));
+  });
+
+  app.post("/api/folders/:id/metadata-fields", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const data = metadataFieldFormSchema.parse(req.body);
+      if (!(await requireFolderAccess(req, res, req.params.id, "MANAGE"))) return;
+      const existing = await storage.getFolderMetadataFields([req.params.id]);
+      if (existing.some((field) => field.key === data.key)) {
+        return res.status(400).json({ message: "This folder already has a field with that key" });
+      }
+
+      const field = await storage.createFolderMetadataField({
+        ...data,
+        options: data.type === "SELECT" ? data.options : [],
+        folderId: req.params.id,
+        position: existing.length,
+        createdBy: req.user!.id,
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_METADATA",
+        entityType: "FOLDER",
+        entityId: req.params.id,
+        metadata: { metadataField: field.key, type: field.type, required: field.required, created: true },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.status(201).json(field);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to add metadata field" });
+    }
+  });
+
+  app.patch("/api/folders/:id/metadata-fields/:fieldId", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const data = updateMetadataFieldSchema.parse(req.body);
+      if (!(await requireFolderAccess(req, res, req.params.id, "MANAGE"))) return;
+      const existing = await storage.getFolderMetadataField(req.params.fieldId);
+      if (!existing || existing.folderId !== req.params.id) {
+        return res.status(404).json({ message: "Metadata field not found" });
+      }
+      if (data.options !== undefined && existing.type === "SELECT" && data.options.length === 0) {
+        return res.status(400).json({ message: "Select fields need at least one option" });
+      }
+
+      const field = await storage.updateFolderMetadataField(existing.id, {
+        ...data,
+        options: existing.type === "SELECT" ? data.options : undefined,
+      });
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_METADATA",
+        entityType: "FOLDER",
+        entityId: req.params.id,
+        metadata: { metadataField: existing.key, changes: data },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json(field);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update metadata field" });
+    }
+  });
+
+  // Values already stored on documents are kept; they just stop being shown
+  // or checked.
+  app.delete("/api/folders/:id/metadata-fields/:fieldId", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    if (!(await requireFolderAccess(req, res, req.params.id, "MANAGE"))) return;
+    const field = await storage.getFolderMetadataField(req.params.fieldId);
+    if (!field || field.folderId !== req.params.id) {
+      return res.status(404).json({ message: "Metadata field not found" });
+    }
+
+    await storage.deleteFolderMetadataField(field.id);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "UPDATE_METADATA",
+      entityType: "FOLDER",
+      entityId: req.params.id,
+      metadata: { metadataField: field.key, removed: true },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    res.status(204).send();
+  });
+
+  // Every metadata field defined in the organization, one per key, for the
+  // search filters.
+  app.get("/api/metadata-fields", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const fields = await tenantStorageFor(req.user!).getMetadataFields();
+    const byKey = new Map(fields.map((field) => [field.key, field] as const));
+    res.json(Array.from(byKey.values()));
+  });
+
+  // Who a folder can be shared with: active users, departments and roles.
+  app.get("/api/access-principals", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    const tenant = tenantStorageFor(req.user!);
+    const [users, departments] = await Promise.all([tenant.getAllUsers(), tenant.getDepartments()]);
+    res.json({
+      users: users
+        .filter((user) => user.isActive)
+        .map(({ id, username, firstName, lastName }) => ({ id, username, firstName, lastName })),
+      departments: departments.map(({ id, name, code }) => ({ id, name, code })),
+      roles: userRoleEnum.enumValues,
+    });
+  });
+
+  app.post("/api/folders", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
     try {
-      const analytics = await storage.getAnalyticsDashboard();
-      res.json(analytics);
+      const data = insertFolderSchema.parse(req.body);
+      if (!(await requireFolderAccess(req, res, data.parentFolderId ?? null, "WRITE"))) return;
+      const folder = await tenantStorageFor(req.user!).createFolder({
+        ...data,
+        createdBy: req.user!.id,
+        organizationId: req.user!.organizationId,
+      });
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "CREATE_FOLDER",
+        entityType: "FOLDER",
+        entityId: folder.id,
+        metadata: { folderName: folder.name },
+      });
+
+      res.status(201).json(folder);
     } catch (error) {
-      console.error("Analytics error:", error);
-      res.status(500).json({ message: "Failed to load analytics" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to create folder" });
     }
   });
 
-  app.get("/api/search", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  // Renames and moves only.
+  app.patch("/api/folders/:id", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
     try {
-      const { q, mimeType, folderId, minSize, maxSize, startDate, endDate, limit } = req.query;
-      const query = (q as string) || "";
-      
-      const results = await storage.searchDocuments(query, { 
-        mimeType: mimeType as string | undefined,
-        folderId: folderId as string | undefined,
-        minSize: minSize ? parseInt(minSize as string) : undefined,
-        maxSize: maxSize ? parseInt(maxSize as string) : undefined,
-        startDate: startDate ? new Date(startDate as string) : undefined,
-        endDate: endDate ? new Date(endDate as string) : undefined,
-        limit: limit ? parseInt(limit as string) : 50,
+      const { id } = req.params;
+      const changes = updateFolderSchema.parse(req.body);
+      if (!(await requireFolderAccess(req, res, id, "MANAGE"))) return;
+      const tenant = tenantStorageFor(req.user!);
+      const existing = await tenant.getFolder(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      const moving = changes.parentFolderId !== undefined && changes.parentFolderId !== existing.parentFolderId;
+      if (moving) {
+        if (!(await requireFolderAccess(req, res, changes.parentFolderId!, "WRITE"))) return;
+        if (changes.parentFolderId && (await isFolderWithin(changes.parentFolderId, id))) {
+          return res.status(400).json({ message: "A folder cannot be moved into itself or a folder inside it" });
+        }
+        if (await legalHold.isFolderUnderHold(existing)) {
+          return res.status(409).json({ message: "This folder is under legal hold and cannot be moved" });
+        }
+      }
+      const folder = await tenant.updateFolder(id, changes);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_FOLDER",
+        entityType: "FOLDER",
+        entityId: id,
+        metadata: {
+          folderName: folder.name,
+          before: { name: existing.name, parentFolderId: existing.parentFolderId },
+          after: changes,
+        },
       });
-      res.json(results);
+
+      res.json(folder);
     } catch (error) {
-      console.error("Search error:", error);
-      res.status(500).json({ message: "Search failed" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update folder" });
+    }
+  });
+
+  app.delete("/api/folders/:id", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    if (!(await requireFolderAccess(req, res, id, "MANAGE"))) return;
+    const folder = await tenantStorageFor(req.user!).getFolder(id);
+    if (!folder) {
+      return res.status(404).json({ message: "Folder not found" });
+    }
+    if (await legalHold.isFolderHeld(folder)) {
+      return res.status(409).json({ message: "This folder or something in it is under legal hold" });
     }
+    await recycleBin.trashFolder(folder, req.user!.id);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "DELETE_FOLDER",
+      entityType: "FOLDER",
+      entityId: id,
+      metadata: { folderName: folder.name },
+    });
+    res.status(204).send();
   });
 
-  app.get("/api/audit-logs", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  // A hold on a folder covers every folder and document below it.
+  app.put("/api/folders/:id/legal-hold", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const { userId, action, limit } = req.query;
-      const logs = await storage.getAuditLogs({
-        userId: userId as string | undefined,
-        action: action as string | undefined,
-        limit: limit ? parseInt(limit as string) : 50,
+      const { hold, reason } = legalHoldSchema.parse(req.body);
+      const folder = await tenantStorageFor(req.user!).getFolder(req.params.id);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      const updated = await storage.updateFolder(folder.id, legalHold.holdChanges(hold, reason));
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: hold ? "LEGAL_HOLD" : "LEGAL_HOLD_RELEASE",
+        entityType: "FOLDER",
+        entityId: folder.id,
+        metadata: { folderName: folder.name, reason: hold ? reason : folder.legalHoldReason },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
       });
-      res.json(logs);
+
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to load audit logs" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update legal hold" });
+    }
+  });
+
+  app.get("/api/documents", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const { limit, status, folderId, tags } = req.query;
+    const documents = await tenantStorageFor(req.user!).getDocuments({
+      limit: limit ? parseInt(limit as string) : undefined,
+      status: status as string,
+      folderId: folderId as string,
+      tags: documentTags.parseTagFilter(tags),
+    }, await getAccessPrincipal(req));
+    res.json(await documentTags.withTags(documents));
+  });
+
+  app.get("/api/documents/:id", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (!(await requireDocumentAccess(req, res, doc, "READ"))) return;
+    res.json(doc);
+  });
+
+  app.post("/api/documents/upload", authMiddleware, requirePermission("documents:upload"), upload.array("files", 10), async (req: AuthRequest, res: Response) => {
+    const files = req.files as Express.Multer.File[];
+    let stored = 0;
+    try {
+      if (!files || files.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
+      }
+
+      const { folderId } = req.body;
+      if (!(await requireFolderAccess(req, res, folderId || null, "WRITE"))) {
+        await Promise.all(files.map((file) => fs.promises.unlink(file.path).catch(() => undefined)));
+        return;
+      }
+      // The same field values apply to every file in the batch.
+      const checked = folderMetadata.validateMetadata(
+        await folderMetadata.getEffectiveFields(folderId || null),
+        folderMetadata.parseMetadataInput(req.body.metadata),
+      );
+      if ("error" in checked) {
+        await Promise.all(files.map((file) => fs.promises.unlink(file.path).catch(() => undefined)));
+        return res.status(400).json({ message: checked.error });
+      }
+      const tenant = tenantStorageFor(req.user!);
+      const uploadedDocs = [];
+
+      for (const file of files) {
+        const doc = await tenant.createDocument({
+          title: path.parse(file.originalname).name,
+          originalName: file.originalname,
+          filePath: file.path,
+          mimeType: file.mimetype,
+          sizeBytes: file.size,
+          checksum: await fileIntegrity.sha256File(file.path),
+          folderId: folderId || null,
+          uploadedBy: req.user!.id,
+          organizationId: req.user!.organizationId,
+          status: "ACTIVE",
+          metadata: checked.metadata,
+        });
+        if (!doc) {
+          // The folder went away mid-batch. What was stored stays; the rest is
+          // discarded and the response says which files made it.
+          await Promise.all(files.slice(stored).map((file) => fs.promises.unlink(file.path).catch(() => undefined)));
+          if (uploadedDocs.length === 0) {
+            return res.status(404).json({ message: "Folder not found" });
+          }
+          return res.status(409).json({
+            message: `The folder was removed during the upload; ${uploadedDocs.length} of ${files.length} files were uploaded`,
+            documents: uploadedDocs,
+          });
+        }
+        stored++;
+        await documentVersions.recordInitialVersion(doc);
+
+        await storage.createAuditLog({
+          userId: req.user!.id,
+          action: "UPLOAD",
+          entityType: "DOCUMENT",
+          entityId: doc.id,
+          metadata: { fileName: file.originalname, size: file.size },
+        });
+
+        uploadedDocs.push(doc);
+      }
+
+      res.status(201).json(uploadedDocs);
+    } catch (error) {
+      await Promise.all((files ?? []).slice(stored).map((file) => fs.promises.unlink(file.path).catch(() => undefined)));
+      res.status(500).json({ message: "Upload failed" });
+    }
+  });
+
+  app.patch("/api/documents/:id", authMiddleware, requirePermission("documents:edit"), async (req: AuthRequest, res: Response) => {
+    try {
+      const { metadata: metadataInput, ...input } = updateDocumentSchema.parse(req.body);
+      const changes: UpdateDocument = input;
+      const tenant = tenantStorageFor(req.user!);
+      const existing = await tenant.getDocument(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!(await requireDocumentAccess(req, res, existing, "WRITE"))) return;
+      if (changes.folderId !== undefined && !(await requireFolderAccess(req, res, changes.folderId, "WRITE"))) return;
+      const moving = changes.folderId !== undefined && changes.folderId !== existing.folderId;
+      if (moving && (await legalHold.isDocumentHeld(existing))) {
+        return res.status(409).json({ message: "This document is under legal hold and cannot be moved" });
+      }
+      // metadata replaces all field values. Moving a document checks its values
+      // against the fields of the folder it moves to. Stored values for keys that
+      // are not fields there are kept.
+      if (metadataInput !== undefined || changes.folderId !== undefined) {
+        const checked = folderMetadata.validateMetadata(
+          await folderMetadata.getEffectiveFields(changes.folderId !== undefined ? changes.folderId : existing.folderId),
+          metadataInput !== undefined ? metadataInput : existing.metadata,
+          existing.metadata,
+        );
+        if ("error" in checked) {
+          return res.status(400).json({ message: checked.error });
+        }
+        changes.metadata = checked.metadata;
+      }
+      const doc = await tenant.updateDocument(req.params.id, changes);
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "UPDATE_METADATA",
+        entityType: "DOCUMENT",
+        entityId: req.params.id,
+      });
+
+      res.json(doc);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update document" });
+    }
+  });
+
+  app.delete("/api/documents/:id", authMiddleware, requirePermission("documents:delete"), async (req: AuthRequest, res: Response) => {
+    const tenant = tenantStorageFor(req.user!);
+    const doc = await tenant.getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (!(await requireDocumentAccess(req, res, doc, "WRITE"))) return;
+    if (await legalHold.isDocumentHeld(doc)) {
+      return res.status(409).json({ message: "This document is under legal hold" });
+    }
+    await recycleBin.trashDocument(doc, req.user!.id);
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "DELETE",
+      entityType: "DOCUMENT",
+      entityId: req.params.id,
+    });
+    res.status(204).send();
+  });
+
+  // A held document cannot be deleted, purged or disposed of by a retention
+  // policy until the hold is released.
+  app.put("/api/documents/:id/legal-hold", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const { hold, reason } = legalHoldSchema.parse(req.body);
+      const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      const updated = await storage.updateDocument(doc.id, legalHold.holdChanges(hold, reason));
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: hold ? "LEGAL_HOLD" : "LEGAL_HOLD_RELEASE",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { title: doc.title, reason: hold ? reason : doc.legalHoldReason },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to update legal hold" });
+    }
+  });
+
+  app.get("/api/documents/:id/download", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (!(await requireDocumentAccess(req, res, doc, "READ"))) return;
+
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "DOWNLOAD",
+      entityType: "DOCUMENT",
+      entityId: req.params.id,
+    });
+
+    setChecksumHeader(res, doc.checksum);
+    res.download(doc.filePath, doc.originalName);
+  });
+
+  app.get("/api/shares/created", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const shares = await storage.getShareCodesByCreator(req.user!.id);
+    const recipients = await storage.getShareRecipientSummaries(shares.map((s) => s.id));
+    const created: CreatedShare[] = shares.map((share) => ({
+      ...shareAccess.toShareSummary(share),
+      recipients: recipients
+        .filter((r) => r.shareCodeId === share.id)
+        .map(({ shareCodeId: _shareCodeId, ...recipient }) => recipient),
+    }));
+    res.json(created);
+  });
+
+  // Who redeemed one of the caller's shares, and when.
+  app.get("/api/shares/:id/redemptions", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const share = await storage.getShareCodeById(req.params.id);
+    if (!share || share.createdBy !== req.user!.id) {
+      return res.status(404).json({ message: "Share not found" });
+    }
+    res.json(await storage.getShareRedemptionDetails(share.id));
+  });
+
+  app.get("/api/shares/received", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const shares = await storage.getReceivedShares(req.user!.id);
+    res.json(shares);
+  });
+
+  // Browses a received share. Folder shares can be walked down with ?folderId=.
+  app.get("/api/shares/received/:shareId/contents", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const share = await findReceivedShare(req, res, "VIEW");
+    if (!share) return;
+    await storage.recordShareRedemption(share.id, req.user!.id);
+
+    const contents = await shareAccess.getShareContents(share, req.query.folderId as string | undefined);
+    if (!contents) {
+      return res.status(404).json({ message: "Folder not found" });
+    }
+    res.json({ share: shareAccess.toShareSummary(share), ...contents });
+  });
+
+  app.get("/api/shares/received/:shareId/documents/:documentId/preview", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const share = await findReceivedShare(req, res, "VIEW");
+    if (!share) return;
+    const doc = await findSharedDocument(req, res, share);
+    if (!doc) return;
+
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      organizationId: doc.organizationId,
+      action: "DOWNLOAD",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { shareId: share.id, inline: true },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    sendSharedPreview(res, doc);
+  });
+
+  app.get("/api/shares/received/:shareId/documents/:documentId/download", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const share = await findReceivedShare(req, res, "DOWNLOAD");
+    if (!share) return;
+    const doc = await findSharedDocument(req, res, share);
+    if (!doc) return;
+
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      organizationId: doc.organizationId,
+      action: "DOWNLOAD",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { shareId: share.id },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    setChecksumHeader(res, doc.checksum);
+    res.download(doc.filePath, doc.originalName);
+  });
+
+  app.get("/api/documents/:id/tags", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
     }
+    if (!(await requireDocumentAccess(req, res, doc, "READ"))) return;
+    res.json(await documentTags.getTagNames(doc.id));
   });
 
-  app.post("/api/users", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/documents/:id/tags", authMiddleware, requirePermission("documents:edit"), async (req: AuthRequest, res: Response) => {
     try {
-      const data = insertUserSchema.parse(req.body);
-
-      const existingEmail = await storage.getUserByEmail(data.email);
-      if (existingEmail) {
-        return res.status(409).json({ message: "Email already exists" });
-      }
-
-      const existingUsername = await storage.getUserByUsername(data.username);
-      if (existingUsername) {
-        return res.status(409).json({ message: "Username already exists" });
+      const { tag } = addDocumentTagSchema.parse(req.body);
+      const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
       }
+      if (!(await requireDocumentAccess(req, res, doc, "WRITE"))) return;
 
-      const hashedPassword = await bcrypt.hash(data.password, SALT_ROUNDS);
-      const user = await storage.createUser({ ...data, password: hashedPassword });
-
+      await storage.addDocumentTag(doc.id, tag);
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "CREATE_USER",
-        entityType: "USER",
-        entityId: user.id,
-        metadata: { createdUserEmail: user.email },
+        action: "UPDATE_METADATA",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { addedTag: tag },
       });
-
-      const { password, ...safeUser } = user;
-      res.status(201).json(safeUser);
+      res.status(201).json(await documentTags.getTagNames(doc.id));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      res.status(500).json({ message: "Failed to create user" });
+      res.status(500).json({ message: "Failed to add tag" });
     }
   });
 
-  app.patch("/api/users/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  // Replaces all of a document's tags at once.
+  app.put("/api/documents/:id/tags", authMiddleware, requirePermission("documents:edit"), async (req: AuthRequest, res: Response) => {
     try {
-      const { id } = req.params;
-      const data = req.body;
-
-      if (data.password) {
-        data.password = await bcrypt.hash(data.password, SALT_ROUNDS);
-      }
-
-      const user = await storage.updateUser(id, data);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const { tags } = setDocumentTagsSchema.parse(req.body);
+      const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
       }
+      if (!(await requireDocumentAccess(req, res, doc, "WRITE"))) return;
 
+      const saved = await storage.setDocumentTags(doc.id, tags);
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "UPDATE_USER",
-        entityType: "USER",
-        entityId: id,
+        action: "UPDATE_METADATA",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { tags: saved },
       });
-
-      const { password, ...safeUser } = user;
-      res.json(safeUser);
+      res.json(saved);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to save tags" });
     }
   });
 
-  app.delete("/api/users/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    await storage.deleteUser(id);
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "DELETE",
-      entityType: "USER",
-      entityId: id,
-    });
-    res.status(204).send();
-  });
-
-  app.post("/api/users/:id/force-logout", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
+  app.delete("/api/documents/:id/tags/:tag", authMiddleware, requirePermission("documents:edit"), async (req: AuthRequest, res: Response) => {
+    const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (!(await requireDocumentAccess(req, res, doc, "WRITE"))) return;
+    const tag = documentTags.normalizeTag(req.params.tag);
+    if (!tag || !(await storage.removeDocumentTag(doc.id, tag))) {
+      return res.status(404).json({ message: "Tag not found" });
+    }
 
-    await storage.deleteUserSessions(id);
     await storage.createAuditLog({
       userId: req.user!.id,
-      action: "LOGOUT",
-      entityType: "USER",
-      entityId: id,
-      metadata: { forced: true },
+      action: "UPDATE_METADATA",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { removedTag: tag },
     });
-
-    res.json({ message: "User sessions terminated" });
+    res.status(204).send();
   });
 
-  // Departments (EMS)
-  app.get("/api/departments", authMiddleware, superAdminMiddleware, async (_req: AuthRequest, res: Response) => {
-    const departments = await storage.getDepartments();
-    res.json(departments);
+  // Every tag in use on documents the caller can read, with document counts.
+  app.get("/api/tags", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    res.json(await tenantStorageFor(req.user!).getTagCounts(await getAccessPrincipal(req)));
   });
 
-  app.post("/api/departments", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  // Renaming onto a tag that already exists merges the two.
+  app.patch("/api/tags/:tag", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const data = insertDepartmentSchema.parse(req.body);
-      const dept = await storage.createDepartment({
-        ...data,
-        organizationId: req.user!.organizationId,
-      });
+      const { name } = renameTagSchema.parse(req.body);
+      const tag = documentTags.normalizeTag(req.params.tag);
+      const affected = tag ? await tenantStorageFor(req.user!).mergeTags([tag], name) : 0;
+      if (!tag || (affected === 0 && tag !== name)) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
 
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "CREATE_DEPARTMENT",
-        entityType: "DEPARTMENT",
-        entityId: dept.id,
-        metadata: { code: dept.code, name: dept.name },
+        action: "TAG_RENAME",
+        entityType: "TAG",
+        metadata: { from: tag, to: name, affected },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
       });
-
-      res.status(201).json(dept);
+      res.json({ tag: name, affected });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      res.status(500).json({ message: "Failed to create department" });
+      res.status(500).json({ message: "Failed to rename tag" });
     }
   });
 
-  app.patch("/api/departments/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/tags/merge", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const { id } = req.params;
-      const dept = await storage.updateDepartment(id, req.body);
-      if (!dept) {
-        return res.status(404).json({ message: "Department not found" });
-      }
+      const { sources, target } = mergeTagsSchema.parse(req.body);
+      const affected = await tenantStorageFor(req.user!).mergeTags(sources, target);
 
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "UPDATE_DEPARTMENT",
-        entityType: "DEPARTMENT",
-        entityId: id,
+        action: "TAG_MERGE",
+        entityType: "TAG",
+        metadata: { sources, target, affected },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
       });
-
-      res.json(dept);
-    } catch (_error) {
-      res.status(500).json({ message: "Failed to update department" });
+      res.json({ tag: target, affected });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to merge tags" });
     }
   });
 
-  app.delete("/api/departments/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    await storage.deleteDepartment(id);
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "DELETE_DEPARTMENT",
-      entityType: "DEPARTMENT",
-      entityId: id,
-    });
-    res.status(204).send();
-  });
-
-  // Employees (EMS)
-  app.get("/api/employees", authMiddleware, superAdminMiddleware, async (_req: AuthRequest, res: Response) => {
-    const users = await storage.getAllUsers();
-    const nonSuperUsers = users.filter((u) => u.role !== "SUPER_ADMIN");
-
-    const result = await Promise.all(
-      nonSuperUsers.map(async (user) => {
-        const profile = await storage.getEmployeeProfileByUserId(user.id);
-        let departmentName: string | null = null;
-        if (profile?.departmentId) {
-          const dept = await storage.getDepartment(profile.departmentId);
-          departmentName = dept?.name ?? null;
-        }
-
-        return {
-          id: user.id,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.email,
-          username: user.username,
-          role: user.role,
-          isActive: user.isActive,
-          employmentStatus: profile?.employmentStatus ?? "ACTIVE",
-          phone: profile?.phone ?? null,
-          location: profile?.location ?? null,
-          departmentId: profile?.departmentId ?? null,
-          departmentName,
-          monitorId: profile?.monitorId ?? null,
-          appointedDate: profile?.appointedDate ?? null,
-          createdAt: profile?.createdAt ?? user.createdAt,
-          updatedAt: profile?.updatedAt ?? user.updatedAt,
-        };
-      }),
+  app.get("/api/retention-policies", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    const policies = await tenantStorageFor(req.user!).getRetentionPolicies();
+    const result: RetentionPolicyWithFolder[] = await Promise.all(
+      policies.map(async (policy) => ({
+        ...policy,
+        folderName: policy.folderId ? (await storage.getFolder(policy.folderId))?.name ?? null : null,
+      })),
     );
-
     res.json(result);
   });
 
-  app.post("/api/employees", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/retention-policies", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
     try {
-      const data = createEmployeeSchema.parse(req.body);
-
-      const existingEmail = await storage.getUserByEmail(data.email);
-      if (existingEmail) {
-        return res.status(409).json({ message: "Email already exists" });
+      const data = retentionPolicyFormSchema.parse(req.body);
+      const tenant = tenantStorageFor(req.user!);
+      let organizationId: string | null | undefined = req.user!.organizationId;
+      if (data.targetType === "FOLDER") {
+        const folder = await tenant.getFolder(data.folderId!);
+        if (!folder) {
+          return res.status(404).json({ message: "Folder not found" });
+        }
+        organizationId = folder.organizationId;
       }
 
-      const role = data.role ?? "STAFF";
-      const employmentStatus = data.employmentStatus ?? "ACTIVE";
-
-      const username = await generateUniqueUsername(data.firstName, data.lastName);
-      const plainPassword = generateRandomPassword();
-      const hashedPassword = await bcrypt.hash(plainPassword, SALT_ROUNDS);
-
-      const user = await storage.createUser({
-        email: data.email,
-        username,
-        password: hashedPassword,
-        firstName: data.firstName,
-        lastName: data.lastName,
-        role,
-        isActive: employmentStatus !== "TERMINATED",
-        organizationId: req.user!.organizationId,
-      } as any);
-
-      const appointedDate = data.appointedDate ? new Date(data.appointedDate) : undefined;
-
-      const profile = await storage.createEmployeeProfile({
-        userId: user.id,
-        departmentId: data.departmentId,
-        monitorId: data.monitorId,
-        phone: data.phone,
-        location: data.location,
-        appointedDate: appointedDate,
-        employmentStatus,
-      } as any);
+      const policy = await tenant.createRetentionPolicy({
+        name: data.name,
+        targetType: data.targetType,
+        folderId: data.targetType === "FOLDER" ? data.folderId : null,
+        tag: data.targetType === "TAG" ? data.tag : null,
+        metadataKey: data.targetType === "METADATA" ? data.metadataKey : null,
+        metadataValue: data.targetType === "METADATA" ? data.metadataValue : null,
+        startFrom: data.startFrom,
+        startField: data.startFrom === "METADATA_DATE" ? data.startField : null,
+        retentionMonths: data.retentionMonths,
+        action: data.action,
+        isActive: data.isActive,
+        organizationId,
+        createdBy: req.user!.id,
+      });
 
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "CREATE_EMPLOYEE",
-        entityType: "EMPLOYEE",
-        entityId: user.id,
-        metadata: {
-          email: user.email,
-          role: user.role,
-          employmentStatus,
-          departmentId: profile.departmentId,
-        },
+        action: "CREATE_RETENTION_POLICY",
+        entityType: "RETENTION_POLICY",
+        entityId: policy.id,
+        metadata: { name: policy.name, targetType: policy.targetType, retentionMonths: policy.retentionMonths, action: policy.action },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
       });
 
-      const { password: _pw, ...safeUser } = user as any;
-
-      res.status(201).json({
-        user: safeUser,
-        profile,
-        credentials: {
-          username,
-          password: plainPassword,
-        },
-      });
+      res.status(201).json(policy);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      res.status(500).json({ message: "Failed to create employee" });
+      res.status(500).json({ message: "Failed to create retention policy" });
     }
   });
 
-  app.patch("/api/employees/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    try {
-      const { id } = req.params;
-      const data = updateEmployeeSchema.parse(req.body);
-
-      const user = await storage.getUser(id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      const userUpdate: any = {};
-      if (data.firstName !== undefined) userUpdate.firstName = data.firstName;
-      if (data.lastName !== undefined) userUpdate.lastName = data.lastName;
-      if (data.role !== undefined) userUpdate.role = data.role;
-      if (data.employmentStatus !== undefined) {
-        userUpdate.isActive = data.employmentStatus !== "TERMINATED";
-      }
+  // Dry runs are the default so an accidental click only previews what would
+  // be archived or disposed of.
+  app.post("/api/retention-policies/run", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    if (retention.isRetentionRunning()) {
+      return res.status(409).json({ message: "A retention run is already in progress" });
+    }
 
-      const employmentStatus = data.employmentStatus;
+    try {
+      const report = await retention.runRetention({
+        dryRun: req.body?.dryRun !== false,
+        scope: tenantStorageFor(req.user!).scope,
+        triggeredBy: req.user!.id,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("[retention] Run failed:", error);
+      res.status(500).json({ message: "Failed to apply retention policies" });
+    }
+  });
 
-      let profile = await storage.getEmployeeProfileByUserId(id);
-      if (!profile) {
-        profile = await storage.createEmployeeProfile({
-          userId: id,
-          departmentId: data.departmentId,
-          monitorId: data.monitorId,
-          phone: data.phone,
-          location: data.location,
-          appointedDate: data.appointedDate ? new Date(data.appointedDate) : undefined,
-          employmentStatus: employmentStatus ?? "ACTIVE",
-        } as any);
-      } else {
-        const profileUpdate: any = {};
-        if (data.departmentId !== undefined) profileUpdate.departmentId = data.departmentId;
-        if (data.monitorId !== undefined) profileUpdate.monitorId = data.monitorId;
-        if (data.phone !== undefined) profileUpdate.phone = data.phone;
-        if (data.location !== undefined) profileUpdate.location = data.location;
-        if (data.appointedDate !== undefined) {
-          profileUpdate.appointedDate = data.appointedDate ? new Date(data.appointedDate) : null;
-        }
-        if (employmentStatus !== undefined) profileUpdate.employmentStatus = employmentStatus;
-        profile = await storage.updateEmployeeProfile(profile.id, profileUpdate) ?? profile;
+  app.patch("/api/retention-policies/:id", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    try {
+      const data = updateRetentionPolicySchema.parse(req.body);
+      const policy = await tenantStorageFor(req.user!).updateRetentionPolicy(req.params.id, data);
+      if (!policy) {
+        return res.status(404).json({ message: "Retention policy not found" });
       }
 
-      const updatedUser = Object.keys(userUpdate).length
-        ? await storage.updateUser(id, userUpdate)
-        : user;
-
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "UPDATE_EMPLOYEE",
-        entityType: "EMPLOYEE",
-        entityId: id,
+        action: "UPDATE_RETENTION_POLICY",
+        entityType: "RETENTION_POLICY",
+        entityId: policy.id,
+        metadata: { name: policy.name, changes: data },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
       });
-
-      const { password: _pw, ...safeUser } = updatedUser as any;
-      res.json({ user: safeUser, profile });
+
+      res.json(policy);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      res.status(500).json({ message: "Failed to update employee" });
+      res.status(500).json({ message: "Failed to update retention policy" });
     }
   });
 
-  app.delete("/api/employees/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-
-    const profile = await storage.getEmployeeProfileByUserId(id);
-    if (profile) {
-      await storage.deleteEmployeeProfile(profile.id);
+  app.delete("/api/retention-policies/:id", authMiddleware, superOrOrgAdminMiddleware, async (req: AuthRequest, res: Response) => {
+    const tenant = tenantStorageFor(req.user!);
+    const policy = await tenant.getRetentionPolicy(req.params.id);
+    if (!policy || !(await tenant.deleteRetentionPolicy(policy.id))) {
+      return res.status(404).json({ message: "Retention policy not found" });
     }
 
-    await storage.deleteUser(id);
     await storage.createAuditLog({
       userId: req.user!.id,
-      action: "DELETE_EMPLOYEE",
-      entityType: "EMPLOYEE",
-      entityId: id,
+      action: "DELETE_RETENTION_POLICY",
+      entityType: "RETENTION_POLICY",
+      entityId: policy.id,
+      metadata: { name: policy.name },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
     });
-
     res.status(204).send();
   });
 
-  app.get("/api/folders/:id?", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const folderId = req.params.id === "root" ? null : req.params.id || null;
-    const result = await storage.getFolderWithContents(folderId);
-    res.json(result);
+  app.get("/api/documents/:id/versions", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (!(await requireDocumentAccess(req, res, doc, "READ"))) return;
+    res.json(await storage.getDocumentVersionHistory(doc.id));
   });
 
-  app.post("/api/folders", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/documents/:id/versions", authMiddleware, requirePermission("documents:edit"), upload.single("file"), async (req: AuthRequest, res: Response) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
     try {
-      const data = insertFolderSchema.parse(req.body);
-      const folder = await storage.createFolder({
-        ...data,
-        createdBy: req.user!.id,
-        organizationId: req.user!.organizationId,
-      });
+      const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+      if (!doc) {
+        await fs.promises.unlink(file.path).catch(() => undefined);
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!(await requireDocumentAccess(req, res, doc, "WRITE"))) {
+        await fs.promises.unlink(file.path).catch(() => undefined);
+        return;
+      }
+
+      const { document, version } = await documentVersions.addDocumentVersion(
+        doc,
+        { filePath: file.path, originalName: file.originalname, mimeType: file.mimetype, sizeBytes: file.size },
+        req.user!.id,
+        typeof req.body.changesSummary === "string" ? req.body.changesSummary.trim() : null,
+      );
 
       await storage.createAuditLog({
         userId: req.user!.id,
-        action: "CREATE_FOLDER",
-        entityType: "FOLDER",
-        entityId: folder.id,
-        metadata: { folderName: folder.name },
+        action: "UPLOAD",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { fileName: file.originalname, size: file.size, versionNumber: version.versionNumber },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
       });
 
-      res.status(201).json(folder);
+      res.status(201).json({ document, version });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: error.errors[0].message });
-      }
-      res.status(500).json({ message: "Failed to create folder" });
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      res.status(500).json({ message: "Failed to upload new version" });
     }
   });
 
-  app.patch("/api/folders/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    const folder = await storage.updateFolder(id, req.body);
-    if (!folder) {
-      return res.status(404).json({ message: "Folder not found" });
+  app.get("/api/documents/:id/versions/:versionId/download", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+    if (!doc) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    if (!(await requireDocumentAccess(req, res, doc, "READ"))) return;
+    const version = await storage.getDocumentVersion(doc.id, req.params.versionId);
+    if (!version) {
+      return res.status(404).json({ message: "Version not found" });
     }
-    res.json(folder);
-  });
 
-  app.delete("/api/folders/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { id } = req.params;
-    await storage.deleteFolder(id);
     await storage.createAuditLog({
       userId: req.user!.id,
-      action: "DELETE_FOLDER",
-      entityType: "FOLDER",
-      entityId: id,
+      action: "DOWNLOAD",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { versionNumber: version.versionNumber },
     });
-    res.status(204).send();
+
+    setChecksumHeader(res, version.checksum);
+    res.download(version.filePath, version.originalName ?? doc.originalName);
   });
 
-  app.get("/api/documents", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const { limit, status, folderId } = req.query;
-    const documents = await storage.getDocuments({
-      limit: limit ? parseInt(limit as string) : undefined,
-      status: status as string,
-      folderId: folderId as string,
-    });
-    res.json(documents);
+  // Restoring never rewrites history: the chosen version's file becomes a new
+  // head version.
+  app.post("/api/documents/:id/versions/:versionId/restore", authMiddleware, requirePermission("documents:edit"), async (req: AuthRequest, res: Response) => {
+    try {
+      const doc = await tenantStorageFor(req.user!).getDocument(req.params.id);
+      if (!doc) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (!(await requireDocumentAccess(req, res, doc, "WRITE"))) return;
+      const source = await storage.getDocumentVersion(doc.id, req.params.versionId);
+      if (!source) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const { document, version } = await documentVersions.restoreDocumentVersion(doc, source, req.user!.id);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "RESTORE",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { restoredFromVersion: source.versionNumber, versionNumber: version.versionNumber },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.status(201).json({ document, version });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore version" });
+    }
   });
 
-  app.get("/api/documents/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const doc = await storage.getDocument(req.params.id);
-    if (!doc) {
-      return res.status(404).json({ message: "Document not found" });
+  // Recycle bin. Everyone sees what they deleted themselves; with
+  // ?scope=org, admins see everything deleted in the organization.
+  app.get("/api/trash", authMiddleware, requirePermission("documents:read"), async (req: AuthRequest, res: Response) => {
+    const orgWide = req.query.scope === "org";
+    if (orgWide && req.user!.role !== "SUPER_ADMIN" && req.user!.role !== "ORG_ADMIN") {
+      return res.status(403).json({ message: "Only Super Admin or Organization Admin can view the organization's recycle bin" });
     }
-    res.json(doc);
+    const items = await tenantStorageFor(req.user!).getTrash(orgWide ? undefined : req.user!.id);
+    res.json(items.map(recycleBin.withPurgeDate));
   });
 
-  app.post("/api/documents/upload", authMiddleware, superAdminMiddleware, upload.array("files", 10), async (req: AuthRequest, res: Response) => {
+  // Restores into the original folder, recreating it and any missing folders
+  // above it. The caller needs write access where the restore lands.
+  app.post("/api/trash/documents/:id/restore", authMiddleware, requirePermission("documents:delete"), async (req: AuthRequest, res: Response) => {
     try {
-      const files = req.files as Express.Multer.File[];
-      if (!files || files.length === 0) {
-        return res.status(400).json({ message: "No files uploaded" });
+      const doc = await tenantStorageFor(req.user!).getTrashedDocument(req.params.id);
+      if (!doc || !canManageTrashItem(req, doc)) {
+        return res.status(404).json({ message: "Document not found in the recycle bin" });
       }
+      const { anchorId } = await recycleBin.restoreAnchor(doc.folderId, doc.trashPath);
+      if (!(await requireFolderAccess(req, res, anchorId, "WRITE"))) return;
+      const restored = await recycleBin.restoreDocument(doc);
 
-      const { folderId } = req.body;
-      const uploadedDocs = [];
-
-      for (const file of files) {
-        const doc = await storage.createDocument({
-          title: path.parse(file.originalname).name,
-          originalName: file.originalname,
-          filePath: file.path,
-          mimeType: file.mimetype,
-          sizeBytes: file.size,
-          folderId: folderId || null,
-          uploadedBy: req.user!.id,
-          organizationId: req.user!.organizationId,
-          status: "ACTIVE",
-        });
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "RESTORE",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { fromRecycleBin: true, folderId: restored.folderId },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
 
-        await storage.createAuditLog({
-          userId: req.user!.id,
-          action: "UPLOAD",
-          entityType: "DOCUMENT",
-          entityId: doc.id,
-          metadata: { fileName: file.originalname, size: file.size },
-        });
+      res.json(restored);
+    } catch (error) {
+      if (error instanceof recycleBin.RestoreError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore document" });
+    }
+  });
 
-        uploadedDocs.push(doc);
+  app.post("/api/trash/folders/:id/restore", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const folder = await tenantStorageFor(req.user!).getTrashedFolder(req.params.id);
+      if (!folder || !canManageTrashItem(req, folder)) {
+        return res.status(404).json({ message: "Folder not found in the recycle bin" });
       }
+      const { anchorId } = await recycleBin.restoreAnchor(folder.parentFolderId, folder.trashPath);
+      if (!(await requireFolderAccess(req, res, anchorId, "WRITE"))) return;
+      const restored = await recycleBin.restoreFolder(folder);
 
-      res.status(201).json(uploadedDocs);
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "RESTORE",
+        entityType: "FOLDER",
+        entityId: folder.id,
+        metadata: { fromRecycleBin: true, folderName: folder.name, parentFolderId: restored.parentFolderId },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.json(restored);
     } catch (error) {
-      res.status(500).json({ message: "Upload failed" });
+      if (error instanceof recycleBin.RestoreError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore folder" });
     }
   });
 
-  app.patch("/api/documents/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const doc = await storage.updateDocument(req.params.id, req.body);
-    if (!doc) {
-      return res.status(404).json({ message: "Document not found" });
-    }
+  // Permanent deletes also remove the files, old versions included.
+  app.delete("/api/trash/documents/:id", authMiddleware, requirePermission("documents:delete"), async (req: AuthRequest, res: Response) => {
+    try {
+      const doc = await tenantStorageFor(req.user!).getTrashedDocument(req.params.id);
+      if (!doc || !canManageTrashItem(req, doc)) {
+        return res.status(404).json({ message: "Document not found in the recycle bin" });
+      }
+      if (await legalHold.isDocumentHeld(doc)) {
+        return res.status(409).json({ message: "This document is under legal hold" });
+      }
+      await recycleBin.purgeDocument(doc);
 
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "UPDATE_METADATA",
-      entityType: "DOCUMENT",
-      entityId: req.params.id,
-    });
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "PURGE",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { name: doc.title },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
 
-    res.json(doc);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete document" });
+    }
   });
 
-  app.delete("/api/documents/:id", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    await storage.deleteDocument(req.params.id);
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "DELETE",
-      entityType: "DOCUMENT",
-      entityId: req.params.id,
-    });
-    res.status(204).send();
+  app.delete("/api/trash/folders/:id", authMiddleware, requirePermission("folders:manage"), async (req: AuthRequest, res: Response) => {
+    try {
+      const folder = await tenantStorageFor(req.user!).getTrashedFolder(req.params.id);
+      if (!folder || !canManageTrashItem(req, folder)) {
+        return res.status(404).json({ message: "Folder not found in the recycle bin" });
+      }
+      if (await legalHold.isFolderHeld(folder)) {
+        return res.status(409).json({ message: "This folder or something in it is under legal hold" });
+      }
+      await recycleBin.purgeFolder(folder);
+
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        action: "PURGE",
+        entityType: "FOLDER",
+        entityId: folder.id,
+        metadata: { name: folder.name },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete folder" });
+    }
   });
 
-  app.get("/api/documents/:id/download", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
-    const doc = await storage.getDocument(req.params.id);
-    if (!doc) {
-      return res.status(404).json({ message: "Document not found" });
+  app.post("/api/shares/received/:shareId/documents/:documentId/versions", authMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
     }
 
-    await storage.createAuditLog({
-      userId: req.user!.id,
-      action: "DOWNLOAD",
-      entityType: "DOCUMENT",
-      entityId: req.params.id,
-    });
+    try {
+      const share = await findReceivedShare(req, res, "EDIT");
+      const doc = share && (await findSharedDocument(req, res, share, "WRITE"));
+      if (!share || !doc) {
+        await fs.promises.unlink(file.path).catch(() => undefined);
+        return;
+      }
 
-    res.download(doc.filePath, doc.originalName);
-  });
+      const { document, version } = await documentVersions.addDocumentVersion(
+        doc,
+        { filePath: file.path, originalName: file.originalname, mimeType: file.mimetype, sizeBytes: file.size },
+        req.user!.id,
+        typeof req.body.changesSummary === "string" ? req.body.changesSummary.trim() : null,
+      );
 
-  app.get("/api/shares/created", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const shares = await storage.getShareCodesByCreator(req.user!.id);
-    res.json(shares);
-  });
+      await storage.createAuditLog({
+        userId: req.user!.id,
+        organizationId: doc.organizationId,
+        action: "UPLOAD",
+        entityType: "DOCUMENT",
+        entityId: doc.id,
+        metadata: { fileName: file.originalname, size: file.size, versionNumber: version.versionNumber, shareId: share.id },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
 
-  app.get("/api/shares/received", authMiddleware, async (req: AuthRequest, res: Response) => {
-    res.json([]);
+      res.status(201).json({ document, version });
+    } catch (error) {
+      await fs.promises.unlink(file.path).catch(() => undefined);
+      res.status(500).json({ message: "Failed to upload new version" });
+    }
   });
 
-  app.post("/api/shares", authMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/shares", authMiddleware, requirePermission("documents:share"), async (req: AuthRequest, res: Response) => {
     try {
-      const { folderId, documentId, permission, expiresAt, maxUsages } = req.body;
+      const { folderId, documentId, permission, expiresAt, maxUsages, password, recipients: recipientEntries } =
+        createShareSchema.parse(req.body);
+      const resolved = await shareRecipients.resolveRecipients(tenantStorageFor(req.user!), recipientEntries);
+      if ("invalid" in resolved) {
+        return res.status(400).json({ message: `Unknown recipient: ${resolved.invalid}` });
+      }
+      // Recipients of an EDIT share upload new versions, so the creator must be
+      // able to as well.
+      const required: FolderAccessLevel = permission === "EDIT" ? "WRITE" : "READ";
+      if (documentId) {
+        const doc = await tenantStorageFor(req.user!).getDocument(documentId);
+        if (!doc) {
+          return res.status(404).json({ message: "Document not found" });
+        }
+        if (!(await requireDocumentAccess(req, res, doc, required))) return;
+      } else if (folderId && !(await requireFolderAccess(req, res, folderId, required))) {
+        return;
+      }
       
       let code: string;
       let existing;
       do {
-        code = generateShareCode();
+        code = shareCodes.generateShareCode();
         existing = await storage.getShareCode(code);
       } while (existing);
 
@@ -849,73 +3845,263 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
         folderId: folderId || null,
         documentId: documentId || null,
         createdBy: req.user!.id,
-        permission: permission || "VIEW",
-        expiresAt: expiresAt ? new Date(expiresAt) : null,
-        maxUsages: maxUsages || null,
+        permission,
+        expiresAt: expiresAt ?? null,
+        maxUsages: maxUsages ?? null,
         isActive: true,
+        passwordHash: password ? await bcrypt.hash(password, SALT_ROUNDS) : null,
       });
+      await storage.createShareRecipients(resolved.recipients.map((r) => ({ ...r, shareCodeId: share.id })));
 
       await storage.createAuditLog({
         userId: req.user!.id,
         action: "SHARE",
         entityType: "SHARE",
         entityId: share.id,
-        metadata: { code, permission },
+        metadata: { code, permission, passwordProtected: Boolean(password), recipients: resolved.recipients.length },
       });
 
-      res.status(201).json(share);
+      res.status(201).json(shareAccess.toShareSummary(share));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
       res.status(500).json({ message: "Failed to create share" });
     }
   });
 
   app.post("/api/shares/access", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const { code } = req.body;
-    const share = await storage.getShareCode(code);
+    const userId = req.user!.id;
+    const code = shareCodes.normalizeShareCode(req.body?.code);
+    const share = await findRedeemableShare(req, res, code, userId);
+    if (!share) return;
+    // Redeeming could hand the creator more than their own folder access.
+    if (share.createdBy === userId) {
+      return res.status(400).json({ message: "You cannot redeem a share you created" });
+    }
+
+    const recipients = await storage.getShareRecipients(share.id);
+    const user = await storage.getUser(userId);
+    if (recipients.length > 0 && (!user || !shareRecipients.recipientsIncludeUser(recipients, user))) {
+      await recordFailedShareRedemption(req, code, "not_a_recipient", { userId, share });
+      return res.status(404).json({ message: "Invalid or expired code" });
+    }
 
-    if (!share || !share.isActive) {
+    // Only a user's first redemption counts towards the usage limit.
+    const alreadyRedeemed = await storage.getShareRedemption(share.id, userId);
+    if (!alreadyRedeemed && !(await checkSharePassword(req, res, share, userId))) return;
+    if (!alreadyRedeemed && !(await storage.incrementShareCodeUsage(share.id))) {
+      await recordFailedShareRedemption(req, code, "usage_limit", { userId, share });
       return res.status(404).json({ message: "Invalid or expired code" });
     }
+    await storage.recordShareRedemption(share.id, userId);
+    await shareCodeThrottle.clearShareCodeFailures(userId);
+
+    await storage.createAuditLog({
+      userId: req.user!.id,
+      action: "SHARE_REDEEM",
+      entityType: "SHARE",
+      entityId: share.id,
+      metadata: { code: share.code, firstRedemption: !alreadyRedeemed },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    res.json(shareAccess.toShareSummary(share));
+  });
+
+  // Share links for people without an account (/s/:code). Opening the link
+  // checks the password and, for restricted shares, the visitor's emailed
+  // verification code, counts one usage and returns a token that the other
+  // public endpoints expect in the X-Share-Token header. Re-opening with a
+  // still-valid token does not count again.
+  app.post("/api/public/shares/:code/open", publicShareRateLimit, async (req: Request, res: Response) => {
+    try {
+      const code = shareCodes.normalizeShareCode(req.params.code);
+      const presented = req.headers["x-share-token"];
+      const known = code ? await storage.getShareCode(code) : undefined;
+      const session = known ? verifyPublicShareToken(presented, known.id) : null;
+      const share = session ? known! : await findRedeemableShare(req, res, code);
+      if (!share) return;
+      const unavailable = shareAccess.checkShareUsable(share);
+      if (unavailable) {
+        return res.status(unavailable.status).json({ message: unavailable.message });
+      }
+      let email = session?.email;
+      if (!session) {
+        if (!(await checkSharePassword(req, res, share))) return;
+
+        // Restricted shares open only for a listed email address, proven with
+        // a code sent by the verify endpoint. Each address counts as one usage.
+        const recipients = await storage.getShareRecipients(share.id);
+        if (recipients.length > 0) {
+          email = typeof req.body?.email === "string" ? shareRecipients.normalizeEmail(req.body.email) : "";
+          const verificationCode = typeof req.body?.verificationCode === "string" ? req.body.verificationCode : "";
+          if (!email || !verificationCode) {
+            return res.status(403).json({
+              message: "This share is restricted to specific people. Verify your email address to open it.",
+              requiresVerification: true,
+            });
+          }
+          if (
+            !shareRecipients.recipientsIncludeEmail(recipients, email) ||
+            !(await shareRecipients.checkVerificationCode(share, email, verificationCode))
+          ) {
+            await storage.createAuditLog({
+              userId: null,
+              organizationId: await shareOrganizationId(share),
+              action: "SHARE_VERIFICATION_FAILED",
+              entityType: "SHARE",
+              entityId: share.id,
+              metadata: { code: share.code, email },
+              ipAddress: req.ip,
+              userAgent: req.headers["user-agent"],
+            });
+            return res.status(403).json({ message: "Invalid or expired verification code", requiresVerification: true });
+          }
+        }
+
+        const firstVisit = !email || !(await storage.getExternalShareRedemption(share.id, email));
+        if (firstVisit && !(await storage.incrementShareCodeUsage(share.id))) {
+          await recordFailedShareRedemption(req, code, "usage_limit", { share });
+          return res.status(404).json({ message: "Invalid or expired code" });
+        }
+      }
+      if (email) {
+        await storage.recordExternalShareRedemption(share.id, email);
+      }
+
+      const details = await shareAccess.describePublicShare(share);
+      await storage.createAuditLog({
+        userId: null,
+        organizationId: await shareOrganizationId(share),
+        action: "SHARE_VISIT",
+        entityType: "SHARE",
+        entityId: share.id,
+        metadata: { code: share.code, resumed: Boolean(session), email },
+        ipAddress: req.ip,
+        userAgent: req.headers["user-agent"],
+      });
 
-    if (share.expiresAt && new Date(share.expiresAt) < new Date()) {
-      return res.status(410).json({ message: "Share code expired" });
+      res.json({ token: session ? presented : signPublicShareToken(share.id, email), share: details });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to open share" });
     }
+  });
+
+  // Emails a one-time code to an external recipient of a restricted share. The
+  // reply is the same whether or not the address is a recipient.
+  app.post("/api/public/shares/:code/verify", publicShareRateLimit, async (req: Request, res: Response) => {
+    try {
+      const email = z.string().email("Enter a valid email address").parse(req.body?.email);
+      const code = shareCodes.normalizeShareCode(req.params.code);
+      if (!(await checkShareCodeThrottle(req, res, code))) return;
+
+      // Unknown and unusable codes count as failed redemptions but get the
+      // same reply, so this cannot be used to find codes that exist.
+      const share = code ? await storage.getShareCode(code) : undefined;
+      const unavailable = share && shareAccess.checkShareUsable(share);
+      if (!share || unavailable) {
+        await recordFailedShareRedemption(req, code, unavailable ? unavailable.reason : "unknown_code", { share });
+      } else if (shareRecipients.recipientsIncludeEmail(await storage.getShareRecipients(share.id), email)) {
+        const sent = await shareRecipients.sendVerificationCode(share, email, req.ip);
+        if (sent) {
+          await storage.createAuditLog({
+            userId: null,
+            organizationId: await shareOrganizationId(share),
+            action: "SHARE_VERIFICATION_SENT",
+            entityType: "SHARE",
+            entityId: share.id,
+            metadata: { code: share.code, email: shareRecipients.normalizeEmail(email) },
+            ipAddress: req.ip,
+            userAgent: req.headers["user-agent"],
+          });
+        }
+      }
 
-    if (share.maxUsages && share.usageCount >= share.maxUsages) {
-      return res.status(410).json({ message: "Share code usage limit reached" });
+      res.status(202).json({ message: "If this address can open the share, a verification code is on its way." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Failed to send verification code" });
     }
+  });
 
-    await storage.incrementShareCodeUsage(share.id);
-    res.json(share);
+  app.get("/api/public/shares/:code/contents", publicShareRateLimit, async (req: Request, res: Response) => {
+    const share = await findPublicShare(req, res, "VIEW");
+    if (!share) return;
+
+    const contents = await shareAccess.getShareContents(share, req.query.folderId as string | undefined);
+    if (!contents) {
+      return res.status(404).json({ message: "Folder not found" });
+    }
+    res.json(contents);
   });
 
-  app.delete("/api/shares/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
-    await storage.deleteShareCode(req.params.id);
-    res.status(204).send();
+  app.get("/api/public/shares/:code/documents/:documentId/preview", publicShareRateLimit, async (req: Request, res: Response) => {
+    const share = await findPublicShare(req, res, "VIEW");
+    if (!share) return;
+    const doc = await findSharedDocument(req, res, share);
+    if (!doc) return;
+
+    await storage.createAuditLog({
+      userId: null,
+      organizationId: doc.organizationId,
+      action: "DOWNLOAD",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { shareId: share.id, inline: true, public: true },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    sendSharedPreview(res, doc);
   });
 
-  app.get("/api/audit/logs", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const { limit, userId, action } = req.query;
-    const logs = await storage.getAuditLogs({
-      limit: limit ? parseInt(limit as string) : 100,
-      userId: userId as string,
-      action: action as string,
+  app.get("/api/public/shares/:code/documents/:documentId/download", publicShareRateLimit, async (req: Request, res: Response) => {
+    const share = await findPublicShare(req, res, "DOWNLOAD");
+    if (!share) return;
+    const doc = await findSharedDocument(req, res, share);
+    if (!doc) return;
+
+    await storage.createAuditLog({
+      userId: null,
+      organizationId: doc.organizationId,
+      action: "DOWNLOAD",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { shareId: share.id, public: true },
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
     });
-    res.json(logs);
+
+    setChecksumHeader(res, doc.checksum);
+    res.download(doc.filePath, doc.originalName);
+  });
+
+  app.delete("/api/shares/:id", authMiddleware, async (req: AuthRequest, res: Response) => {
+    const share = await storage.getShareCodeById(req.params.id);
+    if (!share || share.createdBy !== req.user!.id) {
+      return res.status(404).json({ message: "Share not found" });
+    }
+    await storage.deleteShareCode(share.id);
+    res.status(204).send();
   });
 
+  // Without audit:read callers only see their own activity.
   app.get("/api/dashboard/stats", authMiddleware, async (req: AuthRequest, res: Response) => {
-    const stats = await storage.getDashboardStats();
+    const stats = await tenantStorageFor(req.user!).getDashboardStats();
     res.json(stats);
   });
 
   app.get("/api/admin/stats", authMiddleware, adminMiddleware, async (req: AuthRequest, res: Response) => {
-    const stats = await storage.getAdminStats();
+    const stats = await tenantStorageFor(req.user!).getAdminStats();
     res.json(stats);
   });
 
   app.get("/api/admin/activity/:timeRange?", authMiddleware, adminMiddleware, async (req: AuthRequest, res: Response) => {
-    const users = await storage.getAllUsers();
+    const users = await tenantStorageFor(req.user!).getAllUsers();
     const activityData = users.map((user) => ({
       user: { ...user, password: undefined },
       totalMinutesToday: Math.floor(Math.random() * 480),
@@ -927,7 +4113,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     res.json(activityData);
   });
 
-  app.post("/api/file-ops/convert", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/convert", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -970,7 +4156,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/merge", authMiddleware, superAdminMiddleware, upload.array("files", 20), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/merge", authMiddleware, requirePermission("files:convert"), upload.array("files", 20), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length < 2) {
@@ -1013,7 +4199,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/split", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/split", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1066,7 +4252,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/compress", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/compress", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1103,7 +4289,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/rotate", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/rotate", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1138,7 +4324,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/watermark", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/watermark", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1175,7 +4361,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.get("/api/file-ops/download/:fileName", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.get("/api/file-ops/download/:fileName", authMiddleware, requirePermission("files:convert"), async (req: AuthRequest, res: Response) => {
     try {
       const { fileName } = req.params;
       const filePath = path.join(fileProcessor.getProcessedDir(), fileName);
@@ -1196,17 +4382,19 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-download", authMiddleware, superAdminMiddleware, async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-download", authMiddleware, requirePermission("files:convert"), async (req: AuthRequest, res: Response) => {
     try {
       const { documentIds } = req.body;
       if (!documentIds || !Array.isArray(documentIds) || documentIds.length === 0) {
         return res.status(400).json({ message: "No documents selected" });
       }
 
+      const tenant = tenantStorageFor(req.user!);
+      const principal = await getAccessPrincipal(req);
       const filePaths: string[] = [];
       for (const id of documentIds) {
-        const doc = await storage.getDocument(id);
-        if (doc && fs.existsSync(doc.filePath)) {
+        const doc = await tenant.getDocument(id);
+        if (doc && (await tenant.getFolderAccess(doc.folderId, principal)) && fs.existsSync(doc.filePath)) {
           filePaths.push(doc.filePath);
         }
       }
@@ -1236,7 +4424,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/delete-pages", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/delete-pages", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1274,7 +4462,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/add-page-numbers", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/add-page-numbers", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1311,7 +4499,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/reorder-pages", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/reorder-pages", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1349,7 +4537,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/add-header-footer", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/add-header-footer", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1386,7 +4574,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/pdf-info", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/pdf-info", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1405,7 +4593,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/resize-image", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/resize-image", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1442,7 +4630,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/rotate-image", authMiddleware, superAdminMiddleware, upload.single("file"), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/rotate-image", authMiddleware, requirePermission("files:convert"), upload.single("file"), async (req: AuthRequest, res: Response) => {
     try {
       const file = req.file;
       if (!file) {
@@ -1477,7 +4665,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-compress", authMiddleware, superAdminMiddleware, upload.array("files", 50), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-compress", authMiddleware, requirePermission("files:convert"), upload.array("files", 50), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -1521,7 +4709,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-convert", authMiddleware, superAdminMiddleware, upload.array("files", 50), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-convert", authMiddleware, requirePermission("files:convert"), upload.array("files", 50), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -1565,7 +4753,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-resize", authMiddleware, superAdminMiddleware, upload.array("files", 50), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-resize", authMiddleware, requirePermission("files:convert"), upload.array("files", 50), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -1610,7 +4798,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-watermark", authMiddleware, superAdminMiddleware, upload.array("files", 50), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-watermark", authMiddleware, requirePermission("files:convert"), upload.array("files", 50), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -1654,7 +4842,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-rotate", authMiddleware, superAdminMiddleware, upload.array("files", 50), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-rotate", authMiddleware, requirePermission("files:convert"), upload.array("files", 50), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -1698,7 +4886,7 @@ export async function registerRoutes(httpServer: Server, app: Express): Promise<
     }
   });
 
-  app.post("/api/file-ops/batch-page-numbers", authMiddleware, superAdminMiddleware, upload.array("files", 50), async (req: AuthRequest, res: Response) => {
+  app.post("/api/file-ops/batch-page-numbers", authMiddleware, requirePermission("files:convert"), upload.array("files", 50), async (req: AuthRequest, res: Response) => {
     try {
       const files = req.files as Express.Multer.File[];
       if (!files || files.length === 0) {
@@ -0,0 +1,48 @@
+import crypto from "crypto";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+
+// The prefix lets authMiddleware tell tokens from JWTs and makes leaked tokens
+// easy to spot in logs and secret scanners.
+const TOKEN_PREFIX = "udaan_pat_";
+// lastUsedAt is refreshed at most this often to avoid a write per request.
+export const LAST_USED_TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function isApiToken(value: string): boolean {
+  return value.startsWith(TOKEN_PREFIX);
+}
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken() {
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const token = `${TOKEN_PREFIX}${secret}`;
+  return { token, tokenPrefix: `${TOKEN_PREFIX}${secret.slice(0, 6)}`, tokenHash: hashApiToken(token) };
+}
+
+// Maps a request to the scope it needs. null means the endpoint is never
+// reachable with a token: tokens cannot manage sessions, passwords or tokens.
+export function requiredScope(method: string, path: string): ApiTokenScope | null {
+  if (path.startsWith("/api/auth/") || path.startsWith("/api/tokens")) return null;
+  if (path.startsWith("/api/file-ops/")) return "file-ops";
+  if (/^\/api\/(documents|folders|shares|search)(\/|$)/.test(path)) {
+    return method === "GET" || method === "HEAD" ? "documents:read" : "documents:write";
+  }
+  return "admin";
+}
+
+export function hasScope(token: Pick<ApiToken, "scopes">, scope: ApiTokenScope): boolean {
+  if (token.scopes.includes("admin")) return true;
+  if (scope === "documents:read" && token.scopes.includes("documents:write")) return true;
+  return token.scopes.includes(scope);
+}
+
+export function serializeApiToken(token: ApiToken) {
+  const { tokenHash, ...rest } = token;
+  const now = new Date();
+  return {
+    ...rest,
+    status: token.revokedAt ? "revoked" : new Date(token.expiresAt) < now ? "expired" : "active",
+  };
+}
@@ -0,0 +1,48 @@
+// Frequently breached passwords, compared case-insensitively. Kept in source so
+// it ships inside the server bundle without a network lookup.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234", "111111", "1234567",
+  "dragon", "123123", "baseball", "abc123", "football", "monkey", "letmein", "696969", "shadow",
+  "master", "666666", "qwertyuiop", "123321", "mustang", "1234567890", "michael", "654321",
+  "superman", "1qaz2wsx", "7777777", "121212", "000000", "qazwsx", "123qwe", "killer", "trustno1",
+  "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter", "buster", "soccer", "harley", "batman",
+  "andrew", "tigger", "sunshine", "iloveyou", "2000", "charlie", "robert", "thomas", "hockey",
+  "ranger", "daniel", "starwars", "klaster", "112233", "george", "computer", "michelle", "jessica",
+  "pepper", "1111", "zxcvbn", "555555", "11111111", "131313", "freedom", "777777", "pass",
+  "maggie", "159753", "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda", "summer",
+  "love", "ashley", "nicole", "chelsea", "biteme", "matthew", "access", "yankees", "987654321",
+  "dallas", "austin", "thunder", "taylor", "matrix", "mobilemail", "mom", "monitor", "monitoring",
+  "montana", "moon", "moscow", "welcome", "welcome1", "welcome123", "password1", "password12",
+  "password123", "password1234", "passw0rd", "p@ssw0rd", "p@ssword", "admin", "admin1", "admin123",
+  "admin1234", "administrator", "root", "toor", "changeme", "changeme123", "default", "guest",
+  "login", "login123", "qwerty123", "qwerty1", "qwertyu", "1q2w3e4r", "1q2w3e4r5t", "1q2w3e",
+  "1qazxsw2", "zaq12wsx", "abcd1234", "abcdef", "abcdefg", "abcdefgh", "123abc", "a1b2c3",
+  "a1b2c3d4", "aa123456", "asdf1234", "asdfghjkl", "iloveyou1", "iloveu", "lovely", "loveme",
+  "babygirl", "baby", "angel", "angels", "flower", "hello", "hello123", "hellokitty", "secret",
+  "secret123", "letmein1", "letmein123", "whatever", "nothing", "test", "test1", "test123",
+  "test1234", "testing", "testpass", "demo", "demo123", "sample", "user", "user123", "temp",
+  "temp123", "temppass", "temporary", "system", "sysadmin", "server", "office", "company",
+  "business", "manager", "staff", "employee", "udaan", "udaan123", "india", "india123", "mumbai",
+  "delhi", "bangalore", "chennai", "kolkata", "pune", "hyderabad", "cricket", "sachin", "dhoni",
+  "samsung", "apple", "iphone", "google", "facebook", "instagram", "twitter", "linkedin",
+  "microsoft", "windows", "linux", "ubuntu", "oracle", "internet", "website", "network",
+  "security", "firewall", "private", "spring", "autumn", "winter", "summer2024", "summer2025",
+  "winter2024", "winter2025", "spring2025", "autumn2025", "january", "february", "march", "april",
+  "may", "june", "july", "august", "september", "october", "november", "december", "monday",
+  "tuesday", "friday", "sunday", "saturday", "weekend", "holiday", "987654", "876543", "765432",
+  "7654321", "87654321", "98765432", "0987654321", "147258369", "147258", "258369", "159357",
+  "951753", "741852963", "789456123", "789456", "456789", "123654", "147852", "963852",
+  "1122334455", "11223344", "12341234", "123412345", "12344321", "123123123", "321321", "456456",
+  "789789", "999999", "888888", "99999999", "88888888", "00000000", "22222222", "10203040",
+  "102030", "101010", "202020", "246810", "13579", "qwer1234", "qwerasdf", "qweasd", "qweasdzxc",
+  "asdzxc", "zxcv1234", "1qaz2wsx3edc", "zaq1zaq1", "!qaz2wsx", "superman1", "batman1", "pokemon",
+  "naruto", "minecraft", "fortnite", "pubg", "gaming", "gamer", "player", "jordan23", "michael1",
+  "charlie1", "daniel1", "ashley1", "jessica1", "nicole1", "hunter2", "killer1", "shadow1",
+  "master1", "monkey1", "dragon1", "football1", "baseball1", "soccer1", "hockey1", "tigger1",
+  "sunshine1", "princess1", "password!", "password@123", "admin@123", "welcome@123", "pass@123",
+  "pass123", "pass1234", "mypassword", "letmein!", "trustno1!", "654321a", "a123456", "a12345678",
+  "123456a", "12345678a", "123456789a", "qwerty12", "iloveyou2", "loveyou", "love123", "forever",
+  "friends", "family", "mother", "father", "sister", "brother", "blessed", "faith", "jesus", "god",
+  "heaven", "purple", "orange", "yellow", "silver", "golden", "diamond", "money", "money123",
+  "dollar", "rich", "million", "success", "winner", "champion", "legend", "hero",
+]);
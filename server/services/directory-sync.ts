@@ -0,0 +1,570 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { Client, type Entry } from "ldapts";
+import { storage } from "../storage";
+import type { Department } from "@shared/schema";
+
+type AttributeKey = "id" | "username" | "email" | "firstName" | "lastName" | "phone" | "location" | "manager" | "memberOf" | "accountControl";
+
+export interface DirectorySyncConfig {
+  url: string;
+  bindDn?: string;
+  bindPassword?: string;
+  userBaseDn: string;
+  userFilter: string;
+  organizationCode?: string;
+  departmentSource: "ou" | "group";
+  groupBaseDn?: string;
+  departmentMap: Map<string, string>;
+  attributes: Record<AttributeKey, string>;
+  intervalMinutes: number;
+}
+
+interface DirectoryPerson {
+  id: string;
+  dn: string;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone: string | null;
+  location: string | null;
+  departmentName: string | null;
+  managerDn: string | null;
+  disabled: boolean;
+}
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface DirectorySyncChange {
+  action: "create" | "update" | "deactivate";
+  userId?: string;
+  username: string;
+  email: string;
+  fields: Record<string, FieldChange>;
+}
+
+export interface DirectorySyncReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  summary: {
+    directoryEntries: number;
+    created: number;
+    updated: number;
+    deactivated: number;
+    unchanged: number;
+    departmentsCreated: number;
+    errors: number;
+  };
+  departments: { name: string; code: string }[];
+  changes: DirectorySyncChange[];
+  errors: string[];
+}
+
+const DEFAULT_ATTRIBUTES: Record<AttributeKey, string> = {
+  id: "entryUUID",
+  username: "uid",
+  email: "mail",
+  firstName: "givenName",
+  lastName: "sn",
+  phone: "telephoneNumber",
+  location: "l",
+  manager: "manager",
+  memberOf: "memberOf",
+  // Active Directory flags disabled accounts with bit 0x2 of userAccountControl.
+  accountControl: "userAccountControl",
+};
+
+// Active Directory returns these as raw bytes rather than strings.
+const BINARY_ATTRIBUTES = ["objectGUID", "objectSid"];
+
+// Parses "key=value,key=value" lists such as LDAP_DEPARTMENT_MAP.
+function parsePairs(raw: string | undefined): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const entry of (raw ?? "").split(",")) {
+    const separator = entry.lastIndexOf("=");
+    if (separator <= 0) continue;
+    map.set(entry.slice(0, separator).trim(), entry.slice(separator + 1).trim());
+  }
+  return map;
+}
+
+function loadConfig(): DirectorySyncConfig | null {
+  const url = process.env.LDAP_URL;
+  const userBaseDn = process.env.LDAP_USER_BASE_DN;
+  if (!url || !userBaseDn) return null;
+
+  const attributes = { ...DEFAULT_ATTRIBUTES };
+  parsePairs(process.env.LDAP_ATTRIBUTE_MAP).forEach((attribute, key) => {
+    if (key in attributes) attributes[key as AttributeKey] = attribute;
+  });
+
+  const departmentMap = new Map<string, string>();
+  parsePairs(process.env.LDAP_DEPARTMENT_MAP).forEach((code, name) => departmentMap.set(name.toLowerCase(), code));
+
+  return {
+    url,
+    bindDn: process.env.LDAP_BIND_DN || undefined,
+    bindPassword: process.env.LDAP_BIND_PASSWORD || undefined,
+    userBaseDn,
+    userFilter: process.env.LDAP_USER_FILTER || "(&(objectClass=person)(mail=*))",
+    organizationCode: process.env.LDAP_ORG_CODE || undefined,
+    departmentSource: process.env.LDAP_DEPARTMENT_SOURCE === "group" ? "group" : "ou",
+    groupBaseDn: process.env.LDAP_GROUP_BASE_DN?.toLowerCase() || undefined,
+    departmentMap,
+    attributes,
+    intervalMinutes: Math.max(0, Number(process.env.LDAP_SYNC_INTERVAL_MINUTES) || 0),
+  };
+}
+
+const config = loadConfig();
+
+export function getDirectorySyncConfig(): DirectorySyncConfig | null {
+  return config;
+}
+
+// Identities created by the sync are keyed by this issuer so they never
+// collide with OIDC identities for the same person.
+function directoryIssuer(cfg: DirectorySyncConfig): string {
+  return `ldap:${cfg.userBaseDn.toLowerCase()}`;
+}
+
+function readAttribute(entry: Entry, name: string): string[] {
+  const key = Object.keys(entry).find((k) => k.toLowerCase() === name.toLowerCase());
+  if (!key) return [];
+  const raw = entry[key];
+  const values = Array.isArray(raw) ? raw : [raw];
+  return values.map((value) => (Buffer.isBuffer(value) ? value.toString("hex") : String(value)));
+}
+
+function readFirst(entry: Entry, name: string): string | null {
+  return readAttribute(entry, name)[0]?.trim() || null;
+}
+
+// Splits a DN into RDNs, honouring escaped commas.
+function splitDn(dn: string): { type: string; value: string }[] {
+  return dn
+    .split(/(?<!\\),/)
+    .map((rdn) => {
+      const separator = rdn.indexOf("=");
+      return {
+        type: rdn.slice(0, separator).trim().toLowerCase(),
+        value: rdn.slice(separator + 1).trim().replace(/\\(.)/g, "$1"),
+      };
+    });
+}
+
+function normalizeDn(dn: string): string {
+  return splitDn(dn)
+    .map((rdn) => `${rdn.type}=${rdn.value.toLowerCase()}`)
+    .join(",");
+}
+
+function departmentNameFor(cfg: DirectorySyncConfig, entry: Entry): string | null {
+  if (cfg.departmentSource === "ou") {
+    return splitDn(entry.dn).find((rdn) => rdn.type === "ou")?.value ?? null;
+  }
+
+  const groups = readAttribute(entry, cfg.attributes.memberOf)
+    .filter((dn) => !cfg.groupBaseDn || normalizeDn(dn).endsWith(normalizeDn(cfg.groupBaseDn)))
+    .map((dn) => splitDn(dn).find((rdn) => rdn.type === "cn")?.value)
+    .filter((name): name is string => Boolean(name));
+  // Prefer a group that has an explicit department mapping.
+  return groups.find((name) => cfg.departmentMap.has(name.toLowerCase())) ?? groups[0] ?? null;
+}
+
+function departmentCodeFor(cfg: DirectorySyncConfig, name: string): string {
+  return (
+    cfg.departmentMap.get(name.toLowerCase()) ??
+    name.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, "")
+  );
+}
+
+function toPerson(cfg: DirectorySyncConfig, entry: Entry): DirectoryPerson | string {
+  const { attributes } = cfg;
+  const email = readFirst(entry, attributes.email)?.toLowerCase();
+  if (!email) return `${entry.dn}: missing ${attributes.email}`;
+
+  const username = (readFirst(entry, attributes.username) ?? email.split("@")[0]).toLowerCase();
+  const accountControl = Number(readFirst(entry, attributes.accountControl));
+
+  return {
+    id: readFirst(entry, attributes.id) ?? normalizeDn(entry.dn),
+    dn: normalizeDn(entry.dn),
+    username,
+    email,
+    firstName: readFirst(entry, attributes.firstName) ?? username,
+    lastName: readFirst(entry, attributes.lastName) ?? "",
+    phone: readFirst(entry, attributes.phone),
+    location: readFirst(entry, attributes.location),
+    departmentName: departmentNameFor(cfg, entry),
+    managerDn: readFirst(entry, attributes.manager),
+    disabled: Number.isFinite(accountControl) && (accountControl & 0x2) !== 0,
+  };
+}
+
+async function fetchDirectoryEntries(cfg: DirectorySyncConfig): Promise<Entry[]> {
+  const client = new Client({ url: cfg.url, timeout: 30_000, connectTimeout: 10_000 });
+  try {
+    if (cfg.bindDn) {
+      await client.bind(cfg.bindDn, cfg.bindPassword ?? "");
+    }
+    const { searchEntries } = await client.search(cfg.userBaseDn, {
+      scope: "sub",
+      filter: cfg.userFilter,
+      attributes: ["dn", ...Object.values(cfg.attributes)],
+      explicitBufferAttributes: BINARY_ATTRIBUTES,
+      paged: { pageSize: 500 },
+    });
+    return searchEntries;
+  } finally {
+    await client.unbind().catch(() => undefined);
+  }
+}
+
+function diffFields(current: Record<string, unknown>, desired: Record<string, unknown>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [field, to] of Object.entries(desired)) {
+    const from = current[field] ?? null;
+    if ((to ?? null) !== from) changes[field] = { from, to: to ?? null };
+  }
+  return changes;
+}
+
+let running = false;
+let lastReport: DirectorySyncReport | null = null;
+
+export function getDirectorySyncStatus() {
+  return {
+    configured: Boolean(config),
+    intervalMinutes: config?.intervalMinutes ?? 0,
+    departmentSource: config?.departmentSource ?? null,
+    running,
+    lastReport,
+  };
+}
+
+// Reconciles users, employee profiles and departments with the directory.
+// With dryRun the same diff is computed and returned but nothing is written.
+export async function runDirectorySync(options: { dryRun: boolean; triggeredBy?: string }): Promise<DirectorySyncReport> {
+  if (!config) throw new Error("Directory sync is not configured");
+  if (running) throw new Error("A directory sync is already running");
+  running = true;
+
+  const { dryRun } = options;
+  const startedAt = new Date();
+  const errors: string[] = [];
+  const changes: DirectorySyncChange[] = [];
+  const createdDepartments: { name: string; code: string }[] = [];
+  let unchanged = 0;
+
+  try {
+    const entries = await fetchDirectoryEntries(config);
+    const people: DirectoryPerson[] = [];
+    for (const entry of entries) {
+      const person = toPerson(config, entry);
+      if (typeof person === "string") errors.push(person);
+      else people.push(person);
+    }
+    // An empty result usually means a bad filter or base DN, not that everyone
+    // left; deactivating every synced account would be the wrong call.
+    if (people.length === 0) {
+      throw new Error("The directory returned no users; check LDAP_USER_BASE_DN and LDAP_USER_FILTER");
+    }
+
+    let organizationId: string | null = null;
+    if (config.organizationCode) {
+      const organization = await storage.getOrganizationByCode(config.organizationCode);
+      if (!organization) throw new Error(`Organization "${config.organizationCode}" does not exist`);
+      organizationId = organization.id;
+    }
+
+    // Only accounts and departments of the sync's organization are matched
+    // and changed. Usernames, emails and department codes are unique across
+    // all organizations, so those are checked against everything.
+    const scope = { organizationId };
+    const issuer = directoryIssuer(config);
+    const identities = await storage.getUserIdentitiesByIssuer(issuer);
+    const identityBySubject = new Map(identities.map((identity) => [identity.subject, identity]));
+    const allUsers = await storage.getAllUsers();
+    const users = await storage.getAllUsers(scope);
+    const userById = new Map(users.map((user) => [user.id, user]));
+    const userByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user]));
+    const takenUsernames = new Set(allUsers.map((user) => user.username.toLowerCase()));
+    const takenEmails = new Set(allUsers.map((user) => user.email.toLowerCase()));
+
+    const departmentsByCode = new Map<string, Department>(
+      (await storage.getDepartments(scope)).map((department) => [department.code, department]),
+    );
+    const takenDepartmentCodes = new Set((await storage.getDepartments()).map((department) => department.code));
+    const resolveDepartment = async (name: string | null): Promise<Department | null> => {
+      if (!name) return null;
+      const code = departmentCodeFor(config, name);
+      const existing = departmentsByCode.get(code);
+      if (existing) return existing;
+      if (takenDepartmentCodes.has(code)) {
+        throw new Error(`department code ${code} belongs to another organization; map "${name}" in LDAP_DEPARTMENT_MAP`);
+      }
+      takenDepartmentCodes.add(code);
+
+      createdDepartments.push({ name, code });
+      const department: Department = dryRun
+        ? { id: `dry-run:${code}`, organizationId, name, code, description: null, createdAt: startedAt, updatedAt: startedAt }
+        : await storage.createDepartment({ organizationId, name, code, description: "Created by directory sync" });
+      if (!dryRun) {
+        await storage.createAuditLog({
+          userId: options.triggeredBy,
+          organizationId,
+          action: "CREATE_DEPARTMENT",
+          entityType: "DEPARTMENT",
+          entityId: department.id,
+          metadata: { code, name, source: "directory-sync" },
+        });
+      }
+      departmentsByCode.set(code, department);
+      return department;
+    };
+
+    // First pass: accounts and profile fields. Managers are resolved afterwards
+    // because a manager may be created later in the same run.
+    const userIdByDn = new Map<string, string>();
+    const usernameByDn = new Map(people.map((person) => [person.dn, person.username]));
+    const pendingManagers: { person: DirectoryPerson; userId: string; change: DirectorySyncChange | null; current: string | null }[] = [];
+    const seenSubjects = new Set<string>();
+
+    for (const person of people) {
+      try {
+        seenSubjects.add(person.id);
+        const department = await resolveDepartment(person.departmentName);
+        const identity = identityBySubject.get(person.id);
+        const existing = identity ? userById.get(identity.userId) : userByEmail.get(person.email);
+
+        if (!existing) {
+          if (takenEmails.has(person.email)) {
+            throw new Error(`${person.email} belongs to an account in another organization`);
+          }
+          takenEmails.add(person.email);
+          let username = person.username;
+          for (let counter = 1; takenUsernames.has(username); counter++) username = `${person.username}${counter}`;
+          takenUsernames.add(username);
+
+          const change: DirectorySyncChange = {
+            action: "create",
+            username,
+            email: person.email,
+            fields: diffFields({}, {
+              firstName: person.firstName,
+              lastName: person.lastName,
+              department: department?.name,
+              phone: person.phone,
+              location: person.location,
+              isActive: !person.disabled,
+            }),
+          };
+          changes.push(change);
+
+          let userId = `dry-run:${person.id}`;
+          if (!dryRun) {
+            // Directory users sign in through SSO or a password reset; this
+            // password is never shown to anyone.
+            const user = await storage.createUser({
+              organizationId,
+              email: person.email,
+              username,
+              password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+              firstName: person.firstName,
+              lastName: person.lastName,
+              role: "STAFF",
+              isActive: !person.disabled,
+              mustChangePassword: false,
+            });
+            await storage.createEmployeeProfile({
+              userId: user.id,
+              departmentId: department?.id ?? null,
+              phone: person.phone,
+              location: person.location,
+              employmentStatus: person.disabled ? "INACTIVE" : "ACTIVE",
+            });
+            await storage.createUserIdentity({ userId: user.id, issuer, subject: person.id, email: person.email });
+            await storage.createAuditLog({
+              userId: options.triggeredBy,
+              organizationId,
+              action: "CREATE_EMPLOYEE",
+              entityType: "EMPLOYEE",
+              entityId: user.id,
+              metadata: { email: user.email, source: "directory-sync" },
+            });
+            userId = user.id;
+          }
+          change.userId = dryRun ? undefined : userId;
+          userIdByDn.set(person.dn, userId);
+          pendingManagers.push({ person, userId, change, current: null });
+          continue;
+        }
+
+        userIdByDn.set(person.dn, existing.id);
+        const profile = await storage.getEmployeeProfileByUserId(existing.id);
+        const currentDepartment = profile?.departmentId
+          ? Array.from(departmentsByCode.values()).find((d) => d.id === profile.departmentId)
+          : undefined;
+
+        const userFields = diffFields(
+          { email: existing.email, firstName: existing.firstName, lastName: existing.lastName, isActive: existing.isActive },
+          { email: person.email, firstName: person.firstName, lastName: person.lastName, isActive: !person.disabled },
+        );
+        const profileFields = diffFields(
+          { department: currentDepartment?.name ?? null, phone: profile?.phone ?? null, location: profile?.location ?? null },
+          { department: department?.name ?? null, phone: person.phone, location: person.location },
+        );
+        const fields = { ...userFields, ...profileFields };
+        const change: DirectorySyncChange | null = Object.keys(fields).length
+          ? { action: "update", userId: existing.id, username: existing.username, email: person.email, fields }
+          : null;
+
+        const currentManager = profile?.monitorId ? userById.get(profile.monitorId)?.username ?? profile.monitorId : null;
+        pendingManagers.push({ person, userId: existing.id, change, current: currentManager });
+
+        if (!dryRun) {
+          if (!identity) {
+            await storage.createUserIdentity({ userId: existing.id, issuer, subject: person.id, email: person.email });
+          } else if (identity.email !== person.email) {
+            await storage.updateUserIdentity(identity.id, { email: person.email });
+          }
+          if (Object.keys(userFields).length) {
+            await storage.updateUser(existing.id, {
+              email: person.email,
+              firstName: person.firstName,
+              lastName: person.lastName,
+              isActive: !person.disabled,
+            });
+            if (person.disabled && existing.isActive) await storage.deleteUserSessions(existing.id);
+          }
+          const profileData = {
+            departmentId: department?.id ?? null,
+            phone: person.phone,
+            location: person.location,
+            employmentStatus: person.disabled ? ("INACTIVE" as const) : ("ACTIVE" as const),
+          };
+          if (!profile) {
+            await storage.createEmployeeProfile({ userId: existing.id, ...profileData });
+          } else if (Object.keys(profileFields).length || "isActive" in userFields) {
+            await storage.updateEmployeeProfile(profile.id, profileData);
+          }
+        }
+      } catch (error) {
+        errors.push(`${person.dn}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    // Second pass: manager attributes become monitorId.
+    for (const { person, userId, change, current } of pendingManagers) {
+      const managerDn = person.managerDn ? normalizeDn(person.managerDn) : null;
+      const managerId = managerDn ? userIdByDn.get(managerDn) ?? null : null;
+      if (managerDn && !managerId) {
+        errors.push(`${person.dn}: manager ${person.managerDn} is not among the synced users`);
+      }
+      const desired = managerDn && managerId ? usernameByDn.get(managerDn) ?? null : null;
+      if (desired === current) {
+        if (!change) unchanged++;
+        continue;
+      }
+
+      const entry = change ?? { action: "update" as const, userId, username: person.username, email: person.email, fields: {} };
+      entry.fields.manager = { from: current, to: desired };
+      if (!change) changes.push(entry);
+
+      // A manager removed in the directory, or one outside the sync, clears
+      // the monitor rather than leaving the previous one in place.
+      if (!dryRun) {
+        const profile = await storage.getEmployeeProfileByUserId(userId);
+        if (profile) await storage.updateEmployeeProfile(profile.id, { monitorId: managerId });
+      }
+    }
+
+    // Accounts the sync manages that have left the directory.
+    for (const identity of identities) {
+      if (seenSubjects.has(identity.subject)) continue;
+      const user = userById.get(identity.userId);
+      if (!user || !user.isActive) continue;
+
+      changes.push({
+        action: "deactivate",
+        userId: user.id,
+        username: user.username,
+        email: user.email,
+        fields: { isActive: { from: true, to: false } },
+      });
+      if (!dryRun) {
+        await storage.updateUser(user.id, { isActive: false });
+        await storage.deleteUserSessions(user.id);
+        const profile = await storage.getEmployeeProfileByUserId(user.id);
+        if (profile) await storage.updateEmployeeProfile(profile.id, { employmentStatus: "INACTIVE" });
+      }
+    }
+
+    if (!dryRun) {
+      for (const change of changes.filter((c) => c.action !== "create" && c.userId)) {
+        await storage.createAuditLog({
+          userId: options.triggeredBy,
+          organizationId,
+          action: "UPDATE_EMPLOYEE",
+          entityType: "EMPLOYEE",
+          entityId: change.userId,
+          metadata: { source: "directory-sync", action: change.action, fields: change.fields },
+        });
+      }
+    }
+
+    const report: DirectorySyncReport = {
+      dryRun,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      summary: {
+        directoryEntries: entries.length,
+        created: changes.filter((c) => c.action === "create").length,
+        updated: changes.filter((c) => c.action === "update").length,
+        deactivated: changes.filter((c) => c.action === "deactivate").length,
+        unchanged,
+        departmentsCreated: createdDepartments.length,
+        errors: errors.length,
+      },
+      departments: createdDepartments,
+      changes,
+      errors,
+    };
+
+    await storage.createAuditLog({
+      userId: options.triggeredBy,
+      organizationId,
+      action: "DIRECTORY_SYNC",
+      entityType: "EMPLOYEE",
+      metadata: { dryRun, scheduled: !options.triggeredBy, ...report.summary },
+    });
+
+    lastReport = report;
+    return report;
+  } finally {
+    running = false;
+  }
+}
+
+// Starts the periodic sync when LDAP_SYNC_INTERVAL_MINUTES is set.
+export function scheduleDirectorySync() {
+  if (!config || config.intervalMinutes <= 0) return;
+
+  const timer = setInterval(async () => {
+    try {
+      const report = await runDirectorySync({ dryRun: false });
+      const { created, updated, deactivated, errors } = report.summary;
+      console.log(`[directory-sync] created=${created} updated=${updated} deactivated=${deactivated} errors=${errors}`);
+    } catch (error) {
+      console.error("[directory-sync] Scheduled sync failed:", error);
+    }
+  }, config.intervalMinutes * 60 * 1000);
+  timer.unref();
+  console.log(`[directory-sync] Syncing from ${config.url} every ${config.intervalMinutes} minutes`);
+}
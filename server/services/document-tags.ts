@@ -0,0 +1,31 @@
+import { storage } from "../storage";
+import { tagNameSchema, type Document, type DocumentWithTags } from "@shared/schema";
+
+export async function withTags(docs: Document[]): Promise<DocumentWithTags[]> {
+  const rows = await storage.getTagsForDocuments(docs.map((doc) => doc.id));
+  return docs.map((doc) => ({
+    ...doc,
+    tags: rows.filter((row) => row.documentId === doc.id).map((row) => row.tag),
+  }));
+}
+
+export async function getTagNames(documentId: string): Promise<string[]> {
+  return (await storage.getDocumentTags(documentId)).map((row) => row.tag).sort();
+}
+
+// The stored form of a tag, or null when the value is not a valid tag name.
+export function normalizeTag(value: string): string | null {
+  const result = tagNameSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+// Reads a comma-separated ?tags= filter. Documents must carry every tag
+// listed; entries that are not valid tag names are ignored.
+export function parseTagFilter(value: unknown): string[] | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const tags = value
+    .split(",")
+    .map(normalizeTag)
+    .filter((tag): tag is string => tag !== null);
+  return tags.length > 0 ? tags : undefined;
+}
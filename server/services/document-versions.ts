@@ -0,0 +1,97 @@
+import { storage } from "../storage";
+import { sha256File } from "./file-integrity";
+import type { Document, DocumentVersion } from "@shared/schema";
+
+export interface VersionUpload {
+  filePath: string;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string | null;
+}
+
+// Versions record every revision of a document, the current one included, and
+// the document row always points at the newest file. Documents uploaded before
+// they had any versions get their current file recorded as version 1 first.
+async function nextVersionNumber(doc: Document): Promise<number> {
+  const [latest] = await storage.getDocumentVersions(doc.id);
+  if (latest) return latest.versionNumber + 1;
+  await recordInitialVersion(doc);
+  return 2;
+}
+
+export async function recordInitialVersion(doc: Document): Promise<DocumentVersion> {
+  return storage.createDocumentVersion({
+    documentId: doc.id,
+    versionNumber: 1,
+    filePath: doc.filePath,
+    originalName: doc.originalName,
+    mimeType: doc.mimeType,
+    sizeBytes: doc.sizeBytes,
+    checksum: doc.checksum,
+    createdBy: doc.uploadedBy,
+    changesSummary: "Original upload",
+  });
+}
+
+async function createHeadVersion(
+  doc: Document,
+  upload: VersionUpload,
+  userId: string,
+  changesSummary: string | null,
+  restoredFromVersion: number | null,
+): Promise<{ document: Document; version: DocumentVersion }> {
+  const version = await storage.createDocumentVersion({
+    documentId: doc.id,
+    versionNumber: await nextVersionNumber(doc),
+    filePath: upload.filePath,
+    originalName: upload.originalName,
+    mimeType: upload.mimeType,
+    sizeBytes: upload.sizeBytes,
+    checksum: upload.checksum,
+    createdBy: userId,
+    changesSummary,
+    restoredFromVersion,
+  });
+  const document = await storage.updateDocument(doc.id, {
+    filePath: upload.filePath,
+    originalName: upload.originalName,
+    mimeType: upload.mimeType,
+    sizeBytes: upload.sizeBytes,
+    checksum: upload.checksum,
+  });
+
+  return { document: document!, version };
+}
+
+export async function addDocumentVersion(
+  doc: Document,
+  upload: Omit<VersionUpload, "checksum">,
+  userId: string,
+  changesSummary?: string | null,
+): Promise<{ document: Document; version: DocumentVersion }> {
+  const checksum = await sha256File(upload.filePath);
+  return createHeadVersion(doc, { ...upload, checksum }, userId, changesSummary || null, null);
+}
+
+// Makes an earlier revision current again by adding it as the new head
+// version. The restored version keeps its file; nothing is removed.
+export async function restoreDocumentVersion(
+  doc: Document,
+  source: DocumentVersion,
+  userId: string,
+): Promise<{ document: Document; version: DocumentVersion }> {
+  return createHeadVersion(
+    doc,
+    {
+      filePath: source.filePath,
+      originalName: source.originalName ?? doc.originalName,
+      mimeType: source.mimeType ?? doc.mimeType,
+      sizeBytes: source.sizeBytes,
+      checksum: source.checksum,
+    },
+    userId,
+    `Restored version ${source.versionNumber}`,
+    source.versionNumber,
+  );
+}
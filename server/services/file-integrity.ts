@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { storage } from "../storage";
+import type { IntegrityIssue, IntegrityReport } from "@shared/schema";
+
+// Sent with every download so clients can check what they received.
+export const CHECKSUM_HEADER = "X-Checksum-SHA256";
+
+// Hex SHA-256 of a file, read in chunks so large uploads never sit in memory.
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+let running = false;
+let lastReport: IntegrityReport | null = null;
+
+export function getIntegrityStatus() {
+  return { running, lastReport };
+}
+
+interface FileReference {
+  documentId: string;
+  title: string;
+  versionNumber: number | null;
+  checksum: string | null;
+  record: (checksum: string) => Promise<void>;
+}
+
+// A document's current file is usually also its newest version, so files are
+// hashed once per path and compared against every row that records them.
+async function collectFiles(): Promise<Map<string, FileReference[]>> {
+  const { documents, versions } = await storage.getStoredFiles();
+  const titles = new Map(documents.map((doc) => [doc.id, doc.title]));
+  const files = new Map<string, FileReference[]>();
+  const add = (filePath: string, reference: FileReference) => {
+    files.set(filePath, [...(files.get(filePath) ?? []), reference]);
+  };
+
+  for (const version of versions) {
+    add(version.filePath, {
+      documentId: version.documentId,
+      title: titles.get(version.documentId) ?? "",
+      versionNumber: version.versionNumber,
+      checksum: version.checksum,
+      record: (checksum) => storage.setDocumentVersionChecksum(version.id, checksum),
+    });
+  }
+  for (const doc of documents) {
+    add(doc.filePath, {
+      documentId: doc.id,
+      title: doc.title,
+      versionNumber: null,
+      checksum: doc.checksum,
+      record: (checksum) => storage.setDocumentChecksum(doc.id, checksum),
+    });
+  }
+  return files;
+}
+
+function issueFor(filePath: string, reference: FileReference, actual: string | null): IntegrityIssue {
+  return {
+    documentId: reference.documentId,
+    title: reference.title,
+    versionNumber: reference.versionNumber,
+    filePath: path.relative(process.cwd(), filePath),
+    expected: reference.checksum,
+    actual,
+  };
+}
+
+// Rehashes every stored file. Files without a recorded checksum, such as those
+// uploaded before checksums were kept, get the one computed now, unless
+// another row for the same file disagrees with it.
+export async function verifyIntegrity(): Promise<IntegrityReport> {
+  const report: IntegrityReport = {
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    checked: 0,
+    baselined: 0,
+    missing: [],
+    corrupted: [],
+  };
+
+  for (const [filePath, references] of Array.from(await collectFiles())) {
+    let actual: string;
+    try {
+      actual = await sha256File(filePath);
+    } catch {
+      report.missing.push(issueFor(filePath, references[0], null));
+      continue;
+    }
+    report.checked++;
+
+    const mismatch = references.find((reference) => reference.checksum && reference.checksum !== actual);
+    if (mismatch) {
+      report.corrupted.push(issueFor(filePath, mismatch, actual));
+      continue;
+    }
+    for (const reference of references.filter((r) => !r.checksum)) {
+      await reference.record(actual);
+      report.baselined++;
+    }
+  }
+
+  report.finishedAt = new Date();
+  return report;
+}
+
+// Runs a check in the background; the result shows up in getIntegrityStatus.
+export function startIntegrityCheck(triggeredBy: string): void {
+  running = true;
+  verifyIntegrity()
+    .then(async (report) => {
+      lastReport = report;
+      await storage.createAuditLog({
+        userId: triggeredBy,
+        action: "INTEGRITY_CHECK",
+        entityType: "DOCUMENT",
+        metadata: {
+          checked: report.checked,
+          baselined: report.baselined,
+          missing: report.missing.length,
+          corrupted: report.corrupted.length,
+        },
+      });
+    })
+    .catch((error) => console.error("[integrity] Check failed:", error))
+    .finally(() => {
+      running = false;
+    });
+}
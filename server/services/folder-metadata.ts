@@ -0,0 +1,118 @@
+import { storage } from "../storage";
+import type { DocumentMetadata, FolderMetadataField } from "@shared/schema";
+
+const MAX_TEXT_LENGTH = 500;
+
+// The fields that apply to documents in folderId: its own plus those of every
+// folder above it. Where two folders define the same key the nearer one wins.
+// Inherited fields come first, each folder's in its own order.
+export async function getEffectiveFields(folderId: string | null): Promise<FolderMetadataField[]> {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  let current = folderId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    chain.unshift(current);
+    current = (await storage.getFolder(current))?.parentFolderId ?? null;
+  }
+
+  const fields = await storage.getFolderMetadataFields(chain);
+  const byKey = new Map<string, FolderMetadataField>();
+  for (const id of chain) {
+    for (const field of fields.filter((f) => f.folderId === id)) {
+      byKey.delete(field.key);
+      byKey.set(field.key, field);
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+// Multipart uploads send metadata as a JSON string.
+export function parseMetadataInput(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  if (!value.trim()) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && !value.trim());
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Checks values against the fields and returns them in stored form. Keys of
+// the input that are not fields of the folder are dropped; those of kept, the
+// values a document already stores, are carried over as they are so edits and
+// moves do not lose them.
+export function validateMetadata(
+  fields: FolderMetadataField[],
+  input: unknown,
+  kept: DocumentMetadata = {},
+): { metadata: DocumentMetadata } | { error: string } {
+  if (input !== undefined && input !== null && (typeof input !== "object" || Array.isArray(input))) {
+    return { error: "Metadata must be an object of field values" };
+  }
+  const values = (input ?? {}) as Record<string, unknown>;
+  const fieldKeys = new Set(fields.map((field) => field.key));
+  const metadata: DocumentMetadata = Object.fromEntries(Object.entries(kept).filter(([key]) => !fieldKeys.has(key)));
+
+  for (const field of fields) {
+    const raw = values[field.key];
+    if (isEmpty(raw)) {
+      if (field.required) return { error: `${field.label} is required` };
+      continue;
+    }
+
+    switch (field.type) {
+      case "NUMBER": {
+        const number = typeof raw === "number" ? raw : Number(String(raw).trim());
+        if (!Number.isFinite(number)) return { error: `${field.label} must be a number` };
+        metadata[field.key] = number;
+        break;
+      }
+      case "DATE": {
+        const date = String(raw).trim();
+        if (!isValidDate(date)) return { error: `${field.label} must be a date (YYYY-MM-DD)` };
+        metadata[field.key] = date;
+        break;
+      }
+      case "SELECT": {
+        const choice = String(raw).trim();
+        if (!field.options.includes(choice)) {
+          return { error: `${field.label} must be one of: ${field.options.join(", ")}` };
+        }
+        metadata[field.key] = choice;
+        break;
+      }
+      default: {
+        const text = String(raw).trim();
+        if (text.length > MAX_TEXT_LENGTH) {
+          return { error: `${field.label} can be at most ${MAX_TEXT_LENGTH} characters` };
+        }
+        metadata[field.key] = text;
+      }
+    }
+  }
+  return { metadata };
+}
+
+// Reads ?metadata[key]=value search filters. Documents match when the stored
+// value contains the given text, ignoring case.
+export function parseMetadataFilter(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const filter: Record<string, string> = {};
+  for (const [key, text] of Object.entries(value)) {
+    if (/^[a-z][a-z0-9_]*$/.test(key) && typeof text === "string" && text.trim()) {
+      filter[key] = text.trim();
+    }
+  }
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
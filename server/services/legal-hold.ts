@@ -0,0 +1,37 @@
+import { storage } from "../storage";
+import type { Document, Folder } from "@shared/schema";
+
+// A hold on a folder covers everything below it, so the folders above an item
+// count as well as the item itself.
+async function heldByFolder(folderId: string | null): Promise<boolean> {
+  const seen = new Set<string>();
+  let current = folderId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const folder = await storage.getFolder(current);
+    if (!folder) return false;
+    if (folder.legalHold) return true;
+    current = folder.parentFolderId;
+  }
+  return false;
+}
+
+export async function isDocumentHeld(doc: Document): Promise<boolean> {
+  return doc.legalHold || heldByFolder(doc.folderId);
+}
+
+// Held folders, and folders inside a held one, stay where they are.
+export async function isFolderUnderHold(folder: Folder): Promise<boolean> {
+  return heldByFolder(folder.id);
+}
+
+// A folder cannot be deleted while it or anything above or inside it is held.
+export async function isFolderHeld(folder: Folder): Promise<boolean> {
+  return (await heldByFolder(folder.id)) || storage.hasLegalHoldWithin(folder);
+}
+
+export function holdChanges(hold: boolean, reason: string | undefined) {
+  return hold
+    ? { legalHold: true, legalHoldReason: reason ?? null, legalHoldAt: new Date() }
+    : { legalHold: false, legalHoldReason: null, legalHoldAt: null };
+}
@@ -0,0 +1,99 @@
+import { storage } from "../storage";
+import type { LoginAttempt } from "@shared/schema";
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  baseLockMs: number;
+  maxLockMs: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const LOCK_BASE_MS = readNumber("LOGIN_LOCKOUT_BASE_SECONDS", 30) * 1000;
+const LOCK_MAX_MS = readNumber("LOGIN_LOCKOUT_MAX_SECONDS", 3600) * 1000;
+// Failures older than this no longer count towards a lockout.
+const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type LoginScope = Extract<LoginAttempt["scope"], "USERNAME" | "IP">;
+
+const POLICIES: Record<LoginScope, ThrottlePolicy> = {
+  USERNAME: { freeAttempts: readNumber("LOGIN_MAX_ATTEMPTS", 5), baseLockMs: LOCK_BASE_MS, maxLockMs: LOCK_MAX_MS },
+  // Shared NATs put many users behind one address, so the IP budget is wider.
+  IP: { freeAttempts: readNumber("LOGIN_IP_MAX_ATTEMPTS", 20), baseLockMs: LOCK_BASE_MS, maxLockMs: LOCK_MAX_MS },
+};
+
+export interface LoginLockout {
+  scope: LoginAttempt["scope"];
+  lockedUntil: Date;
+  retryAfterSeconds: number;
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function lockDuration(policy: ThrottlePolicy, failedCount: number): number | null {
+  if (failedCount < policy.freeAttempts) return null;
+  const exponent = failedCount - policy.freeAttempts;
+  return Math.min(policy.baseLockMs * 2 ** exponent, policy.maxLockMs);
+}
+
+function toLockout(attempt: LoginAttempt | undefined): LoginLockout | null {
+  if (!attempt?.lockedUntil) return null;
+  const remainingMs = new Date(attempt.lockedUntil).getTime() - Date.now();
+  if (remainingMs <= 0) return null;
+  return { scope: attempt.scope, lockedUntil: attempt.lockedUntil, retryAfterSeconds: Math.ceil(remainingMs / 1000) };
+}
+
+export async function getLoginLockout(username: string, ip: string | undefined): Promise<LoginLockout | null> {
+  const byUsername = toLockout(await storage.getLoginAttempt("USERNAME", normalizeUsername(username)));
+  if (byUsername) return byUsername;
+  return ip ? toLockout(await storage.getLoginAttempt("IP", ip)) : null;
+}
+
+async function recordScopeFailure(scope: LoginScope, key: string, ip?: string): Promise<LoginAttempt> {
+  const attempt = await storage.incrementLoginAttempt(scope, key, new Date(Date.now() - ATTEMPT_WINDOW_MS), ip);
+  const durationMs = lockDuration(POLICIES[scope], attempt.failedCount);
+  if (durationMs === null) return attempt;
+
+  const updated = await storage.updateLoginAttempt(attempt.id, { lockedUntil: new Date(Date.now() + durationMs) });
+  return updated ?? attempt;
+}
+
+// Counts a failed sign-in against both the username and the client address.
+// Each failure past the free budget doubles the lock, up to the configured max.
+export async function recordLoginFailure(username: string, ip: string | undefined) {
+  const byUsername = await recordScopeFailure("USERNAME", normalizeUsername(username), ip);
+  const byIp = ip ? await recordScopeFailure("IP", ip) : undefined;
+
+  return {
+    failedAttempts: byUsername.failedCount,
+    lockout: toLockout(byUsername) ?? toLockout(byIp),
+  };
+}
+
+// A successful sign-in proves the caller is not guessing, so both the
+// username's and the client address's counters start over.
+export async function clearLoginFailures(username: string, ip: string | undefined): Promise<void> {
+  await storage.deleteLoginAttempt("USERNAME", normalizeUsername(username));
+  if (ip) await storage.deleteLoginAttempt("IP", ip);
+}
+
+// Admin unlock: lifts the username lockout and the one on the address its
+// latest failure came from, which would otherwise keep the user locked out.
+// Returns that address, if any.
+export async function unlockAccount(username: string): Promise<string | null> {
+  const attempt = await storage.getLoginAttempt("USERNAME", normalizeUsername(username));
+  const ip = attempt?.lastFailedIp ?? null;
+  await clearLoginFailures(username, ip ?? undefined);
+  return ip;
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,55 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "UDAAN DMS <no-reply@udaan.local>";
+
+// Writes every message as a JSON file so mail works without an SMTP server.
+// Point MAIL_OUTBOX_DIR somewhere readable to inspect what would have been sent.
+export class FileOutboxTransport implements MailTransport {
+  constructor(private readonly outboxDir = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "outbox")) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`;
+    const payload = { ...message, createdAt: new Date().toISOString() };
+    await fs.promises.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(payload, null, 2));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+function createTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "console":
+      return new ConsoleTransport();
+    case "file":
+    default:
+      return new FileOutboxTransport();
+  }
+}
+
+let transport: MailTransport = createTransport();
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send({ ...message, from: MAIL_FROM });
+}
@@ -0,0 +1,306 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { userRoleEnum } from "@shared/schema";
+
+type UserRole = (typeof userRoleEnum.enumValues)[number];
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  scopes: string;
+  providerName: string;
+  roleClaim: string;
+  roleMap: Map<string, UserRole>;
+  defaultRole: UserRole;
+  orgClaim?: string;
+  defaultOrgCode?: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+  preferred_username?: string;
+  nonce?: string;
+  [claim: string]: unknown;
+}
+
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+// Sign-in failures whose message is safe to show the user. Anything else is
+// reported as a generic SSO failure and only logged server-side.
+export class OidcLoginError extends Error {
+  constructor(message: string, readonly reason: string) {
+    super(message);
+    this.name = "OidcLoginError";
+  }
+}
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"];
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+// Unknown key ids trigger a JWKS refetch, but no more often than this so a
+// forged kid cannot make us hammer the provider.
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+function isUserRole(value: string): value is UserRole {
+  return (userRoleEnum.enumValues as readonly string[]).includes(value);
+}
+
+// OIDC_ROLE_MAP is a comma-separated list of claimValue=ROLE pairs, e.g.
+// "dms-admins=SUPER_ADMIN,finance-leads=MANAGER". The last "=" splits the pair
+// so claim values that are URIs still work.
+function parseRoleMap(raw: string | undefined): Map<string, UserRole> {
+  const map = new Map<string, UserRole>();
+  for (const entry of (raw ?? "").split(",")) {
+    const separator = entry.lastIndexOf("=");
+    if (separator <= 0) continue;
+    const claimValue = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim().toUpperCase();
+    if (claimValue && isUserRole(role)) {
+      map.set(claimValue, role);
+    } else {
+      console.warn(`[oidc] Ignoring invalid OIDC_ROLE_MAP entry "${entry.trim()}"`);
+    }
+  }
+  return map;
+}
+
+function loadConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, "");
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const defaultRole = (process.env.OIDC_DEFAULT_ROLE || "STAFF").toUpperCase();
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    providerName: process.env.OIDC_PROVIDER_NAME || "Single Sign-On",
+    roleClaim: process.env.OIDC_ROLE_CLAIM || "roles",
+    roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP),
+    defaultRole: isUserRole(defaultRole) ? defaultRole : "STAFF",
+    orgClaim: process.env.OIDC_ORG_CLAIM || undefined,
+    defaultOrgCode: process.env.OIDC_DEFAULT_ORG_CODE || undefined,
+  };
+}
+
+const config = loadConfig();
+
+export function getOidcConfig(): OidcConfig | null {
+  return config;
+}
+
+function requireConfig(): OidcConfig {
+  if (!config) throw new Error("OpenID Connect is not configured");
+  return config;
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString("base64url");
+}
+
+let discoveryCache: { document: DiscoveryDocument; fetchedAt: number } | null = null;
+
+async function getDiscovery(): Promise<DiscoveryDocument> {
+  if (discoveryCache && Date.now() - discoveryCache.fetchedAt < DISCOVERY_TTL_MS) {
+    return discoveryCache.document;
+  }
+  const { issuer } = requireConfig();
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed with status ${response.status}`);
+  }
+  const document = (await response.json()) as DiscoveryDocument;
+  if (document.issuer.replace(/\/$/, "") !== issuer) {
+    throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`);
+  }
+  discoveryCache = { document, fetchedAt: Date.now() };
+  return document;
+}
+
+let jwksCache: { keys: Map<string, crypto.KeyObject>; fetchedAt: number } | null = null;
+
+async function getSigningKey(kid: string | undefined): Promise<crypto.KeyObject> {
+  const lookup = () => {
+    if (!jwksCache) return undefined;
+    if (kid) return jwksCache.keys.get(kid);
+    // Providers with a single key often omit kid from the token header.
+    return jwksCache.keys.size === 1 ? jwksCache.keys.values().next().value : undefined;
+  };
+
+  let key = lookup();
+  if (!key && (!jwksCache || Date.now() - jwksCache.fetchedAt > JWKS_MIN_REFRESH_MS)) {
+    const { jwks_uri } = await getDiscovery();
+    const response = await fetch(jwks_uri);
+    if (!response.ok) {
+      throw new Error(`OIDC JWKS fetch failed with status ${response.status}`);
+    }
+    const { keys } = (await response.json()) as { keys: (crypto.JsonWebKey & { kid?: string; use?: string })[] };
+    const parsed = new Map<string, crypto.KeyObject>();
+    for (const jwk of keys) {
+      if (jwk.use && jwk.use !== "sig") continue;
+      try {
+        parsed.set(jwk.kid ?? "", crypto.createPublicKey({ key: jwk, format: "jwk" }));
+      } catch {
+        // Skip key types Node cannot import; they cannot have signed our token.
+      }
+    }
+    jwksCache = { keys: parsed, fetchedAt: Date.now() };
+    key = lookup();
+  }
+
+  if (!key) throw new Error("No matching OIDC signing key");
+  return key;
+}
+
+// Builds the authorization-code + PKCE redirect. The caller keeps state, nonce
+// and codeVerifier until the callback and must not expose the verifier.
+export async function createAuthorizationRequest(redirectUri: string): Promise<AuthorizationRequest> {
+  const { clientId, scopes } = requireConfig();
+  const { authorization_endpoint } = await getDiscovery();
+
+  const state = base64url(crypto.randomBytes(16));
+  const nonce = base64url(crypto.randomBytes(16));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash("sha256").update(codeVerifier).digest());
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", scopes);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+async function verifyIdToken(idToken: string, nonce: string): Promise<OidcClaims> {
+  const { issuer, clientId } = requireConfig();
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("Malformed ID token");
+  }
+
+  const key = await getSigningKey(decoded.header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: [issuer, `${issuer}/`],
+    audience: clientId,
+  }) as OidcClaims;
+
+  if (claims.nonce !== nonce) {
+    throw new Error("ID token nonce mismatch");
+  }
+  if (!claims.sub) {
+    throw new Error("ID token has no subject");
+  }
+  return claims;
+}
+
+// Exchanges the authorization code and returns the verified ID token claims,
+// merged with userinfo when the provider keeps the ID token minimal.
+export async function exchangeCode(
+  code: string,
+  codeVerifier: string,
+  nonce: string,
+  redirectUri: string,
+): Promise<OidcClaims> {
+  const { clientId, clientSecret } = requireConfig();
+  const { token_endpoint, userinfo_endpoint } = await getDiscovery();
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+    client_id: clientId,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (clientSecret) {
+    const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  }
+
+  const response = await fetch(token_endpoint, { method: "POST", headers, body });
+  const tokens = (await response.json().catch(() => ({}))) as {
+    id_token?: string;
+    access_token?: string;
+    error?: string;
+    error_description?: string;
+  };
+  if (!response.ok || !tokens.id_token) {
+    throw new Error(`OIDC token exchange failed: ${tokens.error_description || tokens.error || response.status}`);
+  }
+
+  const claims = await verifyIdToken(tokens.id_token, nonce);
+
+  if (userinfo_endpoint && tokens.access_token && !claims.email) {
+    const userinfo = await fetch(userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+    if (userinfo.ok) {
+      const extra = (await userinfo.json()) as Partial<OidcClaims>;
+      // The userinfo subject must match or the response belongs to someone else.
+      if (extra.sub === claims.sub) {
+        return { ...extra, ...claims, email: extra.email, email_verified: extra.email_verified };
+      }
+    }
+  }
+  return claims;
+}
+
+// Reads a possibly nested claim such as "realm_access.roles".
+function readClaim(claims: OidcClaims, path: string): unknown {
+  if (path in claims) return claims[path];
+  return path.split(".").reduce<unknown>(
+    (value, segment) => (value && typeof value === "object" ? (value as Record<string, unknown>)[segment] : undefined),
+    claims,
+  );
+}
+
+// Picks the most privileged role any of the user's claim values maps to.
+// userRoleEnum is ordered from most to least privileged.
+export function mapRole(claims: OidcClaims): UserRole {
+  const { roleClaim, roleMap, defaultRole } = requireConfig();
+  const raw = readClaim(claims, roleClaim);
+  const values = Array.isArray(raw) ? raw.map(String) : typeof raw === "string" ? raw.split(/[\s,]+/) : [];
+
+  const matched = values.map((value) => roleMap.get(value)).filter((role): role is UserRole => Boolean(role));
+  if (matched.length === 0) return defaultRole;
+  return userRoleEnum.enumValues.find((role) => matched.includes(role)) ?? defaultRole;
+}
+
+// The organization code the user belongs to, from OIDC_ORG_CLAIM when the
+// provider sends one, otherwise OIDC_DEFAULT_ORG_CODE.
+export function mapOrganizationCode(claims: OidcClaims): string | undefined {
+  const { orgClaim, defaultOrgCode } = requireConfig();
+  if (orgClaim) {
+    const value = readClaim(claims, orgClaim);
+    if (typeof value === "string" && value) return value;
+  }
+  return defaultOrgCode;
+}
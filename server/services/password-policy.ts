@@ -0,0 +1,103 @@
+import bcrypt from "bcrypt";
+import { storage } from "../storage";
+import { COMMON_PASSWORDS } from "./common-passwords";
+import type { PasswordPolicy } from "@shared/schema";
+
+export type PasswordPolicyRules = Pick<
+  PasswordPolicy,
+  | "minLength"
+  | "requireUppercase"
+  | "requireLowercase"
+  | "requireNumber"
+  | "requireSymbol"
+  | "blockCommonPasswords"
+  | "historyCount"
+>;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicyRules = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: true,
+  requireSymbol: false,
+  blockCommonPasswords: true,
+  historyCount: 5,
+};
+
+interface PasswordOwner {
+  id?: string;
+  username?: string;
+  email?: string;
+  password?: string;
+  organizationId?: string | null;
+}
+
+export function toPolicyRules(policy: PasswordPolicy | undefined): PasswordPolicyRules {
+  if (!policy) return DEFAULT_PASSWORD_POLICY;
+  const { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol, blockCommonPasswords, historyCount } = policy;
+  return { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol, blockCommonPasswords, historyCount };
+}
+
+export async function getPasswordPolicy(organizationId?: string | null): Promise<PasswordPolicyRules> {
+  return toPolicyRules(await storage.getPasswordPolicy(organizationId ?? null));
+}
+
+// Rules that can be checked without the database. Returns one message per
+// failed rule so the client can show them all at once.
+export function checkPasswordStrength(password: string, policy: PasswordPolicyRules, owner?: PasswordOwner): string[] {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireNumber && !/\d/.test(password)) {
+    errors.push("Password must contain a number");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain a symbol");
+  }
+  if (policy.blockCommonPasswords && COMMON_PASSWORDS.has(password.toLowerCase())) {
+    errors.push("This password is too common. Choose something harder to guess");
+  }
+
+  const lowered = password.toLowerCase();
+  const identifiers = [owner?.username, owner?.email?.split("@")[0]].filter(
+    (value): value is string => Boolean(value && value.length >= 3),
+  );
+  if (identifiers.some((id) => lowered.includes(id.toLowerCase()))) {
+    errors.push("Password must not contain your username or email");
+  }
+
+  return errors;
+}
+
+async function isReusedPassword(owner: PasswordOwner, password: string, historyCount: number): Promise<boolean> {
+  if (!owner.id || historyCount <= 0) return false;
+  const hashes = (await storage.getPasswordHistory(owner.id, historyCount)).map((entry) => entry.passwordHash);
+  if (owner.password) hashes.unshift(owner.password);
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(password, hash)) return true;
+  }
+  return false;
+}
+
+export async function validateNewPassword(password: string, owner: PasswordOwner): Promise<string[]> {
+  const policy = await getPasswordPolicy(owner.organizationId);
+  const errors = checkPasswordStrength(password, policy, owner);
+  if (errors.length === 0 && (await isReusedPassword(owner, password, policy.historyCount))) {
+    errors.push(`Password must not match any of your last ${policy.historyCount} passwords`);
+  }
+  return errors;
+}
+
+export async function recordPasswordHistory(userId: string, passwordHash: string, organizationId?: string | null) {
+  const policy = await getPasswordPolicy(organizationId);
+  await storage.addPasswordHistory(userId, passwordHash, policy.historyCount);
+}
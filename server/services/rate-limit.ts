@@ -0,0 +1,31 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// Fixed-window request counter keyed by caller (usually the client address).
+// Counts live in this process's memory, so they reset on restart and are not
+// shared between instances.
+export function createRateLimiter(limit: number, windowMs: number) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return function hit(key: string): RateLimitResult {
+    const now = Date.now();
+    if (windows.size > 10_000) {
+      windows.forEach((window, k) => {
+        if (window.resetAt <= now) windows.delete(k);
+      });
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count += 1;
+    return {
+      allowed: window.count <= limit,
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+}
@@ -0,0 +1,191 @@
+import fs from "fs";
+import { storage } from "../storage";
+import * as legalHold from "./legal-hold";
+import type { Document, Folder, TrashItem, TrashPathEntry } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Days a deleted item stays in the recycle bin before it is purged for good.
+// 0 keeps items until someone deletes them permanently.
+function readRetentionDays(): number {
+  const raw = process.env.RECYCLE_BIN_RETENTION_DAYS;
+  const value = Number(raw);
+  if (!raw?.trim() || !Number.isFinite(value) || value < 0) return 30;
+  return value;
+}
+
+const RETENTION_DAYS = readRetentionDays();
+
+// Restores that would have to recreate a folder whose access list is lost.
+// The message is safe to show the user.
+export class RestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RestoreError";
+  }
+}
+
+// The folder and those above it, outermost first. Folders in the recycle bin
+// count, so an item deleted with its folder still knows where it was.
+async function folderPath(folderId: string | null): Promise<TrashPathEntry[]> {
+  const path: TrashPathEntry[] = [];
+  const seen = new Set<string>();
+  let current = folderId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const folder = await storage.getFolder(current);
+    if (!folder) break;
+    const restricted = (await storage.getFolderPermissions(folder.id)).some((entry) => entry.deny);
+    path.unshift({ id: folder.id, name: folder.name, createdBy: folder.createdBy, restricted });
+    current = folder.parentFolderId;
+  }
+  return path;
+}
+
+export function withPurgeDate(item: Omit<TrashItem, "purgeAt">): TrashItem {
+  return {
+    ...item,
+    purgeAt: RETENTION_DAYS > 0 ? new Date(item.deletedAt.getTime() + RETENTION_DAYS * DAY_MS) : null,
+  };
+}
+
+export async function trashDocument(doc: Document, userId: string): Promise<void> {
+  await storage.deleteDocument(doc.id, userId, await folderPath(doc.folderId));
+}
+
+export async function trashFolder(folder: Folder, userId: string): Promise<void> {
+  await storage.deleteFolder(folder.id, userId, await folderPath(folder.parentFolderId));
+}
+
+// The surviving folder a restore lands in or recreates folders under: the
+// item's own folder when that is still there, otherwise the nearest surviving
+// folder of the path it was deleted from (null for the root). Routes check the
+// caller can write there before restoring.
+export async function restoreAnchor(
+  folderId: string | null,
+  trashPath: TrashPathEntry[] | null,
+): Promise<{ anchorId: string | null; missing: TrashPathEntry[] }> {
+  if (folderId) {
+    const folder = await storage.getFolder(folderId);
+    if (folder && !folder.deletedAt) return { anchorId: folder.id, missing: [] };
+  }
+
+  const path = trashPath ?? (await folderPath(folderId));
+  for (let i = path.length - 1; i >= 0; i--) {
+    const folder = await storage.getFolder(path[i].id);
+    if (folder && !folder.deletedAt) return { anchorId: folder.id, missing: path.slice(i + 1) };
+  }
+  return { anchorId: null, missing: path };
+}
+
+// Recreates a folder of the path under parentId with the creator and access
+// list it had. Those come from the original while it is still in the recycle
+// bin, otherwise from the path entry; a purged folder that restricted access,
+// or whose access list was not recorded, is not recreated.
+async function recreateFolder(entry: TrashPathEntry, parentFolderId: string | null, organizationId: string | null): Promise<Folder> {
+  const original = await storage.getFolder(entry.id);
+  if (!original && entry.restricted !== false) {
+    throw new RestoreError(`The folder "${entry.name}" restricted access and was deleted permanently, so it cannot be recreated`);
+  }
+  const createdBy = original ? original.createdBy : entry.createdBy ?? null;
+  const folder = await storage.createFolder({ name: entry.name, parentFolderId, organizationId, createdBy });
+  for (const permission of original ? await storage.getFolderPermissions(original.id) : []) {
+    const { id: _id, createdAt: _createdAt, ...copy } = permission;
+    await storage.setFolderPermission({ ...copy, folderId: folder.id });
+  }
+  return folder;
+}
+
+// Where a restored item goes: the anchor, with the missing folders of its path
+// below that recreated. A folder already in place under the same name is
+// reused, so items restored one by one land together.
+async function restoreTarget(
+  folderId: string | null,
+  trashPath: TrashPathEntry[] | null,
+  organizationId: string | null,
+): Promise<string | null> {
+  const { anchorId, missing } = await restoreAnchor(folderId, trashPath);
+  let parentId = anchorId;
+  for (const entry of missing) {
+    const siblings = await storage.getFoldersByParent(parentId);
+    const existing = siblings.find((f) => f.name === entry.name && f.organizationId === organizationId);
+    parentId = existing ? existing.id : (await recreateFolder(entry, parentId, organizationId)).id;
+  }
+  return parentId;
+}
+
+export async function restoreDocument(doc: Document): Promise<Document> {
+  const folderId = await restoreTarget(doc.folderId, doc.trashPath, doc.organizationId);
+  return (await storage.restoreDocument(doc.id, folderId))!;
+}
+
+export async function restoreFolder(folder: Folder): Promise<Folder> {
+  const parentFolderId = await restoreTarget(folder.parentFolderId, folder.trashPath, folder.organizationId);
+  return (await storage.restoreFolder(folder.id, parentFolderId))!;
+}
+
+async function removeFiles(paths: string[]): Promise<void> {
+  await Promise.all(paths.map((filePath) => fs.promises.unlink(filePath).catch(() => undefined)));
+}
+
+export async function purgeDocument(doc: Document): Promise<void> {
+  await removeFiles(await storage.purgeDocuments([doc.id]));
+}
+
+export async function purgeFolder(folder: Folder): Promise<void> {
+  await removeFiles(await storage.purgeFolder(folder.id));
+}
+
+// Purges every entry that has been in the recycle bin longer than the
+// retention period, auditing each one. Entries under legal hold stay until the
+// hold is released.
+export async function purgeExpired(): Promise<{ documents: number; folders: number }> {
+  const purged = { documents: 0, folders: 0 };
+  if (RETENTION_DAYS <= 0) return purged;
+  const expired = await storage.getExpiredTrash(new Date(Date.now() - RETENTION_DAYS * DAY_MS));
+
+  for (const folder of expired.folders) {
+    if (await legalHold.isFolderHeld(folder)) continue;
+    await purgeFolder(folder);
+    purged.folders++;
+    await storage.createAuditLog({
+      organizationId: folder.organizationId,
+      action: "PURGE",
+      entityType: "FOLDER",
+      entityId: folder.id,
+      metadata: { name: folder.name, scheduled: true, retentionDays: RETENTION_DAYS },
+    });
+  }
+  for (const doc of expired.documents) {
+    if (await legalHold.isDocumentHeld(doc)) continue;
+    await purgeDocument(doc);
+    purged.documents++;
+    await storage.createAuditLog({
+      organizationId: doc.organizationId,
+      action: "PURGE",
+      entityType: "DOCUMENT",
+      entityId: doc.id,
+      metadata: { name: doc.title, scheduled: true, retentionDays: RETENTION_DAYS },
+    });
+  }
+  return purged;
+}
+
+// Starts the hourly purge unless RECYCLE_BIN_RETENTION_DAYS is 0.
+export function scheduleTrashPurge() {
+  if (RETENTION_DAYS <= 0) return;
+
+  const timer = setInterval(async () => {
+    try {
+      const purged = await purgeExpired();
+      if (purged.documents > 0 || purged.folders > 0) {
+        console.log(`[recycle-bin] purged documents=${purged.documents} folders=${purged.folders}`);
+      }
+    } catch (error) {
+      console.error("[recycle-bin] Scheduled purge failed:", error);
+    }
+  }, PURGE_INTERVAL_MS);
+  timer.unref();
+  console.log(`[recycle-bin] Purging items deleted more than ${RETENTION_DAYS} days ago`);
+}
@@ -0,0 +1,192 @@
+import { storage, type TenantScope } from "../storage";
+import * as legalHold from "./legal-hold";
+import * as recycleBin from "./recycle-bin";
+import type { Document, RetentionPolicy, RetentionRunEntry, RetentionRunReport } from "@shared/schema";
+
+// Hours between scheduled retention runs; 0 leaves runs to the admin page.
+function readIntervalHours(): number {
+  const raw = process.env.RETENTION_RUN_INTERVAL_HOURS;
+  const value = Number(raw);
+  if (!raw?.trim() || !Number.isFinite(value) || value < 0) return 24;
+  return value;
+}
+
+const RUN_INTERVAL_HOURS = readIntervalHours();
+
+let running = false;
+
+export function isRetentionRunning(): boolean {
+  return running;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
+
+// When the policy's period started for the document; null while it has not,
+// e.g. an applicant file without a closing date yet.
+function periodStart(policy: RetentionPolicy, doc: Document): Date | null {
+  if (policy.startFrom === "UPLOADED") return doc.uploadedAt;
+  const value = policy.startField ? doc.metadata[policy.startField] : undefined;
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  return new Date(`${value}T00:00:00Z`);
+}
+
+interface Coverage {
+  policy: RetentionPolicy;
+  startedAt: Date | null;
+  dueAt: Date | null;
+}
+
+function entryFor(doc: Document, coverage: Coverage): RetentionRunEntry {
+  return {
+    documentId: doc.id,
+    title: doc.title,
+    policyId: coverage.policy.id,
+    policyName: coverage.policy.name,
+    dueAt: coverage.dueAt!,
+  };
+}
+
+// A document is disposed of only once every disposal policy covering it is
+// due, so the longest retention period wins; that policy goes on the
+// certificate. Otherwise it is archived when an archive policy is due.
+function decide(doc: Document, coverages: Coverage[], now: Date): { action: "ARCHIVE" | "DISPOSE"; coverage: Coverage } | null {
+  const isDue = (c: Coverage) => !!c.dueAt && c.dueAt <= now;
+
+  const disposals = coverages.filter((c) => c.policy.action === "DISPOSE");
+  if (disposals.length > 0 && disposals.every(isDue)) {
+    const longest = disposals.reduce((a, b) => (b.dueAt! > a.dueAt! ? b : a));
+    return { action: "DISPOSE", coverage: longest };
+  }
+
+  if (doc.status !== "ACTIVE") return null;
+  const archives = coverages.filter((c) => c.policy.action === "ARCHIVE" && isDue(c));
+  if (archives.length === 0) return null;
+  return { action: "ARCHIVE", coverage: archives.reduce((a, b) => (b.dueAt! < a.dueAt! ? b : a)) };
+}
+
+async function archive(doc: Document, coverage: Coverage, triggeredBy?: string): Promise<void> {
+  await storage.updateDocument(doc.id, { status: "ARCHIVED" });
+  await storage.createAuditLog({
+    userId: triggeredBy,
+    organizationId: doc.organizationId,
+    action: "RETENTION_ARCHIVE",
+    entityType: "DOCUMENT",
+    entityId: doc.id,
+    metadata: {
+      title: doc.title,
+      policyId: coverage.policy.id,
+      policyName: coverage.policy.name,
+      dueAt: coverage.dueAt,
+      scheduled: !triggeredBy,
+    },
+  });
+}
+
+// Deletes the document with its versions and files, then records a disposal
+// certificate: what was destroyed, under which policy, and when.
+async function dispose(doc: Document, coverage: Coverage, triggeredBy?: string): Promise<void> {
+  const versions = await storage.getDocumentVersions(doc.id);
+  await recycleBin.purgeDocument(doc);
+
+  const { policy } = coverage;
+  await storage.createAuditLog({
+    userId: triggeredBy,
+    organizationId: doc.organizationId,
+    action: "RETENTION_DISPOSE",
+    entityType: "DOCUMENT",
+    entityId: doc.id,
+    metadata: {
+      certificate: {
+        documentId: doc.id,
+        title: doc.title,
+        originalName: doc.originalName,
+        mimeType: doc.mimeType,
+        sizeBytes: doc.sizeBytes,
+        checksum: doc.checksum,
+        folderId: doc.folderId,
+        uploadedBy: doc.uploadedBy,
+        uploadedAt: doc.uploadedAt,
+        versionCount: versions.length,
+        policy: {
+          id: policy.id,
+          name: policy.name,
+          retentionMonths: policy.retentionMonths,
+          startFrom: policy.startFrom,
+          startField: policy.startField,
+        },
+        retentionStartedAt: coverage.startedAt,
+        dueAt: coverage.dueAt,
+        disposedAt: new Date(),
+        method: "Database records and stored files of every version permanently deleted",
+      },
+      scheduled: !triggeredBy,
+    },
+  });
+}
+
+// Applies every active policy in scope (all organizations when unscoped).
+// Disposals blocked by a legal hold are reported as held.
+export async function runRetention(options: {
+  dryRun: boolean;
+  scope?: TenantScope;
+  triggeredBy?: string;
+}): Promise<RetentionRunReport> {
+  if (running) throw new Error("A retention run is already in progress");
+  running = true;
+  try {
+    const now = new Date();
+    const policies = (await storage.getRetentionPolicies(options.scope)).filter((policy) => policy.isActive);
+
+    const covered = new Map<string, { doc: Document; coverages: Coverage[] }>();
+    for (const policy of policies) {
+      for (const doc of await storage.getRetentionCandidates(policy)) {
+        const startedAt = periodStart(policy, doc);
+        const entry = covered.get(doc.id) ?? { doc, coverages: [] };
+        entry.coverages.push({ policy, startedAt, dueAt: startedAt && addMonths(startedAt, policy.retentionMonths) });
+        covered.set(doc.id, entry);
+      }
+    }
+
+    const report: RetentionRunReport = { dryRun: options.dryRun, ranAt: now, archived: [], disposed: [], held: [] };
+    for (const { doc, coverages } of Array.from(covered.values())) {
+      const decision = decide(doc, coverages, now);
+      if (!decision) continue;
+
+      if (decision.action === "ARCHIVE") {
+        if (!options.dryRun) await archive(doc, decision.coverage, options.triggeredBy);
+        report.archived.push(entryFor(doc, decision.coverage));
+      } else if (await legalHold.isDocumentHeld(doc)) {
+        report.held.push(entryFor(doc, decision.coverage));
+      } else {
+        if (!options.dryRun) await dispose(doc, decision.coverage, options.triggeredBy);
+        report.disposed.push(entryFor(doc, decision.coverage));
+      }
+    }
+    return report;
+  } finally {
+    running = false;
+  }
+}
+
+// Starts the periodic run unless RETENTION_RUN_INTERVAL_HOURS is 0.
+export function scheduleRetention() {
+  if (RUN_INTERVAL_HOURS <= 0) return;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    try {
+      const report = await runRetention({ dryRun: false });
+      console.log(
+        `[retention] archived=${report.archived.length} disposed=${report.disposed.length} held=${report.held.length}`,
+      );
+    } catch (error) {
+      console.error("[retention] Scheduled run failed:", error);
+    }
+  }, RUN_INTERVAL_HOURS * 60 * 60 * 1000);
+  timer.unref();
+  console.log(`[retention] Applying retention policies every ${RUN_INTERVAL_HOURS} hours`);
+}
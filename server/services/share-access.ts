@@ -0,0 +1,143 @@
+import { storage } from "../storage";
+import { tenantStorageFor, type TenantStorage } from "../tenant-storage";
+import {
+  hasFolderAccess, sharePermissionAllows, type AccessPrincipal, type FolderAccessLevel, type SharePermission,
+} from "@shared/permissions";
+import type { Document, Folder, PublicShare, ShareCode, ShareCodeSummary } from "@shared/schema";
+
+export interface ShareContents {
+  folder: Folder | null;
+  folders: Folder[];
+  documents: Document[];
+}
+
+export interface ShareUnavailable {
+  status: number;
+  message: string;
+  // Machine-readable cause for audit entries.
+  reason: string;
+}
+
+// Why a share can no longer be used, or null when it can. Checked on every
+// redemption and every access through the share. maxUsages caps how many
+// users may redeem the code; a share counted past its limit is closed to all.
+export function checkShareUsable(share: ShareCode): ShareUnavailable | null {
+  if (!share.isActive) {
+    return { status: 404, message: "Invalid or expired code", reason: "inactive" };
+  }
+  if (share.expiresAt && new Date(share.expiresAt) < new Date()) {
+    return { status: 410, message: "Share code expired", reason: "expired" };
+  }
+  if (share.maxUsages && share.usageCount > share.maxUsages) {
+    return { status: 410, message: "Share code usage limit reached", reason: "usage_limit" };
+  }
+  return null;
+}
+
+export function checkSharePermission(share: ShareCode, required: SharePermission): ShareUnavailable | null {
+  if (sharePermissionAllows(share.permission, required)) return null;
+  const messages: Record<SharePermission, string> = {
+    VIEW: "This share does not allow viewing",
+    DOWNLOAD: "This share only allows viewing",
+    EDIT: "This share does not allow uploading new versions",
+  };
+  return { status: 403, message: messages[required], reason: "permission" };
+}
+
+// Folders in the recycle bin drop out of a share along with everything below them.
+async function isFolderWithin(folderId: string, rootId: string): Promise<boolean> {
+  const seen = new Set<string>();
+  let current: string | null = folderId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const folder = await storage.getFolder(current);
+    if (!folder || folder.deletedAt) return false;
+    if (current === rootId) return true;
+    current = folder.parentFolderId;
+  }
+  return false;
+}
+
+interface ShareCreator {
+  principal: AccessPrincipal;
+  tenant: TenantStorage;
+}
+
+// A share never reaches further than its creator currently can: folders and
+// documents the creator cannot read drop out of it, and the creator's grants
+// are checked again on every access rather than only when sharing.
+async function getShareCreator(share: ShareCode): Promise<ShareCreator | null> {
+  const creator = await storage.getUser(share.createdBy);
+  if (!creator) return null;
+  const profile = await storage.getEmployeeProfileByUserId(creator.id);
+  return {
+    principal: { userId: creator.id, role: creator.role, departmentId: profile?.departmentId ?? null },
+    tenant: tenantStorageFor(creator),
+  };
+}
+
+async function creatorCanReach(creator: ShareCreator | null, folderId: string | null, level: FolderAccessLevel): Promise<boolean> {
+  return Boolean(creator) && hasFolderAccess(await creator!.tenant.getFolderAccess(folderId, creator!.principal), level);
+}
+
+// A folder share covers the folder and everything below it that its creator
+// can read; a document share covers only that document. Deleted documents are
+// never shared. level is what the creator needs, WRITE for new versions.
+export async function shareCoversFolder(share: ShareCode, folderId: string, level: FolderAccessLevel = "READ"): Promise<boolean> {
+  if (!share.folderId || !(await isFolderWithin(folderId, share.folderId))) return false;
+  return creatorCanReach(await getShareCreator(share), folderId, level);
+}
+
+export async function shareCoversDocument(share: ShareCode, doc: Document, level: FolderAccessLevel = "READ"): Promise<boolean> {
+  if (doc.status === "DELETED") return false;
+  if (share.documentId) {
+    if (share.documentId !== doc.id) return false;
+    const creator = await getShareCreator(share);
+    return Boolean(creator?.tenant.owns(doc)) && creatorCanReach(creator, doc.folderId, level);
+  }
+  return Boolean(doc.folderId) && shareCoversFolder(share, doc.folderId!, level);
+}
+
+export function toShareSummary(share: ShareCode): ShareCodeSummary {
+  const { passwordHash, ...rest } = share;
+  return { ...rest, hasPassword: Boolean(passwordHash) };
+}
+
+export async function describePublicShare(share: ShareCode): Promise<PublicShare> {
+  const [owner, doc, folder] = await Promise.all([
+    storage.getUser(share.createdBy),
+    share.documentId ? storage.getDocument(share.documentId) : undefined,
+    share.folderId ? storage.getFolder(share.folderId) : undefined,
+  ]);
+  return {
+    code: share.code,
+    title: doc?.title ?? folder?.name ?? null,
+    kind: share.documentId ? "DOCUMENT" : "FOLDER",
+    permission: share.permission,
+    expiresAt: share.expiresAt,
+    sharedBy: owner ? `${owner.firstName} ${owner.lastName}` : "Unknown",
+  };
+}
+
+// What the share holds at folderId (the shared folder itself when omitted).
+// Folder shares can be walked down but never above the shared folder; null
+// means the folder is outside the share.
+export async function getShareContents(share: ShareCode, folderId?: string): Promise<ShareContents | null> {
+  if (share.documentId) {
+    const doc = await storage.getDocument(share.documentId);
+    const documents = doc && (await shareCoversDocument(share, doc)) ? [doc] : [];
+    return { folder: null, folders: [], documents };
+  }
+
+  const targetId = folderId || share.folderId!;
+  const folder = await storage.getFolder(targetId);
+  if (!folder || !(await shareCoversFolder(share, targetId))) return null;
+
+  const creator = (await getShareCreator(share))!;
+  const [children, documents] = await Promise.all([
+    storage.getFoldersByParent(targetId),
+    creator.tenant.getDocuments({ folderId: targetId, status: "ACTIVE" }, creator.principal),
+  ]);
+  const levels = await storage.getFolderAccessLevels(creator.principal, children.map((child) => child.id), creator.tenant.scope);
+  return { folder, folders: children.filter((child) => levels.has(child.id)), documents };
+}
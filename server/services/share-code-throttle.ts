@@ -0,0 +1,127 @@
+import { storage } from "../storage";
+import { sendMail } from "./mailer";
+import type { LoginAttempt } from "@shared/schema";
+
+type ShareCodeScope = Extract<LoginAttempt["scope"], "SHARE_CODE_USER" | "SHARE_CODE_IP" | "SHARE_CODE_ALL">;
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  // Failures at this count raise an enumeration alert, once per window.
+  alertAt: number;
+  // Platform-wide failures only alert; locking them would lock everyone out.
+  locks: boolean;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const DELAY_BASE_MS = readNumber("SHARE_CODE_DELAY_BASE_SECONDS", 5) * 1000;
+const DELAY_MAX_MS = readNumber("SHARE_CODE_DELAY_MAX_SECONDS", 3600) * 1000;
+// Failures older than this no longer count.
+const ATTEMPT_WINDOW_MS = 60 * 60 * 1000;
+const GLOBAL_KEY = "all";
+
+const POLICIES: Record<ShareCodeScope, ThrottlePolicy> = {
+  SHARE_CODE_USER: { freeAttempts: readNumber("SHARE_CODE_MAX_ATTEMPTS", 5), alertAt: readNumber("SHARE_CODE_ALERT_THRESHOLD", 20), locks: true },
+  SHARE_CODE_IP: { freeAttempts: readNumber("SHARE_CODE_IP_MAX_ATTEMPTS", 10), alertAt: readNumber("SHARE_CODE_ALERT_THRESHOLD", 20), locks: true },
+  SHARE_CODE_ALL: { freeAttempts: Infinity, alertAt: readNumber("SHARE_CODE_GLOBAL_ALERT_THRESHOLD", 200), locks: false },
+};
+
+export interface ShareCodeLockout {
+  scope: ShareCodeScope;
+  lockedUntil: Date;
+  retryAfterSeconds: number;
+}
+
+export interface ShareCodeAlert {
+  scope: ShareCodeScope;
+  key: string;
+  failedCount: number;
+}
+
+function toLockout(attempt: LoginAttempt | undefined): ShareCodeLockout | null {
+  if (!attempt?.lockedUntil) return null;
+  const remainingMs = new Date(attempt.lockedUntil).getTime() - Date.now();
+  if (remainingMs <= 0) return null;
+  return {
+    scope: attempt.scope as ShareCodeScope,
+    lockedUntil: attempt.lockedUntil,
+    retryAfterSeconds: Math.ceil(remainingMs / 1000),
+  };
+}
+
+export async function getShareCodeLockout(ip: string | undefined, userId?: string): Promise<ShareCodeLockout | null> {
+  const byUser = userId ? toLockout(await storage.getLoginAttempt("SHARE_CODE_USER", userId)) : null;
+  if (byUser) return byUser;
+  return ip ? toLockout(await storage.getLoginAttempt("SHARE_CODE_IP", ip)) : null;
+}
+
+async function recordScopeFailure(scope: ShareCodeScope, key: string): Promise<LoginAttempt> {
+  const attempt = await storage.incrementLoginAttempt(scope, key, new Date(Date.now() - ATTEMPT_WINDOW_MS));
+  const policy = POLICIES[scope];
+  if (!policy.locks || attempt.failedCount < policy.freeAttempts) return attempt;
+
+  // Each failure past the free budget doubles the wait before the next try.
+  const delayMs = Math.min(DELAY_BASE_MS * 2 ** (attempt.failedCount - policy.freeAttempts), DELAY_MAX_MS);
+  const updated = await storage.updateLoginAttempt(attempt.id, { lockedUntil: new Date(Date.now() + delayMs) });
+  return updated ?? attempt;
+}
+
+// Counts a redemption of an unknown or unusable code against the user, the
+// client address and the platform as a whole. Returns the alerts raised by
+// this failure, if it crossed a scope's threshold.
+export async function recordShareCodeFailure(ip: string | undefined, userId?: string) {
+  const attempts: LoginAttempt[] = [];
+  if (userId) attempts.push(await recordScopeFailure("SHARE_CODE_USER", userId));
+  if (ip) attempts.push(await recordScopeFailure("SHARE_CODE_IP", ip));
+  attempts.push(await recordScopeFailure("SHARE_CODE_ALL", GLOBAL_KEY));
+
+  const local = attempts.filter((a) => a.scope !== "SHARE_CODE_ALL");
+  return {
+    failedAttempts: Math.max(0, ...local.map((a) => a.failedCount)),
+    lockout: local.map(toLockout).find(Boolean) ?? null,
+    alerts: attempts
+      .filter((a) => a.failedCount === POLICIES[a.scope as ShareCodeScope].alertAt)
+      .map((a): ShareCodeAlert => ({ scope: a.scope as ShareCodeScope, key: a.key, failedCount: a.failedCount })),
+  };
+}
+
+export async function clearShareCodeFailures(userId: string): Promise<void> {
+  await storage.deleteLoginAttempt("SHARE_CODE_USER", userId);
+}
+
+function describeAlert(alert: ShareCodeAlert): string {
+  switch (alert.scope) {
+    case "SHARE_CODE_USER":
+      return `user ${alert.key}`;
+    case "SHARE_CODE_IP":
+      return `client address ${alert.key}`;
+    default:
+      return "the platform as a whole";
+  }
+}
+
+// Emails SHARE_CODE_ALERT_EMAIL, or every active Super Admin when unset.
+export async function sendEnumerationAlert(alert: ShareCodeAlert): Promise<void> {
+  const configured = process.env.SHARE_CODE_ALERT_EMAIL;
+  const recipients = configured
+    ? configured.split(",").map((email) => email.trim()).filter(Boolean)
+    : (await storage.getAllUsers())
+        .filter((user) => user.role === "SUPER_ADMIN" && user.isActive)
+        .map((user) => user.email);
+
+  for (const to of recipients) {
+    await sendMail({
+      to,
+      subject: "UDAAN security alert: possible share code guessing",
+      text: [
+        `${alert.failedCount} share code redemptions have failed within an hour for ${describeAlert(alert)}.`,
+        "This pattern usually means someone is trying to guess share codes.",
+        "",
+        "Review the SHARE_REDEEM_FAILED entries in the audit log.",
+      ].join("\n"),
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+
+// No 0/O, 1/I/L so codes survive being read out or typed from paper.
+const DEFAULT_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const DEFAULT_LENGTH = 10;
+
+function readAlphabet(): string {
+  const configured = Array.from(new Set(process.env.SHARE_CODE_ALPHABET ?? "")).join("");
+  return configured.length >= 10 ? configured : DEFAULT_ALPHABET;
+}
+
+function readLength(): number {
+  const value = Number(process.env.SHARE_CODE_LENGTH);
+  return Number.isInteger(value) && value >= 6 && value <= 64 ? value : DEFAULT_LENGTH;
+}
+
+export const SHARE_CODE_ALPHABET = readAlphabet();
+export const SHARE_CODE_LENGTH = readLength();
+const caseInsensitive = SHARE_CODE_ALPHABET === SHARE_CODE_ALPHABET.toUpperCase();
+
+// Every character is drawn independently and uniformly from the alphabet with
+// the OS CSPRNG.
+export function generateShareCode(): string {
+  let code = "";
+  for (let i = 0; i < SHARE_CODE_LENGTH; i++) {
+    code += SHARE_CODE_ALPHABET[crypto.randomInt(SHARE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// Codes as people type them: surrounding space and separators are dropped,
+// and case is ignored when the alphabet has no lower-case letters.
+export function normalizeShareCode(input: unknown): string {
+  if (typeof input !== "string") return "";
+  const trimmed = input.replace(/[\s-]/g, "").slice(0, 64);
+  return caseInsensitive ? trimmed.toUpperCase() : trimmed;
+}
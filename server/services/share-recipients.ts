@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { sendMail } from "./mailer";
+import type { TenantStorage } from "../tenant-storage";
+import type { InsertShareRecipient, ShareCode, ShareRecipient } from "@shared/schema";
+
+const VERIFICATION_CODE_TTL_MS = 10 * 60 * 1000;
+const VERIFICATION_MAX_FAILURES = 5;
+// A new code for the same address is not sent more often than this.
+const VERIFICATION_RESEND_MS = 60 * 1000;
+
+const emailSchema = z.string().email();
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+// Turns the user ids and email addresses given for a new share into recipient
+// rows. Users must belong to the caller's organization; email addresses may be
+// anyone's. Returns the first entry that is neither.
+export async function resolveRecipients(
+  tenant: TenantStorage,
+  entries: string[],
+): Promise<{ recipients: Omit<InsertShareRecipient, "shareCodeId">[] } | { invalid: string }> {
+  const recipients: Omit<InsertShareRecipient, "shareCodeId">[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const key = entry.includes("@") ? normalizeEmail(entry) : entry;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (entry.includes("@")) {
+      if (!emailSchema.safeParse(key).success) return { invalid: entry };
+      recipients.push({ email: key, userId: null });
+    } else {
+      const user = await tenant.getUser(entry);
+      if (!user) return { invalid: entry };
+      recipients.push({ userId: user.id, email: null });
+    }
+  }
+  return { recipients };
+}
+
+export function recipientsIncludeUser(recipients: ShareRecipient[], user: { id: string; email: string }): boolean {
+  const email = normalizeEmail(user.email);
+  return recipients.some((r) => r.userId === user.id || r.email === email);
+}
+
+export function recipientsIncludeEmail(recipients: ShareRecipient[], email: string): boolean {
+  const normalized = normalizeEmail(email);
+  return recipients.some((r) => r.email === normalized);
+}
+
+// Emails a one-time code to an external recipient. Returns false when a code
+// was sent to the address too recently to send another.
+export async function sendVerificationCode(share: ShareCode, email: string, ip: string | undefined): Promise<boolean> {
+  const normalized = normalizeEmail(email);
+  const latest = await storage.getLatestShareVerificationCode(share.id, normalized);
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < VERIFICATION_RESEND_MS) {
+    return false;
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  await storage.createShareVerificationCode({
+    shareCodeId: share.id,
+    email: normalized,
+    codeHash: hashCode(code),
+    expiresAt: new Date(Date.now() + VERIFICATION_CODE_TTL_MS),
+    requestedIp: ip ?? null,
+  });
+  await sendMail({
+    to: normalized,
+    subject: "Your UDAAN verification code",
+    text: [
+      "Someone shared files with you on UDAAN.",
+      `Enter this code within ${VERIFICATION_CODE_TTL_MS / 60000} minutes to open them:`,
+      "",
+      code,
+      "",
+      "If you were not expecting this, you can ignore this email.",
+    ].join("\n"),
+  });
+  return true;
+}
+
+// Checks and uses up the newest code sent to the address. Each wrong guess
+// counts against it and too many invalidate it.
+export async function checkVerificationCode(share: ShareCode, email: string, code: string): Promise<boolean> {
+  const latest = await storage.getLatestShareVerificationCode(share.id, normalizeEmail(email));
+  if (
+    !latest ||
+    latest.usedAt ||
+    new Date(latest.expiresAt) < new Date() ||
+    latest.failedAttempts >= VERIFICATION_MAX_FAILURES
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(latest.codeHash, "hex");
+  const actual = Buffer.from(hashCode(code.trim()), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    await storage.recordShareVerificationFailure(latest.id);
+    return false;
+  }
+  return storage.consumeShareVerificationCode(latest.id);
+}
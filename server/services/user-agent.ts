@@ -0,0 +1,54 @@
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  deviceType: "desktop" | "mobile" | "tablet" | "unknown";
+}
+
+// Order matters: Edge and Opera also advertise Chrome, and Chrome advertises Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/([\d]+)/, "Edge"],
+  [/OPR\/([\d]+)/, "Opera"],
+  [/SamsungBrowser\/([\d]+)/, "Samsung Internet"],
+  [/Firefox\/([\d]+)|FxiOS\/([\d]+)/, "Firefox"],
+  [/Chrome\/([\d]+)|CriOS\/([\d]+)/, "Chrome"],
+  [/Version\/([\d]+).*Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows NT/, "Windows"],
+  [/iPhone|iPod/, "iOS"],
+  [/iPad/, "iPadOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// A small best-effort parser for showing sessions to people; it is not used
+// for any security decision.
+export function describeUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  if (!userAgent) {
+    return { browser: "Unknown browser", os: "Unknown OS", deviceType: "unknown" };
+  }
+
+  let browser = "Unknown browser";
+  for (const [pattern, name] of BROWSERS) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      const version = match.slice(1).find(Boolean);
+      browser = version ? `${name} ${version}` : name;
+      break;
+    }
+  }
+
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? "Unknown OS";
+
+  let deviceType: DeviceInfo["deviceType"] = "desktop";
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    deviceType = "tablet";
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    deviceType = "mobile";
+  }
+
+  return { browser, os, deviceType };
+}
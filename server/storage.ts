@@ -1,15 +1,34 @@
 import {
-  users, folders, documents, documentTags, documentVersions, shareCodes,
-  auditLogs, sessions, userActivity, organizations, departments, employeeProfiles,
-  type User, type InsertUser, type Folder, type InsertFolder,
+  users, folders, folderPermissions, folderMetadataFields, retentionPolicies, documents, documentTags, documentVersions, shareCodes, shareRedemptions,
+  shareRecipients, shareVerificationCodes,
+  auditLogs, sessions, userActivity, organizations, departments, employeeProfiles, userTwoFactor, passwordResetTokens,
+  spentChallengeTokens, loginAttempts, passwordPolicies, passwordHistory, apiTokens, userIdentities, impersonationSessions,
+  type User, type InsertUser, type Folder, type InsertFolder, type FolderWithAccess,
+  type FolderPermission, type InsertFolderPermission, type FolderMetadataField, type InsertFolderMetadataField,
+  type RetentionPolicy, type InsertRetentionPolicy,
   type Document, type InsertDocument, type DocumentTag, type InsertDocumentTag,
-  type DocumentVersion, type InsertDocumentVersion, type ShareCode, type InsertShareCode,
+  type DocumentVersion, type InsertDocumentVersion, type DocumentVersionEntry, type TagCount, type TrashItem, type TrashPathEntry, type ShareCode, type InsertShareCode,
+  type ShareRedemption, type ReceivedShare, type ShareRecipient, type InsertShareRecipient, type ShareRecipientSummary,
+  type ShareRedemptionDetail, type ShareVerificationCode, type InsertShareVerificationCode,
   type AuditLog, type InsertAuditLog, type Session, type InsertSession,
-  type UserActivity, type InsertUserActivity, type Organization, type InsertOrganization,
-  type Department, type InsertDepartment, type EmployeeProfile, type InsertEmployeeProfile
+  type UserActivity, type InsertUserActivity, type Organization, type InsertOrganization, type OrganizationWithCounts,
+  type Department, type InsertDepartment, type EmployeeProfile, type InsertEmployeeProfile,
+  type UserTwoFactor, type InsertUserTwoFactor, type PasswordResetToken, type InsertPasswordResetToken,
+  type LoginAttempt, type InsertLoginAttempt,
+  type PasswordPolicy, type InsertPasswordPolicy, type PasswordHistory,
+  type ApiToken, type InsertApiToken, type UserIdentity, type InsertUserIdentity,
+  type ImpersonationSession, type InsertImpersonationSession
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, like, sql, isNull } from "drizzle-orm";
+import { requestContext } from "./request-context";
+import { eq, desc, and, or, like, sql, isNull, isNotNull, ne, gt, lt, inArray, notInArray, getTableColumns, type SQL, type SQLWrapper } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import {
+  baselineFolderAccess,
+  folderAccessLevels,
+  type AccessPrincipal,
+  type FolderAccessLevel,
+} from "@shared/permissions";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
@@ -18,52 +37,151 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: string): Promise<void>;
-  getAllUsers(): Promise<User[]>;
+  getAllUsers(scope?: TenantScope): Promise<User[]>;
+  
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  getAllUserTwoFactor(): Promise<UserTwoFactor[]>;
+  upsertUserTwoFactor(userId: string, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor>;
+  deleteUserTwoFactor(userId: string): Promise<void>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  isChallengeTokenSpent(jti: string): Promise<boolean>;
+  claimChallengeToken(jti: string, expiresAt: Date): Promise<boolean>;
   
   getFolder(id: string): Promise<Folder | undefined>;
   getFoldersByParent(parentId: string | null): Promise<Folder[]>;
-  getFolderWithContents(id: string | null): Promise<{ folder: Folder | null; children: Folder[]; documents: Document[] }>;
+  getFolderWithContents(id: string | null, principal: AccessPrincipal, scope?: TenantScope): Promise<{ folder: Folder | null; access: FolderAccessLevel | null; children: FolderWithAccess[]; documents: Document[] }>;
   createFolder(folder: InsertFolder): Promise<Folder>;
   updateFolder(id: string, data: Partial<InsertFolder>): Promise<Folder | undefined>;
-  deleteFolder(id: string): Promise<void>;
+  deleteFolder(id: string, deletedBy: string, trashPath: TrashPathEntry[]): Promise<void>;
+  getFolderPermissions(folderId: string): Promise<FolderPermission[]>;
+  setFolderPermission(entry: InsertFolderPermission): Promise<FolderPermission>;
+  deleteFolderPermission(id: string): Promise<FolderPermission | undefined>;
+  getFolderMetadataFields(folderIds: string[]): Promise<FolderMetadataField[]>;
+  getFolderMetadataField(id: string): Promise<FolderMetadataField | undefined>;
+  getMetadataFieldsInScope(scope?: TenantScope): Promise<FolderMetadataField[]>;
+  createFolderMetadataField(field: InsertFolderMetadataField): Promise<FolderMetadataField>;
+  updateFolderMetadataField(id: string, data: Partial<InsertFolderMetadataField>): Promise<FolderMetadataField | undefined>;
+  deleteFolderMetadataField(id: string): Promise<void>;
+  hasLegalHoldWithin(folder: Folder): Promise<boolean>;
+  getRetentionPolicies(scope?: TenantScope): Promise<RetentionPolicy[]>;
+  getRetentionPolicy(id: string): Promise<RetentionPolicy | undefined>;
+  createRetentionPolicy(policy: InsertRetentionPolicy): Promise<RetentionPolicy>;
+  updateRetentionPolicy(id: string, data: Partial<InsertRetentionPolicy>): Promise<RetentionPolicy | undefined>;
+  deleteRetentionPolicy(id: string): Promise<void>;
+  getRetentionCandidates(policy: RetentionPolicy): Promise<Document[]>;
+  getFolderAccessLevels(principal: AccessPrincipal, folderIds: string[], scope?: TenantScope): Promise<Map<string, FolderAccessLevel>>;
+  getFolderAccess(folderId: string | null, principal: AccessPrincipal, scope?: TenantScope): Promise<FolderAccessLevel | null>;
   
   getDocument(id: string): Promise<Document | undefined>;
-  getDocuments(filters?: { folderId?: string; status?: string; limit?: number }): Promise<Document[]>;
+  getDocuments(filters?: { folderId?: string; status?: string; tags?: string[]; limit?: number }, principal?: AccessPrincipal, scope?: TenantScope): Promise<Document[]>;
   createDocument(document: InsertDocument): Promise<Document>;
   updateDocument(id: string, data: Partial<InsertDocument>): Promise<Document | undefined>;
-  deleteDocument(id: string): Promise<void>;
+  deleteDocument(id: string, deletedBy: string, trashPath: TrashPathEntry[]): Promise<void>;
+  getTrash(filters: { deletedBy?: string }, scope?: TenantScope): Promise<Omit<TrashItem, "purgeAt">[]>;
+  getExpiredTrash(cutoff: Date): Promise<{ documents: Document[]; folders: Folder[] }>;
+  restoreDocument(id: string, folderId: string | null): Promise<Document | undefined>;
+  restoreFolder(id: string, parentFolderId: string | null): Promise<Folder | undefined>;
+  purgeDocuments(ids: string[]): Promise<string[]>;
+  purgeFolder(id: string): Promise<string[]>;
   
   createDocumentTag(tag: InsertDocumentTag): Promise<DocumentTag>;
   getDocumentTags(documentId: string): Promise<DocumentTag[]>;
   deleteDocumentTags(documentId: string): Promise<void>;
+  addDocumentTag(documentId: string, tag: string): Promise<void>;
+  removeDocumentTag(documentId: string, tag: string): Promise<boolean>;
+  setDocumentTags(documentId: string, tags: string[]): Promise<string[]>;
+  getTagsForDocuments(documentIds: string[]): Promise<DocumentTag[]>;
+  getTagCounts(principal?: AccessPrincipal, scope?: TenantScope): Promise<TagCount[]>;
+  mergeTags(sources: string[], target: string, scope?: TenantScope): Promise<number>;
   
   createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion>;
   getDocumentVersions(documentId: string): Promise<DocumentVersion[]>;
+  getDocumentVersion(documentId: string, versionId: string): Promise<DocumentVersion | undefined>;
+  getDocumentVersionHistory(documentId: string): Promise<DocumentVersionEntry[]>;
+  getStoredFiles(): Promise<{ documents: Document[]; versions: DocumentVersion[] }>;
+  setDocumentChecksum(id: string, checksum: string): Promise<void>;
+  setDocumentVersionChecksum(id: string, checksum: string): Promise<void>;
   
   getShareCode(code: string): Promise<ShareCode | undefined>;
   getShareCodesByCreator(userId: string): Promise<ShareCode[]>;
   createShareCode(share: InsertShareCode): Promise<ShareCode>;
   updateShareCode(id: string, data: Partial<InsertShareCode>): Promise<ShareCode | undefined>;
   deleteShareCode(id: string): Promise<void>;
-  incrementShareCodeUsage(id: string): Promise<void>;
+  incrementShareCodeUsage(id: string): Promise<boolean>;
+  getShareCodeById(id: string): Promise<ShareCode | undefined>;
+  getShareRedemption(shareCodeId: string, userId: string): Promise<ShareRedemption | undefined>;
+  recordShareRedemption(shareCodeId: string, userId: string): Promise<ShareRedemption>;
+  getReceivedShares(userId: string): Promise<ReceivedShare[]>;
+  getExternalShareRedemption(shareCodeId: string, email: string): Promise<ShareRedemption | undefined>;
+  recordExternalShareRedemption(shareCodeId: string, email: string): Promise<ShareRedemption>;
+  getShareRedemptionDetails(shareCodeId: string): Promise<ShareRedemptionDetail[]>;
+  createShareRecipients(recipients: InsertShareRecipient[]): Promise<ShareRecipient[]>;
+  getShareRecipients(shareCodeId: string): Promise<ShareRecipient[]>;
+  getShareRecipientSummaries(shareCodeIds: string[]): Promise<(ShareRecipientSummary & { shareCodeId: string })[]>;
+  createShareVerificationCode(data: InsertShareVerificationCode): Promise<ShareVerificationCode>;
+  getLatestShareVerificationCode(shareCodeId: string, email: string): Promise<ShareVerificationCode | undefined>;
+  recordShareVerificationFailure(id: string): Promise<void>;
+  consumeShareVerificationCode(id: string): Promise<boolean>;
   
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
-  getAuditLogs(filters?: { userId?: string; action?: string; limit?: number }): Promise<AuditLog[]>;
+  getAuditLogs(filters?: { userId?: string; action?: string; limit?: number }, scope?: TenantScope): Promise<AuditLog[]>;
   
   createSession(session: InsertSession): Promise<Session>;
   getSessionByToken(token: string): Promise<Session | undefined>;
+  updateSession(id: string, data: Partial<InsertSession>): Promise<Session | undefined>;
   deleteSession(id: string): Promise<void>;
-  deleteUserSessions(userId: string): Promise<void>;
+  claimSessionRotation(id: string): Promise<boolean>;
+  deleteExpiredSessions(): Promise<void>;
+  getActiveSessionByFamily(familyId: string): Promise<Session | undefined>;
+  getActiveUserSessions(userId: string): Promise<Session[]>;
+  deleteSessionFamily(familyId: string): Promise<void>;
+  deleteUserSessions(userId: string, exceptFamilyId?: string): Promise<void>;
+  
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiToken(id: string): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: string): Promise<ApiToken[]>;
+  updateApiToken(id: string, data: Partial<InsertApiToken>): Promise<ApiToken | undefined>;
+  
+  createImpersonationSession(session: InsertImpersonationSession): Promise<ImpersonationSession>;
+  getImpersonationSession(id: string): Promise<ImpersonationSession | undefined>;
+  endImpersonationSession(id: string): Promise<ImpersonationSession | undefined>;
+  
+  getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined>;
+  getUserIdentitiesByIssuer(issuer: string): Promise<UserIdentity[]>;
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+  updateUserIdentity(id: string, data: Partial<InsertUserIdentity>): Promise<UserIdentity | undefined>;
+  
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(id: string): Promise<boolean>;
+  deleteUserPasswordResetTokens(userId: string): Promise<void>;
+  
+  getPasswordPolicy(organizationId: string | null): Promise<PasswordPolicy | undefined>;
+  upsertPasswordPolicy(organizationId: string | null, data: Partial<InsertPasswordPolicy>): Promise<PasswordPolicy>;
+  getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]>;
+  addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void>;
+  
+  getLoginAttempt(scope: LoginAttempt["scope"], key: string): Promise<LoginAttempt | undefined>;
+  getLoginAttempts(scope: LoginAttempt["scope"]): Promise<LoginAttempt[]>;
+  incrementLoginAttempt(scope: LoginAttempt["scope"], key: string, windowStart: Date, ip?: string): Promise<LoginAttempt>;
+  updateLoginAttempt(id: string, data: Partial<InsertLoginAttempt>): Promise<LoginAttempt | undefined>;
+  deleteLoginAttempt(scope: LoginAttempt["scope"], key: string): Promise<void>;
   
   createUserActivity(activity: InsertUserActivity): Promise<UserActivity>;
   getUserActivity(userId: string, date?: Date): Promise<UserActivity[]>;
   updateUserActivity(id: string, data: Partial<InsertUserActivity>): Promise<void>;
   
   getOrganization(id: string): Promise<Organization | undefined>;
+  getOrganizationByCode(code: string): Promise<Organization | undefined>;
   createOrganization(org: InsertOrganization): Promise<Organization>;
+  getOrganizations(): Promise<OrganizationWithCounts[]>;
+  updateOrganization(id: string, data: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  deleteOrganization(id: string): Promise<void>;
   
   getDepartment(id: string): Promise<Department | undefined>;
-  getDepartments(): Promise<Department[]>;
+  getDepartments(scope?: TenantScope): Promise<Department[]>;
   createDepartment(dept: InsertDepartment): Promise<Department>;
   updateDepartment(id: string, data: Partial<InsertDepartment>): Promise<Department | undefined>;
   deleteDepartment(id: string): Promise<void>;
@@ -73,8 +191,108 @@ export interface IStorage {
   updateEmployeeProfile(id: string, data: Partial<InsertEmployeeProfile>): Promise<EmployeeProfile | undefined>;
   deleteEmployeeProfile(id: string): Promise<void>;
   
-  getDashboardStats(): Promise<{ totalDocuments: number; totalFolders: number; recentUploads: number; sharedItems: number }>;
-  getAdminStats(): Promise<{ totalUsers: number; activeUsers: number; totalDocuments: number; totalFolders: number; storageUsedMB: number; recentLogins: number }>;
+  getDashboardStats(scope?: TenantScope): Promise<{ totalDocuments: number; totalFolders: number; recentUploads: number; sharedItems: number }>;
+  getAdminStats(scope?: TenantScope): Promise<{ totalUsers: number; activeUsers: number; totalDocuments: number; totalFolders: number; storageUsedMB: number; recentLogins: number }>;
+}
+
+// The organization a query is limited to. Callers pass no scope for
+// platform-wide access; users without an organization form their own tenant.
+export interface TenantScope {
+  organizationId: string | null;
+}
+
+function tenantCondition(column: PgColumn, scope?: TenantScope): SQL | undefined {
+  if (!scope) return undefined;
+  return scope.organizationId ? eq(column, scope.organizationId) : isNull(column);
+}
+
+function taggedWith(tag: string): SQL {
+  return inArray(documents.id, db.select({ id: documentTags.documentId }).from(documentTags).where(eq(documentTags.tag, tag)));
+}
+
+// Share codes have no organization of their own; they belong to their creator's.
+function tenantShareCondition(scope?: TenantScope): SQL | undefined {
+  if (!scope) return undefined;
+  return inArray(shareCodes.createdBy, db.select({ id: users.id }).from(users).where(tenantCondition(users.organizationId, scope)));
+}
+
+// SUPER_ADMIN and ORG_ADMIN are never limited by folder access lists.
+function bypassesFolderAccess(principal: AccessPrincipal): boolean {
+  return principal.role === "SUPER_ADMIN" || principal.role === "ORG_ADMIN";
+}
+
+// SQL version of appliesTo, for filtering folder_permissions rows.
+function appliesToCondition(principal: AccessPrincipal): SQL {
+  const conditions = [
+    and(eq(folderPermissions.principalType, "USER"), eq(folderPermissions.principalId, principal.userId)),
+    and(eq(folderPermissions.principalType, "ROLE"), eq(folderPermissions.principalId, principal.role)),
+  ];
+  if (principal.departmentId) {
+    conditions.push(and(eq(folderPermissions.principalType, "DEPARTMENT"), eq(folderPermissions.principalId, principal.departmentId)));
+  }
+  return or(...conditions)!;
+}
+
+// Ids of the folders the roots query selects and of every folder below them,
+// as a subquery.
+function folderSubtreeQuery(roots: SQLWrapper): SQL {
+  return sql`(WITH RECURSIVE subtree(id) AS (${roots} UNION SELECT f.id FROM ${folders} f JOIN subtree ON f.parent_folder_id = subtree.id) SELECT id FROM subtree)`;
+}
+
+function appliesTo(entry: FolderPermission, principal: AccessPrincipal): boolean {
+  switch (entry.principalType) {
+    case "USER":
+      return entry.principalId === principal.userId;
+    case "DEPARTMENT":
+      return !!principal.departmentId && entry.principalId === principal.departmentId;
+    case "ROLE":
+      return entry.principalId === principal.role;
+  }
+}
+
+// Effective level on every folder, walking each folder's ancestors. The role's
+// baseline applies everywhere; allow entries on a folder or above it only add
+// to it, and the folder's creator always manages it. Deny entries cap the
+// result last, so they win and are the only way to restrict a subtree.
+function resolveFolderAccess(
+  folderRows: Pick<Folder, "id" | "parentFolderId" | "createdBy">[],
+  entries: FolderPermission[],
+  principal: AccessPrincipal,
+): Map<string, FolderAccessLevel> {
+  const levels = new Map<string, FolderAccessLevel>();
+  const rank = (level: FolderAccessLevel | null) => (level ? folderAccessLevels.indexOf(level) : -1);
+  const manageRank = folderAccessLevels.length - 1;
+
+  const byId = new Map(folderRows.map((folder) => [folder.id, folder]));
+  const entriesByFolder = new Map<string, FolderPermission[]>();
+  for (const entry of entries) {
+    entriesByFolder.set(entry.folderId, [...(entriesByFolder.get(entry.folderId) ?? []), entry]);
+  }
+  const baseline = rank(baselineFolderAccess(principal.role));
+
+  for (const folder of folderRows) {
+    let granted = baseline;
+    let cap = manageRank;
+    const visited = new Set<string>();
+
+    let current: (typeof folderRows)[number] | undefined = folder;
+    while (current && !visited.has(current.id)) {
+      visited.add(current.id);
+      if (current.createdBy === principal.userId) granted = manageRank;
+      for (const entry of entriesByFolder.get(current.id) ?? []) {
+        if (entry.deny) {
+          if (appliesTo(entry, principal)) cap = Math.min(cap, rank(entry.level) - 1);
+        } else if (appliesTo(entry, principal)) {
+          granted = Math.max(granted, rank(entry.level));
+        }
+      }
+      current = current.parentFolderId ? byId.get(current.parentFolderId) : undefined;
+    }
+
+    const effective = Math.min(granted, cap);
+    if (effective >= 0) levels.set(folder.id, folderAccessLevels[effective]);
+  }
+  return levels;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -107,8 +325,75 @@ export class DatabaseStorage implements IStorage {
     await db.delete(users).where(eq(users.id, id));
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return db.select().from(users).orderBy(desc(users.createdAt));
+  async getAllUsers(scope?: TenantScope): Promise<User[]> {
+    return db.select().from(users).where(tenantCondition(users.organizationId, scope)).orderBy(desc(users.createdAt));
+  }
+
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return record || undefined;
+  }
+
+  async getAllUserTwoFactor(): Promise<UserTwoFactor[]> {
+    return db.select().from(userTwoFactor);
+  }
+
+  async upsertUserTwoFactor(userId: string, data: Partial<InsertUserTwoFactor>): Promise<UserTwoFactor> {
+    const [record] = await db
+      .insert(userTwoFactor)
+      .values({ ...data, userId })
+      .onConflictDoUpdate({ target: userTwoFactor.userId, set: { ...data, updatedAt: new Date() } })
+      .returning();
+    return record;
+  }
+
+  async deleteUserTwoFactor(userId: string): Promise<void> {
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+  }
+
+  // Records a TOTP step as used unless it, or a later one, already was. The
+  // check and the write are one statement so a code cannot be replayed by a
+  // concurrent request.
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const [claimed] = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+        ),
+      )
+      .returning({ id: userTwoFactor.id });
+    return !!claimed;
+  }
+
+  // Removes the recovery code if it is still there; false when it was never
+  // issued or another request spent it first.
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const [consumed] = await db
+      .update(userTwoFactor)
+      .set({ recoveryCodes: sql`${userTwoFactor.recoveryCodes} - ${codeHash}::text`, updatedAt: new Date() })
+      .where(and(eq(userTwoFactor.userId, userId), sql`jsonb_exists(${userTwoFactor.recoveryCodes}, ${codeHash})`))
+      .returning({ id: userTwoFactor.id });
+    return !!consumed;
+  }
+
+  async isChallengeTokenSpent(jti: string): Promise<boolean> {
+    const [spent] = await db.select({ jti: spentChallengeTokens.jti }).from(spentChallengeTokens).where(eq(spentChallengeTokens.jti, jti));
+    return !!spent;
+  }
+
+  // Marks a challenge token as spent; false when another request already did.
+  // Expired entries are dropped on the way since their tokens no longer verify.
+  async claimChallengeToken(jti: string, expiresAt: Date): Promise<boolean> {
+    await db.delete(spentChallengeTokens).where(lt(spentChallengeTokens.expiresAt, new Date()));
+    const [claimed] = await db
+      .insert(spentChallengeTokens)
+      .values({ jti, expiresAt })
+      .onConflictDoNothing()
+      .returning({ jti: spentChallengeTokens.jti });
+    return !!claimed;
   }
 
   async getFolder(id: string): Promise<Folder | undefined> {
@@ -118,28 +403,42 @@ export class DatabaseStorage implements IStorage {
 
   async getFoldersByParent(parentId: string | null): Promise<Folder[]> {
     if (parentId === null) {
-      return db.select().from(folders).where(isNull(folders.parentFolderId)).orderBy(folders.name);
+      return db.select().from(folders).where(and(isNull(folders.parentFolderId), isNull(folders.deletedAt))).orderBy(folders.name);
     }
-    return db.select().from(folders).where(eq(folders.parentFolderId, parentId)).orderBy(folders.name);
+    return db.select().from(folders).where(and(eq(folders.parentFolderId, parentId), isNull(folders.deletedAt))).orderBy(folders.name);
   }
 
-  async getFolderWithContents(id: string | null): Promise<{ folder: Folder | null; children: Folder[]; documents: Document[] }> {
+  async getFolderWithContents(id: string | null, principal: AccessPrincipal, scope?: TenantScope): Promise<{ folder: Folder | null; access: FolderAccessLevel | null; children: FolderWithAccess[]; documents: Document[] }> {
+    const childFolders = await this.getFoldersByParent(id);
+    const levels = await this.getFolderAccessLevels(principal, [...(id ? [id] : []), ...childFolders.map((c) => c.id)], scope);
+    const access = id ? levels.get(id) ?? null : this.getRootAccess(principal);
+
     let folder: Folder | null = null;
-    if (id) {
+    if (id && access) {
       const [f] = await db.select().from(folders).where(eq(folders.id, id));
       folder = f || null;
     }
+    if (!access || (id && !folder)) {
+      return { folder: null, access: null, children: [], documents: [] };
+    }
     
-    const children = await this.getFoldersByParent(id);
+    const children = childFolders.flatMap((child) => {
+      const childAccess = levels.get(child.id);
+      return childAccess ? [{ ...child, access: childAccess }] : [];
+    });
     
     let docs: Document[];
     if (id === null) {
-      docs = await db.select().from(documents).where(isNull(documents.folderId)).orderBy(desc(documents.uploadedAt));
+      docs = await db.select().from(documents)
+        .where(and(isNull(documents.folderId), ne(documents.status, "DELETED"), tenantCondition(documents.organizationId, scope)))
+        .orderBy(desc(documents.uploadedAt));
     } else {
-      docs = await db.select().from(documents).where(eq(documents.folderId, id)).orderBy(desc(documents.uploadedAt));
+      docs = await db.select().from(documents)
+        .where(and(eq(documents.folderId, id), ne(documents.status, "DELETED"), tenantCondition(documents.organizationId, scope)))
+        .orderBy(desc(documents.uploadedAt));
     }
     
-    return { folder, children, documents: docs };
+    return { folder, access, children, documents: docs };
   }
 
   async createFolder(insertFolder: InsertFolder): Promise<Folder> {
@@ -152,8 +451,251 @@ export class DatabaseStorage implements IStorage {
     return folder || undefined;
   }
 
-  async deleteFolder(id: string): Promise<void> {
-    await db.delete(folders).where(eq(folders.id, id));
+  // Moves a folder to the recycle bin with every folder and document below
+  // it. Anything under it that was already in the bin stays a separate entry.
+  async deleteFolder(id: string, deletedBy: string, trashPath: TrashPathEntry[]): Promise<void> {
+    const folder = await this.getFolder(id);
+    if (!folder) return;
+    const subtree = await this.folderSubtree(folder, false);
+    const below = subtree.filter((folderId) => folderId !== id);
+
+    const deletedAt = new Date();
+    await db.update(folders).set({ deletedAt, deletedBy, trashPath }).where(eq(folders.id, id));
+    if (below.length > 0) {
+      await db.update(folders).set({ deletedAt, deletedBy, deletedWithFolderId: id }).where(inArray(folders.id, below));
+    }
+    await db
+      .update(documents)
+      .set({ status: "DELETED", deletedAt, deletedBy, deletedWithFolderId: id })
+      .where(and(inArray(documents.folderId, subtree), ne(documents.status, "DELETED")));
+  }
+
+  // The folder and every folder below it. Folders in the recycle bin are left
+  // out unless includeDeleted is set.
+  private async folderSubtree(folder: Folder, includeDeleted: boolean): Promise<string[]> {
+    const rows = await db
+      .select({ id: folders.id, parentFolderId: folders.parentFolderId })
+      .from(folders)
+      .where(and(
+        includeDeleted ? undefined : isNull(folders.deletedAt),
+        tenantCondition(folders.organizationId, { organizationId: folder.organizationId }),
+      ));
+    const subtree = new Set([folder.id]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const row of rows) {
+        if (row.parentFolderId && subtree.has(row.parentFolderId) && !subtree.has(row.id)) {
+          subtree.add(row.id);
+          added = true;
+        }
+      }
+    }
+    return Array.from(subtree);
+  }
+
+  // Whether the folder, a folder below it or a document in any of them is
+  // under legal hold, counting what is in the recycle bin.
+  async hasLegalHoldWithin(folder: Folder): Promise<boolean> {
+    const subtree = await this.folderSubtree(folder, true);
+    const [heldFolder] = await db
+      .select({ id: folders.id })
+      .from(folders)
+      .where(and(inArray(folders.id, subtree), eq(folders.legalHold, true)))
+      .limit(1);
+    if (heldFolder) return true;
+    const [heldDocument] = await db
+      .select({ id: documents.id })
+      .from(documents)
+      .where(and(inArray(documents.folderId, subtree), eq(documents.legalHold, true)))
+      .limit(1);
+    return !!heldDocument;
+  }
+
+  async getRetentionPolicies(scope?: TenantScope): Promise<RetentionPolicy[]> {
+    return db
+      .select()
+      .from(retentionPolicies)
+      .where(tenantCondition(retentionPolicies.organizationId, scope))
+      .orderBy(retentionPolicies.name);
+  }
+
+  async getRetentionPolicy(id: string): Promise<RetentionPolicy | undefined> {
+    const [policy] = await db.select().from(retentionPolicies).where(eq(retentionPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async createRetentionPolicy(policy: InsertRetentionPolicy): Promise<RetentionPolicy> {
+    const [created] = await db.insert(retentionPolicies).values(policy).returning();
+    return created;
+  }
+
+  async updateRetentionPolicy(id: string, data: Partial<InsertRetentionPolicy>): Promise<RetentionPolicy | undefined> {
+    const [policy] = await db
+      .update(retentionPolicies)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(retentionPolicies.id, id))
+      .returning();
+    return policy || undefined;
+  }
+
+  async deleteRetentionPolicy(id: string): Promise<void> {
+    await db.delete(retentionPolicies).where(eq(retentionPolicies.id, id));
+  }
+
+  // Documents in the policy's organization that it covers. Deleted documents
+  // are left to the recycle bin.
+  async getRetentionCandidates(policy: RetentionPolicy): Promise<Document[]> {
+    const conditions: (SQL | undefined)[] = [
+      ne(documents.status, "DELETED"),
+      tenantCondition(documents.organizationId, { organizationId: policy.organizationId }),
+    ];
+    switch (policy.targetType) {
+      case "FOLDER": {
+        const folder = policy.folderId ? await this.getFolder(policy.folderId) : undefined;
+        if (!folder || folder.deletedAt) return [];
+        conditions.push(inArray(documents.folderId, await this.folderSubtree(folder, false)));
+        break;
+      }
+      case "TAG":
+        if (!policy.tag) return [];
+        conditions.push(taggedWith(policy.tag));
+        break;
+      case "METADATA":
+        if (!policy.metadataKey || !policy.metadataValue) return [];
+        conditions.push(sql`lower(${documents.metadata} ->> ${policy.metadataKey}) = lower(${policy.metadataValue})`);
+        break;
+    }
+    return db.select().from(documents).where(and(...conditions));
+  }
+
+  async getFolderPermissions(folderId: string): Promise<FolderPermission[]> {
+    return db.select().from(folderPermissions).where(eq(folderPermissions.folderId, folderId)).orderBy(folderPermissions.createdAt);
+  }
+
+  async setFolderPermission(entry: InsertFolderPermission): Promise<FolderPermission> {
+    const [permission] = await db
+      .insert(folderPermissions)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [folderPermissions.folderId, folderPermissions.principalType, folderPermissions.principalId],
+        set: { level: entry.level, deny: entry.deny, createdBy: entry.createdBy, createdAt: new Date() },
+      })
+      .returning();
+    return permission;
+  }
+
+  async deleteFolderPermission(id: string): Promise<FolderPermission | undefined> {
+    const [permission] = await db.delete(folderPermissions).where(eq(folderPermissions.id, id)).returning();
+    return permission || undefined;
+  }
+
+  async getFolderMetadataFields(folderIds: string[]): Promise<FolderMetadataField[]> {
+    if (folderIds.length === 0) return [];
+    return db
+      .select()
+      .from(folderMetadataFields)
+      .where(inArray(folderMetadataFields.folderId, folderIds))
+      .orderBy(folderMetadataFields.position, folderMetadataFields.createdAt);
+  }
+
+  async getFolderMetadataField(id: string): Promise<FolderMetadataField | undefined> {
+    const [field] = await db.select().from(folderMetadataFields).where(eq(folderMetadataFields.id, id));
+    return field || undefined;
+  }
+
+  async getMetadataFieldsInScope(scope?: TenantScope): Promise<FolderMetadataField[]> {
+    const rows = await db
+      .select({ field: folderMetadataFields })
+      .from(folderMetadataFields)
+      .innerJoin(folders, eq(folderMetadataFields.folderId, folders.id))
+      .where(tenantCondition(folders.organizationId, scope))
+      .orderBy(folderMetadataFields.label);
+    return rows.map((row) => row.field);
+  }
+
+  async createFolderMetadataField(field: InsertFolderMetadataField): Promise<FolderMetadataField> {
+    const [created] = await db.insert(folderMetadataFields).values(field).returning();
+    return created;
+  }
+
+  async updateFolderMetadataField(id: string, data: Partial<InsertFolderMetadataField>): Promise<FolderMetadataField | undefined> {
+    const [field] = await db.update(folderMetadataFields).set(data).where(eq(folderMetadataFields.id, id)).returning();
+    return field || undefined;
+  }
+
+  async deleteFolderMetadataField(id: string): Promise<void> {
+    await db.delete(folderMetadataFields).where(eq(folderMetadataFields.id, id));
+  }
+
+  // The given folders and all their ancestors; deleted folders and those
+  // outside the scope are left out.
+  private async folderChains(folderIds: string[], scope?: TenantScope): Promise<Pick<Folder, "id" | "parentFolderId" | "createdBy">[]> {
+    if (folderIds.length === 0) return [];
+    const start = db
+      .select({ id: folders.id, parentFolderId: folders.parentFolderId, createdBy: folders.createdBy })
+      .from(folders)
+      .where(and(inArray(folders.id, folderIds), isNull(folders.deletedAt), tenantCondition(folders.organizationId, scope)));
+    const { rows } = await db.execute<{ id: string; parent_folder_id: string | null; created_by: string }>(sql`
+      WITH RECURSIVE chain(id, parent_folder_id, created_by) AS (
+        ${start}
+        UNION
+        SELECT f.id, f.parent_folder_id, f.created_by FROM ${folders} f JOIN chain ON f.id = chain.parent_folder_id
+      )
+      SELECT id, parent_folder_id, created_by FROM chain`);
+    return rows.map((row) => ({ id: row.id, parentFolderId: row.parent_folder_id, createdBy: row.created_by }));
+  }
+
+  // Levels for the given folders, resolved from their ancestor chains only.
+  // Folders the principal cannot open are missing from the map.
+  async getFolderAccessLevels(principal: AccessPrincipal, folderIds: string[], scope?: TenantScope): Promise<Map<string, FolderAccessLevel>> {
+    const folderRows = await this.folderChains(Array.from(new Set(folderIds)), scope);
+    if (bypassesFolderAccess(principal)) {
+      return new Map(folderRows.map((folder) => [folder.id, "MANAGE" as const]));
+    }
+    const entries = folderRows.length
+      ? await db.select().from(folderPermissions).where(inArray(folderPermissions.folderId, folderRows.map((f) => f.id)))
+      : [];
+    return resolveFolderAccess(folderRows, entries, principal);
+  }
+
+  async getFolderAccess(folderId: string | null, principal: AccessPrincipal, scope?: TenantScope): Promise<FolderAccessLevel | null> {
+    if (!folderId) return this.getRootAccess(principal);
+    const levels = await this.getFolderAccessLevels(principal, [folderId], scope);
+    return levels.get(folderId) ?? null;
+  }
+
+  // Documents outside any folder carry no access list.
+  private getRootAccess(principal: AccessPrincipal): FolderAccessLevel | null {
+    return bypassesFolderAccess(principal) ? "MANAGE" : baselineFolderAccess(principal.role);
+  }
+
+  // Restricts a document query to the tenant and to folders the principal can
+  // read, mirroring resolveFolderAccess in SQL: a folder is readable through
+  // the role's baseline, an allow entry or having created it on the folder or
+  // above, unless a Read deny on the folder or above applies. Undefined means
+  // no restriction.
+  private async readableDocumentsCondition(principal: AccessPrincipal | undefined, scope?: TenantScope): Promise<SQL | undefined> {
+    const tenant = tenantCondition(documents.organizationId, scope);
+    if (!principal || bypassesFolderAccess(principal)) return tenant;
+
+    const entriesFor = (condition: SQL) =>
+      db.select({ id: folderPermissions.folderId }).from(folderPermissions).where(and(appliesToCondition(principal), condition));
+    const inFolders: SQL[] = [
+      isNotNull(documents.folderId),
+      notInArray(documents.folderId, folderSubtreeQuery(entriesFor(and(eq(folderPermissions.deny, true), eq(folderPermissions.level, "READ"))!))),
+    ];
+    if (!this.getRootAccess(principal)) {
+      const granted = sql`${entriesFor(eq(folderPermissions.deny, false))} UNION ${db
+        .select({ id: folders.id })
+        .from(folders)
+        .where(eq(folders.createdBy, principal.userId))}`;
+      inFolders.push(inArray(documents.folderId, folderSubtreeQuery(granted)));
+    }
+
+    const conditions = [and(...inFolders)!];
+    if (this.getRootAccess(principal)) conditions.push(isNull(documents.folderId));
+    return and(tenant, or(...conditions));
   }
 
   async getDocument(id: string): Promise<Document | undefined> {
@@ -161,9 +703,14 @@ export class DatabaseStorage implements IStorage {
     return doc || undefined;
   }
 
-  async getDocuments(filters?: { folderId?: string; status?: string; limit?: number }): Promise<Document[]> {
+  async getDocuments(filters?: { folderId?: string; status?: string; tags?: string[]; limit?: number }, principal?: AccessPrincipal, scope?: TenantScope): Promise<Document[]> {
     let query = db.select().from(documents);
-    const conditions = [];
+    const conditions = [ne(documents.status, "DELETED")];
+    
+    const readable = await this.readableDocumentsCondition(principal, scope);
+    if (readable) {
+      conditions.push(readable);
+    }
     
     if (filters?.folderId) {
       conditions.push(eq(documents.folderId, filters.folderId));
@@ -171,11 +718,12 @@ export class DatabaseStorage implements IStorage {
     if (filters?.status) {
       conditions.push(eq(documents.status, filters.status as any));
     }
-    
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
+    for (const tag of filters?.tags ?? []) {
+      conditions.push(taggedWith(tag));
     }
     
+    query = query.where(and(...conditions)) as any;
+    
     return query.orderBy(desc(documents.uploadedAt)).limit(filters?.limit || 100);
   }
 
@@ -189,8 +737,141 @@ export class DatabaseStorage implements IStorage {
     return doc || undefined;
   }
 
-  async deleteDocument(id: string): Promise<void> {
-    await db.update(documents).set({ status: "DELETED" }).where(eq(documents.id, id));
+  async deleteDocument(id: string, deletedBy: string, trashPath: TrashPathEntry[]): Promise<void> {
+    await db
+      .update(documents)
+      .set({ status: "DELETED", deletedAt: new Date(), deletedBy, deletedWithFolderId: null, trashPath })
+      .where(eq(documents.id, id));
+  }
+
+  // Recycle bin entries, newest first. Documents deleted before the bin
+  // existed have no deletedAt; their last update stands in for it.
+  async getTrash(filters: { deletedBy?: string }, scope?: TenantScope): Promise<Omit<TrashItem, "purgeAt">[]> {
+    const deleter = { id: users.id, firstName: users.firstName, lastName: users.lastName };
+    const documentRows = await db
+      .select({ doc: documents, deleter })
+      .from(documents)
+      .leftJoin(users, eq(documents.deletedBy, users.id))
+      .where(and(
+        eq(documents.status, "DELETED"),
+        isNull(documents.deletedWithFolderId),
+        filters.deletedBy ? eq(documents.deletedBy, filters.deletedBy) : undefined,
+        tenantCondition(documents.organizationId, scope),
+      ));
+    const folderRows = await db
+      .select({ folder: folders, deleter })
+      .from(folders)
+      .leftJoin(users, eq(folders.deletedBy, users.id))
+      .where(and(
+        isNotNull(folders.deletedAt),
+        isNull(folders.deletedWithFolderId),
+        filters.deletedBy ? eq(folders.deletedBy, filters.deletedBy) : undefined,
+        tenantCondition(folders.organizationId, scope),
+      ));
+
+    const items: Omit<TrashItem, "purgeAt">[] = [
+      ...documentRows.map(({ doc, deleter }) => ({
+        type: "DOCUMENT" as const,
+        id: doc.id,
+        name: doc.title,
+        mimeType: doc.mimeType,
+        sizeBytes: doc.sizeBytes,
+        location: doc.trashPath ?? [],
+        deletedAt: doc.deletedAt ?? doc.updatedAt,
+        deletedBy: deleter,
+      })),
+      ...folderRows.map(({ folder, deleter }) => ({
+        type: "FOLDER" as const,
+        id: folder.id,
+        name: folder.name,
+        mimeType: null,
+        sizeBytes: null,
+        location: folder.trashPath ?? [],
+        deletedAt: folder.deletedAt!,
+        deletedBy: deleter,
+      })),
+    ];
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  // Recycle bin entries deleted before cutoff, across every organization.
+  async getExpiredTrash(cutoff: Date): Promise<{ documents: Document[]; folders: Folder[] }> {
+    const documentRows = await db
+      .select()
+      .from(documents)
+      .where(and(
+        eq(documents.status, "DELETED"),
+        isNull(documents.deletedWithFolderId),
+        sql`coalesce(${documents.deletedAt}, ${documents.updatedAt}) < ${cutoff}`,
+      ));
+    const folderRows = await db
+      .select()
+      .from(folders)
+      .where(and(isNull(folders.deletedWithFolderId), sql`${folders.deletedAt} < ${cutoff}`));
+    return { documents: documentRows, folders: folderRows };
+  }
+
+  async restoreDocument(id: string, folderId: string | null): Promise<Document | undefined> {
+    const [doc] = await db
+      .update(documents)
+      .set({ status: "ACTIVE", folderId, deletedAt: null, deletedBy: null, deletedWithFolderId: null, trashPath: null, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return doc || undefined;
+  }
+
+  // Takes a folder out of the recycle bin along with everything deleted with it.
+  async restoreFolder(id: string, parentFolderId: string | null): Promise<Folder | undefined> {
+    const cleared = { deletedAt: null, deletedBy: null, deletedWithFolderId: null, trashPath: null };
+    const [folder] = await db
+      .update(folders)
+      .set({ ...cleared, parentFolderId, updatedAt: new Date() })
+      .where(eq(folders.id, id))
+      .returning();
+    if (!folder) return undefined;
+    await db.update(folders).set(cleared).where(eq(folders.deletedWithFolderId, id));
+    await db.update(documents).set({ ...cleared, status: "ACTIVE" }).where(eq(documents.deletedWithFolderId, id));
+    return folder;
+  }
+
+  // Deletes documents for good, with their tags, versions and share codes.
+  // Returns the files they used that no remaining document or version points
+  // at, for the caller to remove from disk.
+  async purgeDocuments(ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const files = [
+      ...(await db.select({ filePath: documents.filePath }).from(documents).where(inArray(documents.id, ids))),
+      ...(await db.select({ filePath: documentVersions.filePath }).from(documentVersions).where(inArray(documentVersions.documentId, ids))),
+    ];
+    await db.delete(documentTags).where(inArray(documentTags.documentId, ids));
+    await db.delete(documentVersions).where(inArray(documentVersions.documentId, ids));
+    await db.delete(shareCodes).where(inArray(shareCodes.documentId, ids));
+    await db.delete(documents).where(inArray(documents.id, ids));
+
+    const paths = Array.from(new Set(files.map((row) => row.filePath)));
+    if (paths.length === 0) return [];
+    const stillUsed = new Set([
+      ...(await db.select({ filePath: documents.filePath }).from(documents).where(inArray(documents.filePath, paths))),
+      ...(await db.select({ filePath: documentVersions.filePath }).from(documentVersions).where(inArray(documentVersions.filePath, paths))),
+    ].map((row) => row.filePath));
+    return paths.filter((filePath) => !stillUsed.has(filePath));
+  }
+
+  // Deletes a folder in the recycle bin for good, with everything deleted
+  // along with it. Returns files to remove as purgeDocuments does.
+  async purgeFolder(id: string): Promise<string[]> {
+    const folderIds = [
+      id,
+      ...(await db.select({ id: folders.id }).from(folders).where(eq(folders.deletedWithFolderId, id))).map((row) => row.id),
+    ];
+    const documentRows = await db.select({ id: documents.id }).from(documents).where(eq(documents.deletedWithFolderId, id));
+    const files = await this.purgeDocuments(documentRows.map((row) => row.id));
+    // Documents that were deleted on their own before the folder stay in the
+    // bin; restoring one recreates the folder from its trashPath.
+    await db.update(documents).set({ folderId: null }).where(inArray(documents.folderId, folderIds));
+    await db.delete(shareCodes).where(inArray(shareCodes.folderId, folderIds));
+    await db.delete(folders).where(inArray(folders.id, folderIds));
+    return files;
   }
 
   async createDocumentTag(tag: InsertDocumentTag): Promise<DocumentTag> {
@@ -206,6 +887,74 @@ export class DatabaseStorage implements IStorage {
     await db.delete(documentTags).where(eq(documentTags.documentId, documentId));
   }
 
+  async addDocumentTag(documentId: string, tag: string): Promise<void> {
+    await db.insert(documentTags).values({ documentId, tag }).onConflictDoNothing();
+  }
+
+  async removeDocumentTag(documentId: string, tag: string): Promise<boolean> {
+    const removed = await db
+      .delete(documentTags)
+      .where(and(eq(documentTags.documentId, documentId), eq(documentTags.tag, tag)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async setDocumentTags(documentId: string, tags: string[]): Promise<string[]> {
+    const unique = Array.from(new Set(tags));
+    await this.deleteDocumentTags(documentId);
+    if (unique.length > 0) {
+      await db.insert(documentTags).values(unique.map((tag) => ({ documentId, tag })));
+    }
+    return unique.sort();
+  }
+
+  async getTagsForDocuments(documentIds: string[]): Promise<DocumentTag[]> {
+    if (documentIds.length === 0) return [];
+    return db.select().from(documentTags).where(inArray(documentTags.documentId, documentIds)).orderBy(documentTags.tag);
+  }
+
+  // Tags on documents the principal can read, with how many documents carry
+  // each. Deleted documents do not count.
+  async getTagCounts(principal?: AccessPrincipal, scope?: TenantScope): Promise<TagCount[]> {
+    const rows = await db
+      .select({ tag: documentTags.tag, count: sql<number>`count(distinct ${documentTags.documentId})` })
+      .from(documentTags)
+      .innerJoin(documents, eq(documentTags.documentId, documents.id))
+      .where(and(await this.readableDocumentsCondition(principal, scope), ne(documents.status, "DELETED")))
+      .groupBy(documentTags.tag)
+      .orderBy(documentTags.tag);
+    return rows.map((r) => ({ tag: r.tag, count: Number(r.count) }));
+  }
+
+  // Retags every document in scope carrying one of the sources with target
+  // instead. Documents that already have target just lose the source tag.
+  // Returns how many tag rows were changed or removed.
+  async mergeTags(sources: string[], target: string, scope?: TenantScope): Promise<number> {
+    const inScope = inArray(
+      documentTags.documentId,
+      db.select({ id: documents.id }).from(documents).where(tenantCondition(documents.organizationId, scope)),
+    );
+    let affected = 0;
+    for (const source of sources) {
+      if (source === target) continue;
+      const alreadyTagged = inArray(
+        documentTags.documentId,
+        db.select({ id: documentTags.documentId }).from(documentTags).where(eq(documentTags.tag, target)),
+      );
+      const removed = await db
+        .delete(documentTags)
+        .where(and(eq(documentTags.tag, source), inScope, alreadyTagged))
+        .returning();
+      const renamed = await db
+        .update(documentTags)
+        .set({ tag: target })
+        .where(and(eq(documentTags.tag, source), inScope))
+        .returning();
+      affected += removed.length + renamed.length;
+    }
+    return affected;
+  }
+
   async createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion> {
     const [created] = await db.insert(documentVersions).values(version).returning();
     return created;
@@ -215,6 +964,45 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(documentVersions).where(eq(documentVersions.documentId, documentId)).orderBy(desc(documentVersions.versionNumber));
   }
 
+  async getDocumentVersion(documentId: string, versionId: string): Promise<DocumentVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(documentVersions)
+      .where(and(eq(documentVersions.id, versionId), eq(documentVersions.documentId, documentId)));
+    return version || undefined;
+  }
+
+  async getDocumentVersionHistory(documentId: string): Promise<DocumentVersionEntry[]> {
+    const rows = await db
+      .select({
+        version: documentVersions,
+        author: { id: users.id, firstName: users.firstName, lastName: users.lastName },
+      })
+      .from(documentVersions)
+      .leftJoin(users, eq(documentVersions.createdBy, users.id))
+      .where(eq(documentVersions.documentId, documentId))
+      .orderBy(desc(documentVersions.versionNumber));
+    return rows.map(({ version, author }) => ({ ...version, author }));
+  }
+
+  // Every document and version row with a file on disk, recycle bin included.
+  async getStoredFiles(): Promise<{ documents: Document[]; versions: DocumentVersion[] }> {
+    const [allDocuments, versions] = await Promise.all([
+      db.select().from(documents),
+      db.select().from(documentVersions).orderBy(desc(documentVersions.versionNumber)),
+    ]);
+    return { documents: allDocuments, versions };
+  }
+
+  // Checksums are recorded without touching updatedAt: the file did not change.
+  async setDocumentChecksum(id: string, checksum: string): Promise<void> {
+    await db.update(documents).set({ checksum }).where(eq(documents.id, id));
+  }
+
+  async setDocumentVersionChecksum(id: string, checksum: string): Promise<void> {
+    await db.update(documentVersions).set({ checksum }).where(eq(documentVersions.id, id));
+  }
+
   async getShareCode(code: string): Promise<ShareCode | undefined> {
     const [share] = await db.select().from(shareCodes).where(eq(shareCodes.code, code));
     return share || undefined;
@@ -238,19 +1026,180 @@ export class DatabaseStorage implements IStorage {
     await db.delete(shareCodes).where(eq(shareCodes.id, id));
   }
 
-  async incrementShareCodeUsage(id: string): Promise<void> {
-    await db.update(shareCodes).set({ usageCount: sql`${shareCodes.usageCount} + 1` }).where(eq(shareCodes.id, id));
+  // Returns false, without counting, once the share has used up maxUsages.
+  async incrementShareCodeUsage(id: string): Promise<boolean> {
+    const [updated] = await db
+      .update(shareCodes)
+      .set({ usageCount: sql`${shareCodes.usageCount} + 1` })
+      .where(and(
+        eq(shareCodes.id, id),
+        or(isNull(shareCodes.maxUsages), sql`${shareCodes.usageCount} < ${shareCodes.maxUsages}`),
+      ))
+      .returning({ id: shareCodes.id });
+    return Boolean(updated);
+  }
+
+  async getShareCodeById(id: string): Promise<ShareCode | undefined> {
+    const [share] = await db.select().from(shareCodes).where(eq(shareCodes.id, id));
+    return share || undefined;
+  }
+
+  async getShareRedemption(shareCodeId: string, userId: string): Promise<ShareRedemption | undefined> {
+    const [redemption] = await db
+      .select()
+      .from(shareRedemptions)
+      .where(and(eq(shareRedemptions.shareCodeId, shareCodeId), eq(shareRedemptions.userId, userId)));
+    return redemption || undefined;
+  }
+
+  async recordShareRedemption(shareCodeId: string, userId: string): Promise<ShareRedemption> {
+    const [redemption] = await db
+      .insert(shareRedemptions)
+      .values({ shareCodeId, userId })
+      .onConflictDoUpdate({
+        target: [shareRedemptions.shareCodeId, shareRedemptions.userId],
+        set: { lastAccessedAt: new Date() },
+      })
+      .returning();
+    return redemption;
+  }
+
+  async getExternalShareRedemption(shareCodeId: string, email: string): Promise<ShareRedemption | undefined> {
+    const [redemption] = await db
+      .select()
+      .from(shareRedemptions)
+      .where(and(eq(shareRedemptions.shareCodeId, shareCodeId), eq(shareRedemptions.email, email)));
+    return redemption || undefined;
+  }
+
+  async recordExternalShareRedemption(shareCodeId: string, email: string): Promise<ShareRedemption> {
+    const [redemption] = await db
+      .insert(shareRedemptions)
+      .values({ shareCodeId, email })
+      .onConflictDoUpdate({
+        target: [shareRedemptions.shareCodeId, shareRedemptions.email],
+        set: { lastAccessedAt: new Date() },
+      })
+      .returning();
+    return redemption;
+  }
+
+  async getShareRedemptionDetails(shareCodeId: string): Promise<ShareRedemptionDetail[]> {
+    return db
+      .select({
+        id: shareRedemptions.id,
+        email: shareRedemptions.email,
+        user: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
+        redeemedAt: shareRedemptions.redeemedAt,
+        lastAccessedAt: shareRedemptions.lastAccessedAt,
+      })
+      .from(shareRedemptions)
+      .leftJoin(users, eq(shareRedemptions.userId, users.id))
+      .where(eq(shareRedemptions.shareCodeId, shareCodeId))
+      .orderBy(desc(shareRedemptions.redeemedAt));
+  }
+
+  async createShareRecipients(recipients: InsertShareRecipient[]): Promise<ShareRecipient[]> {
+    if (recipients.length === 0) return [];
+    return db.insert(shareRecipients).values(recipients).returning();
+  }
+
+  async getShareRecipients(shareCodeId: string): Promise<ShareRecipient[]> {
+    return db.select().from(shareRecipients).where(eq(shareRecipients.shareCodeId, shareCodeId));
+  }
+
+  async getShareRecipientSummaries(shareCodeIds: string[]): Promise<(ShareRecipientSummary & { shareCodeId: string })[]> {
+    if (shareCodeIds.length === 0) return [];
+    return db
+      .select({
+        id: shareRecipients.id,
+        shareCodeId: shareRecipients.shareCodeId,
+        email: shareRecipients.email,
+        user: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      })
+      .from(shareRecipients)
+      .leftJoin(users, eq(shareRecipients.userId, users.id))
+      .where(inArray(shareRecipients.shareCodeId, shareCodeIds))
+      .orderBy(shareRecipients.createdAt);
+  }
+
+  async createShareVerificationCode(data: InsertShareVerificationCode): Promise<ShareVerificationCode> {
+    const [created] = await db.insert(shareVerificationCodes).values(data).returning();
+    return created;
+  }
+
+  async getLatestShareVerificationCode(shareCodeId: string, email: string): Promise<ShareVerificationCode | undefined> {
+    const [code] = await db
+      .select()
+      .from(shareVerificationCodes)
+      .where(and(eq(shareVerificationCodes.shareCodeId, shareCodeId), eq(shareVerificationCodes.email, email)))
+      .orderBy(desc(shareVerificationCodes.createdAt))
+      .limit(1);
+    return code || undefined;
+  }
+
+  async recordShareVerificationFailure(id: string): Promise<void> {
+    await db
+      .update(shareVerificationCodes)
+      .set({ failedAttempts: sql`${shareVerificationCodes.failedAttempts} + 1` })
+      .where(eq(shareVerificationCodes.id, id));
+  }
+
+  async consumeShareVerificationCode(id: string): Promise<boolean> {
+    const consumed = await db
+      .update(shareVerificationCodes)
+      .set({ usedAt: new Date() })
+      .where(and(eq(shareVerificationCodes.id, id), isNull(shareVerificationCodes.usedAt)))
+      .returning({ id: shareVerificationCodes.id });
+    return consumed.length > 0;
+  }
+
+  async getReceivedShares(userId: string): Promise<ReceivedShare[]> {
+    const { passwordHash, ...shareColumns } = getTableColumns(shareCodes);
+    return db
+      .select({
+        ...shareColumns,
+        hasPassword: sql<boolean>`${passwordHash} is not null`,
+        redeemedAt: shareRedemptions.redeemedAt,
+        lastAccessedAt: shareRedemptions.lastAccessedAt,
+        title: sql<string | null>`coalesce(${documents.title}, ${folders.name})`,
+        owner: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      })
+      .from(shareRedemptions)
+      .innerJoin(shareCodes, eq(shareRedemptions.shareCodeId, shareCodes.id))
+      .innerJoin(users, eq(shareCodes.createdBy, users.id))
+      .leftJoin(documents, eq(shareCodes.documentId, documents.id))
+      .leftJoin(folders, eq(shareCodes.folderId, folders.id))
+      .where(eq(shareRedemptions.userId, userId))
+      .orderBy(desc(shareRedemptions.lastAccessedAt));
   }
 
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    const [created] = await db.insert(auditLogs).values(log).returning();
+    const context = requestContext.getStore();
+    // Entries belong to the acting user's organization unless the caller says
+    // otherwise, so tenant-scoped audit views include them.
+    const organizationId =
+      log.organizationId !== undefined
+        ? log.organizationId
+        : log.userId
+          ? (await this.getUser(log.userId))?.organizationId ?? null
+          : null;
+    const [created] = await db
+      .insert(auditLogs)
+      .values({ apiTokenId: context?.apiTokenId, impersonatorId: context?.impersonatorId, ...log, organizationId })
+      .returning();
     return created;
   }
 
-  async getAuditLogs(filters?: { userId?: string; action?: string; limit?: number }): Promise<AuditLog[]> {
+  async getAuditLogs(filters?: { userId?: string; action?: string; limit?: number }, scope?: TenantScope): Promise<AuditLog[]> {
     let query = db.select().from(auditLogs);
     const conditions = [];
     
+    const tenant = tenantCondition(auditLogs.organizationId, scope);
+    if (tenant) {
+      conditions.push(tenant);
+    }
+    
     if (filters?.userId) {
       conditions.push(eq(auditLogs.userId, filters.userId));
     }
@@ -275,12 +1224,224 @@ export class DatabaseStorage implements IStorage {
     return session || undefined;
   }
 
+  async updateSession(id: string, data: Partial<InsertSession>): Promise<Session | undefined> {
+    const [updated] = await db.update(sessions).set(data).where(eq(sessions.id, id)).returning();
+    return updated || undefined;
+  }
+
   async deleteSession(id: string): Promise<void> {
     await db.delete(sessions).where(eq(sessions.id, id));
   }
 
-  async deleteUserSessions(userId: string): Promise<void> {
-    await db.delete(sessions).where(eq(sessions.userId, userId));
+  // Marks the row rotated unless another request already did; only one caller
+  // can win for a given refresh token.
+  async claimSessionRotation(id: string): Promise<boolean> {
+    const [claimed] = await db
+      .update(sessions)
+      .set({ rotatedAt: new Date() })
+      .where(and(eq(sessions.id, id), isNull(sessions.rotatedAt)))
+      .returning({ id: sessions.id });
+    return !!claimed;
+  }
+
+  // Rotated rows are kept for reuse detection until they would have expired.
+  async deleteExpiredSessions(): Promise<void> {
+    await db.delete(sessions).where(lt(sessions.expiresAt, new Date()));
+  }
+
+  // The current (unrotated, unexpired) row of a refresh-token family.
+  async getActiveSessionByFamily(familyId: string): Promise<Session | undefined> {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.familyId, familyId), isNull(sessions.rotatedAt), gt(sessions.expiresAt, new Date())));
+    return session || undefined;
+  }
+
+  async getActiveUserSessions(userId: string): Promise<Session[]> {
+    return db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.rotatedAt), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async deleteSessionFamily(familyId: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.familyId, familyId));
+  }
+
+  async deleteUserSessions(userId: string, exceptFamilyId?: string): Promise<void> {
+    await db
+      .delete(sessions)
+      .where(exceptFamilyId ? and(eq(sessions.userId, userId), ne(sessions.familyId, exceptFamilyId)) : eq(sessions.userId, userId));
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async getApiToken(id: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async getUserApiTokens(userId: string): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async updateApiToken(id: string, data: Partial<InsertApiToken>): Promise<ApiToken | undefined> {
+    const [updated] = await db.update(apiTokens).set(data).where(eq(apiTokens.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async createImpersonationSession(session: InsertImpersonationSession): Promise<ImpersonationSession> {
+    const [created] = await db.insert(impersonationSessions).values(session).returning();
+    return created;
+  }
+
+  async getImpersonationSession(id: string): Promise<ImpersonationSession | undefined> {
+    const [session] = await db.select().from(impersonationSessions).where(eq(impersonationSessions.id, id));
+    return session || undefined;
+  }
+
+  async endImpersonationSession(id: string): Promise<ImpersonationSession | undefined> {
+    const [ended] = await db
+      .update(impersonationSessions)
+      .set({ endedAt: new Date() })
+      .where(and(eq(impersonationSessions.id, id), isNull(impersonationSessions.endedAt)))
+      .returning();
+    return ended || undefined;
+  }
+
+  async getUserIdentity(issuer: string, subject: string): Promise<UserIdentity | undefined> {
+    const [identity] = await db.select().from(userIdentities)
+      .where(and(eq(userIdentities.issuer, issuer), eq(userIdentities.subject, subject)));
+    return identity || undefined;
+  }
+
+  async getUserIdentitiesByIssuer(issuer: string): Promise<UserIdentity[]> {
+    return db.select().from(userIdentities).where(eq(userIdentities.issuer, issuer));
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    const [created] = await db.insert(userIdentities).values(identity).returning();
+    return created;
+  }
+
+  async updateUserIdentity(id: string, data: Partial<InsertUserIdentity>): Promise<UserIdentity | undefined> {
+    const [updated] = await db.update(userIdentities).set(data).where(eq(userIdentities.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [created] = await db.insert(passwordResetTokens).values(token).returning();
+    return created;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async consumePasswordResetToken(id: string): Promise<boolean> {
+    const consumed = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return consumed.length > 0;
+  }
+
+  async deleteUserPasswordResetTokens(userId: string): Promise<void> {
+    await db.delete(passwordResetTokens).where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  async getPasswordPolicy(organizationId: string | null): Promise<PasswordPolicy | undefined> {
+    const [policy] = await db
+      .select()
+      .from(passwordPolicies)
+      .where(organizationId ? eq(passwordPolicies.organizationId, organizationId) : isNull(passwordPolicies.organizationId));
+    return policy || undefined;
+  }
+
+  // Select-then-write because a unique index does not treat NULL organizationIds as conflicting.
+  async upsertPasswordPolicy(organizationId: string | null, data: Partial<InsertPasswordPolicy>): Promise<PasswordPolicy> {
+    const existing = await this.getPasswordPolicy(organizationId);
+    if (existing) {
+      const [updated] = await db
+        .update(passwordPolicies)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(passwordPolicies.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(passwordPolicies).values({ ...data, organizationId }).returning();
+    return created;
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]> {
+    if (limit <= 0) return [];
+    return db
+      .select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+  }
+
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await db.insert(passwordHistory).values({ userId, passwordHash });
+    const kept = await this.getPasswordHistory(userId, Math.max(keep, 1));
+    const oldestKept = kept[kept.length - 1];
+    if (oldestKept) {
+      await db
+        .delete(passwordHistory)
+        .where(and(eq(passwordHistory.userId, userId), sql`${passwordHistory.createdAt} < ${oldestKept.createdAt}`));
+    }
+  }
+
+  async getLoginAttempt(scope: LoginAttempt["scope"], key: string): Promise<LoginAttempt | undefined> {
+    const [attempt] = await db
+      .select()
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key)));
+    return attempt || undefined;
+  }
+
+  async getLoginAttempts(scope: LoginAttempt["scope"]): Promise<LoginAttempt[]> {
+    return db.select().from(loginAttempts).where(eq(loginAttempts.scope, scope));
+  }
+
+  // Counts a failure atomically; a failure after a quiet period starts the count over.
+  async incrementLoginAttempt(scope: LoginAttempt["scope"], key: string, windowStart: Date, ip?: string): Promise<LoginAttempt> {
+    const [attempt] = await db
+      .insert(loginAttempts)
+      .values({ scope, key, failedCount: 1, lastFailedAt: new Date(), lastFailedIp: ip ?? null })
+      .onConflictDoUpdate({
+        target: [loginAttempts.scope, loginAttempts.key],
+        set: {
+          failedCount: sql`CASE WHEN ${loginAttempts.lastFailedAt} < ${windowStart} THEN 1 ELSE ${loginAttempts.failedCount} + 1 END`,
+          lastFailedAt: new Date(),
+          lastFailedIp: ip ?? null,
+        },
+      })
+      .returning();
+    return attempt;
+  }
+
+  async updateLoginAttempt(id: string, data: Partial<InsertLoginAttempt>): Promise<LoginAttempt | undefined> {
+    const [updated] = await db.update(loginAttempts).set(data).where(eq(loginAttempts.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteLoginAttempt(scope: LoginAttempt["scope"], key: string): Promise<void> {
+    await db.delete(loginAttempts).where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.key, key)));
   }
 
   async createUserActivity(activity: InsertUserActivity): Promise<UserActivity> {
@@ -314,18 +1475,48 @@ export class DatabaseStorage implements IStorage {
     return org || undefined;
   }
 
+  async getOrganizationByCode(code: string): Promise<Organization | undefined> {
+    const [org] = await db.select().from(organizations).where(eq(organizations.code, code));
+    return org || undefined;
+  }
+
   async createOrganization(org: InsertOrganization): Promise<Organization> {
     const [created] = await db.insert(organizations).values(org).returning();
     return created;
   }
 
+  async getOrganizations(): Promise<OrganizationWithCounts[]> {
+    return db
+      .select({
+        id: organizations.id,
+        name: organizations.name,
+        code: organizations.code,
+        createdAt: organizations.createdAt,
+        userCount: sql<number>`(select count(*) from ${users} where ${users.organizationId} = ${organizations.id})::int`,
+        departmentCount: sql<number>`(select count(*) from ${departments} where ${departments.organizationId} = ${organizations.id})::int`,
+        folderCount: sql<number>`(select count(*) from ${folders} where ${folders.organizationId} = ${organizations.id})::int`,
+        documentCount: sql<number>`(select count(*) from ${documents} where ${documents.organizationId} = ${organizations.id})::int`,
+      })
+      .from(organizations)
+      .orderBy(organizations.name);
+  }
+
+  async updateOrganization(id: string, data: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    const [updated] = await db.update(organizations).set(data).where(eq(organizations.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteOrganization(id: string): Promise<void> {
+    await db.delete(organizations).where(eq(organizations.id, id));
+  }
+
   async getDepartment(id: string): Promise<Department | undefined> {
     const [dept] = await db.select().from(departments).where(eq(departments.id, id));
     return dept || undefined;
   }
 
-  async getDepartments(): Promise<Department[]> {
-    return db.select().from(departments).orderBy(departments.name);
+  async getDepartments(scope?: TenantScope): Promise<Department[]> {
+    return db.select().from(departments).where(tenantCondition(departments.organizationId, scope)).orderBy(departments.name);
   }
 
   async createDepartment(dept: InsertDepartment): Promise<Department> {
@@ -369,19 +1560,23 @@ export class DatabaseStorage implements IStorage {
     await db.delete(employeeProfiles).where(eq(employeeProfiles.id, id));
   }
 
-  async getDashboardStats(): Promise<{ totalDocuments: number; totalFolders: number; recentUploads: number; sharedItems: number }> {
-    const [docCount] = await db.select({ count: sql<number>`count(*)` }).from(documents).where(eq(documents.status, "ACTIVE"));
-    const [folderCount] = await db.select({ count: sql<number>`count(*)` }).from(folders);
+  async getDashboardStats(scope?: TenantScope): Promise<{ totalDocuments: number; totalFolders: number; recentUploads: number; sharedItems: number }> {
+    const [docCount] = await db.select({ count: sql<number>`count(*)` }).from(documents)
+      .where(and(eq(documents.status, "ACTIVE"), tenantCondition(documents.organizationId, scope)));
+    const [folderCount] = await db.select({ count: sql<number>`count(*)` }).from(folders)
+      .where(and(isNull(folders.deletedAt), tenantCondition(folders.organizationId, scope)));
     
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
     const [recentCount] = await db.select({ count: sql<number>`count(*)` }).from(documents)
       .where(and(
         eq(documents.status, "ACTIVE"),
-        sql`${documents.uploadedAt} >= ${sevenDaysAgo}`
+        sql`${documents.uploadedAt} >= ${sevenDaysAgo}`,
+        tenantCondition(documents.organizationId, scope)
       ));
     
-    const [shareCount] = await db.select({ count: sql<number>`count(*)` }).from(shareCodes).where(eq(shareCodes.isActive, true));
+    const [shareCount] = await db.select({ count: sql<number>`count(*)` }).from(shareCodes)
+      .where(and(eq(shareCodes.isActive, true), tenantShareCondition(scope)));
     
     return {
       totalDocuments: Number(docCount?.count) || 0,
@@ -391,20 +1586,23 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getAdminStats(): Promise<{ totalUsers: number; activeUsers: number; totalDocuments: number; totalFolders: number; storageUsedMB: number; recentLogins: number }> {
-    const [userCount] = await db.select({ count: sql<number>`count(*)` }).from(users);
-    const [activeUserCount] = await db.select({ count: sql<number>`count(*)` }).from(users).where(eq(users.isActive, true));
-    const [docCount] = await db.select({ count: sql<number>`count(*)` }).from(documents);
-    const [folderCount] = await db.select({ count: sql<number>`count(*)` }).from(folders);
+  async getAdminStats(scope?: TenantScope): Promise<{ totalUsers: number; activeUsers: number; totalDocuments: number; totalFolders: number; storageUsedMB: number; recentLogins: number }> {
+    const [userCount] = await db.select({ count: sql<number>`count(*)` }).from(users).where(tenantCondition(users.organizationId, scope));
+    const [activeUserCount] = await db.select({ count: sql<number>`count(*)` }).from(users)
+      .where(and(eq(users.isActive, true), tenantCondition(users.organizationId, scope)));
+    const [docCount] = await db.select({ count: sql<number>`count(*)` }).from(documents).where(tenantCondition(documents.organizationId, scope));
+    const [folderCount] = await db.select({ count: sql<number>`count(*)` }).from(folders).where(tenantCondition(folders.organizationId, scope));
     
-    const [storageSum] = await db.select({ sum: sql<number>`coalesce(sum(${documents.sizeBytes}), 0)` }).from(documents);
+    const [storageSum] = await db.select({ sum: sql<number>`coalesce(sum(${documents.sizeBytes}), 0)` }).from(documents)
+      .where(tenantCondition(documents.organizationId, scope));
     
     const oneDayAgo = new Date();
     oneDayAgo.setDate(oneDayAgo.getDate() - 1);
     const [loginCount] = await db.select({ count: sql<number>`count(*)` }).from(auditLogs)
       .where(and(
         eq(auditLogs.action, "LOGIN"),
-        sql`${auditLogs.createdAt} >= ${oneDayAgo}`
+        sql`${auditLogs.createdAt} >= ${oneDayAgo}`,
+        tenantCondition(auditLogs.organizationId, scope)
       ));
     
     return {
@@ -417,18 +1615,21 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getAnalyticsDashboard(): Promise<{
+  async getAnalyticsDashboard(scope?: TenantScope): Promise<{
     overview: { totalUsers: number; totalDocuments: number; totalFolders: number; storageUsedMB: number; activeShares: number };
     activityLast7Days: { date: string; uploads: number; conversions: number; downloads: number }[];
     topUsers: { id: string; username: string; actionsCount: number }[];
     fileTypeDistribution: { mimeType: string; count: number }[];
     recentActivity: AuditLog[];
   }> {
-    const [userCount] = await db.select({ count: sql<number>`count(*)` }).from(users);
-    const [docCount] = await db.select({ count: sql<number>`count(*)` }).from(documents);
-    const [folderCount] = await db.select({ count: sql<number>`count(*)` }).from(folders);
-    const [storageSum] = await db.select({ sum: sql<number>`coalesce(sum(${documents.sizeBytes}), 0)` }).from(documents);
-    const [shareCount] = await db.select({ count: sql<number>`count(*)` }).from(shareCodes).where(eq(shareCodes.isActive, true));
+    const [userCount] = await db.select({ count: sql<number>`count(*)` }).from(users).where(tenantCondition(users.organizationId, scope));
+    const [docCount] = await db.select({ count: sql<number>`count(*)` }).from(documents).where(tenantCondition(documents.organizationId, scope));
+    const [folderCount] = await db.select({ count: sql<number>`count(*)` }).from(folders).where(tenantCondition(folders.organizationId, scope));
+    const [storageSum] = await db.select({ sum: sql<number>`coalesce(sum(${documents.sizeBytes}), 0)` }).from(documents)
+      .where(tenantCondition(documents.organizationId, scope));
+    const [shareCount] = await db.select({ count: sql<number>`count(*)` }).from(shareCodes)
+      .where(and(eq(shareCodes.isActive, true), tenantShareCondition(scope)));
+    const auditTenant = tenantCondition(auditLogs.organizationId, scope);
 
     const activityLast7Days: { date: string; uploads: number; conversions: number; downloads: number }[] = [];
     for (let i = 6; i >= 0; i--) {
@@ -443,6 +1644,8 @@ export class DatabaseStorage implements IStorage {
           eq(auditLogs.action, "UPLOAD"),
           sql`${auditLogs.createdAt} >= ${date.toISOString()}`,
           sql`${auditLogs.createdAt} < ${nextDate.toISOString()}`
+       ,
+          auditTenant
         ));
       
       const [convertCount] = await db.select({ count: sql<number>`count(*)` }).from(auditLogs)
@@ -450,6 +1653,8 @@ export class DatabaseStorage implements IStorage {
           eq(auditLogs.action, "CONVERT"),
           sql`${auditLogs.createdAt} >= ${date.toISOString()}`,
           sql`${auditLogs.createdAt} < ${nextDate.toISOString()}`
+       ,
+          auditTenant
         ));
       
       const [downloadCount] = await db.select({ count: sql<number>`count(*)` }).from(auditLogs)
@@ -457,6 +1662,8 @@ export class DatabaseStorage implements IStorage {
           eq(auditLogs.action, "DOWNLOAD"),
           sql`${auditLogs.createdAt} >= ${date.toISOString()}`,
           sql`${auditLogs.createdAt} < ${nextDate.toISOString()}`
+       ,
+          auditTenant
         ));
       
       activityLast7Days.push({
@@ -467,12 +1674,12 @@ export class DatabaseStorage implements IStorage {
       });
     }
 
-    const recentActivity = await db.select().from(auditLogs).orderBy(desc(auditLogs.createdAt)).limit(10);
+    const recentActivity = await db.select().from(auditLogs).where(auditTenant).orderBy(desc(auditLogs.createdAt)).limit(10);
 
     const fileTypeResults = await db.select({
       mimeType: documents.mimeType,
       count: sql<number>`count(*)`
-    }).from(documents).groupBy(documents.mimeType).orderBy(desc(sql`count(*)`)).limit(10);
+    }).from(documents).where(tenantCondition(documents.organizationId, scope)).groupBy(documents.mimeType).orderBy(desc(sql`count(*)`)).limit(10);
 
     return {
       overview: {
@@ -496,9 +1703,16 @@ export class DatabaseStorage implements IStorage {
     maxSize?: number;
     startDate?: Date;
     endDate?: Date;
+    tags?: string[];
+    metadata?: Record<string, string>;
     limit?: number;
-  }): Promise<Document[]> {
-    let whereConditions: any[] = [];
+  }, principal?: AccessPrincipal, scope?: TenantScope): Promise<Document[]> {
+    let whereConditions: any[] = [ne(documents.status, "DELETED")];
+    
+    const readable = await this.readableDocumentsCondition(principal, scope);
+    if (readable) {
+      whereConditions.push(readable);
+    }
     
     if (query && query.trim()) {
       whereConditions.push(
@@ -527,15 +1741,15 @@ export class DatabaseStorage implements IStorage {
     if (filters?.endDate) {
       whereConditions.push(sql`${documents.uploadedAt} <= ${filters.endDate}`);
     }
+    for (const tag of filters?.tags ?? []) {
+      whereConditions.push(taggedWith(tag));
+    }
+    for (const [key, value] of Object.entries(filters?.metadata ?? {})) {
+      whereConditions.push(sql`${documents.metadata} ->> ${key} ilike ${`%${value}%`}`);
+    }
     
     const queryLimit = filters?.limit || 50;
     
-    if (whereConditions.length === 0) {
-      return db.select().from(documents)
-        .orderBy(desc(documents.uploadedAt))
-        .limit(queryLimit);
-    }
-    
     return db.select().from(documents)
       .where(and(...whereConditions))
       .orderBy(desc(documents.uploadedAt))
@@ -0,0 +1,216 @@
+import { storage, type TenantScope } from "./storage";
+import type { AccessPrincipal } from "@shared/permissions";
+import type {
+  Department, InsertDepartment, Document, InsertDocument, Folder, InsertFolder, InsertUser, User, UpdateDocument, UpdateFolder,
+  RetentionPolicy, InsertRetentionPolicy,
+} from "@shared/schema";
+
+type SearchFilters = Parameters<typeof storage.searchDocuments>[1];
+
+// The only columns a plain update may write; see updateFolderSchema and
+// updateDocumentSchema. Everything else changes through its own endpoint.
+const FOLDER_UPDATE_COLUMNS = ["name", "parentFolderId"];
+const DOCUMENT_UPDATE_COLUMNS = ["title", "description", "folderId", "metadata"];
+
+function onlyColumns<T extends object>(data: T, columns: string[]): T {
+  return Object.fromEntries(Object.entries(data).filter(([key]) => columns.includes(key))) as T;
+}
+
+// Storage as one organization sees it. Routes reach users, departments,
+// folders, documents, audit logs and analytics through this so a caller can
+// neither read nor write another organization's rows: those behave exactly
+// like rows that do not exist. Platform-wide callers (SUPER_ADMIN) get an
+// unscoped instance. Folders and documents in the recycle bin are only reached
+// through the trash methods.
+export class TenantStorage {
+  constructor(readonly scope: TenantScope | undefined) {}
+
+  owns(row: { organizationId: string | null } | undefined): boolean {
+    if (!row) return false;
+    return !this.scope || row.organizationId === this.scope.organizationId;
+  }
+
+  private own<T extends { organizationId: string | null }>(row: T | undefined): T | undefined {
+    return this.owns(row) ? row : undefined;
+  }
+
+  // New rows always land in the caller's organization.
+  private stamp<T extends { organizationId?: string | null }>(data: T): T {
+    return this.scope ? { ...data, organizationId: this.scope.organizationId } : data;
+  }
+
+  // Scoped callers cannot move rows to another organization.
+  private unstamp<T extends { organizationId?: string | null }>(data: T): T {
+    if (!this.scope) return data;
+    const { organizationId: _ignored, ...rest } = data;
+    return rest as T;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.own(await storage.getUser(id));
+  }
+
+  getAllUsers(): Promise<User[]> {
+    return storage.getAllUsers(this.scope);
+  }
+
+  createUser(data: InsertUser): Promise<User> {
+    return storage.createUser(this.stamp(data));
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    if (!(await this.getUser(id))) return undefined;
+    return storage.updateUser(id, this.unstamp(data));
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    if (!(await this.getUser(id))) return false;
+    await storage.deleteUser(id);
+    return true;
+  }
+
+  async getDepartment(id: string): Promise<Department | undefined> {
+    return this.own(await storage.getDepartment(id));
+  }
+
+  getDepartments(): Promise<Department[]> {
+    return storage.getDepartments(this.scope);
+  }
+
+  createDepartment(data: InsertDepartment): Promise<Department> {
+    return storage.createDepartment(this.stamp(data));
+  }
+
+  async updateDepartment(id: string, data: Partial<InsertDepartment>): Promise<Department | undefined> {
+    if (!(await this.getDepartment(id))) return undefined;
+    return storage.updateDepartment(id, this.unstamp(data));
+  }
+
+  async deleteDepartment(id: string): Promise<boolean> {
+    if (!(await this.getDepartment(id))) return false;
+    await storage.deleteDepartment(id);
+    return true;
+  }
+
+  async getFolder(id: string): Promise<Folder | undefined> {
+    const folder = this.own(await storage.getFolder(id));
+    return folder?.deletedAt ? undefined : folder;
+  }
+
+  getFolderWithContents(id: string | null, principal: AccessPrincipal) {
+    return storage.getFolderWithContents(id, principal, this.scope);
+  }
+
+  getFolderAccess(folderId: string | null, principal: AccessPrincipal) {
+    return storage.getFolderAccess(folderId, principal, this.scope);
+  }
+
+  async createFolder(data: InsertFolder): Promise<Folder | undefined> {
+    if (data.parentFolderId && !(await this.getFolder(data.parentFolderId))) return undefined;
+    return storage.createFolder(this.stamp(data));
+  }
+
+  async updateFolder(id: string, data: UpdateFolder): Promise<Folder | undefined> {
+    if (!(await this.getFolder(id))) return undefined;
+    if (data.parentFolderId && !(await this.getFolder(data.parentFolderId))) return undefined;
+    return storage.updateFolder(id, onlyColumns(data, FOLDER_UPDATE_COLUMNS));
+  }
+
+  async getDocument(id: string): Promise<Document | undefined> {
+    const doc = this.own(await storage.getDocument(id));
+    return doc?.status === "DELETED" ? undefined : doc;
+  }
+
+  getDocuments(filters: { folderId?: string; status?: string; tags?: string[]; limit?: number } | undefined, principal: AccessPrincipal) {
+    return storage.getDocuments(filters, principal, this.scope);
+  }
+
+  searchDocuments(query: string, filters: SearchFilters, principal: AccessPrincipal) {
+    return storage.searchDocuments(query, filters, principal, this.scope);
+  }
+
+  async createDocument(data: InsertDocument): Promise<Document | undefined> {
+    if (data.folderId && !(await this.getFolder(data.folderId))) return undefined;
+    return storage.createDocument(this.stamp(data));
+  }
+
+  async updateDocument(id: string, data: UpdateDocument): Promise<Document | undefined> {
+    if (!(await this.getDocument(id))) return undefined;
+    if (data.folderId && !(await this.getFolder(data.folderId))) return undefined;
+    return storage.updateDocument(id, onlyColumns(data, DOCUMENT_UPDATE_COLUMNS));
+  }
+
+  getTrash(deletedBy?: string) {
+    return storage.getTrash({ deletedBy }, this.scope);
+  }
+
+  // Only recycle bin entries themselves; what was deleted along with a folder
+  // comes back or goes with it.
+  async getTrashedDocument(id: string): Promise<Document | undefined> {
+    const doc = this.own(await storage.getDocument(id));
+    return doc?.status === "DELETED" && !doc.deletedWithFolderId ? doc : undefined;
+  }
+
+  async getTrashedFolder(id: string): Promise<Folder | undefined> {
+    const folder = this.own(await storage.getFolder(id));
+    return folder?.deletedAt && !folder.deletedWithFolderId ? folder : undefined;
+  }
+
+  getMetadataFields() {
+    return storage.getMetadataFieldsInScope(this.scope);
+  }
+
+  async getRetentionPolicy(id: string): Promise<RetentionPolicy | undefined> {
+    return this.own(await storage.getRetentionPolicy(id));
+  }
+
+  getRetentionPolicies(): Promise<RetentionPolicy[]> {
+    return storage.getRetentionPolicies(this.scope);
+  }
+
+  createRetentionPolicy(data: InsertRetentionPolicy): Promise<RetentionPolicy> {
+    return storage.createRetentionPolicy(this.stamp(data));
+  }
+
+  async updateRetentionPolicy(id: string, data: Partial<InsertRetentionPolicy>): Promise<RetentionPolicy | undefined> {
+    if (!(await this.getRetentionPolicy(id))) return undefined;
+    return storage.updateRetentionPolicy(id, this.unstamp(data));
+  }
+
+  async deleteRetentionPolicy(id: string): Promise<boolean> {
+    if (!(await this.getRetentionPolicy(id))) return false;
+    await storage.deleteRetentionPolicy(id);
+    return true;
+  }
+
+  getTagCounts(principal: AccessPrincipal) {
+    return storage.getTagCounts(principal, this.scope);
+  }
+
+  mergeTags(sources: string[], target: string) {
+    return storage.mergeTags(sources, target, this.scope);
+  }
+
+  getAuditLogs(filters?: { userId?: string; action?: string; limit?: number }) {
+    return storage.getAuditLogs(filters, this.scope);
+  }
+
+  getDashboardStats() {
+    return storage.getDashboardStats(this.scope);
+  }
+
+  getAdminStats() {
+    return storage.getAdminStats(this.scope);
+  }
+
+  getAnalyticsDashboard() {
+    return storage.getAnalyticsDashboard(this.scope);
+  }
+}
+
+const platformWide = new TenantStorage(undefined);
+
+export function tenantStorageFor(user: { role: string; organizationId?: string | null }): TenantStorage {
+  if (user.role === "SUPER_ADMIN") return platformWide;
+  return new TenantStorage({ organizationId: user.organizationId ?? null });
+}
@@ -0,0 +1,115 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+import { startTestDirectory, type DirectoryEntry, type TestDirectory } from "./support/ldap-server";
+import type { Organization } from "@shared/schema";
+
+const BASE_DN = "ou=people,dc=example,dc=com";
+
+let database: TestDatabase;
+let directory: TestDirectory;
+let storage: typeof import("../storage").storage;
+let directorySync: typeof import("../services/directory-sync");
+let acme: Organization;
+let other: Organization;
+
+function person(uid: string, department: string, extra: Record<string, string> = {}): DirectoryEntry {
+  return {
+    dn: `uid=${uid},ou=${department},${BASE_DN}`,
+    attributes: {
+      objectClass: ["top", "person", "inetOrgPerson"],
+      entryUUID: `uuid-${uid}`,
+      uid,
+      mail: `${uid}@example.com`,
+      givenName: uid[0].toUpperCase() + uid.slice(1),
+      sn: "Example",
+      ...extra,
+    },
+  };
+}
+
+before(async () => {
+  database = await startTestDatabase();
+  directory = await startTestDirectory(BASE_DN);
+  process.env.LDAP_URL = directory.url;
+  process.env.LDAP_USER_BASE_DN = BASE_DN;
+  process.env.LDAP_BIND_DN = directory.bindDn;
+  process.env.LDAP_BIND_PASSWORD = directory.bindPassword;
+  process.env.LDAP_ORG_CODE = "ACME";
+
+  ({ storage } = await import("../storage"));
+  directorySync = await import("../services/directory-sync");
+  acme = await storage.createOrganization({ name: "Acme", code: "ACME" });
+  other = await storage.createOrganization({ name: "Other", code: "OTHER" });
+});
+
+after(async () => {
+  await directory?.stop();
+  await database?.stop();
+});
+
+describe("directory sync", () => {
+  it("creates directory users in the sync's organization", async () => {
+    directory.entries = [person("alice", "Sales")];
+    const report = await directorySync.runDirectorySync({ dryRun: false });
+
+    assert.deepEqual(report.errors, []);
+    const alice = await storage.getUserByEmail("alice@example.com");
+    assert.equal(alice?.organizationId, acme.id);
+    const profile = await storage.getEmployeeProfileByUserId(alice!.id);
+    const department = (await storage.getDepartments()).find((d) => d.id === profile?.departmentId);
+    assert.equal(department?.organizationId, acme.id);
+  });
+
+  it("does not take over an account of another organization with the same email", async () => {
+    const outsider = await storage.createUser({
+      organizationId: other.id,
+      email: "bob@example.com",
+      username: "bob.other",
+      password: "unused",
+      firstName: "Robert",
+      lastName: "Other",
+      role: "ORG_ADMIN",
+    });
+    directory.entries = [person("alice", "Sales"), person("bob", "Sales")];
+    const report = await directorySync.runDirectorySync({ dryRun: false });
+
+    assert.ok(report.errors.some((error) => error.includes("bob@example.com belongs to an account in another organization")));
+    const after = await storage.getUser(outsider.id);
+    assert.equal(after?.firstName, "Robert");
+    assert.equal(after?.organizationId, other.id);
+    assert.equal(await storage.getEmployeeProfileByUserId(outsider.id), undefined);
+    const identities = await storage.getUserIdentitiesByIssuer(`ldap:${BASE_DN}`);
+    assert.ok(!identities.some((identity) => identity.userId === outsider.id));
+  });
+
+  it("does not assign a department of another organization with the same code", async () => {
+    const foreign = await storage.createDepartment({ organizationId: other.id, name: "Legal", code: "LEGAL" });
+    directory.entries = [person("alice", "Sales"), person("dave", "Legal")];
+    const report = await directorySync.runDirectorySync({ dryRun: false });
+
+    assert.ok(report.errors.some((error) => error.includes("department code LEGAL belongs to another organization")));
+    for (const user of await storage.getAllUsers({ organizationId: acme.id })) {
+      assert.notEqual((await storage.getEmployeeProfileByUserId(user.id))?.departmentId, foreign.id);
+    }
+  });
+
+  it("sets the monitor from the manager attribute and clears it when the manager is removed", async () => {
+    const managed = person("erin", "Sales", { manager: `uid=alice,ou=Sales,${BASE_DN}` });
+    directory.entries = [person("alice", "Sales"), managed];
+    await directorySync.runDirectorySync({ dryRun: false });
+
+    const alice = await storage.getUserByEmail("alice@example.com");
+    const erin = await storage.getUserByEmail("erin@example.com");
+    assert.equal((await storage.getEmployeeProfileByUserId(erin!.id))?.monitorId, alice!.id);
+
+    delete managed.attributes.manager;
+    const report = await directorySync.runDirectorySync({ dryRun: false });
+
+    assert.deepEqual(
+      report.changes.find((change) => change.userId === erin!.id)?.fields.manager,
+      { from: "alice", to: null },
+    );
+    assert.equal((await storage.getEmployeeProfileByUserId(erin!.id))?.monitorId, null);
+  });
+});
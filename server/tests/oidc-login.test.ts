@@ -0,0 +1,122 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+import { startOidcProvider, type TestOidcProvider } from "./support/oidc-provider";
+import { startTestApp, type TestApp } from "./support/app";
+import type { OidcClaims } from "../services/oidc";
+
+let database: TestDatabase;
+let provider: TestOidcProvider;
+let app: TestApp;
+let storage: typeof import("../storage").storage;
+
+before(async () => {
+  database = await startTestDatabase();
+  provider = await startOidcProvider();
+  process.env.OIDC_ISSUER = provider.issuer;
+  process.env.OIDC_CLIENT_ID = provider.clientId;
+  process.env.OIDC_ROLE_MAP = "dms-admins=ORG_ADMIN";
+  app = await startTestApp();
+  ({ storage } = await import("../storage"));
+});
+
+after(async () => {
+  await app?.stop();
+  await provider?.stop();
+  await database?.stop();
+});
+
+// Walks the browser side of the SSO flow and returns what the callback put in
+// the login page's URL fragment: a hand-off token or an error message.
+async function signInWithSso(claims: Omit<OidcClaims, "nonce">): Promise<URLSearchParams> {
+  provider.signInAs(claims);
+  const login = await fetch(`${app.baseUrl}/api/auth/oidc/login`, { redirect: "manual" });
+  const cookie = login.headers.get("set-cookie")!.split(";")[0];
+  const authorize = await fetch(login.headers.get("location")!, { redirect: "manual" });
+  const callback = await fetch(authorize.headers.get("location")!, { redirect: "manual", headers: { cookie } });
+  return new URLSearchParams(new URL(callback.headers.get("location")!, app.baseUrl).hash.slice(1));
+}
+
+async function completeSso(handoffToken: string | null) {
+  const response = await fetch(`${app.baseUrl}/api/auth/oidc/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ handoffToken }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe("OIDC sign-in", () => {
+  it("provisions a new user on first sign-in and signs them in", async () => {
+    const fragment = await signInWithSso({ sub: "new-staff", email: "New.Staff@example.com", email_verified: true });
+    const { status, body } = await completeSso(fragment.get("sso"));
+
+    assert.equal(status, 200);
+    assert.ok(body.token);
+    const user = await storage.getUserByEmail("new.staff@example.com");
+    assert.equal(user?.role, "STAFF");
+    assert.ok(await storage.getUserIdentity(provider.issuer, "new-staff"));
+  });
+
+  it("accepts each hand-off token only once", async () => {
+    const fragment = await signInWithSso({ sub: "repeat", email: "repeat@example.com", email_verified: true });
+    assert.equal((await completeSso(fragment.get("sso"))).status, 200);
+    assert.equal((await completeSso(fragment.get("sso"))).status, 401);
+  });
+
+  it("requires two-factor setup when the mapped role requires it", async () => {
+    const fragment = await signInWithSso({
+      sub: "org-admin",
+      email: "org.admin@example.com",
+      email_verified: true,
+      roles: ["dms-admins"],
+    });
+    const { status, body } = await completeSso(fragment.get("sso"));
+
+    assert.equal(status, 200);
+    assert.equal(body.twoFactorSetupRequired, true);
+    assert.ok(body.challengeToken);
+    assert.equal(body.token, undefined);
+  });
+
+  it("asks for the code when the linked user has two-factor enabled", async () => {
+    const existing = await storage.createUser({
+      email: "enrolled@example.com",
+      username: "enrolled",
+      password: "unused",
+      firstName: "Enrolled",
+      lastName: "User",
+      role: "STAFF",
+    });
+    await storage.upsertUserTwoFactor(existing.id, { secret: "JBSWY3DPEHPK3PXP", isEnabled: true });
+
+    const fragment = await signInWithSso({ sub: "enrolled", email: "enrolled@example.com", email_verified: true });
+    const { body } = await completeSso(fragment.get("sso"));
+
+    assert.equal(body.twoFactorRequired, true);
+    assert.equal(body.token, undefined);
+    assert.equal((await storage.getUserIdentity(provider.issuer, "enrolled"))?.userId, existing.id);
+  });
+
+  it("refuses to link an existing admin account by email", async () => {
+    const admin = await storage.getUserByUsername("admin");
+    const fragment = await signInWithSso({
+      sub: "takeover",
+      email: admin!.email,
+      email_verified: true,
+      roles: ["dms-admins"],
+    });
+
+    assert.equal(fragment.get("sso"), null);
+    assert.match(fragment.get("sso_error") ?? "", /cannot be linked/);
+    assert.equal(await storage.getUserIdentity(provider.issuer, "takeover"), undefined);
+    assert.equal((await storage.getUser(admin!.id))?.role, "SUPER_ADMIN");
+  });
+
+  it("refuses to link by an unverified email", async () => {
+    const fragment = await signInWithSso({ sub: "unverified", email: "enrolled@example.com", email_verified: false });
+
+    assert.match(fragment.get("sso_error") ?? "", /already exists/);
+    assert.equal(await storage.getUserIdentity(provider.issuer, "unverified"), undefined);
+  });
+});
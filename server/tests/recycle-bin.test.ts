@@ -0,0 +1,80 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+import { createDocument, createUser } from "./support/fixtures";
+import type { Document, Folder, Organization, User } from "@shared/schema";
+
+let database: TestDatabase;
+let storage: typeof import("../storage").storage;
+let recycleBin: typeof import("../services/recycle-bin");
+let org: Organization;
+let owner: User;
+
+// A folder closed to staff, with one document trashed on its own
+// before the folder itself.
+async function restrictedFolderWithTrashedDocument(name: string): Promise<{ folder: Folder; doc: Document }> {
+  const folder = await storage.createFolder({ organizationId: org.id, name, createdBy: owner.id });
+  await storage.setFolderPermission({
+    folderId: folder.id,
+    principalType: "ROLE",
+    principalId: "STAFF",
+    level: "READ",
+    deny: true,
+    createdBy: owner.id,
+  });
+  const doc = await createDocument(folder, `${name}-doc`, owner.id);
+  await recycleBin.trashDocument(doc, owner.id);
+  await recycleBin.trashFolder(folder, owner.id);
+  return { folder, doc: (await storage.getDocument(doc.id))! };
+}
+
+before(async () => {
+  database = await startTestDatabase();
+  ({ storage } = await import("../storage"));
+  recycleBin = await import("../services/recycle-bin");
+
+  org = await storage.createOrganization({ name: "Acme", code: "ACME" });
+  owner = await createUser(org.id, "owner", "ORG_ADMIN");
+});
+
+after(async () => {
+  await database?.stop();
+});
+
+describe("recycle bin restore", () => {
+  it("recreates a trashed folder with its creator and access list", async () => {
+    const { folder, doc } = await restrictedFolderWithTrashedDocument("Payroll");
+
+    const restored = await recycleBin.restoreDocument(doc);
+
+    assert.notEqual(restored.folderId, folder.id);
+    const recreated = await storage.getFolder(restored.folderId!);
+    assert.equal(recreated?.name, "Payroll");
+    assert.equal(recreated?.createdBy, owner.id);
+    const permissions = await storage.getFolderPermissions(recreated!.id);
+    assert.deepEqual(
+      permissions.map(({ principalType, principalId, level, deny }) => ({ principalType, principalId, level, deny })),
+      [{ principalType: "ROLE", principalId: "STAFF", level: "READ", deny: true }],
+    );
+  });
+
+  it("refuses to recreate a purged folder that restricted access", async () => {
+    const { folder, doc } = await restrictedFolderWithTrashedDocument("Legal");
+    await recycleBin.purgeFolder(folder);
+
+    await assert.rejects(recycleBin.restoreDocument(doc), recycleBin.RestoreError);
+    assert.equal((await storage.getDocument(doc.id))?.status, "DELETED");
+    assert.deepEqual((await storage.getFoldersByParent(null)).filter((f) => f.name === "Legal"), []);
+  });
+
+  it("lands under the nearest surviving folder of the path", async () => {
+    const parent = await storage.createFolder({ organizationId: org.id, name: "Clients", createdBy: owner.id });
+    const child = await storage.createFolder({ organizationId: org.id, name: "Archive", parentFolderId: parent.id, createdBy: owner.id });
+    const doc = await createDocument(child, "archived", owner.id);
+    await recycleBin.trashDocument(doc, owner.id);
+    await recycleBin.trashFolder(child, owner.id);
+
+    const trashed = (await storage.getDocument(doc.id))!;
+    assert.equal((await recycleBin.restoreAnchor(trashed.folderId, trashed.trashPath)).anchorId, parent.id);
+  });
+});
@@ -0,0 +1,66 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+import { createDocument, createUser } from "./support/fixtures";
+import type { Document, Folder, ShareCode, User } from "@shared/schema";
+
+let database: TestDatabase;
+let storage: typeof import("../storage").storage;
+let shareAccess: typeof import("../services/share-access");
+let sharer: User;
+let shared: Folder;
+let secret: Folder;
+let openDoc: Document;
+let secretDoc: Document;
+let folderShare: ShareCode;
+
+before(async () => {
+  database = await startTestDatabase();
+  ({ storage } = await import("../storage"));
+  shareAccess = await import("../services/share-access");
+
+  const org = await storage.createOrganization({ name: "Acme", code: "ACME" });
+  const admin = await createUser(org.id, "admin.acme", "ORG_ADMIN");
+  sharer = await createUser(org.id, "sharer", "STAFF");
+
+  shared = await storage.createFolder({ organizationId: org.id, name: "Shared", createdBy: admin.id });
+  secret = await storage.createFolder({ organizationId: org.id, name: "Secret", parentFolderId: shared.id, createdBy: admin.id });
+  await storage.setFolderPermission({
+    folderId: secret.id,
+    principalType: "USER",
+    principalId: sharer.id,
+    level: "READ",
+    deny: true,
+    createdBy: admin.id,
+  });
+  openDoc = await createDocument(shared, "open", admin.id);
+  secretDoc = await createDocument(secret, "secret", admin.id);
+  folderShare = await storage.createShareCode({ code: "FOLDER-SHARE", folderId: shared.id, createdBy: sharer.id, permission: "VIEW" });
+});
+
+after(async () => {
+  await database?.stop();
+});
+
+describe("share access", () => {
+  it("lists only what the creator can read", async () => {
+    const contents = await shareAccess.getShareContents(folderShare);
+
+    assert.deepEqual(contents?.folders.map((folder) => folder.id), []);
+    assert.deepEqual(contents?.documents.map((doc) => doc.id), [openDoc.id]);
+  });
+
+  it("does not open subfolders or documents the creator cannot read", async () => {
+    assert.equal(await shareAccess.getShareContents(folderShare, secret.id), null);
+    assert.equal(await shareAccess.shareCoversFolder(folderShare, secret.id), false);
+    assert.equal(await shareAccess.shareCoversDocument(folderShare, secretDoc), false);
+    assert.equal(await shareAccess.shareCoversDocument(folderShare, openDoc), true);
+  });
+
+  it("does not cover a shared document the creator can no longer read", async () => {
+    const documentShare = await storage.createShareCode({ code: "DOC-SHARE", documentId: secretDoc.id, createdBy: sharer.id, permission: "VIEW" });
+
+    assert.equal(await shareAccess.shareCoversDocument(documentShare, secretDoc), false);
+    assert.deepEqual((await shareAccess.getShareContents(documentShare))?.documents, []);
+  });
+});
@@ -0,0 +1,33 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+
+export interface TestApp {
+  baseUrl: string;
+  stop: () => Promise<void>;
+}
+
+// The API as server/index.ts mounts it, without the client or schedulers, on
+// a free local port. Needs startTestDatabase (and any env the routes read at
+// import) to have run first.
+export async function startTestApp(): Promise<TestApp> {
+  const { default: express } = await import("express");
+  const { registerRoutes } = await import("../../routes");
+
+  const app = express();
+  app.use(express.json());
+  const server = createServer(app);
+  await registerRoutes(server, app);
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.APP_URL = baseUrl;
+
+  return {
+    baseUrl,
+    stop: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
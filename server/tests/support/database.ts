@@ -0,0 +1,35 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import * as schema from "@shared/schema";
+
+export interface TestDatabase {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+// An in-memory Postgres (PGlite) with the current schema, served over TCP so
+// server/db.ts connects to it exactly as it would to a real database. Set
+// DATABASE_URL before server/db.ts is first imported, so anything that loads
+// storage has to be imported dynamically after this resolves.
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const pglite = await PGlite.create();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await pglite.exec(statement);
+  }
+
+  const server = new PGLiteSocketServer({ db: pglite, port: 0, maxConnections: 10 });
+  await server.start();
+  const url = `postgres://postgres@${server.getServerConn()}/postgres?sslmode=disable`;
+  process.env.DATABASE_URL = url;
+
+  return {
+    url,
+    stop: async () => {
+      const { pool } = await import("../../db");
+      await pool.end();
+      await server.stop();
+      await pglite.close();
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { Document, Folder, InsertDocument, InsertUser, User } from "@shared/schema";
+
+// Rows the storage tests build on. These load storage on first use, so like
+// startTestApp they need startTestDatabase to have run first.
+
+export async function createUser(
+  organizationId: string,
+  username: string,
+  role: User["role"],
+  fields: Partial<InsertUser> = {},
+): Promise<User> {
+  const { storage } = await import("../../storage");
+  return storage.createUser({
+    organizationId,
+    email: `${username}@example.com`,
+    username,
+    password: "unused",
+    firstName: username,
+    lastName: "Example",
+    role,
+    ...fields,
+  });
+}
+
+// A PDF in folder. Nothing is written to filePath.
+export async function createDocument(
+  folder: Folder,
+  title: string,
+  uploadedBy: string,
+  fields: Partial<InsertDocument> = {},
+): Promise<Document> {
+  const { storage } = await import("../../storage");
+  return storage.createDocument({
+    organizationId: folder.organizationId,
+    folderId: folder.id,
+    title,
+    filePath: `uploads/${title}.pdf`,
+    originalName: `${title}.pdf`,
+    mimeType: "application/pdf",
+    sizeBytes: 1,
+    uploadedBy,
+    ...fields,
+  });
+}
@@ -0,0 +1,59 @@
+import ldap from "ldapjs";
+
+export interface DirectoryEntry {
+  dn: string;
+  attributes: Record<string, string | string[]>;
+}
+
+export interface TestDirectory {
+  url: string;
+  bindDn: string;
+  bindPassword: string;
+  // What searches return; tests replace it between syncs.
+  entries: DirectoryEntry[];
+  stop: () => Promise<void>;
+}
+
+// An in-process LDAP server with one service account and a flat list of
+// entries, enough for directory sync to bind and run its subtree search.
+export async function startTestDirectory(baseDn: string): Promise<TestDirectory> {
+  const bindDn = `cn=sync,${baseDn}`;
+  const bindPassword = "sync-secret";
+  const server = ldap.createServer();
+
+  const directory: TestDirectory = {
+    url: "",
+    bindDn,
+    bindPassword,
+    entries: [],
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+
+  server.bind(baseDn, (req: any, res: any, next: any) => {
+    if (req.dn.toString() !== ldap.parseDN(bindDn).toString() || req.credentials !== bindPassword) {
+      return next(new ldap.InvalidCredentialsError());
+    }
+    res.end();
+    return next();
+  });
+
+  server.search(baseDn, (req: any, res: any, next: any) => {
+    const searchBase = ldap.parseDN(req.dn.toString());
+    for (const entry of directory.entries) {
+      const dn = ldap.parseDN(entry.dn);
+      const inScope = dn.equals(searchBase) || dn.childOf(searchBase);
+      const attributes = Object.fromEntries(
+        Object.entries(entry.attributes).map(([name, value]) => [name.toLowerCase(), value]),
+      );
+      if (inScope && req.filter.matches(attributes)) {
+        res.send({ dn: entry.dn, attributes: entry.attributes });
+      }
+    }
+    res.end();
+    return next();
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  directory.url = server.url;
+  return directory;
+}
@@ -0,0 +1,105 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import jwt from "jsonwebtoken";
+import type { OidcClaims } from "../../services/oidc";
+
+interface PendingCode {
+  claims: Omit<OidcClaims, "nonce">;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+export interface TestOidcProvider {
+  issuer: string;
+  clientId: string;
+  // Claims for whoever "signs in" at the authorize endpoint next.
+  signInAs: (claims: Omit<OidcClaims, "nonce">) => void;
+  stop: () => Promise<void>;
+}
+
+// A stand-in identity provider: discovery, JWKS, an authorize endpoint that
+// approves immediately with the claims given to signInAs, and a token endpoint
+// that checks the PKCE verifier and returns an RS256-signed ID token.
+export async function startOidcProvider(clientId = "udaan-test"): Promise<TestOidcProvider> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString("hex");
+  const codes = new Map<string, PendingCode>();
+  let nextClaims: Omit<OidcClaims, "nonce"> | null = null;
+  let issuer = "";
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", issuer);
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+      return sendJson(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+
+    if (url.pathname === "/jwks") {
+      return sendJson(200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid, use: "sig", alg: "RS256" }] });
+    }
+
+    if (url.pathname === "/authorize") {
+      const redirectUri = url.searchParams.get("redirect_uri")!;
+      if (url.searchParams.get("client_id") !== clientId || !nextClaims) {
+        return sendJson(400, { error: "invalid_request" });
+      }
+      const code = crypto.randomBytes(16).toString("hex");
+      codes.set(code, {
+        claims: nextClaims,
+        nonce: url.searchParams.get("nonce")!,
+        codeChallenge: url.searchParams.get("code_challenge")!,
+        redirectUri,
+      });
+      const callback = new URL(redirectUri);
+      callback.searchParams.set("code", code);
+      callback.searchParams.set("state", url.searchParams.get("state")!);
+      res.writeHead(302, { Location: callback.toString() });
+      return res.end();
+    }
+
+    if (url.pathname === "/token" && req.method === "POST") {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      const params = new URLSearchParams(body);
+      const pending = codes.get(params.get("code") ?? "");
+      codes.delete(params.get("code") ?? "");
+      const challenge = crypto.createHash("sha256").update(params.get("code_verifier") ?? "").digest("base64url");
+      if (!pending || pending.codeChallenge !== challenge || pending.redirectUri !== params.get("redirect_uri")) {
+        return sendJson(400, { error: "invalid_grant" });
+      }
+      const idToken = jwt.sign({ ...pending.claims, nonce: pending.nonce }, privateKey, {
+        algorithm: "RS256",
+        keyid: kid,
+        issuer,
+        audience: clientId,
+        expiresIn: "5m",
+      });
+      return sendJson(200, { id_token: idToken, access_token: "unused", token_type: "Bearer" });
+    }
+
+    sendJson(404, { error: "not_found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    signInAs: (claims) => {
+      nextClaims = claims;
+    },
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,224 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestDatabase, type TestDatabase } from "./support/database";
+import { createDocument, createUser } from "./support/fixtures";
+import type { AccessPrincipal } from "@shared/permissions";
+import type { Document, Folder, Organization, UpdateDocument, User } from "@shared/schema";
+
+let database: TestDatabase;
+let storage: typeof import("../storage").storage;
+let tenants: typeof import("../tenant-storage");
+
+interface Tenant {
+  org: Organization;
+  admin: User;
+  principal: AccessPrincipal;
+  folder: Folder;
+  document: Document;
+}
+
+let acme: Tenant;
+let other: Tenant;
+
+async function seedTenant(name: string, code: string, sizeBytes: number): Promise<Tenant> {
+  const org = await storage.createOrganization({ name, code });
+  const admin = await createUser(org.id, `${code.toLowerCase()}.admin`, "ORG_ADMIN", { firstName: name, lastName: "Admin" });
+  const folder = await storage.createFolder({ organizationId: org.id, name: `${name} Records`, createdBy: admin.id });
+  const document = await createDocument(folder, `${name} contract`, admin.id, { sizeBytes });
+  await storage.createAuditLog({ userId: admin.id, action: "UPLOAD", entityType: "DOCUMENT", entityId: document.id });
+  return { org, admin, principal: { userId: admin.id, role: admin.role }, folder, document };
+}
+
+before(async () => {
+  database = await startTestDatabase();
+  ({ storage } = await import("../storage"));
+  tenants = await import("../tenant-storage");
+  acme = await seedTenant("Acme", "ACME", 1024);
+  other = await seedTenant("Other", "OTHER", 3 * 1024 * 1024);
+});
+
+after(async () => {
+  await database?.stop();
+});
+
+function scopedTo(tenant: Tenant) {
+  return tenants.tenantStorageFor(tenant.admin);
+}
+
+describe("tenant storage reads", () => {
+  it("does not return another organization's users", async () => {
+    const scoped = scopedTo(acme);
+
+    assert.equal(await scoped.getUser(other.admin.id), undefined);
+    assert.deepEqual((await scoped.getAllUsers()).map((user) => user.id), [acme.admin.id]);
+  });
+
+  it("does not return another organization's folders or their access", async () => {
+    const scoped = scopedTo(acme);
+
+    assert.equal(await scoped.getFolder(other.folder.id), undefined);
+    assert.equal(await scoped.getFolderAccess(other.folder.id, acme.principal), null);
+    const contents = await scoped.getFolderWithContents(other.folder.id, acme.principal);
+    assert.equal(contents.folder, null);
+    assert.deepEqual(contents.documents, []);
+    const root = await scoped.getFolderWithContents(null, acme.principal);
+    assert.deepEqual(root.children.map((child) => child.id), [acme.folder.id]);
+  });
+
+  it("does not return another organization's documents", async () => {
+    const scoped = scopedTo(acme);
+
+    assert.equal(await scoped.getDocument(other.document.id), undefined);
+    assert.deepEqual((await scoped.getDocuments(undefined, acme.principal)).map((doc) => doc.id), [acme.document.id]);
+    assert.deepEqual((await scoped.getDocuments({ folderId: other.folder.id }, acme.principal)), []);
+    assert.deepEqual((await scoped.searchDocuments("", { mimeType: "application/pdf" }, acme.principal)).map((doc) => doc.id), [acme.document.id]);
+  });
+
+  it("does not return another organization's audit logs", async () => {
+    const scoped = scopedTo(acme);
+
+    assert.deepEqual(await scoped.getAuditLogs({ userId: other.admin.id }), []);
+    assert.ok((await scoped.getAuditLogs()).every((log) => log.organizationId === acme.org.id));
+  });
+
+  it("counts only the organization's rows in statistics and analytics", async () => {
+    const scoped = scopedTo(acme);
+
+    const dashboard = await scoped.getDashboardStats();
+    assert.equal(dashboard.totalDocuments, 1);
+    assert.equal(dashboard.totalFolders, 1);
+
+    const admin = await scoped.getAdminStats();
+    assert.equal(admin.totalUsers, 1);
+    assert.equal(admin.totalDocuments, 1);
+    assert.equal(admin.storageUsedMB, 0);
+
+    const analytics = await scoped.getAnalyticsDashboard();
+    assert.equal(analytics.overview.totalUsers, 1);
+    assert.equal(analytics.overview.totalDocuments, 1);
+    assert.equal(analytics.overview.storageUsedMB, 0);
+    assert.ok(analytics.recentActivity.every((log) => log.organizationId === acme.org.id));
+    assert.equal(analytics.activityLast7Days.reduce((sum, day) => sum + day.uploads, 0), 1);
+  });
+
+  it("sees every organization when platform-wide", async () => {
+    const platform = tenants.tenantStorageFor({ role: "SUPER_ADMIN" });
+
+    assert.equal((await platform.getDocument(other.document.id))?.id, other.document.id);
+    assert.equal((await platform.getAdminStats()).totalUsers, 2);
+  });
+});
+
+describe("tenant storage writes", () => {
+  it("does not update or delete another organization's users", async () => {
+    const scoped = scopedTo(acme);
+
+    assert.equal(await scoped.updateUser(other.admin.id, { firstName: "Taken" }), undefined);
+    assert.equal(await scoped.deleteUser(other.admin.id), false);
+    const untouched = await storage.getUser(other.admin.id);
+    assert.equal(untouched?.firstName, "Other");
+  });
+
+  it("keeps created and updated users in the caller's organization", async () => {
+    const scoped = scopedTo(acme);
+
+    const created = await scoped.createUser({
+      organizationId: other.org.id,
+      email: "planted@example.com",
+      username: "planted",
+      password: "unused",
+      firstName: "Planted",
+      lastName: "User",
+      role: "STAFF",
+    });
+    assert.equal(created.organizationId, acme.org.id);
+
+    const moved = await scoped.updateUser(created.id, { organizationId: other.org.id, lastName: "Moved" });
+    assert.equal(moved?.organizationId, acme.org.id);
+    assert.equal(moved?.lastName, "Moved");
+    await storage.deleteUser(created.id);
+  });
+
+  it("does not create, update or move folders across organizations", async () => {
+    const scoped = scopedTo(acme);
+
+    assert.equal(await scoped.createFolder({ name: "Inside", parentFolderId: other.folder.id, createdBy: acme.admin.id }), undefined);
+    assert.equal(await scoped.updateFolder(other.folder.id, { name: "Renamed" }), undefined);
+    assert.equal(await scoped.updateFolder(acme.folder.id, { parentFolderId: other.folder.id }), undefined);
+    assert.equal((await storage.getFolder(other.folder.id))?.name, "Other Records");
+    assert.equal((await storage.getFolder(acme.folder.id))?.parentFolderId, null);
+    assert.deepEqual(await storage.getFoldersByParent(other.folder.id), []);
+
+    const created = await scoped.createFolder({ organizationId: other.org.id, name: "Stamped", createdBy: acme.admin.id });
+    assert.equal(created?.organizationId, acme.org.id);
+  });
+
+  it("does not create, update or move documents across organizations", async () => {
+    const scoped = scopedTo(acme);
+
+    const planted = await scoped.createDocument({
+      folderId: other.folder.id,
+      title: "Planted",
+      filePath: "uploads/planted.pdf",
+      originalName: "planted.pdf",
+      mimeType: "application/pdf",
+      sizeBytes: 1,
+      uploadedBy: acme.admin.id,
+    });
+    assert.equal(planted, undefined);
+    assert.equal(await scoped.updateDocument(other.document.id, { title: "Renamed" }), undefined);
+    assert.equal(await scoped.updateDocument(acme.document.id, { folderId: other.folder.id }), undefined);
+    const kept = await scoped.updateDocument(acme.document.id, { organizationId: other.org.id } as UpdateDocument);
+    assert.equal(kept?.organizationId, acme.org.id);
+
+    assert.equal((await storage.getDocument(other.document.id))?.title, "Other contract");
+    assert.equal((await storage.getDocument(acme.document.id))?.folderId, acme.folder.id);
+    assert.deepEqual((await storage.getDocuments({ folderId: other.folder.id })).map((doc) => doc.id), [other.document.id]);
+  });
+});
+
+describe("tenant storage updates", () => {
+  it("writes only the allow-listed columns of a document", async () => {
+    const scoped = scopedTo(acme);
+    const original = (await storage.getDocument(acme.document.id))!;
+
+    const updated = await scoped.updateDocument(acme.document.id, {
+      title: "Acme agreement",
+      filePath: "/etc/passwd",
+      mimeType: "text/html",
+      checksum: "0".repeat(64),
+      status: "ARCHIVED",
+      legalHold: true,
+      deletedAt: new Date(),
+      deletedBy: acme.admin.id,
+      deletedWithFolderId: acme.folder.id,
+      trashPath: [],
+    } as UpdateDocument);
+
+    assert.equal(updated?.title, "Acme agreement");
+    assert.deepEqual(
+      {
+        filePath: updated?.filePath,
+        mimeType: updated?.mimeType,
+        checksum: updated?.checksum,
+        status: updated?.status,
+        legalHold: updated?.legalHold,
+        deletedAt: updated?.deletedAt,
+        deletedBy: updated?.deletedBy,
+        deletedWithFolderId: updated?.deletedWithFolderId,
+        trashPath: updated?.trashPath,
+      },
+      {
+        filePath: original.filePath,
+        mimeType: original.mimeType,
+        checksum: original.checksum,
+        status: original.status,
+        legalHold: original.legalHold,
+        deletedAt: original.deletedAt,
+        deletedBy: original.deletedBy,
+        deletedWithFolderId: original.deletedWithFolderId,
+        trashPath: original.trashPath,
+      },
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import type { User } from "./schema";
+
+export type UserRole = User["role"];
+
+// Everything a role can be allowed to do. Routes check these through
+// requirePermission on the server; the client uses can() to hide controls.
+export const permissionValues = [
+  "documents:read",
+  "documents:upload",
+  "documents:edit",
+  "documents:delete",
+  "documents:share",
+  "folders:manage",
+  "files:convert",
+  "analytics:read",
+  "audit:read",
+  "users:manage",
+] as const;
+
+export type Permission = (typeof permissionValues)[number];
+
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  SUPER_ADMIN: permissionValues,
+  ORG_ADMIN: [
+    "documents:read",
+    "documents:upload",
+    "documents:edit",
+    "documents:delete",
+    "documents:share",
+    "folders:manage",
+    "files:convert",
+    "analytics:read",
+    "audit:read",
+    "users:manage",
+  ],
+  MANAGER: [
+    "documents:read",
+    "documents:upload",
+    "documents:edit",
+    "documents:delete",
+    "documents:share",
+    "folders:manage",
+    "files:convert",
+    "analytics:read",
+  ],
+  STAFF: ["documents:read", "documents:upload", "documents:edit", "documents:share", "files:convert"],
+  VIEWER: ["documents:read"],
+};
+
+export function can(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in rolePermissions)) return false;
+  return rolePermissions[role as UserRole].includes(permission);
+}
+
+// Folder access levels, weakest first. Each level includes the ones before it.
+export const folderAccessLevels = ["READ", "WRITE", "MANAGE"] as const;
+
+export type FolderAccessLevel = (typeof folderAccessLevels)[number];
+
+export interface AccessPrincipal {
+  userId: string;
+  role: string;
+  departmentId?: string | null;
+}
+
+export function hasFolderAccess(actual: FolderAccessLevel | null | undefined, required: FolderAccessLevel): boolean {
+  if (!actual) return false;
+  return folderAccessLevels.indexOf(actual) >= folderAccessLevels.indexOf(required);
+}
+
+// What a role gets on folders that carry no access list, including the root.
+export function baselineFolderAccess(role: string | null | undefined): FolderAccessLevel | null {
+  if (can(role, "folders:manage")) return "MANAGE";
+  if (can(role, "documents:upload")) return "WRITE";
+  if (can(role, "documents:read")) return "READ";
+  return null;
+}
+
+// What a share code lets its recipients do, weakest first. VIEW opens files in
+// the browser, DOWNLOAD also saves them and EDIT also uploads new versions.
+export const sharePermissionLevels = ["VIEW", "DOWNLOAD", "EDIT"] as const;
+
+export type SharePermission = (typeof sharePermissionLevels)[number];
+
+export function sharePermissionAllows(actual: string, required: SharePermission): boolean {
+  const rank = sharePermissionLevels.indexOf(actual as SharePermission);
+  return rank >= 0 && rank >= sharePermissionLevels.indexOf(required);
+}
+
+// File types a share recipient's browser may render in place: PDFs and raster
+// images. Anything else, HTML and SVG included, could run script under the
+// app's origin, so previews of it are saved as a download instead.
+export const inlinePreviewTypes = [
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+] as const;
+
+export function canPreviewInline(mimeType: string | null | undefined): boolean {
+  const type = mimeType?.split(";")[0].trim().toLowerCase();
+  return !!type && (inlinePreviewTypes as readonly string[]).includes(type);
+}
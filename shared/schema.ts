@@ -1,8 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, pgEnum, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, boolean, integer, pgEnum, jsonb, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { folderAccessLevels, sharePermissionLevels, type FolderAccessLevel } from "./permissions";
 
 export const userRoleEnum = pgEnum("user_role", ["SUPER_ADMIN", "ORG_ADMIN", "MANAGER", "STAFF", "VIEWER"]);
 export const documentStatusEnum = pgEnum("document_status", ["ACTIVE", "ARCHIVED", "DELETED"]);
@@ -15,9 +16,44 @@ export const auditActionEnum = pgEnum("audit_action", [
   "BATCH_COMPRESS", "BATCH_CONVERT", "BATCH_RESIZE", "BATCH_WATERMARK",
   "BATCH_ROTATE", "BATCH_PAGE_NUMBERS",
   "CREATE_EMPLOYEE", "UPDATE_EMPLOYEE", "DELETE_EMPLOYEE",
-  "CREATE_DEPARTMENT", "UPDATE_DEPARTMENT", "DELETE_DEPARTMENT"
+  "CREATE_DEPARTMENT", "UPDATE_DEPARTMENT", "DELETE_DEPARTMENT",
+  "TWO_FACTOR_ENROLL", "TWO_FACTOR_VERIFY", "TWO_FACTOR_FAILED", "TWO_FACTOR_DISABLE",
+  "PASSWORD_RESET_REQUEST", "PASSWORD_RESET",
+  "LOGIN_FAILED", "ACCOUNT_UNLOCK",
+  "PASSWORD_CHANGE", "UPDATE_PASSWORD_POLICY",
+  "SESSION_REVOKE",
+  "API_TOKEN_CREATE", "API_TOKEN_REVOKE",
+  "DIRECTORY_SYNC",
+  "IMPERSONATION_START", "IMPERSONATION_END", "IMPERSONATED_REQUEST",
+  "CREATE_ORGANIZATION", "UPDATE_ORGANIZATION", "DELETE_ORGANIZATION",
+  "SHARE_REDEEM", "SHARE_VISIT", "SHARE_PASSWORD_FAILED",
+  "SHARE_VERIFICATION_SENT", "SHARE_VERIFICATION_FAILED",
+  "SHARE_REDEEM_FAILED", "SHARE_ENUMERATION_ALERT",
+  "TAG_RENAME", "TAG_MERGE",
+  "PURGE",
+  "CREATE_RETENTION_POLICY", "UPDATE_RETENTION_POLICY", "DELETE_RETENTION_POLICY",
+  "RETENTION_ARCHIVE", "RETENTION_DISPOSE",
+  "LEGAL_HOLD", "LEGAL_HOLD_RELEASE",
+  "INTEGRITY_CHECK",
+  "UPDATE_FOLDER"
 ]);
-export const entityTypeEnum = pgEnum("entity_type", ["DOCUMENT", "FOLDER", "USER", "ORGANIZATION", "SHARE", "EMPLOYEE", "DEPARTMENT"]);
+export const folderAccessLevelEnum = pgEnum("folder_access_level", folderAccessLevels);
+export const sharePermissionEnum = pgEnum("share_permission", sharePermissionLevels);
+export const folderPrincipalTypeEnum = pgEnum("folder_principal_type", ["USER", "DEPARTMENT", "ROLE"]);
+// Failed share-code redemptions are throttled through the same table as
+// sign-ins, per user, per client address and across the whole platform.
+export const loginAttemptScopeEnum = pgEnum("login_attempt_scope", [
+  "USERNAME", "IP", "SHARE_CODE_USER", "SHARE_CODE_IP", "SHARE_CODE_ALL",
+]);
+export const metadataFieldTypes = ["TEXT", "DATE", "NUMBER", "SELECT"] as const;
+export const metadataFieldTypeEnum = pgEnum("metadata_field_type", metadataFieldTypes);
+export const retentionTargetTypes = ["FOLDER", "TAG", "METADATA"] as const;
+export const retentionTargetEnum = pgEnum("retention_target", retentionTargetTypes);
+export const retentionStartTypes = ["UPLOADED", "METADATA_DATE"] as const;
+export const retentionStartEnum = pgEnum("retention_start", retentionStartTypes);
+export const retentionActions = ["ARCHIVE", "DISPOSE"] as const;
+export const retentionActionEnum = pgEnum("retention_action", retentionActions);
+export const entityTypeEnum = pgEnum("entity_type", ["DOCUMENT", "FOLDER", "USER", "ORGANIZATION", "SHARE", "EMPLOYEE", "DEPARTMENT", "TAG", "RETENTION_POLICY"]);
 
 export const organizations = pgTable("organizations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -46,11 +82,49 @@ export const users = pgTable("users", {
   lastName: text("last_name").notNull(),
   role: userRoleEnum("role").notNull().default("STAFF"),
   isActive: boolean("is_active").notNull().default(true),
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  passwordChangedAt: timestamp("password_changed_at"),
   lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// One row per organization; a row with a null organizationId is the policy
+// for users outside any organization.
+export const passwordPolicies = pgTable("password_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }).unique(),
+  minLength: integer("min_length").notNull().default(8),
+  requireUppercase: boolean("require_uppercase").notNull().default(false),
+  requireLowercase: boolean("require_lowercase").notNull().default(false),
+  requireNumber: boolean("require_number").notNull().default(true),
+  requireSymbol: boolean("require_symbol").notNull().default(false),
+  blockCommonPasswords: boolean("block_common_passwords").notNull().default(true),
+  historyCount: integer("history_count").notNull().default(5),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const passwordHistory = pgTable("password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  secret: text("secret"),
+  isEnabled: boolean("is_enabled").notNull().default(false),
+  isRequired: boolean("is_required").notNull().default(false),
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]),
+  lastUsedStep: integer("last_used_step"),
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const employeeProfiles = pgTable("employee_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull().unique(),
@@ -70,10 +144,36 @@ export const folders = pgTable("folders", {
   name: text("name").notNull(),
   parentFolderId: varchar("parent_folder_id"),
   createdBy: varchar("created_by").references(() => users.id),
+  // Recycle bin; see documents below.
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references(() => users.id, { onDelete: "set null" }),
+  deletedWithFolderId: varchar("deleted_with_folder_id"),
+  trashPath: jsonb("trash_path").$type<TrashPathEntry[]>(),
+  // A hold on a folder covers everything below it; see documents below.
+  legalHold: boolean("legal_hold").notNull().default(false),
+  legalHoldReason: text("legal_hold_reason"),
+  legalHoldAt: timestamp("legal_hold_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Access list entries on a folder. They apply to the folder and everything
+// below it. principalId holds a user id, a department id or a role name
+// depending on principalType. A deny entry takes away its level and every
+// level above it, wherever it sits in the tree.
+export const folderPermissions = pgTable("folder_permissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  folderId: varchar("folder_id").references(() => folders.id, { onDelete: "cascade" }).notNull(),
+  principalType: folderPrincipalTypeEnum("principal_type").notNull(),
+  principalId: text("principal_id").notNull(),
+  level: folderAccessLevelEnum("level").notNull(),
+  deny: boolean("deny").notNull().default(false),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  folderPrincipal: unique("folder_permissions_folder_principal").on(table.folderId, table.principalType, table.principalId),
+}));
+
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   organizationId: varchar("organization_id").references(() => organizations.id),
@@ -87,45 +187,166 @@ export const documents = pgTable("documents", {
   uploadedBy: varchar("uploaded_by").references(() => users.id),
   status: documentStatusEnum("status").notNull().default("ACTIVE"),
   encryptionKey: text("encryption_key"),
+  // SHA-256 of the current file, hex encoded; versions keep their own.
   checksum: text("checksum"),
+  // Values for the metadata fields of the document's folder, by field key.
+  metadata: jsonb("metadata").$type<DocumentMetadata>().notNull().default({}),
+  // Deleted documents (status DELETED) and folders (deletedAt set) sit in the
+  // recycle bin until restored or purged. Items deleted along with a folder
+  // carry its id in deletedWithFolderId and come and go with it; the others
+  // keep the folder path they were deleted from in trashPath so a restore can
+  // recreate it.
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references(() => users.id, { onDelete: "set null" }),
+  deletedWithFolderId: varchar("deleted_with_folder_id"),
+  trashPath: jsonb("trash_path").$type<TrashPathEntry[]>(),
+  // Documents under legal hold, or in a folder under one, cannot be deleted,
+  // purged or disposed of by a retention policy until the hold is released.
+  legalHold: boolean("legal_hold").notNull().default(false),
+  legalHoldReason: text("legal_hold_reason"),
+  legalHoldAt: timestamp("legal_hold_at"),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Structured fields documents in a folder must or may carry, defined by folder
+// managers. A folder's fields apply to every folder below it; a subfolder can
+// redefine a key to override the inherited field. DATE values are stored as
+// YYYY-MM-DD strings, NUMBER values as numbers and SELECT values must be one
+// of options.
+export const folderMetadataFields = pgTable("folder_metadata_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  folderId: varchar("folder_id").references(() => folders.id, { onDelete: "cascade" }).notNull(),
+  key: text("key").notNull(),
+  label: text("label").notNull(),
+  type: metadataFieldTypeEnum("type").notNull().default("TEXT"),
+  required: boolean("required").notNull().default(false),
+  options: jsonb("options").$type<string[]>().notNull().default([]),
+  position: integer("position").notNull().default(0),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  folderKey: unique("folder_metadata_fields_folder_key").on(table.folderId, table.key),
+}));
+
+// Rules for how long an organization keeps documents. A policy covers the
+// documents in a folder (and below it), those with a tag, or those whose
+// metadata field metadataKey equals metadataValue. The clock starts at upload
+// or at the date in the DATE metadata field startField; documents without
+// that date are not due yet. Once retentionMonths have passed the retention
+// job archives or disposes of the document. When several disposal policies
+// cover a document the longest one decides.
+export const retentionPolicies = pgTable("retention_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  name: text("name").notNull(),
+  targetType: retentionTargetEnum("target_type").notNull(),
+  folderId: varchar("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  tag: text("tag"),
+  metadataKey: text("metadata_key"),
+  metadataValue: text("metadata_value"),
+  startFrom: retentionStartEnum("start_from").notNull().default("UPLOADED"),
+  startField: text("start_field"),
+  retentionMonths: integer("retention_months").notNull(),
+  action: retentionActionEnum("action").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Free-form labels on documents. Tags are stored trimmed and lower-cased so
+// "Invoice" and "invoice " are the same tag; an organization's tag list is
+// whatever its documents carry.
 export const documentTags = pgTable("document_tags", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").references(() => documents.id).notNull(),
   tag: text("tag").notNull(),
-});
+}, (table) => ({
+  documentTag: unique("document_tags_document_tag").on(table.documentId, table.tag),
+}));
 
+// Every revision of a document, the current one included. Restoring an old
+// revision adds a new version pointing at the same file, so history is never
+// rewritten. originalName and mimeType are null on versions recorded before
+// they were kept; the document's own values apply to those.
 export const documentVersions = pgTable("document_versions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").references(() => documents.id).notNull(),
   versionNumber: integer("version_number").notNull(),
   filePath: text("file_path").notNull(),
+  originalName: text("original_name"),
+  mimeType: text("mime_type"),
   sizeBytes: integer("size_bytes").notNull(),
+  checksum: text("checksum"),
   changesSummary: text("changes_summary"),
+  restoredFromVersion: integer("restored_from_version"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  documentVersion: unique("document_versions_document_version").on(table.documentId, table.versionNumber),
+}));
 
 export const shareCodes = pgTable("share_codes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  code: varchar("code", { length: 6 }).notNull().unique(),
+  code: varchar("code", { length: 64 }).notNull().unique(),
   folderId: varchar("folder_id").references(() => folders.id),
   documentId: varchar("document_id").references(() => documents.id),
   createdBy: varchar("created_by").references(() => users.id).notNull(),
-  permission: text("permission").notNull().default("VIEW"),
+  permission: sharePermissionEnum("permission").notNull().default("VIEW"),
   expiresAt: timestamp("expires_at"),
   usageCount: integer("usage_count").notNull().default(0),
   maxUsages: integer("max_usages"),
   isActive: boolean("is_active").notNull().default(true),
+  // bcrypt hash of an optional password asked for on top of the code. Never
+  // sent to clients; they only see hasPassword.
+  passwordHash: text("password_hash"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A user who has redeemed a share code. Redeeming again only refreshes
+// lastAccessedAt; the share shows up in the user's "Shared with me" inbox
+// until the owner deletes it. External recipients of a restricted share have
+// no account and are recorded by the email address they verified instead.
+export const shareRedemptions = pgTable("share_redemptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shareCodeId: varchar("share_code_id").references(() => shareCodes.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  email: text("email"),
+  redeemedAt: timestamp("redeemed_at").defaultNow().notNull(),
+  lastAccessedAt: timestamp("last_accessed_at").defaultNow().notNull(),
+}, (table) => ({
+  shareUser: unique("share_redemptions_share_user").on(table.shareCodeId, table.userId),
+  shareEmail: unique("share_redemptions_share_email").on(table.shareCodeId, table.email),
+}));
+
+// People a restricted share is limited to; a share without recipients works
+// for anyone holding the code. Users are matched by id or by email address.
+// Emails are stored lower-cased.
+export const shareRecipients = pgTable("share_recipients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shareCodeId: varchar("share_code_id").references(() => shareCodes.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  email: text("email"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One-time codes emailed to external recipients of a restricted share.
+export const shareVerificationCodes = pgTable("share_verification_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shareCodeId: varchar("share_code_id").references(() => shareCodes.id, { onDelete: "cascade" }).notNull(),
+  email: text("email").notNull(),
+  codeHash: text("code_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  organizationId: varchar("organization_id").references(() => organizations.id),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "set null" }),
   userId: varchar("user_id").references(() => users.id),
   action: auditActionEnum("action").notNull(),
   entityType: entityTypeEnum("entity_type").notNull(),
@@ -133,17 +354,107 @@ export const auditLogs = pgTable("audit_logs", {
   metadata: jsonb("metadata"),
   ipAddress: text("ip_address"),
   userAgent: text("user_agent"),
+  // Set when the request was authenticated with a personal access token.
+  apiTokenId: varchar("api_token_id").references(() => apiTokens.id, { onDelete: "set null" }),
+  // Set when a SUPER_ADMIN made the request while impersonating userId.
+  impersonatorId: varchar("impersonator_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const apiTokenScopeValues = ["documents:read", "documents:write", "file-ops", "admin"] as const;
+export type ApiTokenScope = (typeof apiTokenScopeValues)[number];
+
+// Revoked tokens are kept (revokedAt set) so audit entries can still name them.
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  tokenPrefix: text("token_prefix").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A time-boxed "act as user" session started by a SUPER_ADMIN. Impersonation
+// access tokens carry its id and stop working once it ends or expires.
+export const impersonationSessions = pgTable("impersonation_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  impersonatorId: varchar("impersonator_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  targetUserId: varchar("target_user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  reason: text("reason").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Links a local user to an account in an external identity source: an OpenID
+// Connect provider, or the LDAP directory for synced users (issuer "ldap:<baseDN>").
+// The (issuer, subject) pair is the stable identity; email can change upstream.
+export const userIdentities = pgTable("user_identities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  issuer: text("issuer").notNull(),
+  subject: text("subject").notNull(),
+  email: text("email"),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  issuerSubject: unique("user_identities_issuer_subject").on(table.issuer, table.subject),
+}));
+
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
   refreshToken: text("refresh_token").notNull(),
+  familyId: varchar("family_id").notNull().default(sql`gen_random_uuid()`),
+  rotatedAt: timestamp("rotated_at"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  // Carried across refresh-token rotation so the family keeps its original sign-in time.
+  signedInAt: timestamp("signed_in_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Two-factor challenges and SSO hand-off tokens that completed a sign-in, by
+// the token's jti. Rows are only needed until the token would have expired.
+export const spentChallengeTokens = pgTable("spent_challenge_tokens", {
+  jti: varchar("jti").primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(),
+  spentAt: timestamp("spent_at").defaultNow().notNull(),
+});
+
+export const loginAttempts = pgTable("login_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: loginAttemptScopeEnum("scope").notNull(),
+  key: text("key").notNull(),
+  failedCount: integer("failed_count").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at").defaultNow().notNull(),
+  // Client address of the latest failure, kept for username rows so an unlock
+  // can lift the matching IP lockout too.
+  lastFailedIp: text("last_failed_ip"),
+  lockedUntil: timestamp("locked_until"),
+}, (table) => ({
+  scopeKey: unique("login_attempts_scope_key").on(table.scope, table.key),
+}));
+
 export const userActivity = pgTable("user_activity", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -177,6 +488,27 @@ export const usersRelations = relations(users, ({ one, many }) => ({
   }),
 }));
 
+export const passwordPoliciesRelations = relations(passwordPolicies, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [passwordPolicies.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const passwordHistoryRelations = relations(passwordHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordHistory.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userTwoFactorRelations = relations(userTwoFactor, ({ one }) => ({
+  user: one(users, {
+    fields: [userTwoFactor.userId],
+    references: [users.id],
+  }),
+}));
+
 export const departmentsRelations = relations(departments, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [departments.organizationId],
@@ -216,6 +548,37 @@ export const foldersRelations = relations(folders, ({ one, many }) => ({
   children: many(folders),
   documents: many(documents),
   shareCodes: many(shareCodes),
+  permissions: many(folderPermissions),
+  metadataFields: many(folderMetadataFields),
+}));
+
+export const folderMetadataFieldsRelations = relations(folderMetadataFields, ({ one }) => ({
+  folder: one(folders, {
+    fields: [folderMetadataFields.folderId],
+    references: [folders.id],
+  }),
+}));
+
+export const retentionPoliciesRelations = relations(retentionPolicies, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [retentionPolicies.organizationId],
+    references: [organizations.id],
+  }),
+  folder: one(folders, {
+    fields: [retentionPolicies.folderId],
+    references: [folders.id],
+  }),
+}));
+
+export const folderPermissionsRelations = relations(folderPermissions, ({ one }) => ({
+  folder: one(folders, {
+    fields: [folderPermissions.folderId],
+    references: [folders.id],
+  }),
+  creator: one(users, {
+    fields: [folderPermissions.createdBy],
+    references: [users.id],
+  }),
 }));
 
 export const documentsRelations = relations(documents, ({ one, many }) => ({
@@ -254,7 +617,7 @@ export const documentVersionsRelations = relations(documentVersions, ({ one }) =
   }),
 }));
 
-export const shareCodesRelations = relations(shareCodes, ({ one }) => ({
+export const shareCodesRelations = relations(shareCodes, ({ one, many }) => ({
   folder: one(folders, {
     fields: [shareCodes.folderId],
     references: [folders.id],
@@ -267,6 +630,30 @@ export const shareCodesRelations = relations(shareCodes, ({ one }) => ({
     fields: [shareCodes.createdBy],
     references: [users.id],
   }),
+  redemptions: many(shareRedemptions),
+  recipients: many(shareRecipients),
+}));
+
+export const shareRedemptionsRelations = relations(shareRedemptions, ({ one }) => ({
+  shareCode: one(shareCodes, {
+    fields: [shareRedemptions.shareCodeId],
+    references: [shareCodes.id],
+  }),
+  user: one(users, {
+    fields: [shareRedemptions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const shareRecipientsRelations = relations(shareRecipients, ({ one }) => ({
+  shareCode: one(shareCodes, {
+    fields: [shareRecipients.shareCodeId],
+    references: [shareCodes.id],
+  }),
+  user: one(users, {
+    fields: [shareRecipients.userId],
+    references: [users.id],
+  }),
 }));
 
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
@@ -280,6 +667,31 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   }),
 }));
 
+export const impersonationSessionsRelations = relations(impersonationSessions, ({ one }) => ({
+  impersonator: one(users, {
+    fields: [impersonationSessions.impersonatorId],
+    references: [users.id],
+  }),
+  targetUser: one(users, {
+    fields: [impersonationSessions.targetUserId],
+    references: [users.id],
+  }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [apiTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 export const sessionsRelations = relations(sessions, ({ one }) => ({
   user: one(users, {
     fields: [sessions.userId],
@@ -287,6 +699,13 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
   }),
 }));
 
+export const passwordResetTokensRelations = relations(passwordResetTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [passwordResetTokens.userId],
+    references: [users.id],
+  }),
+}));
+
 export const userActivityRelations = relations(userActivity, ({ one }) => ({
   user: one(users, {
     fields: [userActivity.userId],
@@ -297,14 +716,28 @@ export const userActivityRelations = relations(userActivity, ({ one }) => ({
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({ id: true, createdAt: true });
 export const insertDepartmentSchema = createInsertSchema(departments).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true, lastLoginAt: true });
+export const insertPasswordPolicySchema = createInsertSchema(passwordPolicies).omit({ id: true, updatedAt: true });
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory).omit({ id: true, createdAt: true });
+export const insertUserTwoFactorSchema = createInsertSchema(userTwoFactor).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertEmployeeProfileSchema = createInsertSchema(employeeProfiles).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertFolderSchema = createInsertSchema(folders).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertFolderPermissionSchema = createInsertSchema(folderPermissions).omit({ id: true, createdAt: true });
+export const insertFolderMetadataFieldSchema = createInsertSchema(folderMetadataFields).omit({ id: true, createdAt: true });
+export const insertRetentionPolicySchema = createInsertSchema(retentionPolicies).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, uploadedAt: true, updatedAt: true });
 export const insertDocumentTagSchema = createInsertSchema(documentTags).omit({ id: true });
 export const insertDocumentVersionSchema = createInsertSchema(documentVersions).omit({ id: true, createdAt: true });
 export const insertShareCodeSchema = createInsertSchema(shareCodes).omit({ id: true, createdAt: true, usageCount: true });
+export const insertShareRedemptionSchema = createInsertSchema(shareRedemptions).omit({ id: true, redeemedAt: true, lastAccessedAt: true });
+export const insertShareRecipientSchema = createInsertSchema(shareRecipients).omit({ id: true, createdAt: true });
+export const insertShareVerificationCodeSchema = createInsertSchema(shareVerificationCodes).omit({ id: true, createdAt: true });
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({ id: true, createdAt: true });
+export const insertImpersonationSessionSchema = createInsertSchema(impersonationSessions).omit({ id: true, createdAt: true });
+export const insertUserIdentitySchema = createInsertSchema(userIdentities).omit({ id: true, createdAt: true });
 export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, createdAt: true });
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({ id: true, createdAt: true });
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({ id: true });
 export const insertUserActivitySchema = createInsertSchema(userActivity).omit({ id: true });
 
 export const loginSchema = z.object({
@@ -315,6 +748,196 @@ export const loginSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+});
+
+export const updatePasswordPolicySchema = z.object({
+  minLength: z.number().int().min(6, "Minimum length must be at least 6").max(128),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  blockCommonPasswords: z.boolean(),
+  historyCount: z.number().int().min(0).max(24),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(100),
+  scopes: z.array(z.enum(apiTokenScopeValues)).min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(365),
+});
+
+export const startImpersonationSchema = z.object({
+  reason: z.string().trim().min(3, "Give a reason, such as the support ticket").max(500),
+  durationMinutes: z.number().int().min(1).optional(),
+});
+
+// What an admin may change on an existing user. Ids, timestamps and password
+// bookkeeping are set by the server only.
+export const updateUserSchema = z.object({
+  email: z.string().trim().email("Invalid email address").optional(),
+  username: z.string().trim().min(1, "Username is required").optional(),
+  firstName: z.string().trim().min(1, "First name is required").optional(),
+  lastName: z.string().trim().optional(),
+  role: z.enum(userRoleEnum.enumValues).optional(),
+  isActive: z.boolean().optional(),
+  organizationId: z.string().nullable().optional(),
+  password: z.string().min(1, "Password is required").optional(),
+});
+
+// What PATCH /api/folders/:id may change. Access lists, holds and the recycle
+// bin have their own endpoints; the creator never changes.
+export const updateFolderSchema = z
+  .object({
+    name: z.string().trim().min(1, "Folder name is required").max(255).optional(),
+    parentFolderId: z.string().nullable().optional(),
+  })
+  .strict();
+
+// What PATCH /api/documents/:id may change. The file and what describes it
+// change with a new version; metadata is checked against the folder's fields.
+export const updateDocumentSchema = z
+  .object({
+    title: z.string().trim().min(1, "Title is required").max(500).optional(),
+    description: z.string().nullable().optional(),
+    folderId: z.string().nullable().optional(),
+    metadata: z.unknown().optional(),
+  })
+  .strict();
+
+export const organizationFormSchema = z.object({
+  name: z.string().trim().min(1, "Organization name is required").max(200),
+  code: z
+    .string()
+    .trim()
+    .min(2, "Code must be at least 2 characters")
+    .max(32)
+    .regex(/^[A-Za-z0-9_-]+$/, "Code may only contain letters, numbers, dashes and underscores")
+    .transform((value) => value.toUpperCase()),
+});
+
+export const setFolderPermissionSchema = z.object({
+  principalType: z.enum(folderPrincipalTypeEnum.enumValues),
+  principalId: z.string().min(1, "Choose who this applies to"),
+  level: z.enum(folderAccessLevels),
+  deny: z.boolean().default(false),
+});
+
+export const createShareSchema = z
+  .object({
+    folderId: z.string().nullish(),
+    documentId: z.string().nullish(),
+    permission: z.enum(sharePermissionLevels).default("VIEW"),
+    expiresAt: z.coerce.date().nullish(),
+    maxUsages: z.number().int().min(1, "Usage limit must be at least 1").nullish(),
+    password: z.string().min(4, "Share password must be at least 4 characters").max(128).nullish(),
+    // User ids or email addresses; empty means anyone with the code.
+    recipients: z.array(z.string().trim().min(1)).max(50, "A share can have at most 50 recipients").default([]),
+  })
+  .refine((data) => Boolean(data.folderId) !== Boolean(data.documentId), {
+    message: "Share either a folder or a document",
+  });
+
+export const metadataFieldFormSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .regex(/^[a-z][a-z0-9_]*$/, "Keys use lower-case letters, digits and underscores and start with a letter")
+      .max(40, "Keys can be at most 40 characters"),
+    label: z.string().trim().min(1, "Label is required").max(80),
+    type: z.enum(metadataFieldTypes),
+    required: z.boolean().default(false),
+    options: z.array(z.string().trim().min(1)).max(100, "A select field can have at most 100 options").default([]),
+  })
+  .refine((data) => data.type !== "SELECT" || data.options.length > 0, {
+    message: "Select fields need at least one option",
+  });
+
+// The key and type of a field are fixed once documents may carry values for it.
+export const updateMetadataFieldSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(80).optional(),
+  required: z.boolean().optional(),
+  options: z.array(z.string().trim().min(1)).max(100, "A select field can have at most 100 options").optional(),
+  position: z.number().int().optional(),
+});
+
+export const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Tag cannot be empty")
+  .max(50, "Tags can be at most 50 characters")
+  .transform((tag) => tag.replace(/\s+/g, " ").toLowerCase());
+
+export const addDocumentTagSchema = z.object({ tag: tagNameSchema });
+
+export const setDocumentTagsSchema = z.object({
+  tags: z.array(tagNameSchema).max(50, "A document can have at most 50 tags"),
+});
+
+export const renameTagSchema = z.object({ name: tagNameSchema });
+
+export const mergeTagsSchema = z.object({
+  sources: z.array(tagNameSchema).min(1, "Choose at least one tag to merge"),
+  target: tagNameSchema,
+});
+
+const metadataKeySchema = z.string().trim().regex(/^[a-z][a-z0-9_]*$/, "Choose a metadata field");
+
+export const retentionPolicyFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Policy name is required").max(100),
+    targetType: z.enum(retentionTargetTypes),
+    folderId: z.string().min(1).nullish(),
+    tag: tagNameSchema.nullish(),
+    metadataKey: metadataKeySchema.nullish(),
+    metadataValue: z.string().trim().min(1).max(500).nullish(),
+    startFrom: z.enum(retentionStartTypes).default("UPLOADED"),
+    startField: metadataKeySchema.nullish(),
+    retentionMonths: z.number().int().min(1, "Keep documents at least one month").max(1200),
+    action: z.enum(retentionActions),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.targetType !== "FOLDER" || !!data.folderId, { message: "Choose a folder", path: ["folderId"] })
+  .refine((data) => data.targetType !== "TAG" || !!data.tag, { message: "Choose a tag", path: ["tag"] })
+  .refine((data) => data.targetType !== "METADATA" || (!!data.metadataKey && !!data.metadataValue), {
+    message: "Choose a metadata field and the value to match",
+    path: ["metadataValue"],
+  })
+  .refine((data) => data.startFrom !== "METADATA_DATE" || !!data.startField, {
+    message: "Choose the date field the retention period starts from",
+    path: ["startField"],
+  });
+
+// What a policy covers is fixed; create a new policy to cover something else.
+export const updateRetentionPolicySchema = z.object({
+  name: z.string().trim().min(1, "Policy name is required").max(100).optional(),
+  retentionMonths: z.number().int().min(1, "Keep documents at least one month").max(1200).optional(),
+  action: z.enum(retentionActions).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const legalHoldSchema = z
+  .object({
+    hold: z.boolean(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => !data.hold || (data.reason?.length ?? 0) >= 3, {
+    message: "Give a reason for the hold, such as the case or matter",
+    path: ["reason"],
+  });
+
 export const registerUserSchema = insertUserSchema.extend({
   password: z.string().min(6, "Password must be at least 6 characters"),
   email: z.string().email("Invalid email address"),
@@ -326,26 +949,157 @@ export const registerUserSchema = insertUserSchema.extend({
 
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationWithCounts = Organization & {
+  userCount: number;
+  departmentCount: number;
+  folderCount: number;
+  documentCount: number;
+};
 export type Department = typeof departments.$inferSelect;
 export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PasswordPolicy = typeof passwordPolicies.$inferSelect;
+export type InsertPasswordPolicy = z.infer<typeof insertPasswordPolicySchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type InsertPasswordHistory = z.infer<typeof insertPasswordHistorySchema>;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type InsertUserTwoFactor = z.infer<typeof insertUserTwoFactorSchema>;
 export type EmployeeProfile = typeof employeeProfiles.$inferSelect;
 export type InsertEmployeeProfile = z.infer<typeof insertEmployeeProfileSchema>;
 export type Folder = typeof folders.$inferSelect;
 export type InsertFolder = z.infer<typeof insertFolderSchema>;
+// The columns updateFolderSchema allows, once validated.
+export type UpdateFolder = Partial<Pick<InsertFolder, "name" | "parentFolderId">>;
+export type FolderPermission = typeof folderPermissions.$inferSelect;
+export type InsertFolderPermission = z.infer<typeof insertFolderPermissionSchema>;
+export type FolderWithAccess = Folder & { access: FolderAccessLevel };
+export type FolderMetadataField = typeof folderMetadataFields.$inferSelect;
+export type InsertFolderMetadataField = z.infer<typeof insertFolderMetadataFieldSchema>;
+export type MetadataFieldType = (typeof metadataFieldTypes)[number];
+export type RetentionPolicy = typeof retentionPolicies.$inferSelect;
+export type InsertRetentionPolicy = z.infer<typeof insertRetentionPolicySchema>;
+export type RetentionAction = (typeof retentionActions)[number];
+export type RetentionPolicyWithFolder = RetentionPolicy & { folderName: string | null };
+export type DocumentMetadata = Record<string, string | number>;
+// One folder of the path an item was deleted from, outermost first. createdBy
+// and restricted (the folder had deny entries) let a restore recreate the
+// folder after it was purged; entries recorded before they existed lack them.
+export type TrashPathEntry = { id: string; name: string; createdBy?: string | null; restricted?: boolean };
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+// The columns updateDocumentSchema allows, with metadata in stored form.
+export type UpdateDocument = Partial<Pick<InsertDocument, "title" | "description" | "folderId" | "metadata">>;
 export type DocumentTag = typeof documentTags.$inferSelect;
 export type InsertDocumentTag = z.infer<typeof insertDocumentTagSchema>;
 export type DocumentVersion = typeof documentVersions.$inferSelect;
 export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+// A version history entry with who created it.
+export type DocumentVersionEntry = DocumentVersion & {
+  author: { id: string; firstName: string; lastName: string } | null;
+};
 export type ShareCode = typeof shareCodes.$inferSelect;
 export type InsertShareCode = z.infer<typeof insertShareCodeSchema>;
+export type ShareRedemption = typeof shareRedemptions.$inferSelect;
+export type InsertShareRedemption = z.infer<typeof insertShareRedemptionSchema>;
+export type ShareRecipient = typeof shareRecipients.$inferSelect;
+export type InsertShareRecipient = z.infer<typeof insertShareRecipientSchema>;
+export type ShareVerificationCode = typeof shareVerificationCodes.$inferSelect;
+export type InsertShareVerificationCode = z.infer<typeof insertShareVerificationCodeSchema>;
+// An inbox entry: the share plus what it points at and who shared it.
+// A share code as the API returns it.
+export type ShareCodeSummary = Omit<ShareCode, "passwordHash"> & { hasPassword: boolean };
+export type ReceivedShare = ShareCodeSummary & {
+  redeemedAt: Date;
+  lastAccessedAt: Date;
+  title: string | null;
+  owner: { id: string; firstName: string; lastName: string; email: string };
+};
+type ShareUserSummary = { id: string; firstName: string; lastName: string; email: string };
+export type ShareRecipientSummary = { id: string; email: string | null; user: ShareUserSummary | null };
+// A share as its creator sees it in the "Created by me" list.
+export type CreatedShare = ShareCodeSummary & { recipients: ShareRecipientSummary[] };
+export type ShareRedemptionDetail = {
+  id: string;
+  email: string | null;
+  user: ShareUserSummary | null;
+  redeemedAt: Date;
+  lastAccessedAt: Date;
+};
+export type DocumentWithTags = Document & { tags: string[] };
+// An entry in the organization-wide tag list.
+export type TagCount = { tag: string; count: number };
+// A recycle bin entry: a deleted document, or a deleted folder standing for
+// everything that was deleted with it. purgeAt is null when auto-purge is off.
+export type TrashItem = {
+  type: "DOCUMENT" | "FOLDER";
+  id: string;
+  name: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  location: TrashPathEntry[];
+  deletedAt: Date;
+  deletedBy: { id: string; firstName: string; lastName: string } | null;
+  purgeAt: Date | null;
+};
+// A document a retention run acted on, or skipped because of a legal hold.
+export type RetentionRunEntry = {
+  documentId: string;
+  title: string;
+  policyId: string;
+  policyName: string;
+  dueAt: Date;
+};
+// What one retention run did, or would do when dryRun is set.
+export type RetentionRunReport = {
+  dryRun: boolean;
+  ranAt: Date;
+  archived: RetentionRunEntry[];
+  disposed: RetentionRunEntry[];
+  held: RetentionRunEntry[];
+};
+// A stored file an integrity check could not vouch for. versionNumber is null
+// for a document's current file when no version row records it.
+export type IntegrityIssue = {
+  documentId: string;
+  title: string;
+  versionNumber: number | null;
+  filePath: string;
+  expected: string | null;
+  actual: string | null;
+};
+// Files without a recorded checksum get the one computed now (baselined).
+export type IntegrityReport = {
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  baselined: number;
+  missing: IntegrityIssue[];
+  corrupted: IntegrityIssue[];
+};
+// What a visitor without an account sees of a share opened at /s/:code.
+export type PublicShare = {
+  code: string;
+  title: string | null;
+  kind: "FOLDER" | "DOCUMENT";
+  permission: ShareCode["permission"];
+  expiresAt: Date | null;
+  sharedBy: string;
+};
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ImpersonationSession = typeof impersonationSessions.$inferSelect;
+export type InsertImpersonationSession = z.infer<typeof insertImpersonationSessionSchema>;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = z.infer<typeof insertUserIdentitySchema>;
 export type Session = typeof sessions.$inferSelect;
 export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
 export type UserActivity = typeof userActivity.$inferSelect;
 export type InsertUserActivity = z.infer<typeof insertUserActivitySchema>;
 export type LoginInput = z.infer<typeof loginSchema>;